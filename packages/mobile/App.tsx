@@ -1,7 +1,7 @@
 import React, { useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { I18nManager, Platform } from 'react-native';
+import { Platform } from 'react-native';
 import Toast from 'react-native-toast-message';
 import { NavigationContainer, LinkingOptions } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
@@ -11,13 +11,12 @@ import Constants from 'expo-constants';
 
 // Screens
 import { JoinScreen, LobbyScreen, GameScreen, ResultsScreen } from './src/screens';
-import { initializeSupabase } from '@fakash/shared';
+import { initializeSupabase, useGameStore, useLocaleStore, getLocale } from '@fakash/shared';
+import { loadLocalePreference, applyLayoutDirection } from './src/utils';
 
-// Ensure RTL layout for Arabic
-if (!I18nManager.isRTL) {
-  I18nManager.forceRTL(true);
-  // Note: On first run, app will need to reload for RTL to take effect
-}
+// Layout direction follows the UI language (RTL for Arabic)
+// Note: On first run or after switching, app will need to reload for the direction to take effect
+applyLayoutDirection(getLocale());
 
 const Stack = createStackNavigator();
 
@@ -40,6 +39,29 @@ const linking: LinkingOptions<any> = {
 };
 
 export default function App() {
+  const { locale, setLocale, followGameLanguage } = useLocaleStore();
+  const gameLanguage = useGameStore((state) => state.game?.language);
+
+  // Restore the language picked on this device
+  useEffect(() => {
+    loadLocalePreference().then((saved) => {
+      if (saved) setLocale(saved);
+    });
+  }, [setLocale]);
+
+  // Players who never picked a language see the game in its own
+  useEffect(() => {
+    if (gameLanguage) {
+      followGameLanguage(gameLanguage);
+    }
+  }, [gameLanguage, followGameLanguage]);
+
+  useEffect(() => {
+    if (applyLayoutDirection(locale)) {
+      console.log(`🌐 Layout direction for ${locale} applies after the app restarts`);
+    }
+  }, [locale]);
+
   // Initialize Supabase on mount
   useEffect(() => {
     // Try both process.env and Constants.expoConfig for env vars
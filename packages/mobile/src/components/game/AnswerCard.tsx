@@ -1,6 +1,6 @@
 /**
  * AnswerCard Component
- * Selectable answer card for voting phase
+ * Selectable answer card for voting phase, with an optional "funny" like button
  */
 
 import React from 'react';
@@ -14,6 +14,9 @@ interface AnswerCardProps {
   disabled?: boolean;
   style?: ViewStyle;
   subtitle?: string;
+  onLike?: () => void; // Omit to hide the like button (own answer, display mode)
+  isLiked?: boolean;
+  likeCount?: number;
 }
 
 export function AnswerCard({
@@ -22,7 +25,10 @@ export function AnswerCard({
   onPress,
   disabled = false,
   style,
-  subtitle
+  subtitle,
+  onLike,
+  isLiked = false,
+  likeCount = 0,
 }: AnswerCardProps) {
   return (
     <TouchableOpacity
@@ -49,6 +55,18 @@ export function AnswerCard({
             {subtitle}
           </Text>
         )}
+        {onLike && (
+          <TouchableOpacity
+            style={[styles.likeButton, isLiked && styles.likeButtonActive]}
+            onPress={onLike}
+            disabled={isLiked}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.likeText}>
+              😂{likeCount > 0 ? ` ${likeCount}` : ''}
+            </Text>
+          </TouchableOpacity>
+        )}
       </BlurView>
     </TouchableOpacity>
   );
@@ -102,4 +120,20 @@ const styles = StyleSheet.create({
   selectedSubtitle: {
     color: '#06b6d4',
   },
+  likeButton: {
+    position: 'absolute',
+    left: 8,
+    top: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  likeButtonActive: {
+    backgroundColor: 'rgba(245, 158, 11, 0.3)',
+  },
+  likeText: {
+    fontSize: 14,
+    color: '#ffffff',
+  },
 });
@@ -5,6 +5,7 @@
 
 import React from 'react';
 import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { useLocaleStore } from '@fakash/shared';
 import { COLORS, BORDER_RADIUS, SPACING, TEXT_STYLES } from '../../theme';
 
 interface ConnectionStatusProps {
@@ -13,6 +14,8 @@ interface ConnectionStatusProps {
 }
 
 export function ConnectionStatus({ isConnected, style }: ConnectionStatusProps) {
+  const t = useLocaleStore((state) => state.t);
+
   return (
     <View style={[styles.container, style]}>
       <View
@@ -26,7 +29,7 @@ export function ConnectionStatus({ isConnected, style }: ConnectionStatusProps)
         ]}
       />
       <Text style={styles.text}>
-        {isConnected ? 'متصل' : 'غير متصل'}
+        {isConnected ? t('CONNECTED') : t('DISCONNECTED')}
       </Text>
     </View>
   );
@@ -34,7 +37,7 @@ export function ConnectionStatus({ isConnected, style }: ConnectionStatusProps)
 
 const styles = StyleSheet.create({
   container: {
-    flexDirection: 'row-reverse', // RTL
+    flexDirection: 'row', // Mirrored by I18nManager in RTL
     alignItems: 'center',
     paddingHorizontal: SPACING.sm,
     paddingVertical: SPACING.xs,
@@ -0,0 +1,115 @@
+/**
+ * RoundScoreBreakdown Component
+ * What each player scored this round and why, revealed row by row
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Animated, ViewStyle } from 'react-native';
+import { useLocaleStore, getScoreReasonLabel, type RoundScoreBreakdown as Breakdown } from '@fakash/shared';
+import { COLORS, BORDER_RADIUS, SPACING, TEXT_STYLES } from '../../theme';
+
+interface RoundScoreBreakdownProps {
+  breakdown: Breakdown[];
+  highlightPlayerId?: string;
+  style?: ViewStyle;
+}
+
+const STAGGER_MS = 150;
+
+export function RoundScoreBreakdown({ breakdown, highlightPlayerId, style }: RoundScoreBreakdownProps) {
+  const t = useLocaleStore((state) => state.t);
+  const locale = useLocaleStore((state) => state.locale);
+
+  // One reveal per player row, restarted whenever a new breakdown arrives
+  const reveals = useMemo(() => breakdown.map(() => new Animated.Value(0)), [breakdown]);
+
+  useEffect(() => {
+    Animated.stagger(
+      STAGGER_MS,
+      reveals.map((value) =>
+        Animated.timing(value, { toValue: 1, duration: 400, useNativeDriver: true })
+      )
+    ).start();
+  }, [reveals]);
+
+  if (breakdown.length === 0) return null;
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>{t('ROUND_BREAKDOWN')}</Text>
+      {breakdown.map((player, index) => (
+        <Animated.View
+          key={player.player_id}
+          style={[
+            styles.row,
+            player.player_id === highlightPlayerId && styles.highlightedRow,
+            {
+              opacity: reveals[index],
+              transform: [
+                { translateY: reveals[index].interpolate({ inputRange: [0, 1], outputRange: [20, 0] }) },
+              ],
+            },
+          ]}
+        >
+          <View style={styles.header}>
+            <Text style={styles.playerName}>{player.player_name}</Text>
+            <Text style={styles.total}>+{player.total}</Text>
+          </View>
+          {player.events.map((event) => (
+            <Text key={event.reason} style={styles.event}>
+              <Text style={styles.eventPoints}>+{event.points_earned}</Text> {getScoreReasonLabel(event, locale)}
+            </Text>
+          ))}
+        </Animated.View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    gap: SPACING.sm,
+  },
+  title: {
+    ...TEXT_STYLES.h4,
+    color: COLORS.text.primary,
+    textAlign: 'center',
+    marginBottom: SPACING.xs,
+  },
+  row: {
+    padding: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.background.glass,
+    borderWidth: 1,
+    borderColor: COLORS.background.glassBorder,
+  },
+  highlightedRow: {
+    borderColor: COLORS.secondary.light,
+    backgroundColor: 'rgba(6, 182, 212, 0.15)',
+  },
+  header: {
+    flexDirection: 'row', // Mirrored by I18nManager in RTL
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  playerName: {
+    ...TEXT_STYLES.body,
+    fontWeight: 'bold',
+    color: COLORS.text.primary,
+  },
+  total: {
+    ...TEXT_STYLES.body,
+    fontWeight: 'bold',
+    color: '#fbbf24',
+  },
+  event: {
+    ...TEXT_STYLES.bodySmall,
+    color: COLORS.text.muted,
+  },
+  eventPoints: {
+    fontWeight: 'bold',
+    color: COLORS.text.primary,
+  },
+});
@@ -11,6 +11,7 @@ import { COLORS, TEXT_STYLES } from '../../theme';
 interface TimerProps {
   duration: number; // Total duration in seconds
   timeRemaining: number; // Current time remaining
+  multiplier?: number; // Round points multiplier, badge shown when > 1
   size?: number;
   strokeWidth?: number;
   style?: ViewStyle;
@@ -21,6 +22,7 @@ const AnimatedCircle = Animated.createAnimatedComponent(Circle);
 export function Timer({
   duration,
   timeRemaining,
+  multiplier = 1,
   size = 120,
   strokeWidth = 8,
   style,
@@ -88,6 +90,13 @@ export function Timer({
           {timeRemaining}
         </Text>
       </View>
+
+      {/* Multiplier Badge */}
+      {multiplier > 1 && (
+        <View style={styles.multiplierBadge}>
+          <Text style={styles.multiplierText}>×{multiplier}</Text>
+        </View>
+      )}
     </View>
   );
 }
@@ -103,4 +112,18 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  multiplierBadge: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    backgroundColor: COLORS.status.warning,
+  },
+  multiplierText: {
+    ...TEXT_STYLES.body,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
 });
@@ -5,3 +5,4 @@
 export { PlayerAvatar } from './PlayerAvatar';
 export { Timer } from './Timer';
 export { ConnectionStatus } from './ConnectionStatus';
+export { RoundScoreBreakdown } from './RoundScoreBreakdown';
@@ -111,7 +111,7 @@ export function CodeInput({
 
 const styles = StyleSheet.create({
   container: {
-    flexDirection: 'row-reverse', // RTL
+    flexDirection: 'row', // Mirrored by I18nManager in RTL
     justifyContent: 'center',
     gap: SPACING.sm,
   },
@@ -68,7 +68,7 @@ const styles = StyleSheet.create({
     color: COLORS.text.primary,
     fontSize: FONT_SIZES.base,
     fontFamily: FONT_FAMILY.fallback,
-    textAlign: 'right', // RTL
+    textAlign: 'left', // Start edge, mirrored by I18nManager in RTL
   },
   inputError: {
     borderColor: COLORS.status.error,
@@ -77,6 +77,6 @@ const styles = StyleSheet.create({
     ...TEXT_STYLES.caption,
     color: COLORS.status.error,
     marginTop: SPACING.xs,
-    textAlign: 'right', // RTL
+    textAlign: 'left', // Start edge, mirrored by I18nManager in RTL
   },
 });
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
 import { CameraView, Camera } from 'expo-camera';
 import * as Haptics from 'expo-haptics';
+import { useLocaleStore } from '@fakash/shared';
 import { safeHaptics } from '../../utils/haptics';
 
 interface QRScannerProps {
@@ -11,6 +12,7 @@ interface QRScannerProps {
 }
 
 export function QRScanner({ onScan, onClose, visible }: QRScannerProps) {
+  const t = useLocaleStore((state) => state.t);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanned, setScanned] = useState(false);
 
@@ -64,17 +66,15 @@ export function QRScanner({ onScan, onClose, visible }: QRScannerProps) {
       <View style={styles.container}>
         {hasPermission === null && (
           <View style={styles.messageContainer}>
-            <Text style={styles.message}>طلب إذن الكاميرا...</Text>
-            <Text style={styles.messageEn}>Requesting camera permission...</Text>
+            <Text style={styles.message}>{t('CAMERA_PERMISSION_REQUEST')}</Text>
           </View>
         )}
 
         {hasPermission === false && (
           <View style={styles.messageContainer}>
-            <Text style={styles.message}>لا يمكن الوصول إلى الكاميرا</Text>
-            <Text style={styles.messageEn}>Camera access denied</Text>
+            <Text style={styles.message}>{t('CAMERA_UNAVAILABLE')}</Text>
             <TouchableOpacity style={styles.button} onPress={onClose}>
-              <Text style={styles.buttonText}>إغلاق • Close</Text>
+              <Text style={styles.buttonText}>{t('CLOSE')}</Text>
             </TouchableOpacity>
           </View>
         )}
@@ -103,10 +103,7 @@ export function QRScanner({ onScan, onClose, visible }: QRScannerProps) {
                 </View>
                 <View style={styles.bottomOverlay}>
                   <Text style={styles.instruction}>
-                    قم بتوجيه الكاميرا إلى رمز QR
-                  </Text>
-                  <Text style={styles.instructionEn}>
-                    Point camera at QR code
+                    {t('POINT_CAMERA')}
                   </Text>
                 </View>
               </View>
@@ -137,12 +134,6 @@ const styles = StyleSheet.create({
     fontSize: 20,
     color: '#ffffff',
     textAlign: 'center',
-    marginBottom: 8,
-  },
-  messageEn: {
-    fontSize: 16,
-    color: '#a78bfa',
-    textAlign: 'center',
     marginBottom: 24,
   },
   camera: {
@@ -209,12 +200,6 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#ffffff',
     textAlign: 'center',
-    marginBottom: 8,
-  },
-  instructionEn: {
-    fontSize: 14,
-    color: '#a78bfa',
-    textAlign: 'center',
   },
   closeButton: {
     position: 'absolute',
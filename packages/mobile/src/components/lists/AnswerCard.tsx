@@ -79,7 +79,7 @@ const styles = StyleSheet.create({
     gap: SPACING.sm,
   },
   playerInfo: {
-    flexDirection: 'row-reverse', // RTL
+    flexDirection: 'row', // Mirrored by I18nManager in RTL
     alignItems: 'center',
     gap: SPACING.xs,
   },
@@ -90,7 +90,7 @@ const styles = StyleSheet.create({
   answerText: {
     ...TEXT_STYLES.body,
     color: COLORS.text.primary,
-    textAlign: 'right', // RTL
+    textAlign: 'left', // Start edge, mirrored by I18nManager in RTL
   },
   checkmark: {
     position: 'absolute',
@@ -93,7 +93,7 @@ export function LeaderboardRow({ player, rank, style }: LeaderboardRowProps) {
 
 const styles = StyleSheet.create({
   container: {
-    flexDirection: 'row-reverse', // RTL
+    flexDirection: 'row', // Mirrored by I18nManager in RTL
     alignItems: 'center',
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.md,
@@ -117,7 +117,7 @@ const styles = StyleSheet.create({
   },
   playerInfo: {
     flex: 1,
-    flexDirection: 'row-reverse', // RTL
+    flexDirection: 'row', // Mirrored by I18nManager in RTL
     alignItems: 'center',
     gap: SPACING.sm,
   },
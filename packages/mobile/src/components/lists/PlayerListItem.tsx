@@ -5,7 +5,7 @@
 
 import React from 'react';
 import { View, Text, StyleSheet, ViewStyle } from 'react-native';
-import { Player } from '@fakash/shared';
+import { Player, useLocaleStore } from '@fakash/shared';
 import { PlayerAvatar } from '../game/PlayerAvatar';
 import { COLORS, SPACING, TEXT_STYLES, BORDER_RADIUS } from '../../theme';
 
@@ -20,6 +20,8 @@ export function PlayerListItem({
   showScore = false,
   style,
 }: PlayerListItemProps) {
+  const t = useLocaleStore((state) => state.t);
+
   return (
     <View style={[styles.container, style]}>
       <PlayerAvatar
@@ -37,7 +39,7 @@ export function PlayerListItem({
 
         {showScore && (
           <Text style={styles.score}>
-            {player.score} نقطة
+            {t('POINTS_COUNT', { count: player.score })}
           </Text>
         )}
       </View>
@@ -47,7 +49,7 @@ export function PlayerListItem({
 
 const styles = StyleSheet.create({
   container: {
-    flexDirection: 'row-reverse', // RTL
+    flexDirection: 'row', // Mirrored by I18nManager in RTL
     alignItems: 'center',
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.sm,
@@ -1,12 +1,28 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Animated, TextInput, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Animated, TextInput, ScrollView, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { useGameStore, useRoundStore } from '@fakash/shared';
+import {
+  useGameStore,
+  useRoundStore,
+  useLocaleStore,
+  GameError,
+  formatError,
+  GAME_CONFIG,
+  isAnswerAuthor,
+  isTeammateAnswer,
+  getRoundTimeRemaining,
+  isRoundPaused,
+  isUntimedRound,
+  type RoundScoreBreakdown as RoundBreakdown,
+} from '@fakash/shared';
 import { Logo } from '../components/core/Logo';
+import { AnswerCard } from '../components/game/AnswerCard';
+import { RoundScoreBreakdown } from '../components/game/RoundScoreBreakdown';
 
 export const GameScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { game, currentPlayer } = useGameStore();
+  const { game, currentPlayer, players, isHost, isAudience, isPhaseCaptain } = useGameStore();
+  const t = useLocaleStore((state) => state.t);
   const {
     currentRound,
     question,
@@ -18,11 +34,22 @@ export const GameScreen: React.FC = () => {
     hasSubmittedVote,
     submitAnswer,
     submitVote,
+    submitAudienceVote,
+    likeAnswer,
+    answerLikes,
+    pauseRound,
+    resumeRound,
+    extendTimer,
+    skipQuestion,
+    advanceRound,
+    chooseCategory,
   } = useRoundStore();
 
   const [answerText, setAnswerText] = useState('');
   const [selectedAnswerId, setSelectedAnswerId] = useState<string | null>(null);
   const [isRecovering, setIsRecovering] = useState(false);
+  const [isControlling, setIsControlling] = useState(false);
+  const [roundBreakdown, setRoundBreakdown] = useState<RoundBreakdown[]>([]);
   const progressAnim = useRef(new Animated.Value(1)).current;
 
   // Guard: redirect if no game or player
@@ -33,6 +60,27 @@ export const GameScreen: React.FC = () => {
     }
   }, [game, currentPlayer, navigation]);
 
+  // What the server's score ledger gave each player for the finished round
+  const roundId = currentRound?.id;
+  useEffect(() => {
+    if (!roundId || roundStatus !== 'completed') {
+      setRoundBreakdown([]);
+      return;
+    }
+
+    const loadRoundBreakdown = async () => {
+      try {
+        const { ScoringService } = await import('@fakash/shared');
+        setRoundBreakdown(await ScoringService.getRoundBreakdown(roundId));
+      } catch (err) {
+        console.error('Failed to load round breakdown:', err);
+      }
+    };
+
+    loadRoundBreakdown();
+  }, [roundId, roundStatus]);
+  const myRoundPoints = roundBreakdown.find((b) => b.player_id === currentPlayer?.id)?.total ?? 0;
+
   // Recovery function - fetches current round state from server
   const recoverRoundState = useCallback(async () => {
     if (!game || !currentPlayer) return;
@@ -54,15 +102,17 @@ export const GameScreen: React.FC = () => {
 
       console.log('✅ Found round on server:', round);
 
-      // Fetch question
+      // Fetch question (none yet while the chooser is picking the category)
       const supabase = getSupabase();
-      const { data: q } = await supabase
-        .from('questions')
-        .select('*')
-        .eq('id', round.question_id)
-        .single();
-
-      if (!q) {
+      const { data: q } = round.question_id
+        ? await supabase
+          .from('questions')
+          .select('*')
+          .eq('id', round.question_id)
+          .single()
+        : { data: null };
+
+      if (!q && round.status !== 'choosing') {
         console.log('⚠️ Failed to fetch question');
         setIsRecovering(false);
         return;
@@ -73,12 +123,8 @@ export const GameScreen: React.FC = () => {
         ? await RoundService.getRoundAnswers(round.id)
         : [];
 
-      // Calculate time remaining from server timestamp
-      const startTime = round.timer_starts_at
-        ? new Date(round.timer_starts_at).getTime()
-        : Date.now();
-      const elapsed = Math.floor((Date.now() - startTime) / 1000);
-      const remaining = Math.max(0, round.timer_duration - elapsed);
+      // Calculate time remaining from server timestamp (frozen while paused)
+      const remaining = getRoundTimeRemaining(round);
 
       // Check if player has already submitted answer
       const { data: playerAnswer } = await supabase
@@ -103,7 +149,7 @@ export const GameScreen: React.FC = () => {
         roundNumber: round.round_number,
         roundStatus: round.status,
         timeRemaining: remaining,
-        timerActive: remaining > 0,
+        timerActive: !isRoundPaused(round) && remaining > 0,
         allAnswers: answers,
         playerAnswers: new Map(),
         myAnswer: playerAnswer?.answer_text || null,
@@ -125,7 +171,7 @@ export const GameScreen: React.FC = () => {
   // Recovery mechanism: self-heal if stuck in loading state
   useEffect(() => {
     if (!game || !currentPlayer) return;
-    if (currentRound && question) return; // Already loaded
+    if (currentRound && (question || roundStatus === 'choosing')) return; // Already loaded
     if (game.status !== 'playing') return; // Only recover during active games
     if (isRecovering) return; // Already recovering
 
@@ -143,7 +189,7 @@ export const GameScreen: React.FC = () => {
     }, 2000);
 
     return () => clearTimeout(timer);
-  }, [game, currentPlayer, currentRound, question, isRecovering, recoverRoundState]);
+  }, [game, currentPlayer, currentRound, question, roundStatus, isRecovering, recoverRoundState]);
 
   // Clear inputs when round changes
   useEffect(() => {
@@ -229,10 +275,20 @@ export const GameScreen: React.FC = () => {
 
   // Handle timer expiration - call server-side force_advance_round
   useEffect(() => {
-    if (!currentRound || timeRemaining !== 0) {
+    // Untimed rounds wait for everyone (the server ignores them anyway)
+    if (!currentRound || timeRemaining !== 0 || isUntimedRound(currentRound)) {
       return;
     }
 
+    // Chooser ran out of time: the phase captain has a category picked at random
+    if (roundStatus === 'choosing') {
+      if (!isPhaseCaptain) return;
+      const timer = setTimeout(() => {
+        chooseCategory(null).catch((err) => console.error('❌ Failed to auto-pick category:', err));
+      }, 500);
+      return () => clearTimeout(timer);
+    }
+
     const handleTimerExpired = async () => {
       console.log('⏰ Timer expired! Calling server-side force_advance_round...');
       try {
@@ -256,13 +312,58 @@ export const GameScreen: React.FC = () => {
     // Small delay to prevent multiple rapid calls
     const timer = setTimeout(handleTimerExpired, 500);
     return () => clearTimeout(timer);
-  }, [currentRound, timeRemaining]);
+  }, [currentRound, timeRemaining, roundStatus, isPhaseCaptain, chooseCategory]);
 
   // Loading guard - will redirect if no game/player
   if (!game || !currentPlayer) {
     return null; // Navigation will happen in useEffect
   }
 
+  // Round chooser is picking the category, the question comes after
+  if (currentRound && roundStatus === 'choosing') {
+    const isChooser = currentPlayer.id === currentRound.chooser_id;
+    const chooserName = players.find((p) => p.id === currentRound.chooser_id)?.user_name ?? t('PLAYER');
+
+    const handlePickCategory = async (category: string) => {
+      setIsControlling(true);
+      try {
+        await chooseCategory(category);
+      } catch (err) {
+        console.error('Failed to choose category:', err);
+        Alert.alert(t('ERROR'), err instanceof GameError ? formatError(err) : t('CHOOSE_CATEGORY_FAILED'));
+      } finally {
+        setIsControlling(false);
+      }
+    };
+
+    return (
+      <View style={styles.container}>
+        <Logo size="md" style={styles.logo} />
+        <View style={styles.contentContainer}>
+          <View>
+            <View style={styles.questionCard}>
+              <Text style={styles.questionIcon}>🗂️</Text>
+              <Text style={styles.questionText}>
+                {isChooser ? t('CHOOSE_CATEGORY') : t('PLAYER_CHOOSING_CATEGORY', { name: chooserName })}
+              </Text>
+              <Text style={styles.waitingText}>⏱️ {t('SECONDS_LEFT', { seconds: timeRemaining })}</Text>
+            </View>
+            {currentRound.category_options.map((category) => (
+              <TouchableOpacity
+                key={category}
+                style={styles.categoryOption}
+                onPress={() => handlePickCategory(category)}
+                disabled={!isChooser || isControlling}
+              >
+                <Text style={styles.categoryOptionText}>{category}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+    );
+  }
+
   // Show loading while waiting for round to start
   if (!currentRound || !question) {
     return (
@@ -270,14 +371,14 @@ export const GameScreen: React.FC = () => {
         <Logo size="md" style={styles.logo} />
         <View style={styles.loadingContainer}>
           <Text style={styles.loadingText}>
-            {isRecovering ? 'جاري استعادة الحالة من الخادم...' : 'في انتظار بدء الجولة...'}
+            {isRecovering ? t('RECOVERING') : t('WAITING_FOR_ROUND')}
           </Text>
           {!isRecovering && game.status === 'playing' && (
             <TouchableOpacity
               style={styles.retryButton}
               onPress={recoverRoundState}
             >
-              <Text style={styles.retryButtonText}>🔄 إعادة المحاولة</Text>
+              <Text style={styles.retryButtonText}>{t('RETRY')}</Text>
             </TouchableOpacity>
           )}
         </View>
@@ -294,6 +395,9 @@ export const GameScreen: React.FC = () => {
       await submitAnswer(currentPlayer.id, answerText.trim());
     } catch (err) {
       console.error('Failed to submit answer:', err);
+      if (err instanceof GameError) {
+        Alert.alert(t('ERROR'), formatError(err));
+      }
     }
   };
 
@@ -306,7 +410,12 @@ export const GameScreen: React.FC = () => {
       // Optimistically block repeat taps
       useRoundStore.setState({ hasSubmittedVote: true });
       setSelectedAnswerId(answerId);
-      await submitVote(currentPlayer.id, answerId);
+      // Audience votes are stored separately and never count toward the quorum
+      if (isAudience) {
+        await submitAudienceVote(currentPlayer.id, answerId);
+      } else {
+        await submitVote(currentPlayer.id, answerId);
+      }
     } catch (err) {
       console.error('Failed to submit vote:', err);
       // Allow retry on error
@@ -314,52 +423,121 @@ export const GameScreen: React.FC = () => {
     }
   };
 
+  const isPaused = isRoundPaused(currentRound);
+  const isUntimed = isUntimedRound(currentRound);
+  const canAnswer = !isPaused && (isUntimed || (timerActive && timeRemaining > 0));
+  const canControlRound = isHost && (roundStatus === 'answering' || roundStatus === 'voting');
+
+  // Host round controls (pause/resume, extra time, skip)
+  const runRoundControl = async (action: () => Promise<void>) => {
+    setIsControlling(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Failed to control round:', err);
+      Alert.alert(t('ERROR'), err instanceof GameError ? formatError(err) : t('COMMAND_FAILED'));
+    } finally {
+      setIsControlling(false);
+    }
+  };
+
+  const handleSkipQuestion = () => {
+    Alert.alert(t('SKIP_QUESTION_TITLE'), t('SKIP_CONFIRM_DETAIL'), [
+      { text: t('CANCEL'), style: 'cancel' },
+      { text: t('SKIP'), style: 'destructive', onPress: () => runRoundControl(skipQuestion) },
+    ]);
+  };
+
+  const handleAdvanceRound = () => {
+    Alert.alert(t('ADVANCE_TITLE'), t('ADVANCE_CONFIRM'), [
+      { text: t('CANCEL'), style: 'cancel' },
+      { text: t('ADVANCE_NOW'), onPress: () => runRoundControl(advanceRound) },
+    ]);
+  };
+
+  const handleLike = async (answerId: string) => {
+    if (!currentPlayer) {
+      return;
+    }
+
+    try {
+      await likeAnswer(currentPlayer.id, answerId);
+    } catch (err) {
+      console.error('Failed to like answer:', err);
+    }
+  };
+
   return (
     <View style={styles.container}>
       <Logo size="md" style={styles.logo} />
 
       <View style={styles.contentContainer}>
+        {isPaused && (
+          <View style={styles.pausedBanner}>
+            <Text style={styles.pausedText}>{t('PAUSED')}</Text>
+          </View>
+        )}
+
         {/* Question Card */}
         <View style={styles.questionCard}>
+          {(currentRound.multiplier ?? 1) > 1 && (
+            <View style={styles.multiplierBadge}>
+              <Text style={styles.multiplierText}>
+                {t('MULTIPLIER_ANNOUNCEMENT', {
+                  label: currentRound.round_number === game.round_count ? t('FINAL_ROUND') : t('BONUS_ROUND'),
+                  multiplier: currentRound.multiplier,
+                })}
+              </Text>
+            </View>
+          )}
           <View style={styles.questionIconContainer}>
             <Text style={styles.questionIcon}>؟</Text>
           </View>
+          {currentRound.category && (
+            <Text style={styles.categoryLabel}>🗂️ {currentRound.category}</Text>
+          )}
           <Text style={styles.questionText}>{question.question_text}</Text>
         </View>
 
         {/* Phase-based content */}
         {roundStatus === 'answering' && (
           <View style={styles.answerInputContainer}>
-            {!hasSubmittedAnswer ? (
+            {isAudience ? (
+              <View style={styles.submittedContainer}>
+                <Text style={styles.submittedIcon}>👀</Text>
+                <Text style={styles.submittedText}>{t('AUDIENCE_BADGE')}</Text>
+                <Text style={styles.waitingText}>{t('WAITING_FOR_ANSWERS')}...</Text>
+              </View>
+            ) : !hasSubmittedAnswer ? (
               <>
                 <TextInput
                   style={styles.answerInput}
-                  placeholder="اكتب إجابتك هنا..."
+                  placeholder={t('ANSWER_PLACEHOLDER')}
                   placeholderTextColor="#9ca3af"
                   value={answerText}
                   onChangeText={setAnswerText}
                   maxLength={100}
                   multiline
                   textAlign="right"
-                  editable={timerActive && timeRemaining > 0}
+                  editable={canAnswer}
                 />
                 <TouchableOpacity
                   style={[
                     styles.submitButton,
-                    (!answerText.trim() || !timerActive || timeRemaining === 0) && styles.submitButtonDisabled
+                    (!answerText.trim() || !canAnswer) && styles.submitButtonDisabled
                   ]}
                   onPress={handleSubmitAnswer}
-                  disabled={!answerText.trim() || !timerActive || timeRemaining === 0}
+                  disabled={!answerText.trim() || !canAnswer}
                   activeOpacity={0.8}
                 >
-                  <Text style={styles.submitButtonText}>إرسال الإجابة</Text>
+                  <Text style={styles.submitButtonText}>{t('SUBMIT_ANSWER')}</Text>
                 </TouchableOpacity>
               </>
             ) : (
               <View style={styles.submittedContainer}>
                 <Text style={styles.submittedIcon}>✅</Text>
-                <Text style={styles.submittedText}>تم إرسال إجابتك</Text>
-                <Text style={styles.waitingText}>في انتظار اللاعبين الآخرين...</Text>
+                <Text style={styles.submittedText}>{t('ANSWER_SUBMITTED')}</Text>
+                <Text style={styles.waitingText}>{t('WAITING_FOR_OTHER_PLAYERS')}</Text>
               </View>
             )}
           </View>
@@ -367,33 +545,30 @@ export const GameScreen: React.FC = () => {
 
         {roundStatus === 'voting' && (
           <View style={styles.votingContainer}>
-            <Text style={styles.votingTitle}>اختر الإجابة الصحيحة</Text>
+            <Text style={styles.votingTitle}>{t('CHOOSE_CORRECT_ANSWER')}</Text>
             <ScrollView style={styles.answersList}>
               {allAnswers.map((answer) => {
-                const isOwnAnswer = answer.player_id === currentPlayer?.id;
+                const isOwnAnswer = isAnswerAuthor(answer, currentPlayer?.id);
+                const isTeammate = !isAudience && isTeammateAnswer(answer, players, currentPlayer?.id);
+                const likers = answerLikes.get(answer.id) || [];
                 return (
-                  <TouchableOpacity
+                  <AnswerCard
                     key={answer.id}
-                    style={[
-                      styles.answerCard,
-                      selectedAnswerId === answer.id && styles.answerCardSelected,
-                      (hasSubmittedVote || isOwnAnswer) && styles.answerCardDisabled,
-                      isOwnAnswer && styles.ownAnswerCard,
-                    ]}
-                    onPress={() => !isOwnAnswer && handleVote(answer.id)}
-                    disabled={hasSubmittedVote || isOwnAnswer}
-                    activeOpacity={0.7}
-                  >
-                    <Text style={styles.answerCardText}>{answer.answer_text}</Text>
-                    {isOwnAnswer && (
-                      <Text style={styles.ownAnswerLabel}>إجابتك</Text>
-                    )}
-                  </TouchableOpacity>
+                    answer={answer.answer_text}
+                    isSelected={selectedAnswerId === answer.id}
+                    onPress={() => !isOwnAnswer && !isTeammate && handleVote(answer.id)}
+                    disabled={hasSubmittedVote || isOwnAnswer || isTeammate || isPaused}
+                    style={isOwnAnswer || isTeammate ? styles.ownAnswerCard : undefined}
+                    subtitle={isOwnAnswer ? t('YOUR_ANSWER') : isTeammate ? t('TEAMMATE_ANSWER') : undefined}
+                    onLike={isOwnAnswer ? undefined : () => handleLike(answer.id)}
+                    isLiked={likers.includes(currentPlayer.id)}
+                    likeCount={likers.length}
+                  />
                 );
               })}
             </ScrollView>
             {hasSubmittedVote && (
-              <Text style={styles.waitingText}>في انتظار التصويت...</Text>
+              <Text style={styles.waitingText}>{t('WAITING_FOR_VOTES')}...</Text>
             )}
           </View>
         )}
@@ -401,15 +576,25 @@ export const GameScreen: React.FC = () => {
         {roundStatus === 'completed' && (
           <View style={styles.completedContainer}>
             <Text style={styles.completedIcon}>🎉</Text>
-            <Text style={styles.completedText}>انتهت الجولة</Text>
-            <Text style={styles.waitingText}>في انتظار الجولة التالية...</Text>
+            <Text style={styles.completedText}>{t('ROUND_OVER')}</Text>
+            {myRoundPoints > 0 && (
+              <Text style={styles.roundPointsText}>+{t('POINTS_COUNT', { count: myRoundPoints })}</Text>
+            )}
+            <RoundScoreBreakdown
+              breakdown={roundBreakdown}
+              highlightPlayerId={currentPlayer?.id}
+              style={styles.roundBreakdown}
+            />
+            <Text style={styles.waitingText}>{t('WAITING_NEXT_ROUND')}</Text>
           </View>
         )}
 
         {/* Timer */}
         <View style={styles.timerContainer}>
-          {timerActive && timeRemaining !== null && (
-            <Text style={styles.timerText}>{timeRemaining} ثانية</Text>
+          {isUntimed ? (
+            <Text style={styles.timerText}>{t('UNTIMED')}</Text>
+          ) : timerActive && timeRemaining !== null && (
+            <Text style={styles.timerText}>{t('SECONDS_LEFT', { seconds: timeRemaining })}</Text>
           )}
           <View style={styles.progressBarContainer}>
             <Animated.View
@@ -424,6 +609,42 @@ export const GameScreen: React.FC = () => {
               ]}
             />
           </View>
+          {canControlRound && (
+            <View style={styles.hostControls}>
+              <TouchableOpacity
+                style={styles.hostControlButton}
+                onPress={() => runRoundControl(isPaused ? resumeRound : pauseRound)}
+                disabled={isControlling}
+              >
+                <Text style={styles.hostControlText}>{isPaused ? t('RESUME') : t('PAUSE_SHORT')}</Text>
+              </TouchableOpacity>
+              {!isUntimed && (
+                <TouchableOpacity
+                  style={styles.hostControlButton}
+                  onPress={() => runRoundControl(() => extendTimer(GAME_CONFIG.TIMER_EXTENSION))}
+                  disabled={isControlling}
+                >
+                  <Text style={styles.hostControlText}>⏱️ +{GAME_CONFIG.TIMER_EXTENSION}</Text>
+                </TouchableOpacity>
+              )}
+              {roundStatus === 'answering' && (
+                <TouchableOpacity
+                  style={styles.hostControlButton}
+                  onPress={handleSkipQuestion}
+                  disabled={isControlling}
+                >
+                  <Text style={styles.hostControlText}>⏭️ {t('SKIP')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.hostControlButton}
+                onPress={handleAdvanceRound}
+                disabled={isControlling}
+              >
+                <Text style={styles.hostControlText}>{t('ADVANCE_NOW')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       </View>
     </View>
@@ -454,6 +675,21 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 24,
   },
+  multiplierBadge: {
+    backgroundColor: 'rgba(245, 158, 11, 0.25)',
+    borderWidth: 1,
+    borderColor: '#f59e0b',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    marginBottom: 16,
+  },
+  multiplierText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fbbf24',
+    textAlign: 'center',
+  },
   questionIconContainer: {
     width: 56,
     height: 56,
@@ -540,37 +776,10 @@ const styles = StyleSheet.create({
   answersList: {
     flex: 1,
   },
-  answerCard: {
-    backgroundColor: 'rgba(139, 92, 246, 0.2)',
-    borderWidth: 2,
-    borderColor: '#8b5cf6',
-    borderRadius: 16,
-    padding: 20,
-    marginBottom: 12,
-  },
-  answerCardSelected: {
-    backgroundColor: '#3b82f6',
-    borderColor: '#3b82f6',
-  },
-  answerCardDisabled: {
-    opacity: 0.5,
-  },
-  answerCardText: {
-    fontSize: 18,
-    color: '#ffffff',
-    textAlign: 'right',
-  },
   ownAnswerCard: {
     borderColor: '#fbbf24',
     backgroundColor: 'rgba(251, 191, 36, 0.2)',
   },
-  ownAnswerLabel: {
-    fontSize: 12,
-    color: '#fbbf24',
-    marginTop: 4,
-    fontWeight: 'bold',
-    textAlign: 'right',
-  },
   completedContainer: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -585,6 +794,14 @@ const styles = StyleSheet.create({
     color: '#10b981',
     marginBottom: 12,
   },
+  roundPointsText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fbbf24',
+  },
+  roundBreakdown: {
+    marginTop: 24,
+  },
   waitingText: {
     fontSize: 16,
     color: '#9ca3af',
@@ -645,4 +862,56 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     textAlign: 'center',
   },
+  pausedBanner: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  pausedText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  hostControls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  hostControlButton: {
+    backgroundColor: 'rgba(139, 92, 246, 0.3)',
+    borderColor: '#8b5cf6',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  hostControlText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  categoryLabel: {
+    fontSize: 14,
+    color: '#c4b5fd',
+    marginBottom: 8,
+  },
+  categoryOption: {
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    borderColor: '#8b5cf6',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 16,
+    marginBottom: 12,
+  },
+  categoryOptionText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
 });
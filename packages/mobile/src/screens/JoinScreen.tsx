@@ -1,30 +1,40 @@
 import React, { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, KeyboardAvoidingView, Platform } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { useGameStore } from '@fakash/shared';
+import { useGameStore, useLocaleStore, formatError, PlayerRole, LANGUAGES, Locale } from '@fakash/shared';
 import { QRScanner } from '../components/inputs/QRScanner';
 import { Logo } from '../components/core/Logo';
+import { saveLocalePreference } from '../utils/localePreference';
 
 export const JoinScreen: React.FC = () => {
   const navigation = useNavigation();
   const { joinGame, isLoading, error } = useGameStore();
+  const { locale, setLocale, t } = useLocaleStore();
   const [gameCode, setGameCode] = useState('');
   const [playerName, setPlayerName] = useState('');
   const [showScanner, setShowScanner] = useState(false);
 
-  const handleJoin = async () => {
+  const handleJoin = async (role: PlayerRole = 'player') => {
     if (!gameCode.trim() || !playerName.trim()) {
       return;
     }
 
     try {
-      await joinGame(gameCode.toUpperCase(), playerName);
+      await joinGame(gameCode.toUpperCase(), playerName, role);
       navigation.navigate('Lobby' as never);
     } catch (err) {
       console.error('Failed to join game:', err);
     }
   };
 
+  const locales = Object.keys(LANGUAGES) as Locale[];
+  const nextLocale = locales[(locales.indexOf(locale) + 1) % locales.length];
+
+  const handleSwitchLanguage = () => {
+    setLocale(nextLocale);
+    saveLocalePreference(nextLocale);
+  };
+
   return (
     <KeyboardAvoidingView
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -36,7 +46,7 @@ export const JoinScreen: React.FC = () => {
         <View style={styles.form}>
           <TextInput
             style={styles.input}
-            placeholder="رمز اللعبة"
+            placeholder={t('GAME_CODE_PLACEHOLDER')}
             placeholderTextColor="#9ca3af"
             value={gameCode}
             onChangeText={setGameCode}
@@ -46,7 +56,7 @@ export const JoinScreen: React.FC = () => {
 
           <View style={styles.divider}>
             <View style={styles.dividerLine} />
-            <Text style={styles.dividerText}>أو</Text>
+            <Text style={styles.dividerText}>{t('OR')}</Text>
             <View style={styles.dividerLine} />
           </View>
 
@@ -57,13 +67,12 @@ export const JoinScreen: React.FC = () => {
             disabled={isLoading}
           >
             <Text style={styles.scanIcon}>📷</Text>
-            <Text style={styles.scanButtonText}>مسح QR للانضمام</Text>
-            <Text style={styles.scanButtonSubtext}>Scan QR Code</Text>
+            <Text style={styles.scanButtonText}>{t('SCAN_QR_TO_JOIN')}</Text>
           </TouchableOpacity>
 
           <TextInput
             style={styles.input}
-            placeholder="اسمك"
+            placeholder={t('YOUR_NAME')}
             placeholderTextColor="#9ca3af"
             value={playerName}
             onChangeText={setPlayerName}
@@ -71,18 +80,31 @@ export const JoinScreen: React.FC = () => {
           />
 
           {error && (
-            <Text style={styles.error}>{error}</Text>
+            <Text style={styles.error}>{formatError(error)}</Text>
           )}
 
           <TouchableOpacity
             style={[styles.button, isLoading && styles.buttonDisabled]}
-            onPress={handleJoin}
+            onPress={() => handleJoin()}
             disabled={isLoading || !gameCode.trim() || !playerName.trim()}
           >
             <Text style={styles.buttonText}>
-              {isLoading ? 'جاري الانضمام...' : 'انضم إلى اللعبة'}
+              {isLoading ? t('JOINING') : t('JOIN_THE_GAME')}
             </Text>
           </TouchableOpacity>
+
+          {/* Audience can join full or already started games */}
+          <TouchableOpacity
+            style={styles.audienceButton}
+            onPress={() => handleJoin('audience')}
+            disabled={isLoading || !gameCode.trim() || !playerName.trim()}
+          >
+            <Text style={styles.audienceButtonText}>{t('JOIN_AS_AUDIENCE')}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.languageButton} onPress={handleSwitchLanguage}>
+            <Text style={styles.languageButtonText}>🌐 {LANGUAGES[nextLocale].label}</Text>
+          </TouchableOpacity>
         </View>
       </View>
 
@@ -124,7 +146,7 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#ffffff',
     marginBottom: 16,
-    textAlign: 'right',
+    textAlign: 'left', // Start edge, mirrored by I18nManager in RTL
   },
   button: {
     backgroundColor: '#8b5cf6',
@@ -141,6 +163,28 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  audienceButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(167, 139, 250, 0.5)',
+    alignItems: 'center',
+  },
+  audienceButtonText: {
+    color: '#a78bfa',
+    fontSize: 16,
+  },
+  languageButton: {
+    marginTop: 16,
+    alignSelf: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  languageButtonText: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
   error: {
     color: '#ef4444',
     textAlign: 'center',
@@ -164,11 +208,6 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontSize: 18,
     fontWeight: 'bold',
-    marginBottom: 4,
-  },
-  scanButtonSubtext: {
-    color: '#a78bfa',
-    fontSize: 14,
   },
   divider: {
     flexDirection: 'row',
@@ -1,7 +1,17 @@
 import React, { useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions, Alert, Platform } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { useGameStore } from '@fakash/shared';
+import {
+  useGameStore,
+  useLocaleStore,
+  getGameTeams,
+  getTeam,
+  formatError,
+  isGameError,
+  ErrorType,
+  Player,
+  TeamId,
+} from '@fakash/shared';
 import { Logo } from '../components/core/Logo';
 
 // Player colors matching the design
@@ -9,7 +19,28 @@ const PLAYER_COLORS = ['#8b5cf6', '#3b82f6', '#06b6d4', '#ec4899'];
 
 export const LobbyScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { game, players, currentPlayer, isHost, startGame, isConnected } = useGameStore();
+  const {
+    game,
+    players,
+    currentPlayer,
+    isHost,
+    isAudience,
+    startGame,
+    setTeam,
+    shuffleTeams,
+    kickPlayer,
+    renamePlayer,
+    isConnected,
+    error,
+  } = useGameStore();
+  const t = useLocaleStore((state) => state.t);
+
+  // Kicked players go back to the join screen, which shows the reason
+  useEffect(() => {
+    if (!game && isGameError(error, ErrorType.KICKED, ErrorType.BANNED)) {
+      navigation.navigate('Join' as never);
+    }
+  }, [game, error, navigation]);
 
   // Navigate to game screen when game starts
   useEffect(() => {
@@ -28,7 +59,7 @@ export const LobbyScreen: React.FC = () => {
   if (!game || !currentPlayer) {
     return (
       <View style={styles.container}>
-        <Text style={styles.error}>لا توجد لعبة نشطة</Text>
+        <Text style={styles.error}>{t('NO_ACTIVE_GAME')}</Text>
       </View>
     );
   }
@@ -43,6 +74,55 @@ export const LobbyScreen: React.FC = () => {
     }
   };
 
+  const handleSetTeam = async (team: TeamId) => {
+    try {
+      await setTeam(team);
+    } catch (err) {
+      console.error('Failed to switch team:', err);
+    }
+  };
+
+  const handleShuffleTeams = async () => {
+    try {
+      await shuffleTeams();
+    } catch (err) {
+      console.error('Failed to shuffle teams:', err);
+    }
+  };
+
+  const handleModeratePlayer = (player: Player) => {
+    const moderate = async (action: () => Promise<void>) => {
+      try {
+        await action();
+      } catch (err) {
+        console.error('Failed to moderate player:', err);
+        Alert.alert(t('ERROR'), formatError(err));
+      }
+    };
+
+    Alert.alert(player.user_name, undefined, [
+      // Text input alerts are iOS only
+      ...(Platform.OS === 'ios'
+        ? [{
+            text: t('RENAME'),
+            onPress: () =>
+              Alert.prompt(
+                t('RENAME_PROMPT'),
+                undefined,
+                (newName) => moderate(() => renamePlayer(player.id, newName)),
+                'plain-text',
+                player.user_name
+              ),
+          }]
+        : []),
+      { text: t('KICK'), onPress: () => moderate(() => kickPlayer(player.id)) },
+      { text: t('BAN'), style: 'destructive' as const, onPress: () => moderate(() => kickPlayer(player.id, true)) },
+      { text: t('CANCEL'), style: 'cancel' as const },
+    ]);
+  };
+
+  const teams = getGameTeams(game);
+
   return (
     <View style={styles.container}>
       <Logo size="md" style={styles.logo} />
@@ -50,27 +130,66 @@ export const LobbyScreen: React.FC = () => {
       <View style={styles.contentContainer}>
         {/* Game Code */}
         <View style={styles.codeContainer}>
-          <Text style={styles.codeLabel}>كود اللعبة</Text>
+          <Text style={styles.codeLabel}>{t('GAME_CODE')}</Text>
           <Text style={styles.codeText}>{game.code}</Text>
           <View style={[styles.connectionDot, isConnected && styles.connectionDotConnected]} />
         </View>
 
         {/* Title */}
-        <Text style={styles.title}>اللاعبين</Text>
+        <Text style={styles.title}>{t('JOINED_PLAYERS')}</Text>
+
+        {/* Team picker (team mode only) */}
+        {teams.length > 0 && (
+          <View style={styles.teamsContainer}>
+            <View style={styles.teamsRow}>
+              {teams.map((team) => {
+                const isMyTeam = currentPlayer.team === team.id;
+                return (
+                  <TouchableOpacity
+                    key={team.id}
+                    style={[
+                      styles.teamButton,
+                      { borderColor: team.color },
+                      isMyTeam && { backgroundColor: team.color },
+                    ]}
+                    onPress={() => handleSetTeam(team.id)}
+                    disabled={isAudience || isMyTeam}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={styles.teamButtonText}>
+                      {team.name} ({players.filter((p) => p.team === team.id).length})
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {isHost && (
+              <TouchableOpacity onPress={handleShuffleTeams} activeOpacity={0.8}>
+                <Text style={styles.shuffleText}>{t('SHUFFLE_TEAMS')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
 
         {/* Players Grid */}
         <View style={styles.playersFrame}>
           <View style={styles.playersGrid}>
             {players.slice(0, 4).map((player, index) => (
-              <View
+              <TouchableOpacity
                 key={player.id}
+                onLongPress={() => handleModeratePlayer(player)}
+                disabled={!isHost || player.is_host}
+                activeOpacity={0.8}
                 style={[
                   styles.playerCard,
-                  { backgroundColor: PLAYER_COLORS[index % PLAYER_COLORS.length] }
+                  {
+                    backgroundColor:
+                      getTeam(player.team)?.color ?? PLAYER_COLORS[index % PLAYER_COLORS.length],
+                  },
                 ]}
               >
                 <Text style={styles.playerName}>{player.user_name}</Text>
-              </View>
+              </TouchableOpacity>
             ))}
 
             {/* Fill empty slots if less than 4 players */}
@@ -96,13 +215,17 @@ export const LobbyScreen: React.FC = () => {
             onPress={handleStartGame}
             activeOpacity={0.8}
           >
-            <Text style={styles.startButtonText}>ابدأ اللعبة</Text>
+            <Text style={styles.startButtonText}>{t('START_GAME')}</Text>
           </TouchableOpacity>
         )}
 
+        {isHost && players.length > 1 && (
+          <Text style={styles.moderationHint}>{t('MODERATION_HINT')}</Text>
+        )}
+
         {!isHost && (
           <View style={styles.waitingContainer}>
-            <Text style={styles.waitingText}>في انتظار المضيف لبدء اللعبة...</Text>
+            <Text style={styles.waitingText}>{t('WAITING_FOR_HOST_START')}</Text>
           </View>
         )}
       </View>
@@ -159,6 +282,38 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 16,
   },
+  teamsContainer: {
+    marginBottom: 16,
+  },
+  teamsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  teamButton: {
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  teamButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  moderationHint: {
+    fontSize: 12,
+    color: '#9ca3af',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  shuffleText: {
+    fontSize: 14,
+    color: '#06b6d4',
+    textAlign: 'center',
+    marginTop: 8,
+  },
   playersFrame: {
     borderWidth: 1,
     borderColor: '#8b5cf6',
@@ -1,19 +1,55 @@
-import React, { useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Share, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { useGameStore, GameService } from '@fakash/shared';
+import {
+  useGameStore,
+  GameService,
+  GameHistoryService,
+  formatRecapMessage,
+  getRecapUrl,
+  GameRecap,
+  useLocaleStore,
+  formatError,
+} from '@fakash/shared';
+
+// Public web app that hosts the recap page (recap links are skipped when unset)
+const WEB_URL = process.env.EXPO_PUBLIC_WEB_URL;
 
 // Player colors matching the design
 const PLAYER_COLORS = ['#8b5cf6', '#3b82f6', '#06b6d4', '#ec4899'];
 
 export const ResultsScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { game, players, isPhaseCaptain, isHost } = useGameStore();
+  const { game, players, isPhaseCaptain, isHost, playAgain, joinRematch } = useGameStore();
+  const t = useLocaleStore((state) => state.t);
+  const [recap, setRecap] = useState<GameRecap | null>(null);
+  const [isStartingRematch, setIsStartingRematch] = useState(false);
+
+  // Load the shareable recap once the game is over
+  useEffect(() => {
+    if (game?.status === 'finished') {
+      GameHistoryService.getRecap(game.id).then(setRecap);
+    }
+  }, [game?.id, game?.status]);
+
+  // Follow the host into the rematch lobby as soon as it exists
+  const rematchGameId = game?.rematch_game_id;
+  useEffect(() => {
+    if (!rematchGameId) return;
+
+    joinRematch().then((joined) => {
+      if (joined) {
+        navigation.navigate('Lobby' as never);
+      } else {
+        setIsStartingRematch(false);
+      }
+    });
+  }, [rematchGameId, joinRematch, navigation]);
 
   if (!game) {
     return (
       <View style={styles.container}>
-        <Text style={styles.error}>لا توجد نتائج متاحة</Text>
+        <Text style={styles.error}>{t('NO_RESULTS')}</Text>
       </View>
     );
   }
@@ -58,6 +94,30 @@ export const ResultsScreen: React.FC = () => {
     navigation.navigate('Join' as never);
   };
 
+  const handleShareRecap = async () => {
+    if (!recap) return;
+
+    const message = formatRecapMessage(recap);
+    const url = WEB_URL ? getRecapUrl(WEB_URL, recap.game.id) : undefined;
+
+    try {
+      await Share.share({ message: url ? `${message}\n${url}` : message, url });
+    } catch (err) {
+      console.error('Failed to share recap:', err);
+    }
+  };
+
+  const handlePlayAgain = async () => {
+    setIsStartingRematch(true);
+    try {
+      await playAgain();
+    } catch (err) {
+      console.error('Failed to start rematch:', err);
+      Alert.alert(t('ERROR'), formatError(err));
+      setIsStartingRematch(false);
+    }
+  };
+
   const handleCreateNew = () => {
     navigation.navigate('Join' as never);
   };
@@ -95,34 +155,70 @@ export const ResultsScreen: React.FC = () => {
             onPress={handleNextQuestion}
             activeOpacity={0.8}
           >
-            <Text style={styles.nextButtonText}>السؤال التالي</Text>
+            <Text style={styles.nextButtonText}>{t('NEXT_QUESTION')}</Text>
           </TouchableOpacity>
         ) : (
           <View style={styles.waitingContainer}>
             <Text style={styles.waitingText}>
               {isGameFinished
-                ? 'انتهت اللعبة!'
-                : 'في انتظار المضي للسؤال التالي...'}
+                ? t('GAME_OVER')
+                : t('WAITING_HOST_NEXT_QUESTION')}
             </Text>
           </View>
         )}
 
+        {/* Recap highlights */}
+        {isGameFinished && recap?.best_lie && (
+          <Text style={styles.recapText}>
+            {t('BEST_LIE', {
+              answer: recap.best_lie.answer,
+              names: recap.best_lie.player_names.join(t('LIST_AND')),
+            })}
+          </Text>
+        )}
+        {isGameFinished && recap?.most_gullible && (
+          <Text style={styles.recapText}>
+            {t('MOST_GULLIBLE', { name: recap.most_gullible.player_name })}
+          </Text>
+        )}
+
         {/* Final actions when game is finished */}
         {isGameFinished && (
           <View style={styles.finalActions}>
+            {recap && (
+              <TouchableOpacity
+                style={[styles.nextButton, styles.shareButton]}
+                onPress={handleShareRecap}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.nextButtonText}>{t('SHARE_RECAP')}</Text>
+              </TouchableOpacity>
+            )}
+            {isHost && (
+              <TouchableOpacity
+                style={styles.nextButton}
+                onPress={handlePlayAgain}
+                disabled={isStartingRematch}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.nextButtonText}>
+                  {isStartingRematch ? t('PREPARING') : `🔁 ${t('PLAY_AGAIN')}`}
+                </Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
               style={[styles.nextButton, styles.secondaryButton]}
               onPress={handleCreateNew}
               activeOpacity={0.8}
             >
-              <Text style={styles.nextButtonText}>إنشاء لعبة جديدة</Text>
+              <Text style={styles.nextButtonText}>{t('CREATE_NEW_GAME')}</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={[styles.nextButton, styles.secondaryButton]}
               onPress={handleFinishGame}
               activeOpacity={0.8}
             >
-              <Text style={styles.nextButtonText}>إنهاء اللعبة والعودة</Text>
+              <Text style={styles.nextButtonText}>{t('END_GAME_AND_RETURN')}</Text>
             </TouchableOpacity>
           </View>
         )}
@@ -181,7 +277,7 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
     color: '#ffffff',
-    textAlign: 'right',
+    textAlign: 'left', // Start edge, mirrored by I18nManager in RTL
   },
   score: {
     fontSize: 28,
@@ -224,6 +320,15 @@ const styles = StyleSheet.create({
   secondaryButton: {
     backgroundColor: '#4b5563',
   },
+  shareButton: {
+    backgroundColor: '#06b6d4',
+  },
+  recapText: {
+    fontSize: 16,
+    color: '#ffffff',
+    textAlign: 'center',
+    marginTop: 8,
+  },
   error: {
     color: '#ef4444',
     fontSize: 18,
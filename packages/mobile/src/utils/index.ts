@@ -5,3 +5,4 @@
 export * from './sessionStorage';
 export * from './supabase';
 export * from './avatars';
+export * from './localePreference';
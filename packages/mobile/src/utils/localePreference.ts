@@ -0,0 +1,48 @@
+/**
+ * Locale Preference - React Native Implementation
+ * The shared i18n layer saves the language to localStorage, which React Native
+ * doesn't have, so the choice is kept in AsyncStorage here.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { I18nManager } from 'react-native';
+import { isLocale, getTextDirection, Locale } from '@fakash/shared';
+
+const LOCALE_KEY = 'fibbage_locale';
+
+/**
+ * Get the language the user picked on this device (null if they never did)
+ */
+export async function loadLocalePreference(): Promise<Locale | null> {
+  try {
+    const stored = await AsyncStorage.getItem(LOCALE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch (error) {
+    console.error('Failed to load locale preference:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the language the user picked
+ */
+export async function saveLocalePreference(locale: Locale): Promise<void> {
+  try {
+    await AsyncStorage.setItem(LOCALE_KEY, locale);
+  } catch (error) {
+    console.error('Failed to save locale preference:', error);
+  }
+}
+
+/**
+ * Switch the native layout direction for a locale.
+ * Returns true when it changed (React Native applies it on the next app start).
+ */
+export function applyLayoutDirection(locale: Locale): boolean {
+  const isRTL = getTextDirection(locale) === 'rtl';
+  if (I18nManager.isRTL === isRTL) return false;
+
+  I18nManager.allowRTL(isRTL);
+  I18nManager.forceRTL(isRTL);
+  return true;
+}
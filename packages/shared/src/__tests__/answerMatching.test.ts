@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getAnswerKey } from '../utils/answerMatching';
+import { TestPostgres, createPostgres } from './support/postgres';
+
+let pg: TestPostgres;
+
+beforeAll(async () => {
+  pg = await createPostgres();
+}, 60_000);
+
+// Marks, presentation forms and full-width characters are written as escapes
+const SHARED_INPUTS = [
+  'النيل',
+  'نهر  النيل!',
+  'قاهرة',
+  'م\u064Fح\u064Eم\u0651\u064Eد', // tashkeel
+  'ذ\u0670لك', // superscript alef
+  'الكتاب\u06DA\u06E2', // Quranic annotation marks
+  'قرآن\u06E5', // small waw
+  '\u0640\u0640محمد\u0640', // tatweel
+  'إسكندرية',
+  'مستشفى',
+  'مسؤول',
+  '١٩٦٩',
+  '\uFEE3\uFEA4\uFEE3\uFEAA', // presentation forms of محمد
+  '\uFDF2', // the ligature for الله
+  '\uFF2E\uFF29\uFF2C\uFF25\u3000\uFF11\uFF12\uFF13', // full-width "NILE 123"
+  'The Nile, River.',
+];
+
+describe('normalize_answer_text matches getAnswerKey', () => {
+  it.each(SHARED_INPUTS)('%s', async (input) => {
+    const result = await pg.db.query<{ key: string }>('SELECT normalize_answer_text($1) AS key', [input]);
+
+    expect(result.rows[0].key).toBe(getAnswerKey(input));
+  });
+});
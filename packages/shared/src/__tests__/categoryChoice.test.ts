@@ -0,0 +1,81 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TestPostgres, createPostgres } from './support/postgres';
+
+let pg: TestPostgres;
+let hostUserId: string;
+let roundId: string;
+let games = 0;
+
+beforeAll(async () => {
+  pg = await createPostgres();
+  const user = await pg.db.query<{ id: string }>("INSERT INTO auth.users (email) VALUES ('host@example.com') RETURNING id");
+  hostUserId = user.rows[0].id;
+  await pg.db.query("INSERT INTO questions (question_text, correct_answer, category) VALUES ('Question?', 'Answer', 'History')");
+}, 60_000);
+
+// A signed-in host's game whose first round is waiting on Omar's category pick
+beforeEach(async () => {
+  const { db } = pg;
+  const insert = async (sql: string, params: unknown[]) =>
+    (await db.query<{ id: string }>(`${sql} RETURNING id`, params)).rows[0].id;
+
+  games++;
+  const gameId = await insert(
+    "INSERT INTO games (code, status, current_round, auth_host_id, category_picking) VALUES ($1, 'playing', 1, $2, true)",
+    [`CAT${games}`, hostUserId]
+  );
+  await insert('INSERT INTO players (game_id, user_name, is_host) VALUES ($1, $2, true)', [gameId, 'Host']);
+  const omarId = await insert('INSERT INTO players (game_id, user_name, device_id) VALUES ($1, $2, $3)', [
+    gameId,
+    'Omar',
+    'omar-phone',
+  ]);
+  await insert('INSERT INTO players (game_id, user_name, device_id) VALUES ($1, $2, $3)', [gameId, 'Sara', 'sara-phone']);
+
+  roundId = await insert(
+    `INSERT INTO game_rounds (game_id, round_number, status, category_options, chooser_id, timer_duration)
+     VALUES ($1, 1, 'choosing', '{History,Science}', $2, 15)`,
+    [gameId, omarId]
+  );
+});
+
+function chooseCategory(role: 'anon' | 'authenticated', userId: string | null, deviceId: string | null) {
+  return pg.as(role, userId, (tx) =>
+    tx.query<{ status: string; category: string }>('SELECT * FROM choose_category($1, $2, $3)', [
+      roundId,
+      deviceId,
+      'History',
+    ])
+  );
+}
+
+describe('choose_category', () => {
+  it("takes the pick from the chooser's device", async () => {
+    const result = await chooseCategory('anon', null, 'omar-phone');
+
+    expect(result.rows[0]).toMatchObject({ status: 'answering', category: 'History' });
+  });
+
+  it("rejects a pick from another player's device", async () => {
+    await expect(chooseCategory('anon', null, 'sara-phone')).rejects.toThrow(/Only the chooser/);
+  });
+
+  it('rejects a pick without a device', async () => {
+    await expect(chooseCategory('anon', null, null)).rejects.toThrow(/Only the chooser/);
+  });
+
+  it('takes the pick from the signed-in host when the host is choosing', async () => {
+    await pg.db.query(
+      'UPDATE game_rounds SET chooser_id = (SELECT id FROM players WHERE game_id = game_rounds.game_id AND is_host) WHERE id = $1',
+      [roundId]
+    );
+
+    const result = await chooseCategory('authenticated', hostUserId, null);
+
+    expect(result.rows[0]).toMatchObject({ status: 'answering', category: 'History' });
+  });
+
+  it("doesn't let the host pick for another player", async () => {
+    await expect(chooseCategory('authenticated', hostUserId, null)).rejects.toThrow(/Only the chooser/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorType, GameError } from '../types';
+import { DB_ERROR_CODES, fromBackendError, isGameError, toGameError } from '../utils/errors';
+import { formatError } from '../utils/i18n';
+
+describe('fromBackendError', () => {
+  it('maps known Postgres codes and keeps the code in details', () => {
+    const error = fromBackendError({ code: DB_ERROR_CODES.INSUFFICIENT_PRIVILEGE, message: 'denied' });
+
+    expect(error.code).toBe(ErrorType.UNAUTHORIZED);
+    expect(error.message).toBe('denied');
+    expect(error.details.dbCode).toBe('42501');
+  });
+
+  it('lets the call site override a code', () => {
+    const error = fromBackendError(
+      { code: DB_ERROR_CODES.UNIQUE_VIOLATION, message: 'duplicate key' },
+      { [DB_ERROR_CODES.UNIQUE_VIOLATION]: ErrorType.DUPLICATE_NAME }
+    );
+
+    expect(error.code).toBe(ErrorType.DUPLICATE_NAME);
+  });
+
+  it('falls back for unknown codes and missing errors', () => {
+    expect(fromBackendError({ code: 'P0001', message: 'raised' }).code).toBe(ErrorType.SERVER_ERROR);
+    expect(fromBackendError({ code: 'P0001', message: 'raised' }, {}, ErrorType.UNAUTHORIZED).code).toBe(
+      ErrorType.UNAUTHORIZED
+    );
+    expect(fromBackendError(null, {}, ErrorType.GAME_NOT_FOUND).code).toBe(ErrorType.GAME_NOT_FOUND);
+  });
+
+  it('treats code-less fetch failures as a lost connection', () => {
+    expect(fromBackendError({ message: 'TypeError: Failed to fetch' }).code).toBe(ErrorType.CONNECTION_LOST);
+  });
+});
+
+describe('toGameError', () => {
+  it('passes GameErrors through untouched', () => {
+    const error = new GameError(ErrorType.BANNED);
+    expect(toGameError(error)).toBe(error);
+  });
+
+  it('wraps plain errors and backend error objects', () => {
+    expect(toGameError(new Error('Network request failed')).code).toBe(ErrorType.CONNECTION_LOST);
+    expect(toGameError(new Error('boom')).code).toBe(ErrorType.UNKNOWN);
+    expect(toGameError({ code: DB_ERROR_CODES.NO_ROWS, message: 'no rows' }).code).toBe(ErrorType.NOT_FOUND);
+    expect(toGameError('weird').code).toBe(ErrorType.UNKNOWN);
+  });
+
+  it('is matched by isGameError', () => {
+    const error = toGameError(new Error('boom'));
+    expect(isGameError(error)).toBe(true);
+    expect(isGameError(error, ErrorType.UNKNOWN)).toBe(true);
+    expect(isGameError(error, ErrorType.BANNED)).toBe(false);
+  });
+});
+
+describe('formatError', () => {
+  it('fills placeholders from the error details in either language', () => {
+    const error = new GameError(ErrorType.INVALID_NAME, 'too long', { min: 2, max: 20 });
+
+    expect(formatError(error, 'en')).toBe('Names must be 2-20 characters');
+    expect(formatError(error, 'ar')).toBe('الاسم يجب أن يكون بين 2 و20 حرفاً');
+  });
+
+  it('shows the generic message for anything that is not a GameError', () => {
+    expect(formatError(new Error('boom'), 'en')).toBe(formatError(new GameError(ErrorType.UNKNOWN), 'en'));
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeDatabase, FakeDbError } from '../testing';
+
+function createDatabase(): FakeDatabase {
+  const db = new FakeDatabase();
+  db.defineTable('games', { defaults: () => ({ status: 'waiting' }), unique: [{ columns: ['code'] }] });
+  db.defineTable('players', { relations: { games: { table: 'games', column: 'game_id' } } });
+  return db;
+}
+
+describe('FakeDatabase', () => {
+  it('fills defaults and enforces unique constraints', async () => {
+    const db = createDatabase();
+    const supabase = db.createClient();
+
+    const { data: game } = await supabase.from('games').insert({ code: 'ABCD' }).select().single();
+    expect(game).toMatchObject({ code: 'ABCD', status: 'waiting' });
+    expect(game.id).toEqual(expect.any(String));
+
+    const { error } = await supabase.from('games').insert({ code: 'ABCD' }).select().single();
+    expect(error?.code).toBe('23505');
+  });
+
+  it('answers single() with PGRST116 when no row matches, and maybeSingle() with null', async () => {
+    const supabase = createDatabase().createClient();
+
+    const single = await supabase.from('games').select('*').eq('code', 'NONE').single();
+    expect(single.error?.code).toBe('PGRST116');
+
+    const maybe = await supabase.from('games').select('*').eq('code', 'NONE').maybeSingle();
+    expect(maybe).toMatchObject({ data: null, error: null });
+  });
+
+  it('filters, counts and embeds related rows', async () => {
+    const db = createDatabase();
+    const game = db.insert('games', { code: 'ABCD' });
+    db.insert('players', { game_id: game.id, user_name: 'Omar', score: 30 });
+    db.insert('players', { game_id: game.id, user_name: 'Sara', score: 10 });
+    const supabase = db.createClient();
+
+    const { count } = await supabase.from('players').select('*', { count: 'exact', head: true }).eq('game_id', game.id);
+    expect(count).toBe(2);
+
+    const { data } = await supabase.from('players').select('user_name, game:games(code)').order('score').limit(1);
+    expect(data).toEqual([{ user_name: 'Sara', game: { code: 'ABCD' } }]);
+
+    const { error } = await supabase.from('players').select('*, round:game_rounds(*)');
+    expect(error?.code).toBe('PGRST200');
+  });
+
+  it('rolls back a transaction when a trigger raises', async () => {
+    const db = createDatabase();
+    db.after('players', 'INSERT', () => {
+      throw new FakeDbError('Banned', '42501');
+    });
+    const game = db.insert('games', { code: 'ABCD' });
+
+    const { error } = await db.createClient().from('players').insert({ game_id: game.id, user_name: 'Sara' });
+    expect(error?.code).toBe('42501');
+    expect(db.select('players')).toHaveLength(0);
+  });
+
+  it('reports unknown RPCs like PostgREST', async () => {
+    const { error } = await createDatabase().createClient().rpc('missing_function');
+    expect(error?.code).toBe('PGRST202');
+  });
+});
+
+describe('FakeDatabase realtime', () => {
+  it('delivers committed changes that match a channel filter', async () => {
+    const db = createDatabase();
+    const game = db.insert('games', { code: 'ABCD' });
+    const other = db.insert('games', { code: 'EFGH' });
+    const onChange = vi.fn();
+
+    db.createClient()
+      .channel('game')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'players', filter: `game_id=eq.${game.id}` }, onChange)
+      .subscribe();
+
+    db.insert('players', { game_id: other.id, user_name: 'Omar' });
+    db.insert('players', { game_id: game.id, user_name: 'Sara' });
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+    expect(onChange.mock.calls[0][0]).toMatchObject({ eventType: 'INSERT', new: { user_name: 'Sara' } });
+  });
+
+  it('broadcasts to everyone on the topic except the sender', async () => {
+    const db = createDatabase();
+    const senderHears = vi.fn();
+    const listenerHears = vi.fn();
+
+    const sender = db.createClient().channel('room').on('broadcast', { event: 'ping' }, senderHears).subscribe();
+    db.createClient().channel('room').on('broadcast', { event: 'ping' }, listenerHears).subscribe();
+
+    await sender.send({ type: 'broadcast', event: 'ping', payload: { n: 1 } });
+
+    await vi.waitFor(() => expect(listenerHears).toHaveBeenCalledTimes(1));
+    expect(senderHears).not.toHaveBeenCalled();
+  });
+
+  it('tracks presence per key and drops it on leave', async () => {
+    const db = createDatabase();
+    const first = db.createClient().channel('room', { config: { presence: { key: 'p1' } } }).subscribe();
+    const second = db.createClient().channel('room', { config: { presence: { key: 'p2' } } }).subscribe();
+
+    await first.track({ name: 'Omar' });
+    await second.track({ name: 'Sara' });
+    expect(Object.keys(first.presenceState()).sort()).toEqual(['p1', 'p2']);
+
+    await second.unsubscribe();
+    expect(Object.keys(first.presenceState())).toEqual(['p1']);
+  });
+});
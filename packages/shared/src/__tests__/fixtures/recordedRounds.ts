@@ -0,0 +1,254 @@
+import type { AnswerLike, AudienceVote, PlayerAnswer, Question, ScoreResult, ScoringRules, TeamId, Vote } from '../../types';
+import { DEFAULT_SCORING_RULES } from '../../constants/game';
+
+/**
+ * Round inputs with the score_ledger rows calculate_and_update_scores writes for
+ * them. The parity tests play each round into a real database and check both
+ * scorers against these rows, so copy new ones from that ledger rather than
+ * working them out. Ids are shortened: players are p1..p5, audience members
+ * a1/a2 and the system truth card is always 't'.
+ */
+export interface RecordedRound {
+  name: string;
+  rules: ScoringRules;
+  multiplier: number;
+  question: Pick<Question, 'correct_answer' | 'accepted_answers'>;
+  teams?: Record<string, TeamId>;
+  answers: PlayerAnswer[];
+  votes: Vote[];
+  likes: AnswerLike[];
+  audienceVotes: AudienceVote[];
+  ledger: ScoreResult[];
+}
+
+const ROUND_ID = 'r1';
+
+function question(correctAnswer: string, acceptedAnswers: string[] = []): RecordedRound['question'] {
+  return { correct_answer: correctAnswer, accepted_answers: acceptedAnswers };
+}
+
+function truth(text: string): PlayerAnswer {
+  return { id: 't', round_id: ROUND_ID, player_id: null, answer_text: text, is_correct: true, submitted_at: '' };
+}
+
+function fake(id: string, playerId: string, text: string): PlayerAnswer {
+  return { id, round_id: ROUND_ID, player_id: playerId, answer_text: text, is_correct: false, submitted_at: '' };
+}
+
+function vote(voterId: string, answerId: string): Vote {
+  return { id: `v-${voterId}`, round_id: ROUND_ID, voter_id: voterId, answer_id: answerId, points_earned: 0, created_at: '' };
+}
+
+function like(likerId: string, answerId: string): AnswerLike {
+  return { id: `l-${likerId}-${answerId}`, round_id: ROUND_ID, answer_id: answerId, liker_id: likerId, created_at: '' };
+}
+
+function audienceVote(audienceId: string, answerId: string): AudienceVote {
+  return { id: `av-${audienceId}`, round_id: ROUND_ID, audience_id: audienceId, answer_id: answerId, created_at: '' };
+}
+
+function score(playerId: string, points: number, reason: ScoreResult['reason']): ScoreResult {
+  return { player_id: playerId, points_earned: points, reason };
+}
+
+export const RECORDED_ROUNDS: RecordedRound[] = [
+  {
+    name: 'classic round with perfect fakes sharing the win',
+    rules: DEFAULT_SCORING_RULES,
+    multiplier: 1,
+    question: question('أسوان'),
+    answers: [truth('أسوان'), fake('a', 'p1', 'القاهرة'), fake('b', 'p2', 'الجيزة'), fake('c', 'p3', 'الأقصر'), fake('d', 'p4', 'طنطا')],
+    votes: [vote('p1', 't'), vote('p2', 'a'), vote('p3', 't'), vote('p4', 'b')],
+    likes: [],
+    audienceVotes: [],
+    ledger: [
+      score('p1', 500, 'correct_answer'),
+      score('p3', 500, 'correct_answer'),
+      score('p1', 500, 'fooled_players'),
+      score('p2', 500, 'fooled_players'),
+      score('p3', 1000, 'perfect_fake'),
+      score('p4', 1000, 'perfect_fake'),
+      score('p3', 250, 'round_winner'),
+      score('p4', 250, 'round_winner'),
+    ],
+  },
+  {
+    name: 'duplicate fakes merged into one card split their points',
+    rules: DEFAULT_SCORING_RULES,
+    multiplier: 1,
+    question: question('الإسكندرية'),
+    answers: [
+      truth('الإسكندرية'),
+      fake('a', 'p1', 'القاهرة'),
+      fake('b', 'p2', 'قاهره'),
+      fake('c', 'p3', 'أسوان'),
+      fake('d', 'p4', 'الأقصر'),
+      fake('e', 'p5', 'الجيزة'),
+    ],
+    votes: [vote('p1', 't'), vote('p2', 'c'), vote('p3', 'a'), vote('p4', 'b'), vote('p5', 'a')],
+    likes: [],
+    audienceVotes: [],
+    ledger: [
+      score('p1', 500, 'correct_answer'),
+      score('p1', 750, 'fooled_players'),
+      score('p2', 750, 'fooled_players'),
+      score('p3', 500, 'fooled_players'),
+      score('p4', 1000, 'perfect_fake'),
+      score('p5', 1000, 'perfect_fake'),
+      score('p4', 250, 'round_winner'),
+      score('p5', 250, 'round_winner'),
+    ],
+  },
+  {
+    name: 'uneven split of a fake written by three players',
+    rules: DEFAULT_SCORING_RULES,
+    multiplier: 1,
+    question: question('نهر الأمازون'),
+    answers: [
+      truth('نهر الأمازون'),
+      fake('a', 'p1', 'نهر النيل'),
+      fake('b', 'p2', 'نهر النيل!'),
+      fake('c', 'p3', 'نهر  النيل'),
+      fake('d', 'p4', 'نهر الفرات'),
+      fake('e', 'p5', 'نهر دجلة'),
+    ],
+    votes: [vote('p1', 'd'), vote('p2', 'd'), vote('p3', 't'), vote('p4', 'a'), vote('p5', 'b')],
+    likes: [],
+    audienceVotes: [],
+    ledger: [
+      score('p3', 500, 'correct_answer'),
+      score('p1', 333, 'fooled_players'),
+      score('p2', 333, 'fooled_players'),
+      score('p3', 333, 'fooled_players'),
+      score('p4', 1000, 'fooled_players'),
+      score('p5', 1000, 'perfect_fake'),
+      score('p4', 250, 'round_winner'),
+      score('p5', 250, 'round_winner'),
+    ],
+  },
+  {
+    name: 'fakes close to the truth are still fakes (the server matches exactly)',
+    rules: DEFAULT_SCORING_RULES,
+    multiplier: 1,
+    question: question('نهر النيل'),
+    answers: [
+      truth('نهر النيل'),
+      fake('a', 'p1', 'النيل'),
+      fake('b', 'p2', 'نهر النيلل'),
+      fake('c', 'p3', 'الفرات'),
+      fake('d', 'p4', 'دجلة'),
+    ],
+    votes: [vote('p1', 't'), vote('p2', 'a'), vote('p3', 'b'), vote('p4', 'a')],
+    likes: [],
+    audienceVotes: [],
+    ledger: [
+      score('p1', 500, 'correct_answer'),
+      score('p1', 1000, 'fooled_players'),
+      score('p2', 500, 'fooled_players'),
+      score('p3', 1000, 'perfect_fake'),
+      score('p4', 1000, 'perfect_fake'),
+      score('p1', 250, 'round_winner'),
+      score('p3', 250, 'round_winner'),
+      score('p4', 250, 'round_winner'),
+    ],
+  },
+  {
+    name: 'team mode ignores votes from the author\'s own team',
+    rules: DEFAULT_SCORING_RULES,
+    multiplier: 1,
+    question: question('باريس'),
+    teams: { p1: 'red', p2: 'red', p3: 'blue', p4: 'blue' },
+    answers: [truth('باريس'), fake('a', 'p1', 'ليون'), fake('b', 'p2', 'نيس'), fake('c', 'p3', 'ليون'), fake('d', 'p4', 'مرسيليا')],
+    votes: [vote('p1', 't'), vote('p2', 'a'), vote('p3', 'b'), vote('p4', 'c')],
+    likes: [],
+    audienceVotes: [],
+    ledger: [
+      score('p1', 500, 'correct_answer'),
+      score('p1', 250, 'fooled_players'),
+      score('p3', 250, 'fooled_players'),
+      score('p2', 500, 'fooled_players'),
+      score('p4', 1000, 'perfect_fake'),
+      score('p4', 250, 'round_winner'),
+    ],
+  },
+  {
+    name: 'double points final round with custom rules',
+    rules: { correct_answer: 100, per_fooled_player: 50, perfect_fake_bonus: 0, round_winner_bonus: 10, final_round_multiplier: 2 },
+    multiplier: 2,
+    question: question('١٩٦٩'),
+    answers: [truth('١٩٦٩'), fake('a', 'p1', '1972'), fake('b', 'p2', '1965'), fake('c', 'p3', '1958')],
+    votes: [vote('p1', 'b'), vote('p2', 'a'), vote('p3', 't')],
+    likes: [],
+    audienceVotes: [],
+    ledger: [
+      score('p3', 200, 'correct_answer'),
+      score('p1', 100, 'fooled_players'),
+      score('p2', 100, 'fooled_players'),
+      score('p3', 20, 'round_winner'),
+    ],
+  },
+  {
+    name: 'audience likes and a tied audience favorite are not multiplied',
+    rules: DEFAULT_SCORING_RULES,
+    multiplier: 2,
+    question: question('الزرافة'),
+    answers: [truth('الزرافة'), fake('a', 'p1', 'الفيل'), fake('b', 'p2', 'الحوت'), fake('c', 'p3', 'النعامة')],
+    votes: [vote('p1', 't'), vote('p2', 't'), vote('p3', 'a')],
+    likes: [like('a1', 'a'), like('a2', 'a'), like('p2', 'c')],
+    audienceVotes: [audienceVote('a1', 'b'), audienceVote('a2', 'c')],
+    ledger: [
+      score('p1', 1000, 'correct_answer'),
+      score('p2', 1000, 'correct_answer'),
+      score('p1', 1000, 'fooled_players'),
+      score('p2', 2000, 'perfect_fake'),
+      score('p3', 2000, 'perfect_fake'),
+      score('p2', 500, 'round_winner'),
+      score('p3', 500, 'round_winner'),
+      score('p1', 200, 'audience_like'),
+      score('p3', 100, 'audience_like'),
+      score('p2', 500, 'audience_favorite'),
+      score('p3', 500, 'audience_favorite'),
+    ],
+  },
+  {
+    name: 'a fake equal to an accepted answer counts as the truth',
+    rules: DEFAULT_SCORING_RULES,
+    multiplier: 1,
+    question: question('نهر النيل', ['النيل']),
+    answers: [truth('نهر النيل'), fake('a', 'p1', 'النيل'), fake('b', 'p2', 'الفرات'), fake('c', 'p3', 'دجلة')],
+    votes: [vote('p1', 't'), vote('p2', 'a'), vote('p3', 'b')],
+    likes: [],
+    audienceVotes: [],
+    ledger: [
+      score('p1', 500, 'correct_answer'),
+      score('p2', 500, 'correct_answer'),
+      score('p2', 500, 'fooled_players'),
+      score('p3', 1000, 'perfect_fake'),
+      score('p3', 250, 'round_winner'),
+    ],
+  },
+  {
+    name: 'audience bonuses come from the game rules',
+    rules: { ...DEFAULT_SCORING_RULES, per_like: 50, audience_favorite_bonus: 300 },
+    multiplier: 1,
+    question: question('الزرافة'),
+    answers: [truth('الزرافة'), fake('a', 'p1', 'الفيل'), fake('b', 'p2', 'فيل'), fake('c', 'p3', 'النعامة')],
+    votes: [vote('p1', 't'), vote('p2', 'c'), vote('p3', 't')],
+    likes: [like('a1', 'a'), like('a2', 'b')],
+    audienceVotes: [audienceVote('a1', 'a'), audienceVote('a2', 'c')],
+    ledger: [
+      score('p1', 500, 'correct_answer'),
+      score('p3', 500, 'correct_answer'),
+      score('p3', 500, 'fooled_players'),
+      score('p1', 1000, 'perfect_fake'),
+      score('p2', 1000, 'perfect_fake'),
+      score('p1', 250, 'round_winner'),
+      score('p2', 250, 'round_winner'),
+      score('p1', 50, 'audience_like'),
+      score('p2', 50, 'audience_like'),
+      score('p1', 150, 'audience_favorite'),
+      score('p2', 150, 'audience_favorite'),
+      score('p3', 300, 'audience_favorite'),
+    ],
+  },
+];
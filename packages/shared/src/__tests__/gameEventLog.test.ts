@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Game, GameEvent, Player } from '../types';
+import { applyGameEvents, createGameLogState, findGameLogGap } from '../utils/gameEventLog';
+import { AppClient, createAppClient, disposeAppClient } from './support/appClient';
+import { TestGame, disposeGame, setUpGame, startGame, startRound, submitAnswers, vote, waitForVoting } from './support/game';
+
+const game = { id: 'g1', status: 'waiting', current_round: 0 } as Game;
+const omar = { id: 'p1', game_id: 'g1', user_name: 'Omar', score: 0 } as Player;
+
+function event(seq: number, data: Pick<GameEvent, 'type' | 'payload'>): GameEvent {
+  return { ...data, id: `e${seq}`, game_id: 'g1', seq, created_at: '' } as GameEvent;
+}
+
+const events = [
+  event(1, { type: 'game_updated', payload: game }),
+  event(2, { type: 'player_joined', payload: omar }),
+  event(3, { type: 'player_updated', payload: { ...omar, score: 100 } }),
+  event(4, { type: 'game_updated', payload: { ...game, status: 'playing' } }),
+];
+
+describe('applyGameEvents', () => {
+  it('applies events in seq order whatever order they arrive in', () => {
+    const { state, pending } = applyGameEvents(createGameLogState(), [events[2], events[0], events[3], events[1]]);
+
+    expect(pending).toEqual([]);
+    expect(state.seq).toBe(4);
+    expect(state.game?.status).toBe('playing');
+    expect(state.players).toEqual([{ ...omar, score: 100 }]);
+  });
+
+  it('holds events after a gap and names the missing range', () => {
+    const { state, pending } = applyGameEvents(createGameLogState(), [events[0], events[3]]);
+
+    expect(state.seq).toBe(1);
+    expect(pending.map((e) => e.seq)).toEqual([4]);
+    expect(findGameLogGap(state, pending)).toEqual({ after: 1, through: 3 });
+
+    const filled = applyGameEvents(state, [events[1], events[2], ...pending]);
+    expect(filled.state.seq).toBe(4);
+    expect(findGameLogGap(filled.state, filled.pending)).toBeNull();
+  });
+
+  it('ignores events it already applied', () => {
+    const { state } = applyGameEvents(createGameLogState(), events);
+    const again = applyGameEvents(state, [events[1], events[2]]);
+
+    expect(again.state).toBe(state);
+    expect(again.pending).toEqual([]);
+  });
+});
+
+describe('GameEventService', () => {
+  let testGame: TestGame | null = null;
+  let watcher: AppClient | null = null;
+
+  afterEach(() => {
+    if (testGame) disposeGame(testGame);
+    if (watcher) disposeAppClient(watcher);
+    testGame = null;
+    watcher = null;
+  });
+
+  it('logs every change with gapless seqs and replays to what the server has', async () => {
+    testGame = await setUpGame(['Omar']);
+    const [host, player] = testGame.clients;
+    await startGame(testGame);
+    await startRound(testGame, 1);
+    await submitAnswers(testGame.clients);
+    await waitForVoting(testGame);
+    await Promise.all([vote(host), vote(player, 'Host')]);
+
+    const { db, gameId } = testGame;
+    await vi.waitFor(() => expect(db.find('games', (g) => g.id === gameId)!.current_round).toBe(2));
+
+    const logged = db.select('game_events', (e) => e.game_id === gameId).map((e) => e.seq);
+    expect(logged).toEqual(logged.map((_, i) => i + 1));
+
+    const log = await player.GameEventService.replay(gameId);
+    expect(log.seq).toBe(logged.length);
+    expect(log.game).toMatchObject({ status: 'playing', current_round: 2 });
+    expect(Object.fromEntries(log.players.map((p) => [p.user_name, p.score]))).toEqual(
+      Object.fromEntries(db.select('players', (p) => p.game_id === gameId).map((p) => [p.user_name, p.score]))
+    );
+    expect(log.rounds.map((r) => [r.round_number, r.status, r.question?.id])).toEqual(
+      db.select('game_rounds', (r) => r.game_id === gameId).map((r) => [r.round_number, r.status, r.question_id])
+    );
+    expect(log.answers).toHaveLength(db.select('player_answers').length);
+    expect(log.votes).toHaveLength(2);
+  });
+
+  it('drops the fakes written for a skipped question', async () => {
+    testGame = await setUpGame(['Omar', 'Sara']);
+    const { db, gameId, host } = testGame;
+    const [omar] = testGame.players;
+    await startGame(testGame);
+    await startRound(testGame, 1);
+
+    await submitAnswers([omar]);
+    const skipped = db.find('player_answers', (a) => a.answer_text === 'Lie by Omar')!;
+    await host.useRoundStore.getState().skipQuestion();
+
+    await submitAnswers(testGame.clients);
+    await waitForVoting(testGame);
+
+    const log = await omar.GameEventService.replay(gameId);
+    expect(log.answers.map((a) => a.id).sort()).toEqual(db.select('player_answers').map((a) => a.id).sort());
+    expect(log.answers.some((a) => a.id === skipped.id)).toBe(false);
+
+    const { answers } = omar.SyncService.fromGameLog(log, null);
+    expect(answers.map((a) => a.answer_text).sort()).toEqual(
+      omar.useRoundStore.getState().allAnswers.map((a) => a.answer_text).sort()
+    );
+  });
+
+  it('fetches only the range it missed over realtime', async () => {
+    testGame = await setUpGame(['Omar']);
+    const { db, gameId } = testGame;
+    await startGame(testGame);
+
+    watcher = createAppClient(db);
+    const onChange = vi.fn();
+    watcher.GameEventService.follow(gameId, onChange);
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+
+    const getEvents = vi.spyOn(watcher.GameEventService, 'getEvents');
+    db.dropRealtimeChanges((table) => table === 'game_events');
+    await startRound(testGame, 1);
+    const missedThrough = db.select('game_events', (e) => e.game_id === gameId).length;
+    db.dropRealtimeChanges(null);
+
+    await submitAnswers([testGame.host]);
+    const lastSeq = db.select('game_events', (e) => e.game_id === gameId).length;
+
+    await vi.waitFor(() => expect(watcher!.GameEventService.getLog(gameId)?.seq).toBe(lastSeq));
+    expect(getEvents).toHaveBeenCalledWith(gameId, expect.any(Number), missedThrough);
+    expect(watcher.GameEventService.getLog(gameId)).toEqual(await watcher.GameEventService.replay(gameId));
+  });
+});
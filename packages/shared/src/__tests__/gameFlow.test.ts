@@ -0,0 +1,299 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ErrorType, GameRound, Player, PlayerAnswer, ScoreLedgerEntry } from '../types';
+import { createGameBackend, seedQuestions } from '../testing';
+import { createAppClient } from './support/appClient';
+import {
+  TestGame,
+  disposeGame,
+  playerOf,
+  setUpGame,
+  startGame,
+  startRound,
+  submitAnswers,
+  vote,
+  waitForVoting,
+} from './support/game';
+
+const SIMPLE_RULES = {
+  correct_answer: 100,
+  per_fooled_player: 50,
+  perfect_fake_bonus: 0,
+  round_winner_bonus: 0,
+  final_round_multiplier: 1,
+};
+
+describe('multiplayer game flow', () => {
+  let game: TestGame | null = null;
+
+  afterEach(() => {
+    if (game) disposeGame(game);
+    game = null;
+  });
+
+  it('plays a full game from the lobby to the final scores', async () => {
+    game = await setUpGame(['Omar', 'Sara'], { scoringRules: SIMPLE_RULES });
+    const [host, omar, sara] = game.clients;
+    await startGame(game);
+
+    for (let round = 1; round <= 4; round++) {
+      await startRound(game, round);
+      await submitAnswers(game.clients);
+      await waitForVoting(game);
+
+      // Host and Omar find the truth, Sara falls for Omar's fake
+      await Promise.all([vote(host), vote(omar), vote(sara, 'Omar')]);
+
+      if (round < 4) {
+        await vi.waitFor(() => {
+          game!.clients.forEach((client) => expect(client.useGameStore.getState().game?.current_round).toBe(round + 1));
+        });
+      }
+    }
+
+    await vi.waitFor(() => {
+      game!.clients.forEach((client) => expect(client.useGameStore.getState().game?.status).toBe('finished'));
+    });
+
+    const scores = Object.fromEntries(
+      game.db.select('players', (p) => p.game_id === game!.gameId).map((p) => [p.user_name, p.score])
+    );
+    expect(scores).toEqual({ Host: 400, Omar: 600, Sara: 0 });
+
+    // One truth card per round, never more
+    const rounds = game.db.select<GameRound>('game_rounds', (r) => r.game_id === game!.gameId);
+    expect(rounds.map((r) => r.status)).toEqual(['completed', 'completed', 'completed', 'completed']);
+    rounds.forEach((round) => {
+      expect(game!.db.select<PlayerAnswer>('player_answers', (a) => a.round_id === round.id && a.is_correct)).toHaveLength(1);
+    });
+
+    // Four different questions were played
+    expect(new Set(rounds.map((r) => r.question_id)).size).toBe(4);
+
+    // Every point is in the ledger, and clients can't score a round themselves
+    const ledgerTotals: Record<string, number> = {};
+    game.db.select<ScoreLedgerEntry>('score_ledger', (s) => s.game_id === game!.gameId).forEach((entry) => {
+      const name = game!.db.find<Player>('players', (p) => p.id === entry.player_id)!.user_name;
+      ledgerTotals[name] = (ledgerTotals[name] ?? 0) + entry.points_earned;
+    });
+    expect(ledgerTotals).toEqual({ Host: 400, Omar: 600 });
+
+    // Only the server scores rounds
+    const { error } = await host.getSupabase().rpc('calculate_and_update_scores', {
+      p_round_id: rounds[0].id,
+      p_game_id: game.gameId,
+    });
+    expect(error).not.toBeNull();
+
+    const roundScores = await omar.ScoringService.getRoundScores(rounds[0].id);
+    expect(roundScores.map((s) => s.reason).sort()).toEqual([
+      'correct_answer',
+      'correct_answer',
+      'fooled_players',
+      'round_winner', // Zero-point bonus under SIMPLE_RULES, still recorded
+      'round_winner',
+    ]);
+    expect(game.db.find<Player>('players', (p) => p.user_name === 'Omar')!.score).toBe(600);
+
+    const [top] = await sara.ScoringService.getRoundBreakdown(rounds[0].id);
+    expect(top).toMatchObject({ player_name: 'Omar', total: 150 });
+    expect(top.events.find((e) => e.reason === 'fooled_players')?.fooled_names).toEqual(['Sara']);
+  });
+
+  it('adds the correct answer once when the timer runs out as the last fake comes in', async () => {
+    game = await setUpGame(['Omar', 'Sara']);
+    const [host, omar, sara] = game.clients;
+    await startGame(game);
+    await startRound(game, 1);
+
+    await submitAnswers([host, omar]);
+    game.db.advanceTime(31_000);
+
+    // The captain's timer and the last player race (force_advance_round vs the answer trigger)
+    const roundId = host.useRoundStore.getState().currentRound!.id;
+    await Promise.all([
+      sara.useRoundStore.getState().submitAnswer(playerOf(sara).id, 'Lie by Sara'),
+      host.getSupabase().rpc('force_advance_round', { p_round_id: roundId }),
+      omar.getSupabase().rpc('force_advance_round', { p_round_id: roundId }),
+    ]);
+    await waitForVoting(game);
+
+    expect(game.db.select<PlayerAnswer>('player_answers', (a) => a.round_id === roundId && a.is_correct)).toHaveLength(1);
+    game.clients.forEach((client) => {
+      expect(client.useRoundStore.getState().allAnswers.filter((a) => a.is_correct)).toHaveLength(1);
+    });
+  });
+
+  it('moves to voting with the fakes written so far when the answer timer expires', async () => {
+    game = await setUpGame(['Omar', 'Sara'], { votingTimer: 45 });
+    const [host, omar] = game.clients;
+    await startGame(game);
+    await startRound(game, 1);
+
+    await submitAnswers([omar]);
+    const roundId = host.useRoundStore.getState().currentRound!.id;
+
+    // Too early: nothing happens
+    await host.getSupabase().rpc('force_advance_round', { p_round_id: roundId });
+    expect(game.db.find('game_rounds', (r) => r.id === roundId)!.status).toBe('answering');
+
+    game.db.advanceTime(29_000); // Within the two-second grace
+    await host.getSupabase().rpc('force_advance_round', { p_round_id: roundId });
+    await waitForVoting(game);
+
+    const round = game.db.find('game_rounds', (r) => r.id === roundId)!;
+    const question = game.db.find('questions', (q) => q.id === round.question_id)!;
+    expect(round.timer_duration).toBe(45);
+    expect(host.useRoundStore.getState().allAnswers.map((a) => a.answer_text).sort()).toEqual(
+      ['Lie by Omar', question.correct_answer].sort()
+    );
+  });
+
+  it('never advances a paused round, even after its timer ran out or everyone tries to answer', async () => {
+    game = await setUpGame(['Omar']);
+    const [host, omar] = game.clients;
+    await startGame(game);
+    await startRound(game, 1);
+
+    await host.useRoundStore.getState().pauseRound();
+    await vi.waitFor(() => expect(omar.useRoundStore.getState().currentRound?.paused_at).not.toBeNull());
+
+    game.db.advanceTime(60_000);
+    const roundId = host.useRoundStore.getState().currentRound!.id;
+    await omar.getSupabase().rpc('force_advance_round', { p_round_id: roundId });
+    expect(game.db.find('game_rounds', (r) => r.id === roundId)!.status).toBe('answering');
+
+    await expect(submitAnswers(game.clients)).rejects.toMatchObject({ code: ErrorType.ROUND_PAUSED });
+    expect(game.db.select<PlayerAnswer>('player_answers', (a) => a.round_id === roundId)).toHaveLength(0);
+
+    // Resuming picks the countdown up where it stopped
+    await host.useRoundStore.getState().resumeRound();
+    await vi.waitFor(() => expect(omar.useRoundStore.getState().currentRound?.paused_at).toBeNull());
+    await omar.getSupabase().rpc('force_advance_round', { p_round_id: roundId });
+    expect(game.db.find('game_rounds', (r) => r.id === roundId)!.status).toBe('answering');
+
+    await submitAnswers(game.clients);
+    await waitForVoting(game);
+  });
+
+  it('lets the host move an untimed round on without a player who stopped answering', async () => {
+    game = await setUpGame(['Omar', 'Sara'], { answerTimer: 0, votingTimer: 0 });
+    const [host, omar] = game.clients;
+    await startGame(game);
+    await startRound(game, 1);
+    const roundId = host.useRoundStore.getState().currentRound!.id;
+
+    // Sara dropped out: with no timer nothing would ever move the round on
+    await submitAnswers([host, omar]);
+    await expect(omar.useRoundStore.getState().advanceRound()).rejects.toMatchObject({ code: ErrorType.UNAUTHORIZED });
+    expect(game.db.find('game_rounds', (r) => r.id === roundId)!.status).toBe('answering');
+
+    await host.useRoundStore.getState().advanceRound();
+    await waitForVoting(game);
+    expect(game.db.select<PlayerAnswer>('player_answers', (a) => a.round_id === roundId && a.is_correct)).toHaveLength(1);
+
+    await Promise.all([vote(host), vote(omar, 'Host')]);
+    await host.useRoundStore.getState().advanceRound();
+    await vi.waitFor(() => expect(game!.db.find('games', (g) => g.id === game!.gameId)!.current_round).toBe(2));
+    expect(game.db.find('game_rounds', (r) => r.id === roundId)!.status).toBe('completed');
+  });
+
+  it('lets the round chooser pick the category for everyone', async () => {
+    const db = createGameBackend();
+    ['History', 'Science', 'Sports'].forEach((category) => seedQuestions(db, 3, { category }));
+
+    game = await setUpGame(['Omar'], { categoryPicking: true }, db);
+    const [host, omar] = game.clients;
+    await startGame(game);
+    await startRound(game, 1);
+
+    // Players choose in join order: the host picks first
+    const round = host.useRoundStore.getState().currentRound!;
+    expect(round.status).toBe('choosing');
+    expect(round.chooser_id).toBe(playerOf(host).id);
+
+    await expect(omar.useRoundStore.getState().chooseCategory(round.category_options[0])).rejects.toMatchObject({
+      code: ErrorType.UNAUTHORIZED,
+    });
+
+    const category = round.category_options[0];
+    await host.useRoundStore.getState().chooseCategory(category);
+    await vi.waitFor(() => {
+      game!.clients.forEach((client) => {
+        expect(client.useRoundStore.getState().roundStatus).toBe('answering');
+        expect(client.useRoundStore.getState().question?.category).toBe(category);
+      });
+    });
+  });
+
+  it('only lets a dropped player back into their own spot', async () => {
+    game = await setUpGame(['Omar']);
+    const [, omar] = game.clients;
+    const omarId = playerOf(omar).id;
+    const dropOmar = () =>
+      game!.db.update<Player>('players', (p) => p.id === omarId, () => ({ connection_status: 'disconnected' }));
+
+    dropOmar();
+    const otherDevice = createAppClient(game.db);
+    await expect(otherDevice.useGameStore.getState().joinGame(game.code, 'Omar')).rejects.toMatchObject({
+      code: ErrorType.DUPLICATE_NAME,
+    });
+
+    await omar.useGameStore.getState().joinGame(game.code, 'Omar');
+    expect(playerOf(omar).id).toBe(omarId);
+
+    // Mid-game the audience can still join, but not as a dropped contestant
+    await game.host.useGameStore.getState().startGame();
+    dropOmar();
+    await expect(otherDevice.useGameStore.getState().joinGame(game.code, 'Omar', 'audience')).rejects.toMatchObject({
+      code: ErrorType.DUPLICATE_NAME,
+    });
+    expect(game.db.find('players', (p) => p.id === omarId)!.connection_status).toBe('disconnected');
+  });
+
+  it('tells a kicked player why and keeps banned players out', async () => {
+    game = await setUpGame(['Omar', 'Sara']);
+    const [host, omar, sara] = game.clients;
+
+    await host.useGameStore.getState().kickPlayer(playerOf(sara).id, true);
+
+    await vi.waitFor(() => {
+      expect(sara.useGameStore.getState().game).toBeNull();
+      expect(sara.useGameStore.getState().error?.code).toBe(ErrorType.BANNED);
+      expect(omar.useGameStore.getState().players.map((p) => p.user_name)).toEqual(['Host', 'Omar']);
+    });
+
+    // Same device under a new name, and a new device under the old name
+    await expect(sara.useGameStore.getState().joinGame(game.code, 'Sara 2')).rejects.toMatchObject({
+      code: ErrorType.BANNED,
+    });
+    const otherDevice = createAppClient(game.db);
+    await expect(otherDevice.useGameStore.getState().joinGame(game.code, 'Sara')).rejects.toMatchObject({
+      code: ErrorType.BANNED,
+    });
+  });
+
+  it('keeps renames and bans from being undone by writing to the players table', async () => {
+    game = await setUpGame(['Omar', 'Sara']);
+    const [host, omar, sara] = game.clients;
+    const omarId = playerOf(omar).id;
+
+    await host.useGameStore.getState().renamePlayer(omarId, 'Guest');
+    const renameBack = await omar.getSupabase().from('players').update({ user_name: 'Omar' }).eq('id', omarId);
+    expect(renameBack.error?.code).toBe('42501');
+    expect(game.db.find('players', (p) => p.id === omarId)!.user_name).toBe('Guest');
+
+    // Banned, Sara joins another game and tries to move her row back
+    await host.useGameStore.getState().kickPlayer(playerOf(sara).id, true);
+    const otherGame = await setUpGame(['Sara'], {}, game.db);
+    const [, saraAgain] = otherGame.clients;
+    const moveBack = await saraAgain
+      .getSupabase()
+      .from('players')
+      .update({ game_id: game.gameId })
+      .eq('id', playerOf(saraAgain).id);
+    disposeGame(otherGame);
+
+    expect(moveBack.error?.code).toBe('42501');
+    expect(game.db.select('players', (p) => p.game_id === game!.gameId).map((p) => p.user_name)).toEqual(['Host', 'Guest']);
+  });
+});
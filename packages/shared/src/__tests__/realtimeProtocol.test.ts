@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GameRound } from '../types';
+import { GAME_CONFIG } from '../constants/game';
+import { decodeBroadcast, encodeBroadcast } from '../utils/realtimeProtocol';
+import { createGameBackend } from '../testing';
+import { AppClient, createAppClient, disposeAppClient } from './support/appClient';
+import { TestGame, disposeGame, setUpGame, startGame } from './support/game';
+
+const round = { id: 'r1', game_id: 'g1', round_number: 1, status: 'answering' } as GameRound;
+
+describe('decodeBroadcast', () => {
+  it('reads back what encodeBroadcast sends', () => {
+    const message = encodeBroadcast({ type: 'round_control', action: 'paused', round });
+
+    expect(message).toMatchObject({
+      v: GAME_CONFIG.REALTIME_PROTOCOL_VERSION,
+      major: GAME_CONFIG.REALTIME_PROTOCOL_MAJOR,
+    });
+    expect(decodeBroadcast('round_control', message)).toEqual({
+      ok: true,
+      version: GAME_CONFIG.REALTIME_PROTOCOL_VERSION,
+      event: { type: 'round_control', action: 'paused', round, question: undefined },
+    });
+  });
+
+  it('upgrades messages from builds without a version', () => {
+    expect(decodeBroadcast('round_transition', { roundId: 'r1', status: 'voting' })).toEqual({
+      ok: true,
+      version: 0,
+      event: { type: 'round_transition', round_id: 'r1', status: 'voting' },
+    });
+  });
+
+  it('sends the pre-versioning field names too, so older builds still read round transitions', () => {
+    const message = encodeBroadcast({ type: 'round_transition', round_id: 'r1', status: 'voting' });
+
+    expect(message).toMatchObject({ round_id: 'r1', roundId: 'r1' });
+    expect(decodeBroadcast('round_transition', { roundId: message.roundId, status: message.status })).toMatchObject({
+      ok: true,
+      event: { round_id: 'r1' },
+    });
+  });
+
+  it('reads newer minor versions, but rejects newer majors and events it does not know', () => {
+    const message = encodeBroadcast({ type: 'heartbeat', timestamp: 1 });
+    const newerMinor = { ...message, v: GAME_CONFIG.REALTIME_PROTOCOL_VERSION + 1, sender: 'tv' };
+    const newerMajor = { ...newerMinor, major: GAME_CONFIG.REALTIME_PROTOCOL_MAJOR + 1 };
+
+    expect(decodeBroadcast('heartbeat', newerMinor)).toEqual({
+      ok: true,
+      version: GAME_CONFIG.REALTIME_PROTOCOL_VERSION + 1,
+      event: { type: 'heartbeat', timestamp: 1 },
+    });
+    expect(decodeBroadcast('heartbeat', newerMajor)).toMatchObject({ ok: false, reason: 'newer_major' });
+    expect(decodeBroadcast('confetti', { v: 1 })).toMatchObject({ ok: false, reason: 'unknown_event' });
+  });
+
+  it('rejects payloads that do not match the event', () => {
+    const message = encodeBroadcast({ type: 'round_transition', round_id: 'r1', status: 'voting' });
+
+    expect(decodeBroadcast('round_transition', { ...message, status: 'dancing' })).toMatchObject({
+      ok: false,
+      reason: 'invalid_payload',
+    });
+    expect(decodeBroadcast('round_control', { v: 1, action: 'paused', round: { id: 'r1' } })).toMatchObject({
+      ok: false,
+      reason: 'invalid_payload',
+    });
+    expect(decodeBroadcast('heartbeat', 'ping')).toMatchObject({ ok: false, reason: 'invalid_payload' });
+  });
+
+  it('keeps only the fields it knows', () => {
+    const message = { ...encodeBroadcast({ type: 'heartbeat', timestamp: 1 }), extra: true };
+
+    expect(decodeBroadcast('heartbeat', message)).toMatchObject({ ok: true, event: { type: 'heartbeat', timestamp: 1 } });
+    expect(decodeBroadcast('heartbeat', message)).not.toHaveProperty('event.extra');
+  });
+});
+
+describe('RealtimeService broadcasts', () => {
+  let client: AppClient | null = null;
+  let game: TestGame | null = null;
+
+  afterEach(() => {
+    if (client) disposeAppClient(client);
+    if (game) disposeGame(game);
+    client = null;
+    game = null;
+    vi.restoreAllMocks();
+  });
+
+  it('delivers broadcasts from older and current builds and skips the rest', async () => {
+    const db = createGameBackend();
+    client = createAppClient(db);
+    const callbacks = { onConnected: vi.fn(), onRoundStatusChanged: vi.fn(), onCaptainPromoted: vi.fn() };
+    client.RealtimeService.subscribeToGame('g1', callbacks);
+    await vi.waitFor(() => expect(callbacks.onConnected).toHaveBeenCalled());
+
+    const otherBuild = db.createClient().channel('game-broadcast:g1');
+    await new Promise<void>((resolve) => otherBuild.subscribe((status) => status === 'SUBSCRIBED' && resolve()));
+    const send = (event: string, payload: unknown) => otherBuild.send({ type: 'broadcast', event, payload });
+
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await send('round_transition', { roundId: 'r1', status: 'voting' }); // Before versioning
+    await send('round_transition', { v: 99, major: 99, round_id: 'r1', status: 'completed' }); // From the future
+    await send('confetti', { v: 1 });
+    await send('captain_promoted', encodeBroadcast({ type: 'captain_promoted', new_captain_id: 'p2', old_captain_id: 'p1' }));
+
+    await vi.waitFor(() => expect(callbacks.onCaptainPromoted).toHaveBeenCalledWith('p2', 'p1'));
+    expect(callbacks.onRoundStatusChanged.mock.calls).toEqual([['r1', 'voting']]);
+  });
+
+  it('hands captain promotions and timer syncs from other clients to the stores', async () => {
+    game = await setUpGame(['Omar']);
+    const { host, gameId } = game;
+    const [omar] = game.players;
+    await startGame(game);
+    const omarId = omar.useGameStore.getState().currentPlayer!.id;
+
+    await host.RealtimeService.broadcastEvent(gameId, {
+      type: 'captain_promoted',
+      new_captain_id: omarId,
+      old_captain_id: host.useGameStore.getState().currentPlayer!.id,
+    });
+    await vi.waitFor(() => expect(omar.useGameStore.getState().isPhaseCaptain).toBe(true));
+    expect(omar.useGameStore.getState().game?.phase_captain_id).toBe(omarId);
+
+    await host.RealtimeService.broadcastTimerSync(gameId, {
+      round_id: 'r1',
+      time_remaining: 20,
+      timer_active: true,
+      server_time: new Date().toISOString(),
+    });
+    await vi.waitFor(() => expect(omar.TimerService.getInterpolatedTimeRemaining('r1')).toBeGreaterThan(0));
+    expect(omar.TimerService.getInterpolatedTimeRemaining('r1')).toBeLessThanOrEqual(20);
+  });
+});
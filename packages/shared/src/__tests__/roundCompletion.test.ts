@@ -0,0 +1,171 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { TestPostgres, createPostgres } from './support/postgres';
+
+let pg: TestPostgres;
+
+beforeAll(async () => {
+  pg = await createPostgres();
+}, 60_000);
+
+interface SeededRound {
+  roundId: string;
+  playerIds: string[];
+  answerIds: string[];
+  truthId: string;
+}
+
+// A three-player game in the voting phase of its first round, every answer in
+// and no votes yet. The timer ran out an hour ago.
+async function seedVotingRound(code: string): Promise<SeededRound> {
+  const { db } = pg;
+  const game = await db.query<{ id: string }>(
+    "INSERT INTO games (code, status, current_round) VALUES ($1, 'playing', 1) RETURNING id",
+    [code]
+  );
+  const gameId = game.rows[0].id;
+
+  const playerIds: string[] = [];
+  for (const name of ['Omar', 'Sara', 'Ali']) {
+    const player = await db.query<{ id: string }>(
+      'INSERT INTO players (game_id, user_name) VALUES ($1, $2) RETURNING id',
+      [gameId, name]
+    );
+    playerIds.push(player.rows[0].id);
+  }
+
+  const question = await db.query<{ id: string }>(
+    "INSERT INTO questions (question_text, correct_answer) VALUES ('Question?', 'Aswan') RETURNING id"
+  );
+  const round = await db.query<{ id: string }>(
+    `INSERT INTO game_rounds (game_id, round_number, question_id, status, required_players, timer_starts_at, timer_duration)
+     VALUES ($1, 1, $2, 'voting', 3, NOW() - INTERVAL '1 hour', 20) RETURNING id`,
+    [gameId, question.rows[0].id]
+  );
+  const roundId = round.rows[0].id;
+
+  const answerIds: string[] = [];
+  for (const [i, playerId] of playerIds.entries()) {
+    const answer = await db.query<{ id: string }>(
+      'INSERT INTO player_answers (round_id, player_id, answer_text) VALUES ($1, $2, $3) RETURNING id',
+      [roundId, playerId, `Fake ${i}`]
+    );
+    answerIds.push(answer.rows[0].id);
+  }
+  const truth = await db.query<{ id: string }>(
+    "INSERT INTO player_answers (round_id, answer_text, is_correct) VALUES ($1, 'Aswan', true) RETURNING id",
+    [roundId]
+  );
+
+  return { roundId, playerIds, answerIds, truthId: truth.rows[0].id };
+}
+
+async function roundStatus(roundId: string): Promise<string> {
+  const result = await pg.db.query<{ status: string }>('SELECT status FROM game_rounds WHERE id = $1', [roundId]);
+  return result.rows[0].status;
+}
+
+async function ledgerRows(roundId: string): Promise<number> {
+  const result = await pg.db.query<{ count: number }>(
+    'SELECT COUNT(*)::INTEGER AS count FROM score_ledger WHERE round_id = $1',
+    [roundId]
+  );
+  return result.rows[0].count;
+}
+
+describe('entering voting from a client', () => {
+  it("gives the voting phase the game's voting timer", async () => {
+    const { db } = pg;
+    const game = await db.query<{ id: string }>(
+      "INSERT INTO games (code, status, current_round, voting_timer) VALUES ('TIMER1', 'playing', 1, 45) RETURNING id"
+    );
+    const gameId = game.rows[0].id;
+    const question = await db.query<{ id: string }>(
+      "INSERT INTO questions (question_text, correct_answer) VALUES ('Question?', 'Aswan') RETURNING id"
+    );
+    const round = await db.query<{ id: string }>(
+      `INSERT INTO game_rounds (game_id, round_number, question_id, status, required_players, timer_duration)
+       VALUES ($1, 1, $2, 'answering', 2, 30) RETURNING id`,
+      [gameId, question.rows[0].id]
+    );
+    const roundId = round.rows[0].id;
+
+    // Without the hand-run timer trigger, as on a database built from the migrations alone
+    await db.exec('ALTER TABLE game_rounds DISABLE TRIGGER set_timer_on_voting');
+    try {
+      for (const name of ['Omar', 'Sara']) {
+        const player = await db.query<{ id: string }>(
+          'INSERT INTO players (game_id, user_name) VALUES ($1, $2) RETURNING id',
+          [gameId, name]
+        );
+        await pg.as('anon', null, (tx) =>
+          tx.query('INSERT INTO player_answers (round_id, player_id, answer_text) VALUES ($1, $2, $3)', [
+            roundId,
+            player.rows[0].id,
+            `Fake from ${name}`,
+          ])
+        );
+      }
+    } finally {
+      await db.exec('ALTER TABLE game_rounds ENABLE TRIGGER set_timer_on_voting');
+    }
+
+    const result = await db.query<{ status: string; timer_duration: number }>(
+      'SELECT status, timer_duration FROM game_rounds WHERE id = $1',
+      [roundId]
+    );
+    expect(result.rows[0]).toEqual({ status: 'voting', timer_duration: 45 });
+  });
+});
+
+describe('completing a round from a client', () => {
+  it('scores the round when the last vote comes in', async () => {
+    const round = await seedVotingRound('VOTE01');
+    const [omar, sara, ali] = round.playerIds;
+    const castVote = (voterId: string, answerId: string) =>
+      pg.as('anon', null, (tx) =>
+        tx.query('INSERT INTO votes (round_id, voter_id, answer_id) VALUES ($1, $2, $3)', [
+          round.roundId,
+          voterId,
+          answerId,
+        ])
+      );
+
+    await castVote(omar, round.truthId);
+    await castVote(sara, round.answerIds[0]);
+    await castVote(ali, round.answerIds[0]);
+
+    expect(await roundStatus(round.roundId)).toBe('completed');
+    expect(await ledgerRows(round.roundId)).toBeGreaterThan(0);
+  });
+
+  it('scores the round when a client forces it past the timer', async () => {
+    const round = await seedVotingRound('FORCE1');
+    const [omar, sara, ali] = round.playerIds;
+
+    // Votes recorded without the trigger, as if the round had been left waiting
+    await pg.db.exec('ALTER TABLE votes DISABLE TRIGGER check_round_after_vote');
+    for (const voterId of [omar, sara, ali]) {
+      await pg.db.query('INSERT INTO votes (round_id, voter_id, answer_id) VALUES ($1, $2, $3)', [
+        round.roundId,
+        voterId,
+        voterId === omar ? round.answerIds[1] : round.truthId,
+      ]);
+    }
+    await pg.db.exec('ALTER TABLE votes ENABLE TRIGGER check_round_after_vote');
+
+    await pg.as('authenticated', null, (tx) => tx.query('SELECT force_advance_round($1)', [round.roundId]));
+
+    expect(await roundStatus(round.roundId)).toBe('completed');
+    expect(await ledgerRows(round.roundId)).toBeGreaterThan(0);
+  });
+
+  it.each(['anon', 'authenticated'] as const)('does not let %s call calculate_and_update_scores', async (role) => {
+    const round = await seedVotingRound(role === 'anon' ? 'CALC01' : 'CALC02');
+
+    await expect(
+      pg.as(role, null, (tx) =>
+        tx.query('SELECT * FROM calculate_and_update_scores($1, gen_random_uuid())', [round.roundId])
+      )
+    ).rejects.toThrow(/permission denied/);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { PlayerAnswer, ScoringRules, Vote } from '../types';
+import { aggregateScores, buildRoundBreakdown, calculateRoundScores, getRoundMultiplier } from '../utils/scoring';
+import { RECORDED_ROUNDS } from './fixtures/recordedRounds';
+
+const RULES: ScoringRules = {
+  correct_answer: 100,
+  per_fooled_player: 50,
+  perfect_fake_bonus: 25,
+  round_winner_bonus: 10,
+  final_round_multiplier: 2,
+};
+
+function answer(id: string, playerId: string | null, text: string, isCorrect = false): PlayerAnswer {
+  return { id, round_id: 'r1', player_id: playerId, answer_text: text, is_correct: isCorrect } as PlayerAnswer;
+}
+
+function vote(voterId: string, answerId: string): Vote {
+  return { id: `${voterId}-${answerId}`, round_id: 'r1', voter_id: voterId, answer_id: answerId } as Vote;
+}
+
+function totals(answers: PlayerAnswer[], votes: Vote[], options = {}) {
+  return Object.fromEntries(aggregateScores(calculateRoundScores(answers, votes, { rules: RULES, ...options })));
+}
+
+describe('calculateRoundScores', () => {
+  it('rewards finding the truth and fooling others', () => {
+    const answers = [answer('truth', null, 'Paris', true), answer('a', 'p1', 'Lyon'), answer('b', 'p2', 'Nice')];
+    const votes = [vote('p1', 'truth'), vote('p2', 'a'), vote('p3', 'a')];
+
+    // p1: truth (100) + two fooled (100) + winner bonus; p2's fake got no votes
+    expect(totals(answers, votes)).toEqual({ p1: 210, p2: 25 });
+  });
+
+  it('never credits the system truth card to anyone', () => {
+    const answers = [answer('truth', null, 'Paris', true), answer('a', 'p1', 'Lyon')];
+    const votes = [vote('p2', 'a')];
+
+    expect(totals(answers, votes)).toEqual({ p1: 60 });
+  });
+
+  it('credits a fake as the truth only when it normalizes to it, like the server', () => {
+    const question = { correct_answer: 'نهر النيل', accepted_answers: [] };
+    const answers = [
+      answer('truth', null, 'نهر النيل', true),
+      answer('a', 'p1', 'النيل'), // Close, but only a fake to the server
+      answer('b', 'p2', 'نهر نيل'),
+    ];
+    const votes = [vote('p3', 'a'), vote('p4', 'b')];
+
+    // p4 found the truth (100 + winner bonus); p2 wrote the truth, so earns nothing for it
+    expect(totals(answers, votes, { question })).toEqual({ p1: 50, p4: 110 });
+  });
+
+  it('splits a merged duplicate fake between its authors', () => {
+    const answers = [answer('truth', null, 'Paris', true), answer('a', 'p1', 'Lyon'), answer('b', 'p2', 'lyon')];
+    const votes = [vote('p3', 'a'), vote('p4', 'b')];
+
+    expect(totals(answers, votes)).toEqual({ p1: 60, p2: 60 });
+  });
+
+  it('applies the round multiplier to everything but audience bonuses', () => {
+    const answers = [answer('truth', null, 'Paris', true), answer('a', 'p1', 'Lyon')];
+    const votes = [vote('p2', 'truth')];
+
+    expect(totals(answers, votes, { multiplier: 2 })).toEqual({ p1: 50, p2: 220 });
+  });
+});
+
+describe('getRoundMultiplier', () => {
+  it('multiplies the final round and host-marked rounds', () => {
+    const game = { round_count: 4, scoring_rules: RULES, multiplier_rounds: [2] };
+
+    expect(getRoundMultiplier(game, 1)).toBe(1);
+    expect(getRoundMultiplier(game, 2)).toBeGreaterThan(1);
+    expect(getRoundMultiplier(game, 4)).toBe(2);
+  });
+});
+
+describe('buildRoundBreakdown', () => {
+  const players = ['p1', 'p2', 'p3'].map((id) => ({ id, user_name: id.toUpperCase(), team: null }));
+
+  it('lists each player\'s points by reason and names who they fooled', () => {
+    const answers = [answer('truth', null, 'Paris', true), answer('a', 'p1', 'Lyon'), answer('b', 'p2', 'Nice')];
+    const votes = [vote('p1', 'truth'), vote('p2', 'a'), vote('p3', 'a')];
+    const scores = calculateRoundScores(answers, votes, { rules: RULES });
+
+    expect(buildRoundBreakdown(scores, answers, votes, players)).toEqual([
+      {
+        player_id: 'p1',
+        player_name: 'P1',
+        total: 210,
+        events: [
+          { player_id: 'p1', points_earned: 100, reason: 'correct_answer', fooled_names: [] },
+          { player_id: 'p1', points_earned: 100, reason: 'fooled_players', fooled_names: ['P2', 'P3'] },
+          { player_id: 'p1', points_earned: 10, reason: 'round_winner', fooled_names: [] },
+        ],
+      },
+      {
+        player_id: 'p2',
+        player_name: 'P2',
+        total: 25,
+        events: [{ player_id: 'p2', points_earned: 25, reason: 'perfect_fake', fooled_names: [] }],
+      },
+    ]);
+  });
+
+  it('leaves out zero-point entries and players who scored nothing', () => {
+    const answers = [answer('truth', null, 'Paris', true), answer('a', 'p1', 'Lyon')];
+    const votes = [vote('p2', 'truth')];
+    const scores = [
+      { player_id: 'p2', points_earned: 100, reason: 'correct_answer' as const },
+      { player_id: 'p2', points_earned: 0, reason: 'round_winner' as const },
+      { player_id: 'p3', points_earned: 0, reason: 'round_winner' as const },
+    ];
+
+    const breakdown = buildRoundBreakdown(scores, answers, votes, players);
+    expect(breakdown.map((b) => [b.player_id, b.events.map((e) => e.reason)])).toEqual([['p2', ['correct_answer']]]);
+  });
+
+  it('does not name teammates, whose votes earned nothing', () => {
+    const round = RECORDED_ROUNDS.find((r) => r.teams)!;
+    const teamPlayers = Object.entries(round.teams!).map(([id, team]) => ({ id, user_name: id.toUpperCase(), team }));
+
+    const fooled = Object.fromEntries(
+      buildRoundBreakdown(round.ledger, round.answers, round.votes, teamPlayers).map((b) => [
+        b.player_id,
+        b.events.find((e) => e.reason === 'fooled_players')?.fooled_names,
+      ])
+    );
+    // p1 (red) and p3 (blue) wrote the same fake, voted for by p2 (red) and p4 (blue)
+    expect(fooled).toMatchObject({ p1: ['P4'], p2: ['P3'], p3: ['P2'] });
+  });
+});
@@ -0,0 +1,169 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Player, ScoreResult } from '../types';
+import { DEFAULT_SCORING_RULES } from '../constants/game';
+import { calculateRoundScores } from '../utils/scoring';
+import { buildRoundResult } from '../utils/gameHistory';
+import { RECORDED_ROUNDS, RecordedRound } from './fixtures/recordedRounds';
+import { TestPostgres, createPostgres } from './support/postgres';
+
+let pg: TestPostgres;
+
+beforeAll(async () => {
+  pg = await createPostgres();
+}, 60_000);
+
+function sorted(scores: ScoreResult[]): ScoreResult[] {
+  return [...scores].sort(
+    (a, b) => a.reason.localeCompare(b.reason) || a.player_id.localeCompare(b.player_id)
+  );
+}
+
+function rescore(round: RecordedRound): ScoreResult[] {
+  return calculateRoundScores(round.answers, round.votes, {
+    question: round.question,
+    rules: round.rules,
+    multiplier: round.multiplier,
+    likes: round.likes,
+    audienceVotes: round.audienceVotes,
+    playerTeams: round.teams ? new Map(Object.entries(round.teams)) : undefined,
+  });
+}
+
+/**
+ * Play a recorded round into the database, score it with
+ * calculate_and_update_scores and return its score_ledger rows in fixture ids
+ */
+async function scoreInDatabase(round: RecordedRound, code: string): Promise<ScoreResult[]> {
+  const { db } = pg;
+  const ids = new Map<string, string>();
+  const insert = async (sql: string, params: unknown[]) =>
+    (await db.query<{ id: string }>(`${sql} RETURNING id`, params)).rows[0].id;
+
+  const gameId = await insert(
+    "INSERT INTO games (code, status, current_round, scoring_rules, team_count) VALUES ($1, 'playing', 1, $2, $3)",
+    [code, round.rules, round.teams ? 2 : 0]
+  );
+
+  const people = new Set([
+    ...round.answers.flatMap((a) => (a.player_id ? [a.player_id] : [])),
+    ...round.votes.map((v) => v.voter_id),
+    ...round.likes.map((l) => l.liker_id),
+    ...round.audienceVotes.map((v) => v.audience_id),
+  ]);
+  for (const person of people) {
+    ids.set(
+      person,
+      await insert('INSERT INTO players (game_id, user_name, role, team) VALUES ($1, $2, $3, $4)', [
+        gameId,
+        person,
+        person.startsWith('a') ? 'audience' : 'player',
+        round.teams?.[person] ?? null,
+      ])
+    );
+  }
+
+  const questionId = await insert('INSERT INTO questions (question_text, correct_answer) VALUES ($1, $2)', [
+    'Question?',
+    round.question.correct_answer,
+  ]);
+  // Nobody has voted yet, so the vote trigger never completes the round on its own
+  const roundId = await insert(
+    `INSERT INTO game_rounds (game_id, round_number, question_id, status, multiplier, required_players)
+     VALUES ($1, 1, $2, 'voting', $3, 99)`,
+    [gameId, questionId, round.multiplier]
+  );
+
+  for (const answer of round.answers) {
+    ids.set(
+      answer.id,
+      await insert('INSERT INTO player_answers (round_id, player_id, answer_text, is_correct) VALUES ($1, $2, $3, $4)', [
+        roundId,
+        answer.player_id && ids.get(answer.player_id),
+        answer.answer_text,
+        answer.is_correct,
+      ])
+    );
+  }
+  // Accepted answers go in afterwards, as a pack edit during the round would,
+  // so fakes matching them get past reject_fake_matching_truth
+  await db.query('UPDATE questions SET accepted_answers = $1 WHERE id = $2', [
+    round.question.accepted_answers ?? [],
+    questionId,
+  ]);
+
+  for (const v of round.votes) {
+    await db.query('INSERT INTO votes (round_id, voter_id, answer_id) VALUES ($1, $2, $3)', [
+      roundId,
+      ids.get(v.voter_id),
+      ids.get(v.answer_id),
+    ]);
+  }
+  for (const l of round.likes) {
+    await db.query('INSERT INTO answer_likes (round_id, answer_id, liker_id) VALUES ($1, $2, $3)', [
+      roundId,
+      ids.get(l.answer_id),
+      ids.get(l.liker_id),
+    ]);
+  }
+  for (const v of round.audienceVotes) {
+    await db.query('INSERT INTO audience_votes (round_id, answer_id, audience_id) VALUES ($1, $2, $3)', [
+      roundId,
+      ids.get(v.answer_id),
+      ids.get(v.audience_id),
+    ]);
+  }
+
+  await db.query("UPDATE game_rounds SET status = 'completed' WHERE id = $1", [roundId]);
+  const ledger = await db.query<ScoreResult>(
+    'SELECT player_id, points_earned, reason FROM calculate_and_update_scores($1, $2)',
+    [roundId, gameId]
+  );
+
+  const fixtureIds = new Map(Array.from(ids, ([fixtureId, id]) => [id, fixtureId]));
+  return ledger.rows.map((row) => ({ ...row, player_id: fixtureIds.get(row.player_id)! }));
+}
+
+describe('calculate_and_update_scores and calculateRoundScores agree on the recorded rounds', () => {
+  it.each(RECORDED_ROUNDS.map((round, i) => ({ ...round, code: `PAR${i}` })))('$name', async ({ code, ...round }) => {
+    expect(sorted(await scoreInDatabase(round, code))).toEqual(sorted(round.ledger));
+    expect(sorted(rescore(round))).toEqual(sorted(round.ledger));
+  });
+});
+
+describe('buildRoundResult', () => {
+  const [round] = RECORDED_ROUNDS;
+  const players = ['p1', 'p2', 'p3', 'p4'].map((id) => ({ id, user_name: id.toUpperCase(), team: null }) as Player);
+  const replayRound = {
+    id: 'r1',
+    round_number: 1,
+    multiplier: round.multiplier,
+    question: { question_text: 'Question?', correct_answer: 'أسوان', accepted_answers: [] },
+    answers: round.answers,
+    votes: round.votes,
+    likes: round.likes,
+    audience_votes: round.audienceVotes,
+  };
+
+  it('shows the points from the ledger, not a recomputation', () => {
+    // The host changed the rules after the game; the ledger still has what was handed out
+    const changedRules = { ...DEFAULT_SCORING_RULES, correct_answer: 1 };
+    const result = buildRoundResult({ ...replayRound, scores: round.ledger }, players, changedRules);
+
+    expect(result.scores.find((s) => s.player_name === 'P1')).toEqual({
+      player_name: 'P1',
+      points_earned: 1000,
+      reasons: ['correct_answer', 'fooled_players'],
+    });
+  });
+
+  it('rescores rounds played before the ledger existed', () => {
+    const result = buildRoundResult({ ...replayRound, scores: [] }, players, DEFAULT_SCORING_RULES);
+
+    expect(result.scores.map((s) => [s.player_name, s.points_earned])).toEqual([
+      ['P3', 1750],
+      ['P4', 1250],
+      ['P1', 1000],
+      ['P2', 500],
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GAME_CONFIG } from '../constants/game';
+import { GameService, RoundService, initializeSupabase } from '../services';
+import { ErrorType, Game, Player, QuestionPack } from '../types';
+import { FakeDatabase, createGameBackend, seedQuestions } from '../testing';
+
+const SETTINGS = { roundCount: 4, maxPlayers: 3 };
+
+let db: FakeDatabase;
+
+// Services read the client from getSupabase(); point it at a fresh backend
+function signIn(options: { host?: boolean } = {}): void {
+  const user = options.host ? db.createUser() : null;
+  initializeSupabase('', '', { client: db.createClient({ user }) });
+}
+
+async function createLobby(): Promise<{ game: Game; host: Player }> {
+  signIn({ host: true });
+  const { game, player } = await GameService.createGame('Host', SETTINGS);
+  return { game, host: player };
+}
+
+describe('GameService', () => {
+  beforeEach(() => {
+    db = createGameBackend();
+    seedQuestions(db, 8);
+  });
+
+  it('requires a signed-in host to create a game', async () => {
+    signIn();
+    await expect(GameService.createGame('Host', SETTINGS)).rejects.toMatchObject({
+      code: ErrorType.NOT_AUTHENTICATED,
+    });
+  });
+
+  it('rejects unknown codes, taken names and full games', async () => {
+    const { game } = await createLobby();
+
+    await expect(GameService.joinGame('ZZZZ', 'Omar')).rejects.toMatchObject({ code: ErrorType.GAME_NOT_FOUND });
+    await expect(GameService.joinGame(game.code, 'Host')).rejects.toMatchObject({ code: ErrorType.DUPLICATE_NAME });
+
+    await GameService.joinGame(game.code, 'Omar');
+    await GameService.joinGame(game.code, 'Sara');
+    await expect(GameService.joinGame(game.code, 'Laila')).rejects.toMatchObject({ code: ErrorType.GAME_FULL });
+  });
+
+  it('accepts codes typed with spaces or in lower case', async () => {
+    const { game } = await createLobby();
+    const spaced = `${game.code.slice(0, 2)} ${game.code.slice(2)}`.toLowerCase();
+
+    const { player } = await GameService.joinGame(spaced, 'Omar');
+    expect(player.game_id).toBe(game.id);
+  });
+
+  it('needs enough players to start, then only lets the audience in', async () => {
+    const { game, host } = await createLobby();
+
+    await expect(GameService.startGame(game.id, host.id)).rejects.toMatchObject({
+      code: ErrorType.NOT_ENOUGH_PLAYERS,
+      details: { min: GAME_CONFIG.MIN_PLAYERS },
+    });
+
+    for (let i = 1; i < GAME_CONFIG.MIN_PLAYERS; i++) {
+      await GameService.joinGame(game.code, `Player ${i}`);
+    }
+    await GameService.startGame(game.id, host.id);
+
+    await expect(GameService.joinGame(game.code, 'Late')).rejects.toMatchObject({ code: ErrorType.ALREADY_STARTED });
+    const { player } = await GameService.joinGame(game.code, 'Watcher', 'audience');
+    expect(player.role).toBe('audience');
+  });
+
+  it("won't build a game from another host's question packs", async () => {
+    const otherHost = db.createUser();
+    const pack = db.insert<QuestionPack>('question_packs', { owner_id: otherHost.id, title: 'Private' });
+    seedQuestions(db, 4, { pack_id: pack.id });
+
+    signIn({ host: true });
+    await expect(GameService.createGame('Host', { ...SETTINGS, questionPackIds: [pack.id] })).rejects.toMatchObject({
+      code: ErrorType.UNAUTHORIZED,
+    });
+    expect(db.select('games')).toHaveLength(0);
+  });
+
+  it('only lets the host start the game', async () => {
+    const { game } = await createLobby();
+    const { player } = await GameService.joinGame(game.code, 'Omar');
+
+    await expect(GameService.startGame(game.id, player.id)).rejects.toMatchObject({ code: ErrorType.UNAUTHORIZED });
+  });
+});
+
+describe('RoundService', () => {
+  let game: Game;
+  let omar: Player;
+  let sara: Player;
+
+  beforeEach(async () => {
+    db = createGameBackend();
+    seedQuestions(db, 8);
+
+    const lobby = await createLobby();
+    game = lobby.game;
+    omar = (await GameService.joinGame(game.code, 'Omar')).player;
+    sara = (await GameService.joinGame(game.code, 'Sara')).player;
+    await GameService.startGame(game.id, lobby.host.id);
+  });
+
+  it('creates each round once, even when asked twice at the same time', async () => {
+    const [first, second] = await Promise.all([
+      RoundService.createRound(game.id, 1),
+      RoundService.createRound(game.id, 1),
+    ]);
+
+    expect(second.round.id).toBe(first.round.id);
+    expect(db.select('game_rounds', (r) => r.game_id === game.id)).toHaveLength(1);
+    expect(first.question).not.toBeNull();
+  });
+
+  it("lets a player who doesn't own the game's pack start its rounds", async () => {
+    db = createGameBackend();
+    const hostUser = db.createUser();
+    const pack = db.insert<QuestionPack>('question_packs', { owner_id: hostUser.id, title: 'Family' });
+    seedQuestions(db, 4, { pack_id: pack.id });
+
+    initializeSupabase('', '', { client: db.createClient({ user: hostUser }) });
+    const lobby = await GameService.createGame('Host', { ...SETTINGS, questionPackIds: [pack.id] });
+    await GameService.joinGame(lobby.game.code, 'Omar');
+    await GameService.joinGame(lobby.game.code, 'Sara');
+    await GameService.startGame(lobby.game.id, lobby.player.id);
+
+    // The phase captain plays signed out on their own device
+    signIn();
+    const { round, question } = await RoundService.createRound(lobby.game.id, 1);
+
+    expect(question?.pack_id).toBe(pack.id);
+    expect(round.question_id).toBe(question?.id);
+  });
+
+  it('spreads repeats evenly once every question was played, never twice in a row', async () => {
+    db = createGameBackend();
+    seedQuestions(db, 2);
+    const lobby = await createLobby();
+    await GameService.joinGame(lobby.game.code, 'Omar');
+    await GameService.joinGame(lobby.game.code, 'Sara');
+    await GameService.startGame(lobby.game.id, lobby.host.id);
+
+    const questionIds: string[] = [];
+    for (let roundNumber = 1; roundNumber <= 4; roundNumber++) {
+      const { question } = await RoundService.createRound(lobby.game.id, roundNumber);
+      questionIds.push(question!.id);
+    }
+
+    const [first, second] = questionIds;
+    expect(first).not.toBe(second);
+    expect(questionIds).toEqual([first, second, first, second]);
+  });
+
+  it('rejects fakes that match the truth and returns the first answer on a retry', async () => {
+    const { round, question } = await RoundService.createRound(game.id, 1);
+
+    await expect(RoundService.submitAnswer(round.id, omar.id, question!.correct_answer, question!)).rejects.toMatchObject({
+      code: ErrorType.ANSWER_MATCHES_TRUTH,
+    });
+
+    const first = await RoundService.submitAnswer(round.id, omar.id, 'A lie', question!);
+    const retry = await RoundService.submitAnswer(round.id, omar.id, 'Another lie', question!);
+    expect(retry.id).toBe(first.id);
+    expect(retry.answer_text).toBe('A lie');
+  });
+
+  it('does not let players vote for their own fake', async () => {
+    const { round, question } = await RoundService.createRound(game.id, 1);
+    const fake = await RoundService.submitAnswer(round.id, omar.id, 'A lie', question!);
+    await RoundService.submitAnswer(round.id, sara.id, 'Another lie', question!);
+
+    await expect(RoundService.submitVote(round.id, omar.id, fake.id)).rejects.toMatchObject({
+      code: ErrorType.OWN_ANSWER,
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import path from 'path';
+import { buildSync } from 'esbuild';
+import type * as Shared from '../../index';
+import type { AuthUser, FakeDatabase } from '../../testing';
+
+export type AppClient = typeof Shared;
+
+let bundle: string | null = null;
+
+// The shared package as one CommonJS script (npm dependencies stay external)
+function sharedBundle(): string {
+  if (!bundle) {
+    const result = buildSync({
+      entryPoints: [path.resolve(__dirname, '../../index.ts')],
+      bundle: true,
+      write: false,
+      format: 'cjs',
+      platform: 'node',
+      packages: 'external',
+      logLevel: 'silent',
+    });
+    bundle = result.outputFiles[0].text;
+  }
+  return bundle;
+}
+
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+/**
+ * A separate copy of the shared package (its own stores, services and
+ * localStorage) talking to the fake backend, like one phone in a real game.
+ * Stores and services are module singletons, so each player needs their own.
+ */
+export function createAppClient(db: FakeDatabase, options: { user?: AuthUser } = {}): AppClient {
+  const module = { exports: {} as AppClient };
+  const run = new Function('module', 'exports', 'require', 'localStorage', sharedBundle());
+  run(module, module.exports, require, createMemoryStorage());
+
+  module.exports.initializeSupabase('', '', { client: db.createClient(options) });
+  return module.exports;
+}
+
+/**
+ * Leave the game and stop every realtime subscription and timer of a client
+ */
+export function disposeAppClient(client: AppClient): void {
+  client.useGameStore.getState().reset();
+  client.useRoundStore.getState().reset();
+  client.RealtimeService.unsubscribeAll();
+  client.SyncService.stopAll();
+  client.TimerService.stopAllSyncs();
+}
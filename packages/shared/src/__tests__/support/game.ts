@@ -0,0 +1,116 @@
+import { expect, vi } from 'vitest';
+import type { GameSettings, Player } from '../../types';
+import { createGameBackend, seedQuestions, FakeDatabase } from '../../testing';
+import { AppClient, createAppClient, disposeAppClient } from './appClient';
+
+/**
+ * Drives the apps of a whole table of players through a game, doing what the
+ * screens do (the phase captain starting rounds, players answering and voting)
+ */
+export interface TestGame {
+  db: FakeDatabase;
+  host: AppClient;
+  players: AppClient[]; // Everyone except the host
+  clients: AppClient[]; // Host first
+  gameId: string;
+  code: string;
+}
+
+export const TEST_SETTINGS: GameSettings = { roundCount: 4, maxPlayers: 8 };
+
+/**
+ * A signed-in host plus one client per player name, all in the lobby
+ */
+export async function setUpGame(
+  playerNames: string[],
+  settings: Partial<GameSettings> = {},
+  db: FakeDatabase = createGameBackend()
+): Promise<TestGame> {
+  if (db.select('questions').length === 0) {
+    seedQuestions(db, 12);
+  }
+
+  const host = createAppClient(db, { user: db.createUser() });
+  await host.useGameStore.getState().createGame('Host', { ...TEST_SETTINGS, ...settings });
+  const { game } = host.useGameStore.getState();
+
+  const players: AppClient[] = [];
+  for (const name of playerNames) {
+    const client = createAppClient(db);
+    await client.useGameStore.getState().joinGame(game!.code, name);
+    players.push(client);
+  }
+
+  const clients = [host, ...players];
+  await vi.waitFor(() => {
+    clients.forEach((client) => expect(client.useGameStore.getState().players).toHaveLength(clients.length));
+  });
+
+  return { db, host, players, clients, gameId: game!.id, code: game!.code };
+}
+
+export function playerOf(client: AppClient): Player {
+  const player = client.useGameStore.getState().currentPlayer;
+  if (!player) throw new Error('Client is not in a game');
+  return player;
+}
+
+export async function startGame(game: TestGame): Promise<void> {
+  await game.host.useGameStore.getState().startGame();
+  await vi.waitFor(() => {
+    game.clients.forEach((client) => expect(client.useGameStore.getState().game?.status).toBe('playing'));
+  });
+}
+
+/**
+ * The phase captain creates the round (Game.tsx); everyone else gets it over realtime
+ */
+export async function startRound(game: TestGame, roundNumber: number): Promise<void> {
+  const captain = game.clients.find((client) => client.useGameStore.getState().isPhaseCaptain) ?? game.host;
+  await vi.waitFor(() => expect(captain.useGameStore.getState().game?.current_round).toBe(roundNumber));
+
+  const { game: current } = captain.useGameStore.getState();
+  await captain.useRoundStore.getState().startRound(current!.id, roundNumber, current!.round_count);
+
+  await vi.waitFor(() => {
+    game.clients.forEach((client) => expect(client.useRoundStore.getState().currentRound?.round_number).toBe(roundNumber));
+  });
+}
+
+export async function submitAnswers(clients: AppClient[]): Promise<void> {
+  await Promise.all(
+    clients.map((client) =>
+      client.useRoundStore.getState().submitAnswer(playerOf(client).id, `Lie by ${playerOf(client).user_name}`)
+    )
+  );
+}
+
+/**
+ * Wait until every client shows the voting cards
+ */
+export async function waitForVoting(game: TestGame): Promise<void> {
+  await vi.waitFor(() => {
+    game.clients.forEach((client) => {
+      const { roundStatus, allAnswers } = client.useRoundStore.getState();
+      expect(roundStatus).toBe('voting');
+      expect(allAnswers.some((answer) => answer.is_correct)).toBe(true);
+    });
+  });
+}
+
+/**
+ * Vote for the truth, or for the fake written by the named player
+ */
+export async function vote(client: AppClient, fakeBy?: string): Promise<void> {
+  const { allAnswers } = client.useRoundStore.getState();
+  const answer = fakeBy
+    ? allAnswers.find((a) => a.answer_text === `Lie by ${fakeBy}`)
+    : allAnswers.find((a) => a.is_correct);
+  if (!answer) throw new Error(`No answer to vote for (${fakeBy ?? 'truth'})`);
+
+  await client.useRoundStore.getState().submitVote(playerOf(client).id, answer.id);
+}
+
+export function disposeGame(game: TestGame): void {
+  game.clients.forEach(disposeAppClient);
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { unaccent } from '@electric-sql/pglite/contrib/unaccent';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../../supabase/migrations');
+
+// What a Supabase project has before the first migration: the API roles, the
+// auth schema (auth.uid() and auth.role() read the JWT claims) and the realtime publication
+const SUPABASE_SETUP = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT,
+    raw_user_meta_data JSONB DEFAULT '{}'
+  );
+  CREATE FUNCTION auth.uid() RETURNS UUID AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+  $$ LANGUAGE sql STABLE;
+  CREATE FUNCTION auth.role() RETURNS TEXT AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.role', true), '')
+  $$ LANGUAGE sql STABLE;
+
+  CREATE PUBLICATION supabase_realtime;
+
+  GRANT USAGE ON SCHEMA public, auth TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+`;
+
+// What the live database got from the untimestamped scripts, which were run by
+// hand: the columns (switch_to_fixed_quorum.sql, add_phase_captain.sql,
+// add_heartbeat_mechanism.sql, fix_correct_answer_foreign_key.sql) and the
+// answer, vote and timer triggers (add_server_side_phase_transitions.sql,
+// add_timer_trigger.sql), whose CREATE TRIGGER statements don't run as written
+const LIVE_SCRIPTS = `
+  ALTER TABLE game_rounds ADD COLUMN required_players INTEGER NOT NULL DEFAULT 2;
+  ALTER TABLE games ADD COLUMN phase_captain_id UUID REFERENCES players(id) ON DELETE SET NULL;
+  ALTER TABLE players ADD COLUMN last_heartbeat TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+  ALTER TABLE player_answers ALTER COLUMN player_id DROP NOT NULL;
+  ALTER TABLE player_answers DROP CONSTRAINT player_answers_round_id_player_id_key;
+  CREATE UNIQUE INDEX player_answers_round_player_unique
+    ON player_answers(round_id, player_id)
+    WHERE player_id IS NOT NULL;
+
+  CREATE FUNCTION check_round_after_submission() RETURNS TRIGGER AS $$
+  BEGIN
+    PERFORM advance_round_if_ready(NEW.round_id);
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql;
+
+  CREATE TRIGGER check_round_after_answer
+    AFTER INSERT ON player_answers
+    FOR EACH ROW
+    WHEN (NEW.is_correct = false)
+    EXECUTE FUNCTION check_round_after_submission();
+
+  CREATE TRIGGER check_round_after_vote
+    AFTER INSERT ON votes
+    FOR EACH ROW
+    EXECUTE FUNCTION check_round_after_submission();
+
+  CREATE TRIGGER set_timer_on_voting
+    BEFORE UPDATE ON game_rounds
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timer_on_voting();
+`;
+
+// initial_schema.sql's no_self_vote CHECK has a subquery, which Postgres rejects
+function applicableSql(sql: string): string {
+  return sql.replace(/,(\s*--[^\n]*)?\s*CONSTRAINT no_self_vote CHECK \(.*\)\n/, '\n');
+}
+
+export type ClientRole = 'anon' | 'authenticated';
+
+export interface TestPostgres {
+  db: PGlite;
+  // Run statements as a client would reach them through the API (RLS and grants apply)
+  as<T>(role: ClientRole, userId: string | null, run: (tx: Transaction) => Promise<T>): Promise<T>;
+}
+
+/**
+ * A real Postgres (PGlite) with every timestamped migration applied in order,
+ * for checking the SQL itself where the in-memory fake backend can't: grants,
+ * RLS and the exact numbers the database writes. Starting one takes a few
+ * seconds, so create it once per test file.
+ */
+export async function createPostgres(): Promise<TestPostgres> {
+  const db = new PGlite({ extensions: { uuid_ossp, unaccent } });
+  await db.exec(SUPABASE_SETUP);
+
+  const migrations = fs
+    .readdirSync(MIGRATIONS_DIR)
+    .filter((file) => /^\d+_.*\.sql$/.test(file))
+    .sort();
+  for (const file of migrations) {
+    try {
+      await db.exec(applicableSql(fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8')));
+    } catch (error) {
+      throw new Error(`${file}: ${(error as Error).message}`);
+    }
+  }
+  await db.exec(LIVE_SCRIPTS);
+
+  return {
+    db,
+    as: (role, userId, run) =>
+      db.transaction(async (tx) => {
+        await tx.exec(`SET LOCAL ROLE ${role}`);
+        await tx.query(
+          "SELECT set_config('request.jwt.claim.role', $1, true), set_config('request.jwt.claim.sub', $2, true)",
+          [role, userId ?? '']
+        );
+        return run(tx);
+      }),
+  };
+}
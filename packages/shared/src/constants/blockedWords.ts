@@ -0,0 +1,59 @@
+// Default content filter wordlists. Entries are matched as whole words after
+// normalizeForFilter() (so spelling variants and leetspeak need no entries).
+// Keep in sync with the blocked_words seed in add_content_filter.sql.
+
+export const BLOCKED_WORDS_AR: readonly string[] = [
+  'كس',
+  'كسمك',
+  'كسختك',
+  'زب',
+  'زبي',
+  'طيز',
+  'نيك',
+  'نيج',
+  'منيوك',
+  'منيك',
+  'متناك',
+  'شرموط',
+  'شرموطة',
+  'شرمطة',
+  'قحبة',
+  'قحاب',
+  'عاهرة',
+  'عاهر',
+  'خول',
+  'لوطي',
+  'معرص',
+  'عرص',
+  'ديوث',
+  'زاني',
+  'زانية',
+  'ابن الكلب',
+  'ابن القحبة',
+  'يلعن',
+];
+
+export const BLOCKED_WORDS_EN: readonly string[] = [
+  'fuck',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'shit',
+  'bullshit',
+  'bitch',
+  'bastard',
+  'asshole',
+  'dick',
+  'dickhead',
+  'cock',
+  'cunt',
+  'pussy',
+  'whore',
+  'slut',
+  'wanker',
+  'twat',
+  'nigger',
+  'nigga',
+  'faggot',
+  'retard',
+];
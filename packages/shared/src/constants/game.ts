@@ -1,3 +1,5 @@
+import { ContentFilterLevel, QuestionDifficulty, ScoringPreset, ScoringRules, Team, TimerPreset } from '../types';
+
 // Game configuration constants
 export const GAME_CONFIG = {
   // Game code settings
@@ -15,10 +17,27 @@ export const GAME_CONFIG = {
   DEFAULT_ROUNDS: 4,
   ROUND_OPTIONS: [4, 6, 8, 10],
 
-  // Timer durations (seconds)
+  // Team mode (0 = no teams)
+  TEAM_OPTIONS: [0, 2, 3, 4],
+
+  // Content filter for names and fakes
+  CONTENT_FILTER_OPTIONS: ['off', 'mask', 'reject'] as ContentFilterLevel[],
+  DEFAULT_CONTENT_FILTER: 'mask' as ContentFilterLevel,
+
+  // Timer durations (seconds), defaults for games that don't pick a preset
   ANSWER_TIMER: 30,
   VOTING_TIMER: 20,
+  NO_TIMER: 0, // Phase waits for everyone
+  MIN_PHASE_TIMER: 10,
+  MAX_PHASE_TIMER: 300,
   RESULTS_DISPLAY_DURATION: 25,
+  TIMER_EXTENSION: 15, // Seconds added by the host's "+time" button
+  MAX_TIMER_EXTENSION: 60,
+  CATEGORY_CHOICE_TIMER: 15, // Chooser's time to pick a category (then picked at random)
+
+  // Question selection
+  DIFFICULTY_OPTIONS: ['easy', 'medium', 'hard'] as QuestionDifficulty[],
+  CATEGORY_OPTIONS_COUNT: 3, // Categories offered to the round's chooser
 
   // Score points
   POINTS: {
@@ -26,7 +45,12 @@ export const GAME_CONFIG = {
     PER_FOOLED_PLAYER: 500,
     PERFECT_FAKE_BONUS: 1000, // No one voted for your fake answer
     ROUND_WINNER_BONUS: 250,
+    PER_LIKE: 100, // Audience like on a fake (not multiplied)
+    AUDIENCE_FAVORITE_BONUS: 500, // Fake most picked by the audience (not multiplied)
   },
+  MAX_POINTS_VALUE: 5000,
+  MAX_ROUND_MULTIPLIER: 3,
+  MARKED_ROUND_MULTIPLIER: 2, // Host-marked bonus rounds
 
   // Connection settings
   RECONNECT_ATTEMPTS: 5,
@@ -34,6 +58,8 @@ export const GAME_CONFIG = {
   RECONNECT_MAX_DELAY: 10000, // ms
   HEARTBEAT_INTERVAL: 5000, // ms
   CONNECTION_TIMEOUT: 15000, // ms
+  REALTIME_PROTOCOL_VERSION: 1, // Broadcast message version, bump when events or fields are added
+  REALTIME_PROTOCOL_MAJOR: 1, // Bump only on breaking payload changes; older majors drop the messages
 
   // UI settings
   TOAST_DURATION: 3000, // ms
@@ -45,82 +71,98 @@ export const GAME_CONFIG = {
   MIN_PLAYER_NAME_LENGTH: 2,
   MAX_ANSWER_LENGTH: 200,
   MIN_ANSWER_LENGTH: 1,
+  MAX_PACK_TITLE_LENGTH: 100,
+  MAX_QUESTION_LENGTH: 500,
+  ANSWER_MATCH_THRESHOLD: 0.85, // Similarity at which a fake counts as the correct answer
 } as const;
 
-// Arabic UI text
-export const ARABIC_TEXT = {
-  // Home screen
-  HOME_TITLE: 'ففش',
-  CREATE_GAME: 'إنشاء لعبة',
-  JOIN_GAME: 'الانضمام للعبة',
-
-  // Create game
-  ENTER_YOUR_NAME: 'أدخل اسمك',
-  WELCOME_MESSAGE: 'مرحباً بك في ففش',
-  SELECT_ROUNDS: 'عدد الجولات',
-  MAX_PLAYERS: 'الحد الأقصى للاعبين',
-  LOAD_ROOM: 'تحميل غرفة',
-
-  // Join game
-  ENTER_CODE: 'أدخل الكود',
-  BACK: 'العودة',
-  JOIN: 'انضمام',
-
-  // Lobby
-  GAME_CODE: 'كود اللعبة',
-  WAITING_FOR_PLAYERS: 'في انتظار اللاعبين',
-  PLAYERS: 'لاعبين',
-  COPY_CODE: 'انسخ الكود للأصدقاء',
-  START_GAME: 'بدء اللعبة',
-  HOST: 'المضيف',
-
-  // Game phases
-  QUESTION: 'السؤال',
-  YOUR_ANSWER: 'إجابتك',
-  SUBMIT: 'أرسل',
-  VOTE_FOR_CORRECT: 'صوت للإجابة الصحيحة',
-  VOTE: 'صوت',
-  WAITING_FOR_VOTES: 'في انتظار الأصوات',
-  CORRECT_ANSWER: 'الإجابة الصحيحة',
-  ROUND_RESULTS: 'نتائج الجولة',
-  NEXT_ROUND: 'الجولة التالية',
-
-  // Final results
-  WINNER: 'الفائز!',
-  FINAL_RESULTS: 'النتائج النهائية',
-  PLAY_AGAIN: 'لعب مرة أخرى',
-  RETURN_HOME: 'العودة للرئيسية',
-
-  // Scores
-  POINTS: 'نقطة',
-  YOUR_SCORE: 'نقاطك',
-  LEADERBOARD: 'لوحة المتصدرين',
-
-  // Status messages
-  PLAYER_JOINED: 'انضم إلى اللعبة',
-  PLAYER_LEFT: 'غادر اللعبة',
-  WAITING_FOR_ANSWERS: 'في انتظار الإجابات',
-  ALL_ANSWERED: 'الجميع أجاب!',
-  TIME_UP: 'انتهى الوقت!',
-
-  // Actions
-  SUBMITTED: 'تم الإرسال',
-  VOTED: 'تم التصويت',
-  YOU_FOOLED: 'خدعت',
-  YOU_WERE_FOOLED_BY: 'تم خداعك من قبل',
-  NOBODY_FOOLED: 'لم يخدع أحد!',
-
-  // Errors
-  ERROR: 'خطأ',
-  GAME_NOT_FOUND: 'اللعبة غير موجودة',
-  GAME_FULL: 'اللعبة ممتلئة',
-  ALREADY_STARTED: 'اللعبة بدأت بالفعل',
-  CONNECTION_LOST: 'فقد الاتصال',
-  INVALID_CODE: 'كود غير صحيح',
-  DUPLICATE_NAME: 'الاسم مستخدم بالفعل',
-  RECONNECTING: 'إعادة الاتصال...',
-  ANSWER_TOO_SHORT: 'الإجابة قصيرة جداً',
-  ANSWER_TOO_LONG: 'الإجابة طويلة جداً',
-  NAME_TOO_SHORT: 'الاسم قصير جداً',
-  NAME_TOO_LONG: 'الاسم طويل جداً',
-} as const;
+// Default scoring rules (mirrors GAME_CONFIG.POINTS and the games.scoring_rules column default)
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  correct_answer: GAME_CONFIG.POINTS.CORRECT_ANSWER,
+  per_fooled_player: GAME_CONFIG.POINTS.PER_FOOLED_PLAYER,
+  perfect_fake_bonus: GAME_CONFIG.POINTS.PERFECT_FAKE_BONUS,
+  round_winner_bonus: GAME_CONFIG.POINTS.ROUND_WINNER_BONUS,
+  final_round_multiplier: 1,
+  per_like: GAME_CONFIG.POINTS.PER_LIKE,
+  audience_favorite_bonus: GAME_CONFIG.POINTS.AUDIENCE_FAVORITE_BONUS,
+};
+
+// Scoring presets offered at game creation
+export const SCORING_PRESETS: Record<
+  Exclude<ScoringPreset, 'custom'>,
+  { label: string; description: string; rules: ScoringRules }
+> = {
+  classic: {
+    label: 'كلاسيكي',
+    description: 'النقاط الافتراضية',
+    rules: DEFAULT_SCORING_RULES,
+  },
+  double_final: {
+    label: 'الجولة الأخيرة مضاعفة',
+    description: 'نقاط الجولة الأخيرة ×2',
+    rules: { ...DEFAULT_SCORING_RULES, final_round_multiplier: 2 },
+  },
+  master_liar: {
+    label: 'سيد الخداع',
+    description: 'خداع اللاعبين يستحق أكثر',
+    rules: { ...DEFAULT_SCORING_RULES, correct_answer: 250, per_fooled_player: 1000 },
+  },
+  truth_seeker: {
+    label: 'باحث عن الحقيقة',
+    description: 'معرفة الإجابة الصحيحة تستحق أكثر',
+    rules: { ...DEFAULT_SCORING_RULES, correct_answer: 1000, per_fooled_player: 250 },
+  },
+};
+
+// Content filter strictness offered at game creation
+export const CONTENT_FILTER_LEVELS: Record<ContentFilterLevel, { label: string; description: string }> = {
+  off: { label: 'بدون فلتر', description: 'لا يتم فحص الأسماء والإجابات' },
+  mask: { label: 'إخفاء', description: 'تُستبدل الكلمات غير اللائقة بنجوم' },
+  reject: { label: 'رفض', description: 'يُطلب من اللاعب كتابة اسم أو إجابة أخرى' },
+};
+
+// Timer lengths offered at game creation
+export const TIMER_PRESETS: Record<
+  TimerPreset,
+  { label: string; description: string; answerTimer: number; votingTimer: number }
+> = {
+  quick: {
+    label: 'سريع',
+    description: '20 ثانية للإجابة و15 للتصويت',
+    answerTimer: 20,
+    votingTimer: 15,
+  },
+  standard: {
+    label: 'عادي',
+    description: '30 ثانية للإجابة و20 للتصويت',
+    answerTimer: GAME_CONFIG.ANSWER_TIMER,
+    votingTimer: GAME_CONFIG.VOTING_TIMER,
+  },
+  relaxed: {
+    label: 'مريح',
+    description: 'دقيقة للإجابة و40 ثانية للتصويت',
+    answerTimer: 60,
+    votingTimer: 40,
+  },
+  untimed: {
+    label: 'بدون مؤقت',
+    description: 'ننتظر الجميع قبل الانتقال للمرحلة التالية',
+    answerTimer: GAME_CONFIG.NO_TIMER,
+    votingTimer: GAME_CONFIG.NO_TIMER,
+  },
+};
+
+// Question difficulties offered at game creation
+export const DIFFICULTY_LEVELS: Record<QuestionDifficulty, { label: string; emoji: string }> = {
+  easy: { label: 'سهل', emoji: '🟢' },
+  medium: { label: 'متوسط', emoji: '🟡' },
+  hard: { label: 'صعب', emoji: '🔴' },
+};
+
+// Teams available in team mode (games use the first team_count entries)
+export const TEAMS: Team[] = [
+  { id: 'red', name: 'الفريق الأحمر', color: '#ef4444' },
+  { id: 'blue', name: 'الفريق الأزرق', color: '#3b82f6' },
+  { id: 'green', name: 'الفريق الأخضر', color: '#10b981' },
+  { id: 'yellow', name: 'الفريق الأصفر', color: '#f59e0b' },
+];
@@ -0,0 +1,604 @@
+import type { ErrorType, Locale, ScoreResult, TeamId, TextDirection } from '../types';
+
+// Supported UI languages
+export const LANGUAGES: Record<Locale, { label: string; direction: TextDirection }> = {
+  ar: { label: 'العربية', direction: 'rtl' },
+  en: { label: 'English', direction: 'ltr' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'ar';
+
+// Arabic UI text ({name} placeholders are filled in by translate())
+export const ARABIC_TEXT = {
+  // Home screen
+  HOME_TITLE: 'فقش',
+  CREATE_GAME: 'إنشاء لعبة',
+  JOIN_GAME: 'الانضمام للعبة',
+  HOME_WELCOME: 'مرحبا بك في فقش',
+  HOME_TAGLINE: 'لعبة المعلومات العامة والخداع الأكثر إثارة! أجب عن الأسئلة واكتشف من الأذكى في التمييز بين الحقائق والأكاذيب',
+  SET_UP_ROOM: 'تجهيز غرفة',
+  HOW_TO_PLAY: 'كيف ألعب',
+
+  // Create game
+  ENTER_YOUR_NAME: 'أدخل اسمك',
+  WELCOME_MESSAGE: 'مرحباً بك في فقش',
+  SELECT_ROUNDS: 'عدد الجولات',
+  MAX_PLAYERS: 'الحد الأقصى للاعبين',
+  LOAD_ROOM: 'تحميل غرفة',
+
+  // Join game
+  ENTER_CODE: 'أدخل الكود',
+  BACK: 'العودة',
+  JOIN: 'انضمام',
+  GAME_ROOM: 'غرفة اللعبة',
+  SCAN_TO_JOIN: 'امسح الكود للانضمام',
+  SCAN_QR_TO_JOIN: 'مسح QR للانضمام',
+  OPEN_CAMERA_SCAN: 'افتح الكاميرا وامسح رمز QR',
+  OR_ENTER_CODE: 'أو أدخل الكود يدوياً',
+  OR: 'أو',
+  GAME_CODE_PLACEHOLDER: 'رمز اللعبة',
+  JOIN_THE_GAME: 'انضم إلى اللعبة',
+  CODE_LABEL: 'الكود: {code}',
+  YOUR_NAME: 'اسمك',
+  NAME_PLACEHOLDER: 'اسمك هنا',
+  NAME_REQUIRED: 'الرجاء إدخال اسمك',
+  CODE_REQUIRED: 'الرجاء إدخال رمز اللعبة',
+  JOINING: 'جاري الانضمام...',
+  JOIN_AS_AUDIENCE: '👀 انضم كمشاهد',
+  JOIN_AS_AUDIENCE_HINT: '(للعبة الممتلئة أو التي بدأت)',
+  JOIN_FAILED: 'تعذر الانضمام للعبة',
+
+  // QR scanner
+  CAMERA_PERMISSION_REQUEST: 'طلب إذن الكاميرا...',
+  CAMERA_UNAVAILABLE: 'لا يمكن الوصول إلى الكاميرا',
+  POINT_CAMERA: 'قم بتوجيه الكاميرا إلى رمز QR',
+  CLOSE: 'إغلاق',
+
+  // Lobby
+  GAME_CODE: 'كود اللعبة',
+  WAITING_FOR_PLAYERS: 'في انتظار اللاعبين',
+  PLAYERS: 'لاعبين',
+  COPY_CODE: 'انسخ الكود للأصدقاء',
+  START_GAME: 'بدء اللعبة',
+  HOST: 'المضيف',
+  TO_JOIN: 'للانضمام للعبة:',
+  OPEN_CAMERA_SCAN_CODE: 'افتح الكاميرا وامسح الكود',
+  JOINED_PLAYERS: 'اللاعبين المنضمين',
+  PLAYER_COUNT: '{count} / {max} لاعبين',
+  AUDIENCE_COUNT: '👀 {count} مشاهد',
+  SHUFFLE_TEAMS: '🔀 توزيع الفرق بالتساوي',
+  RENAME: 'تغيير الاسم',
+  KICK: 'إخراج',
+  BAN: 'حظر',
+  RENAME_PROMPT: 'الاسم الجديد للاعب:',
+  KICK_CONFIRM: 'إخراج {name} من اللعبة؟',
+  BAN_CONFIRM: 'حظر {name} من العودة لهذه اللعبة؟',
+  RENAME_FAILED: 'تعذر تغيير الاسم',
+  KICK_FAILED: 'تعذر إخراج اللاعب',
+  TEAMS_FAILED: 'تعذر توزيع الفرق',
+  START_FAILED: 'تعذر بدء اللعبة. تأكد من وجود لاعبين كافيين وحاول مرة أخرى.',
+  MODERATION_HINT: 'اضغط مطولاً على لاعب لتغيير اسمه أو إخراجه',
+  AUDIENCE_HINT: 'أنت تشاهد كجمهور - يمكنك التصويت على الإجابات دون المشاركة في اللعب',
+  DISPLAY_MODE_HINT: '📺 وضع العرض - امسح رمز QR من هاتفك للانضمام كمضيف',
+  WAITING_FOR_HOST_START: 'في انتظار المضيف لبدء اللعبة...',
+  NO_ACTIVE_GAME: 'لا توجد لعبة نشطة',
+  LEAVE_GAME: 'مغادرة اللعبة',
+  LEAVE_GAME_CONFIRM: 'هل أنت متأكد أنك تريد مغادرة اللعبة؟',
+
+  // Game phases
+  QUESTION: 'السؤال',
+  YOUR_ANSWER: 'إجابتك',
+  SUBMIT: 'أرسل',
+  VOTE_FOR_CORRECT: 'صوت للإجابة الصحيحة',
+  VOTE: 'صوت',
+  WAITING_FOR_VOTES: 'في انتظار الأصوات',
+  CORRECT_ANSWER: 'الإجابة الصحيحة',
+  ROUND_RESULTS: 'نتائج الجولة',
+  NEXT_ROUND: 'الجولة التالية',
+  ROUND_OF: 'الجولة {round} / {total}',
+  UNTIMED: '⏳ بدون مؤقت',
+  PHASE_CAPTAIN: 'أنت قائد اللعبة',
+  PAUSED: '⏸️ أوقف المضيف اللعبة مؤقتاً',
+  FINAL_ROUND: 'الجولة الأخيرة',
+  BONUS_ROUND: 'جولة مميزة',
+  MULTIPLIER_ANNOUNCEMENT: '🔥 {label}: النقاط ×{multiplier}',
+  ROUND_MULTIPLIED: '🔥 نقاط هذه الجولة مضروبة ×{multiplier}',
+  AUDIENCE_BADGE: '👀 أنت من الجمهور',
+  DISPLAY_MODE: '📺 وضع العرض',
+  ANSWER_PLACEHOLDER: 'اكتب إجابتك هنا...',
+  SUBMIT_ANSWER: 'إرسال الإجابة',
+  ANSWER_SUBMITTED: '✅ تم إرسال إجابتك',
+  WAITING_FOR_PLAYER_ANSWERS: 'في انتظار إجابات اللاعبين... ({count}/{total})',
+  WAITING_FOR_OTHERS: 'في انتظار باقي اللاعبين... ({count}/{total})',
+  WAITING_FOR_OTHER_PLAYERS: 'في انتظار اللاعبين الآخرين...',
+  SUBMITTED_ANSWERS: 'الإجابات المقدمة',
+  AUDIENCE_VOTE_TITLE: 'صوت الجمهور: أي إجابة صحيحة؟',
+  CHOOSE_CORRECT_ANSWER: 'اختر الإجابة الصحيحة',
+  TEAMMATE_ANSWER: 'إجابة فريقك',
+  FUNNY_ANSWER: 'إجابة مضحكة',
+  WAITING_FOR_PLAYER_VOTES: '📺 في انتظار تصويت اللاعبين...',
+  VOTED_WAITING: 'تم التصويت! في انتظار باقي اللاعبين...',
+  CURRENT_SCORES: '🏆 النتائج الحالية',
+  END_GAME_SHOW_RESULTS: '🏁 إنهاء اللعبة وعرض النتائج',
+  NEXT_ROUND_BUTTON: '➡️ الجولة التالية',
+  WAITING_CAPTAIN_END: '⏳ في انتظار قائد اللعبة لإنهاء اللعبة...',
+  WAITING_CAPTAIN_NEXT: '⏳ في انتظار قائد اللعبة للانتقال للجولة التالية...',
+  ROUND_OVER: 'انتهت الجولة',
+  WAITING_NEXT_ROUND: 'في انتظار الجولة التالية...',
+  WAITING_FOR_ROUND: 'في انتظار بدء الجولة...',
+  RECOVERING: 'جاري استعادة الحالة من الخادم...',
+  GAME_NOT_STARTED: 'اللعبة لم تبدأ بعد',
+  BACK_TO_LOBBY: 'العودة للردهة',
+
+  // Category picking
+  CHOOSE_CATEGORY: 'اختر تصنيف السؤال',
+  PLAYER_CHOOSING_CATEGORY: '{name} يختار التصنيف...',
+  CATEGORY_RANDOM_HINT: 'سيُختار تصنيف عشوائي إذا انتهى الوقت',
+  GET_READY: 'استعد، السؤال قادم',
+  CHOOSE_CATEGORY_FAILED: 'تعذر اختيار التصنيف',
+
+  // Host round controls
+  PAUSE: '⏸️ إيقاف مؤقت',
+  PAUSE_SHORT: '⏸️ إيقاف',
+  RESUME: '▶️ استئناف',
+  EXTEND_TIME: '⏱️ +{seconds} ثانية',
+  SECONDS_LEFT: '{seconds} ثانية',
+  SKIP_QUESTION: '⏭️ تخطي السؤال',
+  SKIP: 'تخطي',
+  SKIP_QUESTION_TITLE: 'تخطي السؤال',
+  SKIP_CONFIRM: 'تخطي هذا السؤال؟ ستُحذف الإجابات المرسلة ويبدأ المؤقت من جديد.',
+  SKIP_CONFIRM_DETAIL: 'ستُحذف الإجابات المرسلة ويبدأ المؤقت من جديد.',
+  ADVANCE_NOW: '⏩ التالي',
+  ADVANCE_TITLE: 'المتابعة الآن',
+  ADVANCE_CONFIRM: 'المتابعة دون انتظار الجميع؟',
+  COMMAND_FAILED: 'تعذر تنفيذ الأمر',
+
+  // Final results
+  WINNER: 'الفائز!',
+  WINNING_TEAM: 'الفريق الفائز!',
+  FINAL_RESULTS: 'النتائج النهائية',
+  PLAY_AGAIN: 'لعب مرة أخرى',
+  RETURN_HOME: 'العودة للرئيسية',
+  CALCULATING_RESULTS: '🏆 نحسب النتائج النهائية...',
+  TEAM_STANDINGS: '🎽 ترتيب الفرق',
+  FUNNIEST_LIAR: 'أظرف كذّاب',
+  LIKES_COUNT: '{count} إعجاب',
+  PREPARING_LOBBY: '⏳ جاري تجهيز اللوبي...',
+  PREPARING: '⏳ جاري التجهيز...',
+  REMATCH_FAILED: 'تعذر بدء لعبة جديدة. حاول مرة أخرى.',
+  CREATE_NEW_GAME: 'إنشاء لعبة جديدة',
+  ENDING: '⏳ جاري الإنهاء...',
+  END_GAME_AND_RETURN: 'إنهاء اللعبة والعودة للرئيسية',
+  THANKS_FOR_PLAYING: 'شكراً لك على اللعب! 🎉',
+  REMATCH_FOLLOW_HINT: 'إذا بدأ المضيف لعبة جديدة ستنتقل إليها تلقائياً',
+  NO_RESULTS: 'لا توجد نتائج متاحة',
+  GAME_OVER: 'انتهت اللعبة!',
+  NEXT_QUESTION: 'السؤال التالي',
+  WAITING_HOST_NEXT_QUESTION: 'في انتظار المضيف للسؤال التالي...',
+  BEST_LIE: '🤥 أفضل كذبة: «{answer}» ({names})',
+  MOST_GULLIBLE: '🙈 الأكثر تصديقاً: {name}',
+  SHARE_RECAP: '📤 شارك الملخص',
+  LIST_SEPARATOR: '، ',
+  LIST_AND: ' و ',
+
+  // Game recap
+  RECAP_TITLE: 'نتائج فقش',
+  RECAP_WINNER: '🏆 الفائز',
+  RECAP_WINNER_LINE: '🏆 الفائز: {name} ({score} نقطة)',
+  RECAP_BEST_LIE_LINE: '🤥 أفضل كذبة: «{answer}» - خدعت {count}',
+  BEST_LIE_TITLE: '🤥 أفضل كذبة',
+  BEST_LIE_ROUND: 'أفضل كذبة (الجولة {round})',
+  FOOLED_COUNT: 'خدعت {count}',
+  MOST_GULLIBLE_TITLE: 'الأكثر تصديقاً',
+  TIMES_FOOLED: 'انخدع {count} مرات',
+  ROUND_HIGHLIGHTS: '✨ أبرز لحظات الجولات',
+  ROUND_LABEL: 'الجولة {round}',
+  HIGHLIGHT_FOOLER: '{name} خدع {count}',
+  HIGHLIGHT_NOBODY_FOOLED: 'لم ينخدع أحد',
+  HIGHLIGHT_CORRECT: 'عرف الإجابة {count}',
+  RECAP_GAME_CODE: 'لعبة {code}',
+  QUOTED: '«{text}»',
+  SHARE_GAME_RECAP: '📤 شارك ملخص اللعبة',
+  RECAP_SHARED: 'تم تحميل الصورة ونسخ الرابط',
+  SHARE_FAILED: 'تعذرت المشاركة، حاول مرة أخرى',
+  RECAP_UNAVAILABLE: 'هذا الملخص غير متاح',
+  RECAP_OF_GAME: 'ملخص لعبة {code}',
+  PLAY_FAKASH: '🎮 العب فقش',
+
+  // Scores
+  POINTS: 'نقطة',
+  POINTS_COUNT: '{count} نقطة',
+  YOUR_SCORE: 'نقاطك',
+  LEADERBOARD: 'لوحة المتصدرين',
+  ROUND_BREAKDOWN: '📊 نقاط هذه الجولة',
+  FOOLED_PLAYERS_NAMED: 'خدع {names}',
+
+  // Status messages
+  PLAYER_JOINED: 'انضم إلى اللعبة',
+  PLAYER_LEFT: 'غادر اللعبة',
+  WAITING_FOR_ANSWERS: 'في انتظار الإجابات',
+  ALL_ANSWERED: 'الجميع أجاب!',
+  TIME_UP: 'انتهى الوقت!',
+  LOADING: 'جارٍ التحميل...',
+  CONNECTED: 'متصل',
+  DISCONNECTED: 'غير متصل',
+  PLAYER: 'لاعب',
+  LANGUAGE: 'اللغة',
+
+  // Actions
+  SUBMITTED: 'تم الإرسال',
+  VOTED: 'تم التصويت',
+  YOU_FOOLED: 'خدعت',
+  YOU_WERE_FOOLED_BY: 'تم خداعك من قبل',
+  NOBODY_FOOLED: 'لم يخدع أحد!',
+  CANCEL: 'إلغاء',
+  RETRY: '🔄 إعادة المحاولة',
+
+  // Errors
+  ERROR: 'خطأ',
+  GAME_NOT_FOUND: 'اللعبة غير موجودة',
+  GAME_FULL: 'اللعبة ممتلئة',
+  ALREADY_STARTED: 'اللعبة بدأت بالفعل',
+  CONNECTION_LOST: 'فقد الاتصال',
+  INVALID_CODE: 'كود غير صحيح',
+  DUPLICATE_NAME: 'الاسم مستخدم بالفعل',
+  RECONNECTING: 'إعادة الاتصال...',
+  ANSWER_TOO_SHORT: 'الإجابة قصيرة جداً',
+  ANSWER_TOO_LONG: 'الإجابة طويلة جداً',
+  NAME_TOO_SHORT: 'الاسم قصير جداً',
+  NAME_TOO_LONG: 'الاسم طويل جداً',
+} as const;
+
+export type TextKey = keyof typeof ARABIC_TEXT;
+
+// English UI text, key for key with ARABIC_TEXT
+export const ENGLISH_TEXT: Record<TextKey, string> = {
+  // Home screen
+  HOME_TITLE: 'Fakash',
+  CREATE_GAME: 'Create game',
+  JOIN_GAME: 'Join a game',
+  HOME_WELCOME: 'Welcome to Fakash',
+  HOME_TAGLINE: 'The most thrilling trivia and bluffing game! Answer the questions and find out who is best at telling facts from lies',
+  SET_UP_ROOM: 'Set up a room',
+  HOW_TO_PLAY: 'How to play',
+
+  // Create game
+  ENTER_YOUR_NAME: 'Enter your name',
+  WELCOME_MESSAGE: 'Welcome to Fakash',
+  SELECT_ROUNDS: 'Number of rounds',
+  MAX_PLAYERS: 'Maximum players',
+  LOAD_ROOM: 'Load room',
+
+  // Join game
+  ENTER_CODE: 'Enter the code',
+  BACK: 'Back',
+  JOIN: 'Join',
+  GAME_ROOM: 'Game room',
+  SCAN_TO_JOIN: 'Scan the code to join',
+  SCAN_QR_TO_JOIN: 'Scan QR to join',
+  OPEN_CAMERA_SCAN: 'Open your camera and scan the QR code',
+  OR_ENTER_CODE: 'Or enter the code manually',
+  OR: 'or',
+  GAME_CODE_PLACEHOLDER: 'Game code',
+  JOIN_THE_GAME: 'Join the game',
+  CODE_LABEL: 'Code: {code}',
+  YOUR_NAME: 'Your name',
+  NAME_PLACEHOLDER: 'Your name here',
+  NAME_REQUIRED: 'Please enter your name',
+  CODE_REQUIRED: 'Please enter the game code',
+  JOINING: 'Joining...',
+  JOIN_AS_AUDIENCE: '👀 Join as audience',
+  JOIN_AS_AUDIENCE_HINT: '(for full or started games)',
+  JOIN_FAILED: 'Could not join the game',
+
+  // QR scanner
+  CAMERA_PERMISSION_REQUEST: 'Requesting camera permission...',
+  CAMERA_UNAVAILABLE: 'Cannot access the camera',
+  POINT_CAMERA: 'Point the camera at the QR code',
+  CLOSE: 'Close',
+
+  // Lobby
+  GAME_CODE: 'Game code',
+  WAITING_FOR_PLAYERS: 'Waiting for players',
+  PLAYERS: 'players',
+  COPY_CODE: 'Share the code with friends',
+  START_GAME: 'Start game',
+  HOST: 'Host',
+  TO_JOIN: 'To join the game:',
+  OPEN_CAMERA_SCAN_CODE: 'Open your camera and scan the code',
+  JOINED_PLAYERS: 'Players',
+  PLAYER_COUNT: '{count} / {max} players',
+  AUDIENCE_COUNT: '👀 {count} watching',
+  SHUFFLE_TEAMS: '🔀 Balance the teams',
+  RENAME: 'Rename',
+  KICK: 'Kick',
+  BAN: 'Ban',
+  RENAME_PROMPT: "Player's new name:",
+  KICK_CONFIRM: 'Kick {name} from the game?',
+  BAN_CONFIRM: 'Ban {name} from rejoining this game?',
+  RENAME_FAILED: 'Could not rename the player',
+  KICK_FAILED: 'Could not remove the player',
+  TEAMS_FAILED: 'Could not balance the teams',
+  START_FAILED: 'Could not start the game. Make sure there are enough players and try again.',
+  MODERATION_HINT: 'Long-press a player to rename or remove them',
+  AUDIENCE_HINT: "You're watching as audience - you can vote on answers without playing",
+  DISPLAY_MODE_HINT: '📺 Display mode - scan the QR code with your phone to join as host',
+  WAITING_FOR_HOST_START: 'Waiting for the host to start the game...',
+  NO_ACTIVE_GAME: 'No active game',
+  LEAVE_GAME: 'Leave game',
+  LEAVE_GAME_CONFIRM: 'Are you sure you want to leave the game?',
+
+  // Game phases
+  QUESTION: 'Question',
+  YOUR_ANSWER: 'Your answer',
+  SUBMIT: 'Submit',
+  VOTE_FOR_CORRECT: 'Vote for the correct answer',
+  VOTE: 'Vote',
+  WAITING_FOR_VOTES: 'Waiting for votes',
+  CORRECT_ANSWER: 'Correct answer',
+  ROUND_RESULTS: 'Round results',
+  NEXT_ROUND: 'Next round',
+  ROUND_OF: 'Round {round} / {total}',
+  UNTIMED: '⏳ No timer',
+  PHASE_CAPTAIN: "You're the game captain",
+  PAUSED: '⏸️ The host paused the game',
+  FINAL_ROUND: 'Final round',
+  BONUS_ROUND: 'Bonus round',
+  MULTIPLIER_ANNOUNCEMENT: '🔥 {label}: points ×{multiplier}',
+  ROUND_MULTIPLIED: "🔥 This round's points are multiplied ×{multiplier}",
+  AUDIENCE_BADGE: "👀 You're in the audience",
+  DISPLAY_MODE: '📺 Display mode',
+  ANSWER_PLACEHOLDER: 'Type your answer here...',
+  SUBMIT_ANSWER: 'Submit answer',
+  ANSWER_SUBMITTED: '✅ Answer submitted',
+  WAITING_FOR_PLAYER_ANSWERS: "Waiting for players' answers... ({count}/{total})",
+  WAITING_FOR_OTHERS: 'Waiting for the other players... ({count}/{total})',
+  WAITING_FOR_OTHER_PLAYERS: 'Waiting for the other players...',
+  SUBMITTED_ANSWERS: 'Submitted answers',
+  AUDIENCE_VOTE_TITLE: 'Audience vote: which answer is true?',
+  CHOOSE_CORRECT_ANSWER: 'Pick the correct answer',
+  TEAMMATE_ANSWER: "Your team's answer",
+  FUNNY_ANSWER: 'Funny answer',
+  WAITING_FOR_PLAYER_VOTES: '📺 Waiting for players to vote...',
+  VOTED_WAITING: 'Vote cast! Waiting for the other players...',
+  CURRENT_SCORES: '🏆 Current scores',
+  END_GAME_SHOW_RESULTS: '🏁 End the game and show results',
+  NEXT_ROUND_BUTTON: '➡️ Next round',
+  WAITING_CAPTAIN_END: '⏳ Waiting for the game captain to end the game...',
+  WAITING_CAPTAIN_NEXT: '⏳ Waiting for the game captain to start the next round...',
+  ROUND_OVER: 'Round over',
+  WAITING_NEXT_ROUND: 'Waiting for the next round...',
+  WAITING_FOR_ROUND: 'Waiting for the round to start...',
+  RECOVERING: 'Restoring game state from the server...',
+  GAME_NOT_STARTED: "The game hasn't started yet",
+  BACK_TO_LOBBY: 'Back to lobby',
+
+  // Category picking
+  CHOOSE_CATEGORY: 'Choose a category',
+  PLAYER_CHOOSING_CATEGORY: '{name} is choosing a category...',
+  CATEGORY_RANDOM_HINT: 'A random category is picked if time runs out',
+  GET_READY: 'Get ready, the question is coming',
+  CHOOSE_CATEGORY_FAILED: 'Could not choose the category',
+
+  // Host round controls
+  PAUSE: '⏸️ Pause',
+  PAUSE_SHORT: '⏸️ Pause',
+  RESUME: '▶️ Resume',
+  EXTEND_TIME: '⏱️ +{seconds}s',
+  SECONDS_LEFT: '{seconds}s',
+  SKIP_QUESTION: '⏭️ Skip question',
+  SKIP: 'Skip',
+  SKIP_QUESTION_TITLE: 'Skip question',
+  SKIP_CONFIRM: 'Skip this question? Submitted answers are deleted and the timer restarts.',
+  SKIP_CONFIRM_DETAIL: 'Submitted answers are deleted and the timer restarts.',
+  ADVANCE_NOW: '⏩ Move on',
+  ADVANCE_TITLE: 'Move on now',
+  ADVANCE_CONFIRM: 'Move on without waiting for everyone?',
+  COMMAND_FAILED: 'Something went wrong',
+
+  // Final results
+  WINNER: 'Winner!',
+  WINNING_TEAM: 'Winning team!',
+  FINAL_RESULTS: 'Final results',
+  PLAY_AGAIN: 'Play again',
+  RETURN_HOME: 'Back to home',
+  CALCULATING_RESULTS: '🏆 Calculating the final results...',
+  TEAM_STANDINGS: '🎽 Team standings',
+  FUNNIEST_LIAR: 'Funniest liar',
+  LIKES_COUNT: '{count} likes',
+  PREPARING_LOBBY: '⏳ Preparing the lobby...',
+  PREPARING: '⏳ Preparing...',
+  REMATCH_FAILED: 'Could not start a new game. Please try again.',
+  CREATE_NEW_GAME: 'Create a new game',
+  ENDING: '⏳ Ending...',
+  END_GAME_AND_RETURN: 'End the game and go home',
+  THANKS_FOR_PLAYING: 'Thanks for playing! 🎉',
+  REMATCH_FOLLOW_HINT: "If the host starts a new game you'll be moved to it automatically",
+  NO_RESULTS: 'No results available',
+  GAME_OVER: 'Game over!',
+  NEXT_QUESTION: 'Next question',
+  WAITING_HOST_NEXT_QUESTION: 'Waiting for the host to move to the next question...',
+  BEST_LIE: '🤥 Best lie: “{answer}” ({names})',
+  MOST_GULLIBLE: '🙈 Most gullible: {name}',
+  SHARE_RECAP: '📤 Share the recap',
+  LIST_SEPARATOR: ', ',
+  LIST_AND: ' & ',
+
+  // Game recap
+  RECAP_TITLE: 'Fakash results',
+  RECAP_WINNER: '🏆 Winner',
+  RECAP_WINNER_LINE: '🏆 Winner: {name} ({score} points)',
+  RECAP_BEST_LIE_LINE: '🤥 Best lie: “{answer}” - fooled {count}',
+  BEST_LIE_TITLE: '🤥 Best lie',
+  BEST_LIE_ROUND: 'Best lie (round {round})',
+  FOOLED_COUNT: 'Fooled {count}',
+  MOST_GULLIBLE_TITLE: 'Most gullible',
+  TIMES_FOOLED: 'Fooled {count} times',
+  ROUND_HIGHLIGHTS: '✨ Round highlights',
+  ROUND_LABEL: 'Round {round}',
+  HIGHLIGHT_FOOLER: '{name} fooled {count}',
+  HIGHLIGHT_NOBODY_FOOLED: 'Nobody was fooled',
+  HIGHLIGHT_CORRECT: '{count} knew the answer',
+  RECAP_GAME_CODE: 'Game {code}',
+  QUOTED: '“{text}”',
+  SHARE_GAME_RECAP: '📤 Share the game recap',
+  RECAP_SHARED: 'Image downloaded and link copied',
+  SHARE_FAILED: 'Could not share, please try again',
+  RECAP_UNAVAILABLE: 'This recap is not available',
+  RECAP_OF_GAME: 'Recap of game {code}',
+  PLAY_FAKASH: '🎮 Play Fakash',
+
+  // Scores
+  POINTS: 'points',
+  POINTS_COUNT: '{count} pts',
+  YOUR_SCORE: 'Your score',
+  LEADERBOARD: 'Leaderboard',
+  ROUND_BREAKDOWN: '📊 Points this round',
+  FOOLED_PLAYERS_NAMED: 'fooled {names}',
+
+  // Status messages
+  PLAYER_JOINED: 'joined the game',
+  PLAYER_LEFT: 'left the game',
+  WAITING_FOR_ANSWERS: 'Waiting for answers',
+  ALL_ANSWERED: 'Everyone answered!',
+  TIME_UP: "Time's up!",
+  LOADING: 'Loading...',
+  CONNECTED: 'Connected',
+  DISCONNECTED: 'Offline',
+  PLAYER: 'A player',
+  LANGUAGE: 'Language',
+
+  // Actions
+  SUBMITTED: 'Submitted',
+  VOTED: 'Voted',
+  YOU_FOOLED: 'You fooled',
+  YOU_WERE_FOOLED_BY: 'You were fooled by',
+  NOBODY_FOOLED: 'Nobody was fooled!',
+  CANCEL: 'Cancel',
+  RETRY: '🔄 Try again',
+
+  // Errors
+  ERROR: 'Error',
+  GAME_NOT_FOUND: 'Game not found',
+  GAME_FULL: 'The game is full',
+  ALREADY_STARTED: 'The game has already started',
+  CONNECTION_LOST: 'Connection lost',
+  INVALID_CODE: 'Invalid code',
+  DUPLICATE_NAME: 'That name is already taken',
+  RECONNECTING: 'Reconnecting...',
+  ANSWER_TOO_SHORT: 'Answer is too short',
+  ANSWER_TOO_LONG: 'Answer is too long',
+  NAME_TOO_SHORT: 'Name is too short',
+  NAME_TOO_LONG: 'Name is too long',
+};
+
+export const UI_TEXT: Record<Locale, Record<TextKey, string>> = {
+  ar: ARABIC_TEXT,
+  en: ENGLISH_TEXT,
+};
+
+// Messages shown for each ErrorType
+export const ERROR_MESSAGES: Record<Locale, Record<ErrorType, string>> = {
+  ar: {
+    GAME_NOT_FOUND: 'اللعبة غير موجودة',
+    GAME_FULL: 'اللعبة ممتلئة',
+    NOT_ENOUGH_PLAYERS: 'يلزم {min} لاعبين على الأقل للبدء',
+    ALREADY_STARTED: 'اللعبة بدأت بالفعل',
+    CONNECTION_LOST: 'فقد الاتصال',
+    INVALID_CODE: 'كود غير صحيح',
+    INVALID_NAME: 'الاسم يجب أن يكون بين {min} و{max} حرفاً',
+    DUPLICATE_NAME: 'الاسم مستخدم بالفعل',
+    INVALID_ANSWER: 'الإجابة يجب أن تكون بين {min} و{max} حرفاً',
+    ANSWER_TIMEOUT: 'انتهى وقت الإجابة',
+    VOTE_TIMEOUT: 'انتهى وقت التصويت',
+    INVALID_INPUT: 'مدخلات غير صحيحة',
+    INVALID_SETTINGS: 'إعدادات اللعبة غير صحيحة',
+    UNAUTHORIZED: 'غير مصرح',
+    NOT_AUTHENTICATED: 'يجب تسجيل الدخول أولاً',
+    NOT_FOUND: 'العنصر غير موجود',
+    NO_QUESTIONS: 'لا توجد أسئلة متاحة',
+    ANSWER_MATCHES_TRUTH: 'هذه هي الإجابة الصحيحة! اكتب إجابة مخادعة بدلاً منها',
+    OWN_ANSWER: 'لا يمكنك اختيار إجابتك',
+    TEAMMATE_ANSWER: 'لا يمكنك التصويت لإجابة زميلك في الفريق',
+    ROUND_PAUSED: 'الجولة متوقفة مؤقتاً، انتظر المضيف',
+    KICKED: 'أخرجك المضيف من اللعبة',
+    INAPPROPRIATE_CONTENT: 'هذا النص يحتوي على كلمات غير لائقة',
+    BANNED: 'تم حظرك من هذه اللعبة',
+    SERVER_ERROR: 'حدث خطأ في الخادم، حاول مرة أخرى',
+    UNKNOWN: 'حدث خطأ، حاول مرة أخرى',
+  },
+  en: {
+    GAME_NOT_FOUND: 'Game not found',
+    GAME_FULL: 'The game is full',
+    NOT_ENOUGH_PLAYERS: 'At least {min} players are needed to start',
+    ALREADY_STARTED: 'The game has already started',
+    CONNECTION_LOST: 'Connection lost',
+    INVALID_CODE: 'Invalid code',
+    INVALID_NAME: 'Names must be {min}-{max} characters',
+    DUPLICATE_NAME: 'That name is already taken',
+    INVALID_ANSWER: 'Answers must be {min}-{max} characters',
+    ANSWER_TIMEOUT: "Time's up for answering",
+    VOTE_TIMEOUT: "Time's up for voting",
+    INVALID_INPUT: 'Invalid input',
+    INVALID_SETTINGS: 'Invalid game settings',
+    UNAUTHORIZED: 'Not allowed',
+    NOT_AUTHENTICATED: 'Please sign in first',
+    NOT_FOUND: 'Not found',
+    NO_QUESTIONS: 'No questions available',
+    ANSWER_MATCHES_TRUTH: "That's the real answer! Write a convincing fake instead",
+    OWN_ANSWER: "You can't pick your own answer",
+    TEAMMATE_ANSWER: "You can't vote for your teammate's answer",
+    ROUND_PAUSED: 'The round is paused, wait for the host',
+    KICKED: 'The host removed you from the game',
+    INAPPROPRIATE_CONTENT: 'This text contains inappropriate words',
+    BANNED: 'You are banned from this game',
+    SERVER_ERROR: 'Something went wrong on the server, try again',
+    UNKNOWN: 'Something went wrong, try again',
+  },
+};
+
+// Team display names (TEAMS keeps the Arabic ones)
+export const TEAM_NAMES: Record<Locale, Record<TeamId, string>> = {
+  ar: { red: 'الفريق الأحمر', blue: 'الفريق الأزرق', green: 'الفريق الأخضر', yellow: 'الفريق الأصفر' },
+  en: { red: 'Red team', blue: 'Blue team', green: 'Green team', yellow: 'Yellow team' },
+};
+
+// Why a player earned points (score_ledger reasons)
+export const SCORE_REASONS: Record<Locale, Record<ScoreResult['reason'], string>> = {
+  ar: {
+    correct_answer: 'إجابة صحيحة',
+    fooled_players: 'خدع لاعبين',
+    perfect_fake: 'إجابة مثالية',
+    round_winner: 'فائز الجولة',
+    audience_like: 'إعجابات',
+    audience_favorite: 'المفضلة لدى الجمهور',
+  },
+  en: {
+    correct_answer: 'correct answer',
+    fooled_players: 'fooled players',
+    perfect_fake: 'perfect fake',
+    round_winner: 'round winner',
+    audience_like: 'likes',
+    audience_favorite: 'audience favorite',
+  },
+};
+
+// Rotating messages on the game loading screen
+export const LOADING_MESSAGES: Record<Locale, string[]> = {
+  ar: [
+    '🎭 نجهز المسرح...',
+    '🃏 نخلط الأوراق...',
+    '✨ نصقل الأسئلة...',
+    '🎪 نرتب الكراسي...',
+    '🎯 نجهز التحديات...',
+    '🌟 لحظات وتبدأ المتعة...',
+  ],
+  en: [
+    '🎭 Setting the stage...',
+    '🃏 Shuffling the cards...',
+    '✨ Polishing the questions...',
+    '🎪 Arranging the chairs...',
+    '🎯 Preparing the challenges...',
+    '🌟 The fun starts in a moment...',
+  ],
+};
@@ -4,6 +4,8 @@ export * from './types';
 // Constants
 export * from './constants/theme';
 export * from './constants/game';
+export * from './constants/blockedWords';
+export * from './constants/text';
 
 // Config
 export * from './config/moyasar';
@@ -12,9 +14,20 @@ export * from './config/moyasar';
 export * from './utils/validation';
 export * from './utils/gameCode';
 export * from './utils/scoring';
+export * from './utils/answerMatching';
+export * from './utils/contentFilter';
+export * from './utils/teams';
+export * from './utils/roundTimer';
+export * from './utils/gameHistory';
+export * from './utils/gameRecap';
+export * from './utils/questionImport';
 export * from './utils/avatars';
 export * from './utils/sessionStorage';
 export * from './utils/env';
+export * from './utils/i18n';
+export * from './utils/errors';
+export * from './utils/realtimeProtocol';
+export * from './utils/gameEventLog';
 
 // Services
 export * from './services';
@@ -0,0 +1,176 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { getSupabase } from './supabase';
+import { GameEvent } from '../types';
+import { GameLogState, applyGameEvents, createGameLogState, findGameLogGap } from '../utils/gameEventLog';
+import { fromBackendError } from '../utils/errors';
+
+/**
+ * GameEventService follows a game's event log (game_events). Events are applied
+ * strictly in seq order; a realtime message that skips ahead is held back while
+ * only the missing range is fetched, so every client ends up with the same state.
+ */
+export class GameEventService {
+  private static logs: Map<string, GameLogState> = new Map();
+  private static pending: Map<string, GameEvent[]> = new Map(); // Received ahead of a gap
+  private static channels: Map<string, RealtimeChannel> = new Map();
+  private static listeners: Map<string, (log: GameLogState) => void> = new Map();
+  private static fetches: Map<string, Promise<void>> = new Map(); // Range requests run one at a time
+
+  /**
+   * Get a game's events after seq `after` (up to and including `through`), in order
+   */
+  static async getEvents(gameId: string, after: number, through?: number): Promise<GameEvent[]> {
+    const supabase = getSupabase();
+
+    let query = supabase
+      .from('game_events')
+      .select('*')
+      .eq('game_id', gameId)
+      .gt('seq', after);
+
+    if (through !== undefined) {
+      query = query.lte('seq', through);
+    }
+
+    const { data, error } = await query.order('seq', { ascending: true });
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+
+    return (data || []) as GameEvent[];
+  }
+
+  /**
+   * Rebuild a game from its whole log
+   */
+  static async replay(gameId: string): Promise<GameLogState> {
+    const events = await this.getEvents(gameId, 0);
+    return applyGameEvents(createGameLogState(), events).state;
+  }
+
+  /**
+   * Follow a game's log from the start; onChange gets the state after every step forward
+   */
+  static follow(gameId: string, onChange: (log: GameLogState) => void): () => void {
+    const supabase = getSupabase();
+
+    this.stop(gameId);
+    this.logs.set(gameId, createGameLogState());
+    this.pending.set(gameId, []);
+    this.listeners.set(gameId, onChange);
+
+    // Subscribe before the first fetch so nothing committed in between is missed
+    const channel = supabase
+      .channel(`game-events:${gameId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'game_events',
+          filter: `game_id=eq.${gameId}`,
+        },
+        (payload) => this.receive(gameId, [payload.new as GameEvent])
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') this.catchUp(gameId);
+      });
+
+    this.channels.set(gameId, channel);
+    console.log('📜 GameEventService: Following event log for game', gameId);
+
+    return () => this.stop(gameId);
+  }
+
+  /**
+   * Fetch everything after the last applied event (a missed tail, or after a reconnect)
+   */
+  static async catchUp(gameId: string): Promise<GameLogState | null> {
+    await this.fetchMissing(gameId, false);
+    return this.logs.get(gameId) ?? null;
+  }
+
+  /**
+   * Current state of a followed game, null if it isn't followed
+   */
+  static getLog(gameId: string): GameLogState | null {
+    return this.logs.get(gameId) ?? null;
+  }
+
+  /**
+   * Stop following a game
+   */
+  static stop(gameId: string): void {
+    const channel = this.channels.get(gameId);
+    if (channel) {
+      getSupabase().removeChannel(channel);
+      this.channels.delete(gameId);
+    }
+
+    this.logs.delete(gameId);
+    this.pending.delete(gameId);
+    this.listeners.delete(gameId);
+    this.fetches.delete(gameId);
+  }
+
+  /**
+   * Stop following every game
+   */
+  static stopAll(): void {
+    Array.from(this.channels.keys()).forEach((gameId) => this.stop(gameId));
+    this.logs.clear();
+    this.pending.clear();
+    this.listeners.clear();
+    this.fetches.clear();
+  }
+
+  /**
+   * Apply what continues the log and hold the rest. A gap behind realtime events
+   * is fetched right away; one left after a fetch waits for the next catch-up.
+   */
+  private static receive(gameId: string, events: GameEvent[], fillGap: boolean = true): void {
+    const log = this.logs.get(gameId);
+    if (!log) return; // Stopped while a fetch was in flight
+
+    const { state, pending } = applyGameEvents(log, [...(this.pending.get(gameId) || []), ...events]);
+    this.logs.set(gameId, state);
+    this.pending.set(gameId, pending);
+
+    if (state.seq > log.seq) {
+      this.listeners.get(gameId)?.(state);
+    }
+
+    const gap = findGameLogGap(state, pending);
+    if (gap && fillGap) {
+      console.log('🧩 GameEventService: Missed events, fetching range', gap);
+      this.fetchMissing(gameId, true);
+    }
+  }
+
+  /**
+   * Queue a fetch of the missing range (gapOnly) or of everything after the applied seq
+   */
+  private static fetchMissing(gameId: string, gapOnly: boolean): Promise<void> {
+    const previous = this.fetches.get(gameId) ?? Promise.resolve();
+
+    const run = previous.then(async () => {
+      const log = this.logs.get(gameId);
+      if (!log) return;
+
+      // Re-check once it's our turn: an earlier fetch may have filled the gap
+      const gap = findGameLogGap(log, this.pending.get(gameId) || []);
+      if (gapOnly && !gap) return;
+
+      try {
+        const events = await this.getEvents(gameId, log.seq, gapOnly ? gap?.through : undefined);
+        this.receive(gameId, events, false);
+      } catch (error) {
+        console.error('❌ GameEventService: Failed to fetch events for game', gameId, error);
+      }
+    });
+
+    this.fetches.set(gameId, run);
+    return run;
+  }
+}
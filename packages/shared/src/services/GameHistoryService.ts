@@ -0,0 +1,86 @@
+/**
+ * Game History Service - Finished games, round-by-round replays for hosts and public recaps
+ */
+
+import { getSupabase } from './supabase';
+import { GameHistoryEntry, GameRecap, GameReplay, Player, ScoringRules } from '../types';
+import { buildRoundResult, RoundReplayData } from '../utils/gameHistory';
+import { buildGameRecap } from '../utils/gameRecap';
+import { DEFAULT_SCORING_RULES } from '../constants/game';
+
+export class GameHistoryService {
+  /**
+   * Get every finished game owned by the current host (newest first)
+   */
+  static async getHistory(): Promise<GameHistoryEntry[]> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase.rpc('get_host_game_history');
+
+    if (error) {
+      console.error('Failed to fetch game history:', error);
+      return [];
+    }
+
+    return (data as GameHistoryEntry[]) || [];
+  }
+
+  /**
+   * Get a finished game's replay: every round with fakes, votes and points
+   */
+  static async getReplay(gameId: string): Promise<GameReplay | null> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase.rpc('get_game_replay', {
+      p_game_id: gameId,
+    });
+
+    if (error || !data) {
+      console.error('Failed to fetch game replay:', error);
+      return null;
+    }
+
+    const { game, players, rounds } = data as {
+      game: GameReplay['game'] & { scoring_rules: ScoringRules | null };
+      players: Player[];
+      rounds: RoundReplayData[];
+    };
+    const { scoring_rules, ...gameInfo } = game;
+
+    return {
+      game: gameInfo,
+      players,
+      rounds: rounds.map((round) =>
+        buildRoundResult(round, players, scoring_rules ?? DEFAULT_SCORING_RULES)
+      ),
+    };
+  }
+
+  /**
+   * Get a finished game's public recap (anyone with the link can read it)
+   */
+  static async getRecap(gameId: string): Promise<GameRecap | null> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase.rpc('get_game_recap', {
+      p_game_id: gameId,
+    });
+
+    if (error || !data) {
+      console.error('Failed to fetch game recap:', error);
+      return null;
+    }
+
+    const { game, players, rounds } = data as {
+      game: GameRecap['game'];
+      players: Player[];
+      rounds: RoundReplayData[];
+    };
+
+    return buildGameRecap(
+      { id: game.id, code: game.code, created_at: game.created_at, round_count: game.round_count },
+      players,
+      rounds
+    );
+  }
+}
@@ -2,14 +2,20 @@ import { getSupabase } from './supabase';
 import {
   Game,
   Player,
+  PlayerRole,
+  TeamId,
   GameSettings,
   GameError,
   ErrorType,
 } from '../types';
 import { generateGameCode } from '../utils/gameCode';
+import { DB_ERROR_CODES, fromBackendError } from '../utils/errors';
 import { validateGameSettings, validatePlayerName, sanitizeText } from '../utils/validation';
 import { getRandomAvatarColor } from '../utils/avatars';
-import { GAME_CONFIG } from '../constants/game';
+import { getDeviceId } from '../utils/sessionStorage';
+import { applyContentFilter } from '../utils/contentFilter';
+import { assignBalancedTeams, getSmallestTeam } from '../utils/teams';
+import { GAME_CONFIG, DEFAULT_SCORING_RULES } from '../constants/game';
 
 export class GameService {
   /**
@@ -25,14 +31,17 @@ export class GameService {
     const { data: { user }, error: authError } = await supabase.auth.getUser();
 
     if (authError || !user) {
-      throw new GameError(ErrorType.INVALID_INPUT, 'يجب تسجيل الدخول لإنشاء لعبة');
+      throw new GameError(ErrorType.NOT_AUTHENTICATED);
     }
 
     // Validate inputs
     validatePlayerName(hostName);
     validateGameSettings(settings);
 
-    const sanitizedName = sanitizeText(hostName);
+    const sanitizedName = applyContentFilter(
+      sanitizeText(hostName),
+      settings.contentFilter ?? GAME_CONFIG.DEFAULT_CONTENT_FILTER
+    );
     let code = generateGameCode();
     let attempts = 0;
 
@@ -53,7 +62,7 @@ export class GameService {
     }
 
     if (attempts === 10) {
-      throw new GameError(ErrorType.CONNECTION_LOST, 'Failed to generate unique code');
+      throw new GameError(ErrorType.SERVER_ERROR, 'Failed to generate unique code');
     }
 
     // Create game with authenticated host
@@ -63,6 +72,18 @@ export class GameService {
         code,
         round_count: settings.roundCount,
         max_players: settings.maxPlayers,
+        question_pack_ids: settings.questionPackIds ?? [],
+        scoring_rules: settings.scoringRules ?? DEFAULT_SCORING_RULES,
+        multiplier_rounds: settings.multiplierRounds ?? [],
+        team_count: settings.teamCount ?? 0,
+        content_filter: settings.contentFilter ?? GAME_CONFIG.DEFAULT_CONTENT_FILTER,
+        answer_timer: settings.answerTimer ?? GAME_CONFIG.ANSWER_TIMER,
+        voting_timer: settings.votingTimer ?? GAME_CONFIG.VOTING_TIMER,
+        question_categories: settings.questionCategories ?? [],
+        question_difficulties: settings.questionDifficulties ?? [],
+        difficulty_ramp: settings.difficultyRamp ?? false,
+        category_picking: settings.categoryPicking ?? false,
+        language: settings.language ?? 'ar',
         status: 'waiting',
         auth_host_id: user.id,
       })
@@ -70,7 +91,7 @@ export class GameService {
       .single();
 
     if (gameError || !game) {
-      throw new GameError(ErrorType.CONNECTION_LOST, gameError?.message);
+      throw fromBackendError(gameError);
     }
 
     // Add host as first player
@@ -88,7 +109,7 @@ export class GameService {
     if (playerError || !player) {
       // Rollback: delete game if player creation failed
       await supabase.from('games').delete().eq('id', game.id);
-      throw new GameError(ErrorType.CONNECTION_LOST, playerError?.message);
+      throw fromBackendError(playerError);
     }
 
     // Update game with host_id and phase_captain_id (host starts as captain)
@@ -110,7 +131,7 @@ export class GameService {
     const { data: { user }, error: authError } = await supabase.auth.getUser();
 
     if (authError || !user) {
-      throw new GameError(ErrorType.INVALID_INPUT, 'يجب تسجيل الدخول لإنشاء لعبة');
+      throw new GameError(ErrorType.NOT_AUTHENTICATED);
     }
 
     // Validate settings
@@ -136,7 +157,7 @@ export class GameService {
     }
 
     if (attempts === 10) {
-      throw new GameError(ErrorType.CONNECTION_LOST, 'Failed to generate unique code');
+      throw new GameError(ErrorType.SERVER_ERROR, 'Failed to generate unique code');
     }
 
     // Create game without host or phase captain (but with authenticated host ID)
@@ -146,6 +167,18 @@ export class GameService {
         code,
         round_count: settings.roundCount,
         max_players: settings.maxPlayers,
+        question_pack_ids: settings.questionPackIds ?? [],
+        scoring_rules: settings.scoringRules ?? DEFAULT_SCORING_RULES,
+        multiplier_rounds: settings.multiplierRounds ?? [],
+        team_count: settings.teamCount ?? 0,
+        content_filter: settings.contentFilter ?? GAME_CONFIG.DEFAULT_CONTENT_FILTER,
+        answer_timer: settings.answerTimer ?? GAME_CONFIG.ANSWER_TIMER,
+        voting_timer: settings.votingTimer ?? GAME_CONFIG.VOTING_TIMER,
+        question_categories: settings.questionCategories ?? [],
+        question_difficulties: settings.questionDifficulties ?? [],
+        difficulty_ramp: settings.difficultyRamp ?? false,
+        category_picking: settings.categoryPicking ?? false,
+        language: settings.language ?? 'ar',
         status: 'waiting',
         auth_host_id: user.id,
         // host_id and phase_captain_id will be set when first player joins
@@ -154,7 +187,7 @@ export class GameService {
       .single();
 
     if (gameError || !game) {
-      throw new GameError(ErrorType.CONNECTION_LOST, gameError?.message);
+      throw fromBackendError(gameError);
     }
 
     return game;
@@ -165,14 +198,14 @@ export class GameService {
    */
   static async joinGame(
     code: string,
-    playerName: string
+    playerName: string,
+    role: PlayerRole = 'player'
   ): Promise<{ game: Game; player: Player }> {
     const supabase = getSupabase();
 
     // Validate inputs
     validatePlayerName(playerName);
 
-    const sanitizedName = sanitizeText(playerName);
     const normalizedCode = code.replace(/\s+/g, '').toUpperCase();
 
     // Get game
@@ -183,25 +216,35 @@ export class GameService {
       .single();
 
     if (gameError || !game) {
-      throw new GameError(ErrorType.GAME_NOT_FOUND);
+      throw fromBackendError(
+        gameError,
+        { [DB_ERROR_CODES.NO_ROWS]: ErrorType.GAME_NOT_FOUND },
+        ErrorType.GAME_NOT_FOUND
+      );
     }
 
-    // Check if game already started
-    if (game.status !== 'waiting') {
+    // Offensive names are masked or rejected per the game's content filter
+    const sanitizedName = applyContentFilter(sanitizeText(playerName), game.content_filter);
+
+    const isAudience = role === 'audience';
+
+    // Check if game already started (audience can drop in until the game ends)
+    if (isAudience ? game.status === 'finished' : game.status !== 'waiting') {
       throw new GameError(ErrorType.ALREADY_STARTED);
     }
 
-    // Check player count
+    // Check player count (audience members don't take a player slot)
     const { count, error: countError } = await supabase
       .from('players')
       .select('*', { count: 'exact', head: true })
-      .eq('game_id', game.id);
+      .eq('game_id', game.id)
+      .eq('role', 'player');
 
     if (countError) {
-      throw new GameError(ErrorType.CONNECTION_LOST, countError.message);
+      throw fromBackendError(countError);
     }
 
-    if ((count || 0) >= game.max_players) {
+    if (!isAudience && (count || 0) >= game.max_players) {
       throw new GameError(ErrorType.GAME_FULL);
     }
 
@@ -214,8 +257,15 @@ export class GameService {
       .maybeSingle();
 
     if (existingPlayer) {
-      // Let a dropped player reclaim their spot
-      if (existingPlayer.connection_status === 'disconnected') {
+      // Let a dropped player reclaim their spot: same role, from the device that joined with it
+      const deviceId = getDeviceId();
+      const canReclaim =
+        existingPlayer.connection_status === 'disconnected' &&
+        existingPlayer.role === role &&
+        !!deviceId &&
+        existingPlayer.device_id === deviceId;
+
+      if (canReclaim) {
         console.log('🔄 Reconnecting disconnected player:', existingPlayer.user_name);
         const { data: reconnectedPlayer, error: reconnectError } = await supabase
           .from('players')
@@ -225,11 +275,11 @@ export class GameService {
           .single();
 
         if (reconnectError || !reconnectedPlayer) {
-          throw new GameError(ErrorType.CONNECTION_LOST, reconnectError?.message);
+          throw fromBackendError(reconnectError);
         }
 
         // Check if this player should be phase captain (if game has no captain)
-        if (!game.phase_captain_id) {
+        if (!game.phase_captain_id && reconnectedPlayer.role === 'player') {
           await supabase
             .from('games')
             .update({ phase_captain_id: reconnectedPlayer.id })
@@ -238,13 +288,25 @@ export class GameService {
 
         return { game, player: reconnectedPlayer };
       }
-      // Player exists and is connected - duplicate name error
+      // Name is taken (connected, or someone else's dropped spot)
       throw new GameError(ErrorType.DUPLICATE_NAME);
     }
 
     // Check if this is the first player (for display mode games)
     const isFirstPlayer = (count || 0) === 0;
-    const shouldBeHost = isFirstPlayer && !game.host_id; // First player becomes host if no host exists
+    const shouldBeHost = isFirstPlayer && !game.host_id && !isAudience; // First player becomes host if no host exists
+
+    // Team mode: drop new players into the smallest team (they can switch in the lobby)
+    let team: TeamId | null = null;
+    if (!isAudience && game.team_count > 0) {
+      const { data: teamPlayers } = await supabase
+        .from('players')
+        .select('team')
+        .eq('game_id', game.id)
+        .eq('role', 'player');
+
+      team = getSmallestTeam(teamPlayers || [], game.team_count);
+    }
 
     // Add player
     const { data: player, error: playerError } = await supabase
@@ -254,12 +316,26 @@ export class GameService {
         user_name: sanitizedName,
         is_host: shouldBeHost,
         avatar_color: getRandomAvatarColor(),
+        role,
+        team,
+        device_id: getDeviceId(),
       })
       .select()
       .single();
 
+    // The join policy rejects names and devices the host banned
+    if (playerError?.code === DB_ERROR_CODES.INSUFFICIENT_PRIVILEGE) {
+      throw new GameError(ErrorType.BANNED);
+    }
+
+    // Server-side backstop (filter_player_name trigger)
+    if (playerError?.hint === 'INAPPROPRIATE_CONTENT') {
+      throw new GameError(ErrorType.INAPPROPRIATE_CONTENT);
+    }
+
+    // Lost a race for the same name (UNIQUE(game_id, user_name))
     if (playerError || !player) {
-      throw new GameError(ErrorType.CONNECTION_LOST, playerError?.message);
+      throw fromBackendError(playerError, { [DB_ERROR_CODES.UNIQUE_VIOLATION]: ErrorType.DUPLICATE_NAME });
     }
 
     // If this is the first player and game has no host, promote them
@@ -295,19 +371,21 @@ export class GameService {
       .single();
 
     if (!player?.is_host) {
-      throw new GameError(ErrorType.CONNECTION_LOST, 'Only host can start game');
+      throw new GameError(ErrorType.UNAUTHORIZED, 'Only host can start game');
     }
 
     // Check minimum players
     const { count } = await supabase
       .from('players')
       .select('*', { count: 'exact', head: true })
-      .eq('game_id', gameId);
+      .eq('game_id', gameId)
+      .eq('role', 'player');
 
     if ((count || 0) < GAME_CONFIG.MIN_PLAYERS) {
       throw new GameError(
-        ErrorType.CONNECTION_LOST,
-        `Need at least ${GAME_CONFIG.MIN_PLAYERS} players`
+        ErrorType.NOT_ENOUGH_PLAYERS,
+        `Need at least ${GAME_CONFIG.MIN_PLAYERS} players`,
+        { min: GAME_CONFIG.MIN_PLAYERS }
       );
     }
 
@@ -321,7 +399,7 @@ export class GameService {
       .eq('id', gameId);
 
     if (error) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      throw fromBackendError(error);
     }
   }
 
@@ -336,12 +414,14 @@ export class GameService {
     const { count } = await supabase
       .from('players')
       .select('*', { count: 'exact', head: true })
-      .eq('game_id', gameId);
+      .eq('game_id', gameId)
+      .eq('role', 'player');
 
     if ((count || 0) < GAME_CONFIG.MIN_PLAYERS) {
       throw new GameError(
-        ErrorType.CONNECTION_LOST,
-        `Need at least ${GAME_CONFIG.MIN_PLAYERS} players`
+        ErrorType.NOT_ENOUGH_PLAYERS,
+        `Need at least ${GAME_CONFIG.MIN_PLAYERS} players`,
+        { min: GAME_CONFIG.MIN_PLAYERS }
       );
     }
 
@@ -355,7 +435,7 @@ export class GameService {
       .eq('id', gameId);
 
     if (error) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      throw fromBackendError(error);
     }
 
     // Ensure the first round exists immediately (safety for TV mode)
@@ -418,15 +498,181 @@ export class GameService {
       .from('players')
       .select('*')
       .eq('game_id', gameId)
+      .eq('role', 'player')
       .order('joined_at', { ascending: true });
 
     if (error) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      throw fromBackendError(error);
     }
 
     return data || [];
   }
 
+  /**
+   * Get all audience members in a game
+   */
+  static async getGameAudience(gameId: string): Promise<Player[]> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase
+      .from('players')
+      .select('*')
+      .eq('game_id', gameId)
+      .eq('role', 'audience')
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Move a player to another team (lobby only)
+   */
+  static async setPlayerTeam(playerId: string, team: TeamId): Promise<void> {
+    const supabase = getSupabase();
+
+    const { error } = await supabase
+      .from('players')
+      .update({ team })
+      .eq('id', playerId);
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+  }
+
+  /**
+   * Shuffle all players into evenly sized teams (host only)
+   */
+  static async autoAssignTeams(gameId: string): Promise<void> {
+    const supabase = getSupabase();
+
+    const { data: game } = await supabase
+      .from('games')
+      .select('team_count')
+      .eq('id', gameId)
+      .single();
+
+    if (!game?.team_count) {
+      throw new GameError(ErrorType.INVALID_INPUT, 'Team mode is off');
+    }
+
+    const players = await this.getGamePlayers(gameId);
+    const assignments = assignBalancedTeams(players, game.team_count);
+
+    for (const [playerId, team] of assignments) {
+      await supabase
+        .from('players')
+        .update({ team })
+        .eq('id', playerId);
+    }
+
+    console.log('🎽 Teams shuffled for', players.length, 'players');
+  }
+
+  /**
+   * Start a rematch of a finished game with the same settings and connected players (owner only)
+   */
+  static async createRematch(gameId: string): Promise<Game> {
+    const supabase = getSupabase();
+
+    // Retry on code collisions (max 10 attempts)
+    for (let attempts = 0; attempts < 10; attempts++) {
+      const { data: rematchGameId, error } = await supabase.rpc('create_rematch', {
+        p_game_id: gameId,
+        p_code: generateGameCode(),
+      });
+
+      if (error?.code === DB_ERROR_CODES.UNIQUE_VIOLATION) {
+        continue;
+      }
+
+      if (error || !rematchGameId) {
+        console.error('Failed to create rematch:', error);
+        throw fromBackendError(error, {}, ErrorType.UNAUTHORIZED);
+      }
+
+      const rematch = await this.getGame(rematchGameId as string);
+      if (!rematch) {
+        throw new GameError(ErrorType.GAME_NOT_FOUND);
+      }
+
+      console.log('🔁 Rematch created:', { code: rematch.code, gameId: rematch.id });
+      return rematch;
+    }
+
+    throw new GameError(ErrorType.SERVER_ERROR, 'Failed to generate unique code');
+  }
+
+  /**
+   * Find the row a player was carried over to in a rematch
+   */
+  static async getRematchPlayer(rematchGameId: string, previousPlayerId: string): Promise<Player | null> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase
+      .from('players')
+      .select('*')
+      .eq('game_id', rematchGameId)
+      .eq('previous_player_id', previousPlayerId)
+      .maybeSingle();
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Remove a player from the lobby, optionally banning their name and device (host only)
+   */
+  static async kickPlayer(playerId: string, ban: boolean = false): Promise<void> {
+    const supabase = getSupabase();
+
+    const { error } = await supabase.rpc('kick_player', {
+      p_player_id: playerId,
+      p_ban: ban,
+    });
+
+    if (error) {
+      console.error('Failed to kick player:', error);
+      throw fromBackendError(error, {}, ErrorType.UNAUTHORIZED);
+    }
+
+    console.log(ban ? '⛔ Player banned:' : '🚫 Player kicked:', playerId);
+  }
+
+  /**
+   * Force-rename a player (host only)
+   */
+  static async renamePlayer(playerId: string, newName: string): Promise<void> {
+    const supabase = getSupabase();
+
+    validatePlayerName(newName);
+
+    const { error } = await supabase.rpc('rename_player', {
+      p_player_id: playerId,
+      p_new_name: sanitizeText(newName),
+    });
+
+    if (error?.code === DB_ERROR_CODES.UNIQUE_VIOLATION) {
+      throw new GameError(ErrorType.DUPLICATE_NAME);
+    }
+
+    if (error?.hint === 'INAPPROPRIATE_CONTENT') {
+      throw new GameError(ErrorType.INAPPROPRIATE_CONTENT);
+    }
+
+    if (error) {
+      console.error('Failed to rename player:', error);
+      throw fromBackendError(error, {}, ErrorType.UNAUTHORIZED);
+    }
+  }
+
   /**
    * Update player connection status
    */
@@ -456,7 +702,7 @@ export class GameService {
       .single();
 
     if (!game) {
-      throw new GameError(ErrorType.CONNECTION_LOST, 'Game not found');
+      throw new GameError(ErrorType.GAME_NOT_FOUND);
     }
 
     const nextRound = game.current_round + 1;
@@ -474,7 +720,7 @@ export class GameService {
       .eq('id', gameId);
 
     if (error) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      throw fromBackendError(error);
     }
   }
 
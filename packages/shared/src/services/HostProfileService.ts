@@ -78,6 +78,44 @@ export class HostProfileService {
     return true;
   }
 
+  /**
+   * Number of questions already served in the current user's games
+   */
+  static async getSeenQuestionCount(): Promise<number> {
+    const supabase = getSupabase();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return 0;
+
+    const { count, error } = await supabase
+      .from('seen_questions')
+      .select('*', { count: 'exact', head: true })
+      .eq('auth_user_id', user.id);
+
+    if (error) {
+      console.error('Failed to count seen questions:', error);
+      return 0;
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Forget the questions served in the current user's games
+   */
+  static async resetSeenQuestions(): Promise<boolean> {
+    const supabase = getSupabase();
+
+    const { error } = await supabase.rpc('reset_seen_questions');
+
+    if (error) {
+      console.error('Failed to reset seen questions:', error);
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Get subscription status
    */
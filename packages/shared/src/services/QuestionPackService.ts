@@ -0,0 +1,300 @@
+/**
+ * Question Pack Service - Host-authored question packs
+ */
+
+import { getSupabase } from './supabase';
+import {
+  Question,
+  QuestionPack,
+  QuestionFileFormat,
+  QuestionImportResult,
+  GameError,
+  ErrorType,
+  Locale,
+} from '../types';
+import { validatePackTitle, validateQuestionPair, sanitizeText } from '../utils/validation';
+import { parseQuestionFile, exportQuestions } from '../utils/questionImport';
+import { fromBackendError } from '../utils/errors';
+
+export interface QuestionPackInput {
+  title: string;
+  language: Locale;
+  category?: string | null;
+}
+
+export interface QuestionPairInput {
+  question_text: string;
+  correct_answer: string;
+  accepted_answers?: string[];
+}
+
+const sanitizeAcceptedAnswers = (answers: string[] = []) =>
+  answers.map(sanitizeText).filter(Boolean);
+
+export class QuestionPackService {
+  /**
+   * Get packs owned by the current host (with question counts)
+   */
+  static async getMyPacks(): Promise<(QuestionPack & { question_count: number })[]> {
+    const supabase = getSupabase();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('question_packs')
+      .select('*, questions(count)')
+      .eq('owner_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to fetch question packs:', error);
+      return [];
+    }
+
+    return (data || []).map(({ questions, ...pack }) => ({
+      ...(pack as QuestionPack),
+      question_count: (questions as { count: number }[] | null)?.[0]?.count ?? 0,
+    }));
+  }
+
+  /**
+   * Categories available for a game using these packs (global pool when empty) in a language, with question counts
+   */
+  static async getQuestionCategories(
+    packIds: string[] = [],
+    language: Locale = 'ar'
+  ): Promise<{ category: string; question_count: number }[]> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase.rpc('get_question_categories', {
+      p_pack_ids: packIds,
+      p_language: language,
+    });
+
+    if (error) {
+      console.error('Failed to fetch question categories:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a single pack with its questions
+   */
+  static async getPack(packId: string): Promise<QuestionPack | null> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase
+      .from('question_packs')
+      .select('*, questions(*)')
+      .eq('id', packId)
+      .single();
+
+    if (error) {
+      console.error('Failed to fetch question pack:', error);
+      return null;
+    }
+
+    return data as QuestionPack;
+  }
+
+  /**
+   * Create a new pack owned by the current host
+   */
+  static async createPack(input: QuestionPackInput): Promise<QuestionPack> {
+    const supabase = getSupabase();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new GameError(ErrorType.NOT_AUTHENTICATED);
+    }
+
+    validatePackTitle(input.title);
+
+    const { data, error } = await supabase
+      .from('question_packs')
+      .insert({
+        owner_id: user.id,
+        title: sanitizeText(input.title),
+        language: input.language,
+        category: input.category ? sanitizeText(input.category) : null,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw fromBackendError(error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Update pack metadata
+   */
+  static async updatePack(packId: string, input: QuestionPackInput): Promise<QuestionPack> {
+    const supabase = getSupabase();
+
+    validatePackTitle(input.title);
+
+    const { data, error } = await supabase
+      .from('question_packs')
+      .update({
+        title: sanitizeText(input.title),
+        language: input.language,
+        category: input.category ? sanitizeText(input.category) : null,
+      })
+      .eq('id', packId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw fromBackendError(error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a pack (its questions are removed by cascade)
+   */
+  static async deletePack(packId: string): Promise<void> {
+    const supabase = getSupabase();
+
+    const { error } = await supabase.from('question_packs').delete().eq('id', packId);
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+  }
+
+  /**
+   * Add question/answer pairs to a pack
+   */
+  static async addQuestions(pack: QuestionPack, pairs: QuestionPairInput[]): Promise<Question[]> {
+    const supabase = getSupabase();
+
+    pairs.forEach((pair) => validateQuestionPair(pair.question_text, pair.correct_answer));
+
+    const { data, error } = await supabase
+      .from('questions')
+      .insert(
+        pairs.map((pair) => ({
+          pack_id: pack.id,
+          question_text: sanitizeText(pair.question_text),
+          correct_answer: sanitizeText(pair.correct_answer),
+          accepted_answers: sanitizeAcceptedAnswers(pair.accepted_answers),
+          category: pack.category,
+          language: pack.language,
+        }))
+      )
+      .select();
+
+    if (error || !data) {
+      throw fromBackendError(error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Import a CSV/JSON question file into a pack.
+   * Invalid and duplicate rows are skipped and reported back; valid rows are inserted.
+   */
+  static async importQuestions(
+    pack: QuestionPack,
+    content: string,
+    format: QuestionFileFormat
+  ): Promise<QuestionImportResult & { imported: number }> {
+    const supabase = getSupabase();
+
+    // Existing pack questions count as duplicates too
+    const { data: existingQuestions } = await supabase
+      .from('questions')
+      .select('question_text')
+      .eq('pack_id', pack.id);
+
+    const result = parseQuestionFile(content, format, {
+      defaults: { category: pack.category, language: pack.language },
+      existingQuestions: existingQuestions || [],
+    });
+
+    if (result.rows.length === 0) {
+      return { ...result, imported: 0 };
+    }
+
+    const { data, error } = await supabase
+      .from('questions')
+      .insert(result.rows.map((row) => ({ ...row, pack_id: pack.id })))
+      .select('id');
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+
+    console.log(`✅ Imported ${data?.length ?? 0} questions into pack ${pack.id}`);
+
+    return { ...result, imported: data?.length ?? 0 };
+  }
+
+  /**
+   * Export a pack's questions as CSV or JSON text
+   */
+  static async exportPack(packId: string, format: QuestionFileFormat): Promise<string> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase
+      .from('questions')
+      .select('question_text, correct_answer, accepted_answers, category, difficulty, language')
+      .eq('pack_id', packId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+
+    return exportQuestions(data || [], format);
+  }
+
+  /**
+   * Update a question in a pack
+   */
+  static async updateQuestion(questionId: string, pair: QuestionPairInput): Promise<Question> {
+    const supabase = getSupabase();
+
+    validateQuestionPair(pair.question_text, pair.correct_answer);
+
+    const { data, error } = await supabase
+      .from('questions')
+      .update({
+        question_text: sanitizeText(pair.question_text),
+        correct_answer: sanitizeText(pair.correct_answer),
+        accepted_answers: sanitizeAcceptedAnswers(pair.accepted_answers),
+      })
+      .eq('id', questionId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw fromBackendError(error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Remove a question from a pack
+   */
+  static async deleteQuestion(questionId: string): Promise<void> {
+    const supabase = getSupabase();
+
+    const { error } = await supabase.from('questions').delete().eq('id', questionId);
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+  }
+}
@@ -7,7 +7,14 @@ import {
   Question,
   PlayerAnswer,
   Vote,
+  AnswerLike,
+  PlayerKick,
+  RoundControlAction,
+  RoundStatus,
+  BroadcastEvent,
+  TimerSyncEvent,
 } from '../types';
+import { decodeBroadcast, encodeBroadcast } from '../utils/realtimeProtocol';
 
 // Presence state for a player
 export interface PresenceState {
@@ -24,6 +31,7 @@ export type GameEventCallbacks = {
   onPlayerJoined?: (player: Player) => void;
   onPlayerLeft?: (playerId: string) => void;
   onPlayerUpdated?: (player: Player) => void;
+  onPlayerKicked?: (playerId: string, banned: boolean) => void; // Host moderation (lobby only)
 
   // Game events
   onGameStarted?: (game: Game) => void;
@@ -31,9 +39,11 @@ export type GameEventCallbacks = {
   onGameUpdated?: (game: Game) => void;
 
   // Round events
-  onRoundStarted?: (round: GameRound, question: Question) => void;
+  onRoundStarted?: (round: GameRound, question: Question | null) => void; // No question while choosing
   onRoundStatusChanged?: (roundId: string, status: string) => void;
   onRoundEnded?: (roundId: string) => void;
+  onRoundControl?: (action: RoundControlAction, round: GameRound, question?: Question) => void; // Host pause/resume/extend/skip
+  onTimerSync?: (sync: TimerSyncEvent) => void; // Server time remaining, relayed by whoever synced
 
   // Answer events
   onAnswerSubmitted?: (playerId: string, roundId: string) => void;
@@ -44,6 +54,12 @@ export type GameEventCallbacks = {
   onVotingStarted?: (answers: PlayerAnswer[]) => void;
   onAllVotesSubmitted?: () => void;
 
+  // Like events
+  onAnswerLiked?: (answerId: string, likerId: string, roundId: string) => void;
+
+  // Phase captain events
+  onCaptainPromoted?: (newCaptainId: string, oldCaptainId: string) => void;
+
   // Score events
   onScoresUpdated?: (scores: { player_id: string; new_score: number }[]) => void;
 
@@ -70,6 +86,7 @@ export class RealtimeService {
   private static watchdogTimers: Map<string, ReturnType<typeof setInterval>> = new Map();
   private static lastEventTimes: Map<string, number> = new Map();
   private static connectionHealthy: Map<string, boolean> = new Map();
+  private static ignoredBroadcasts: Map<string, Set<string>> = new Map(); // Already-logged rejections per game
 
   private static readonly MAX_RETRY_ATTEMPTS = 10;
   private static readonly BASE_RETRY_DELAY = 1000; // 1 second
@@ -140,27 +157,11 @@ export class RealtimeService {
         });
     }
 
-    // Set up broadcast listeners for instant state updates
-    broadcastChannel
-      .on('broadcast', { event: 'timer_sync' }, (payload) => {
-        this.recordEvent(gameId);
-        // Handle timer synchronization
-        if (callbacks.onGameUpdated && payload.payload) {
-          callbacks.onGameUpdated(payload.payload as Game);
-        }
-      })
-      .on('broadcast', { event: 'round_transition' }, (payload) => {
-        this.recordEvent(gameId);
-        // Handle instant round transitions
-        if (payload.payload) {
-          const { roundId, status } = payload.payload;
-          callbacks.onRoundStatusChanged?.(roundId, status);
-        }
-      })
-      .on('broadcast', { event: 'heartbeat' }, () => {
-        // Just record this as activity to keep connection alive
-        this.recordEvent(gameId);
-      });
+    // Set up broadcast listeners for instant state updates (every event, so newer builds' ones are seen and skipped)
+    broadcastChannel.on('broadcast', { event: '*' }, ({ event, payload }) => {
+      this.recordEvent(gameId);
+      this.handleBroadcast(gameId, event, payload, callbacks);
+    });
 
     // Listen to player changes (postgres_changes)
     channel
@@ -202,6 +203,21 @@ export class RealtimeService {
           this.recordEvent(gameId);
           callbacks.onPlayerLeft?.(payload.old.id);
         }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'player_kicks',
+          filter: `game_id=eq.${gameId}`,
+        },
+        (payload) => {
+          this.recordEvent(gameId);
+          const kick = payload.new as PlayerKick;
+          console.log('🚫 Realtime: Player kicked', { playerId: kick.player_id, banned: kick.banned });
+          callbacks.onPlayerKicked?.(kick.player_id, kick.banned);
+        }
       );
 
     // Listen to game changes
@@ -241,6 +257,12 @@ export class RealtimeService {
         this.recordEvent(gameId);
         const round = payload.new as GameRound;
 
+        // Rounds waiting on a category pick have no question yet
+        if (!round.question_id) {
+          callbacks.onRoundStarted?.(round, null);
+          return;
+        }
+
         // Fetch question
         const { data: question } = await supabase
           .from('questions')
@@ -324,6 +346,25 @@ export class RealtimeService {
       }
     );
 
+    // Listen to audience likes
+    channel.on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'answer_likes',
+      },
+      (payload) => {
+        this.recordEvent(gameId);
+        const like = payload.new as AnswerLike;
+        console.log('😂 Realtime: Like INSERT received', {
+          likerId: like.liker_id,
+          answerId: like.answer_id,
+        });
+        callbacks.onAnswerLiked?.(like.answer_id, like.liker_id, like.round_id);
+      }
+    );
+
     // Subscribe to both channels with retry logic
     let channelsSubscribed = 0;
     const totalChannels = 2;
@@ -393,6 +434,50 @@ export class RealtimeService {
     return () => this.unsubscribe(gameId);
   }
 
+  /**
+   * Validate a broadcast and hand it to its callback; unknown, newer or malformed ones are ignored
+   */
+  private static handleBroadcast(
+    gameId: string,
+    name: string,
+    payload: unknown,
+    callbacks: GameEventCallbacks
+  ): void {
+    const decoded = decodeBroadcast(name, payload);
+
+    if (!decoded.ok) {
+      // Log each kind of rejection once per game, a newer build can send many
+      const ignored = this.ignoredBroadcasts.get(gameId) || new Set<string>();
+      const key = `${name}:${decoded.reason}:${decoded.version}`;
+      if (!ignored.has(key)) {
+        console.warn('⚠️ Ignoring broadcast', { event: name, reason: decoded.reason, version: decoded.version });
+        ignored.add(key);
+        this.ignoredBroadcasts.set(gameId, ignored);
+      }
+      return;
+    }
+
+    const { event } = decoded;
+    switch (event.type) {
+      case 'timer_sync':
+        callbacks.onTimerSync?.(event);
+        break;
+      case 'round_transition':
+        callbacks.onRoundStatusChanged?.(event.round_id, event.status);
+        break;
+      case 'round_control':
+        console.log('🎛️ Broadcast: Round control', { action: event.action, roundId: event.round.id });
+        callbacks.onRoundControl?.(event.action, event.round, event.question);
+        break;
+      case 'captain_promoted':
+        callbacks.onCaptainPromoted?.(event.new_captain_id, event.old_captain_id);
+        break;
+      case 'heartbeat':
+        // Only keeps the watchdog happy
+        break;
+    }
+  }
+
   /**
    * Handle connection failure with retry logic
    */
@@ -455,7 +540,7 @@ export class RealtimeService {
       broadcastChannel.send({
         type: 'broadcast',
         event: 'heartbeat',
-        payload: { timestamp: Date.now() },
+        payload: encodeBroadcast({ type: 'heartbeat', timestamp: Date.now() }),
       }).catch((error) => {
         console.warn('Heartbeat failed:', error);
       });
@@ -516,6 +601,7 @@ export class RealtimeService {
 
     // Clear presence state
     this.presenceState.delete(gameId);
+    this.ignoredBroadcasts.delete(gameId);
   }
 
   /**
@@ -548,19 +634,15 @@ export class RealtimeService {
   }
 
   /**
-   * Broadcast custom event to game channel (uses broadcast channel for instant delivery)
+   * Broadcast an event to the game channel (uses broadcast channel for instant delivery)
    */
-  static async broadcastEvent(
-    gameId: string,
-    event: string,
-    payload: unknown
-  ): Promise<void> {
+  static async broadcastEvent(gameId: string, event: BroadcastEvent): Promise<void> {
     const broadcastChannel = this.broadcastChannels.get(gameId);
     if (broadcastChannel) {
       await broadcastChannel.send({
         type: 'broadcast',
-        event,
-        payload,
+        event: event.type,
+        payload: encodeBroadcast(event),
       });
     } else {
       console.warn(`⚠️ No broadcast channel for game ${gameId}`);
@@ -570,8 +652,8 @@ export class RealtimeService {
   /**
    * Broadcast timer sync event for instant timer updates
    */
-  static async broadcastTimerSync(gameId: string, game: Partial<Game>): Promise<void> {
-    await this.broadcastEvent(gameId, 'timer_sync', game);
+  static async broadcastTimerSync(gameId: string, sync: Omit<TimerSyncEvent, 'type'>): Promise<void> {
+    await this.broadcastEvent(gameId, { type: 'timer_sync', ...sync });
   }
 
   /**
@@ -580,9 +662,21 @@ export class RealtimeService {
   static async broadcastRoundTransition(
     gameId: string,
     roundId: string,
-    status: string
+    status: RoundStatus
+  ): Promise<void> {
+    await this.broadcastEvent(gameId, { type: 'round_transition', round_id: roundId, status });
+  }
+
+  /**
+   * Broadcast a host round control (pause, resume, extend, skip) with the updated round
+   */
+  static async broadcastRoundControl(
+    gameId: string,
+    action: RoundControlAction,
+    round: GameRound,
+    question?: Question
   ): Promise<void> {
-    await this.broadcastEvent(gameId, 'round_transition', { roundId, status });
+    await this.broadcastEvent(gameId, { type: 'round_control', action, round, question });
   }
 
   /**
@@ -651,6 +745,7 @@ export class RealtimeService {
 
     // Clear presence state
     this.presenceState.clear();
+    this.ignoredBroadcasts.clear();
   }
 
   /**
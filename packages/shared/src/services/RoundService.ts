@@ -1,24 +1,35 @@
 import { getSupabase } from './supabase';
+import { RealtimeService } from './RealtimeService';
 import {
   GameRound,
   Question,
   PlayerAnswer,
   Vote,
+  AnswerLike,
+  AudienceVote,
+  ContentFilterLevel,
   GameError,
   ErrorType,
+  Locale,
 } from '../types';
 import { validateAnswer, sanitizeText } from '../utils/validation';
+import { matchesCorrectAnswer, mergeDuplicateAnswers, getAnswerKey } from '../utils/answerMatching';
+import { getRoundMultiplier } from '../utils/scoring';
+import { isSameTeam } from '../utils/teams';
+import { applyContentFilter } from '../utils/contentFilter';
+import { DB_ERROR_CODES, fromBackendError } from '../utils/errors';
+import { getDeviceId } from '../utils/sessionStorage';
 import { GAME_CONFIG } from '../constants/game';
 
 export class RoundService {
   /**
-   * Create a new round with a random question
+   * Create a new round with a random question (in the game's language unless one is given)
    */
   static async createRound(
     gameId: string,
     roundNumber: number,
-    language: string = 'ar'
-  ): Promise<{ round: GameRound; question: Question }> {
+    language?: Locale
+  ): Promise<{ round: GameRound; question: Question | null }> {
     const supabase = getSupabase();
 
     // Check if round already exists (idempotent operation)
@@ -31,43 +42,65 @@ export class RoundService {
 
     if (existingRound) {
       console.log('✅ Round already exists, returning existing round:', existingRound);
-      return { round: existingRound, question: existingRound.question! };
+      return { round: existingRound, question: existingRound.question ?? null };
     }
 
-    // Get a random question that hasn't been used in this game
-    const { data: usedQuestionIds } = await supabase
-      .from('game_rounds')
-      .select('question_id')
-      .eq('game_id', gameId);
-
-    const usedIds = usedQuestionIds?.map((r) => r.question_id) || [];
-
-    // Get random unused question
-    const { data: questions, error: questionError } = await supabase
-      .from('questions')
-      .select('*')
-      .eq('language', language)
-      .not('id', 'in', `(${usedIds.length > 0 ? usedIds.join(',') : '00000000-0000-0000-0000-000000000000'})`)
-      .limit(10);
+    const { data: game } = await supabase
+      .from('games')
+      .select('round_count, scoring_rules, multiplier_rounds, answer_timer, category_picking')
+      .eq('id', gameId)
+      .single();
 
-    if (questionError || !questions || questions.length === 0) {
-      throw new GameError(ErrorType.CONNECTION_LOST, 'No questions available');
+    // The round's chooser picks from a few categories before the question is drawn;
+    // fall back to a plain round when the pool has fewer than two categories left
+    let categoryOptions: string[] = [];
+    if (game?.category_picking) {
+      const { data: options } = await supabase.rpc('pick_category_options', {
+        p_game_id: gameId,
+        p_count: GAME_CONFIG.CATEGORY_OPTIONS_COUNT,
+      });
+      categoryOptions = options && options.length >= 2 ? options : [];
+    }
+    const isChoosing = categoryOptions.length > 0;
+
+    // Question matching the game's packs, categories and difficulty, unseen ones first (see pick_question)
+    let questionId: string | null = null;
+    if (!isChoosing) {
+      const { data: picked, error: pickError } = await supabase.rpc('pick_question', {
+        p_game_id: gameId,
+        p_round_number: roundNumber,
+        p_language: language ?? null,
+      });
+
+      // Only empty when the pool has no questions at all (exhausted pools repeat)
+      if (pickError || !picked) {
+        throw new GameError(ErrorType.NO_QUESTIONS);
+      }
+      questionId = picked;
     }
 
-    const question = questions[Math.floor(Math.random() * questions.length)];
-
-    // Count connected players to establish fixed quorum for this round
-    const { count: playerCount, error: countError } = await supabase
+    // Connected players establish the fixed quorum for this round (audience excluded)
+    const { data: players, error: playersError } = await supabase
       .from('players')
-      .select('*', { count: 'exact', head: true })
+      .select('id')
       .eq('game_id', gameId)
-      .eq('connection_status', 'connected');
+      .eq('connection_status', 'connected')
+      .eq('role', 'player')
+      .order('joined_at', { ascending: true });
 
-    if (countError) {
-      throw new GameError(ErrorType.CONNECTION_LOST, countError.message);
+    if (playersError) {
+      throw fromBackendError(playersError);
     }
 
-    const requiredPlayers = Math.max(playerCount || 2, 2); // Minimum 2 players
+    const requiredPlayers = Math.max(players?.length || 2, 2); // Minimum 2 players
+
+    // Players take turns choosing the category in join order
+    const chooserId = isChoosing && players && players.length > 0
+      ? players[(roundNumber - 1) % players.length].id
+      : null;
+
+    // Final round / host-marked rounds are worth more, announced at round start
+    const multiplier = game ? getRoundMultiplier(game, roundNumber) : 1;
 
     // Create round - use server time by omitting timer_starts_at (database DEFAULT NOW())
     const { data: round, error: roundError } = await supabase
@@ -75,17 +108,22 @@ export class RoundService {
       .insert({
         game_id: gameId,
         round_number: roundNumber,
-        question_id: question.id,
-        status: 'answering',
+        question_id: questionId,
+        status: isChoosing ? 'choosing' : 'answering',
+        category_options: categoryOptions,
+        chooser_id: chooserId,
         required_players: requiredPlayers, // Fixed quorum for this round
         // timer_starts_at will use database DEFAULT NOW() for server time
-        timer_duration: GAME_CONFIG.ANSWER_TIMER,
+        timer_duration: isChoosing
+          ? GAME_CONFIG.CATEGORY_CHOICE_TIMER
+          : game?.answer_timer ?? GAME_CONFIG.ANSWER_TIMER, // 0 = wait for everyone
+        multiplier,
       })
       .select()
       .single();
 
     // Handle duplicate key error (race condition - another client created it simultaneously)
-    if (roundError && roundError.code === '23505') {
+    if (roundError && roundError.code === DB_ERROR_CODES.UNIQUE_VIOLATION) {
       console.log('⚠️ Duplicate key error, fetching existing round...');
       const { data: existing } = await supabase
         .from('game_rounds')
@@ -95,14 +133,130 @@ export class RoundService {
         .single();
 
       if (existing) {
-        return { round: existing, question: existing.question! };
+        return { round: existing, question: existing.question ?? null };
       }
     }
 
     if (roundError || !round) {
-      throw new GameError(ErrorType.CONNECTION_LOST, roundError?.message);
+      throw fromBackendError(roundError);
+    }
+
+    // Read only once the round exists: a pack question is private to the pack's
+    // owner until a round serves it, and the phase captain may not be the owner
+    if (!questionId) {
+      return { round, question: null };
+    }
+
+    const { data: question, error: questionError } = await supabase
+      .from('questions')
+      .select('*')
+      .eq('id', questionId)
+      .single();
+
+    if (questionError || !question) {
+      throw fromBackendError(questionError);
+    }
+
+    return { round, question };
+  }
+
+  /**
+   * Replace the question of a round that is still answering with a fresh one (host only).
+   * Fakes written for the old question are discarded and the answer timer restarts.
+   */
+  static async skipQuestion(roundId: string): Promise<{ round: GameRound; question: Question }> {
+    const supabase = getSupabase();
+
+    const { data: round, error } = await supabase.rpc('skip_question', {
+      p_round_id: roundId,
+    });
+
+    if (error?.hint === 'NO_QUESTIONS') {
+      throw new GameError(ErrorType.NO_QUESTIONS);
+    }
+
+    if (error || !round) {
+      console.error('Failed to skip question:', error);
+      throw fromBackendError(error, {}, ErrorType.UNAUTHORIZED);
+    }
+
+    const { data: question, error: questionError } = await supabase
+      .from('questions')
+      .select('*')
+      .eq('id', round.question_id)
+      .single();
+
+    if (questionError || !question) {
+      throw fromBackendError(questionError);
+    }
+
+    await RealtimeService.broadcastRoundControl(round.game_id, 'skipped', round, question);
+    console.log('⏭️ Question skipped:', { roundId, questionId: question.id });
+
+    return { round, question };
+  }
+
+  /**
+   * Move a running round to its next phase without waiting for everyone (host only).
+   * Lets the host carry on when a contestant drops out of an untimed round.
+   */
+  static async advanceRound(roundId: string): Promise<GameRound> {
+    const supabase = getSupabase();
+
+    const { data: round, error } = await supabase.rpc('advance_round_now', {
+      p_round_id: roundId,
+    });
+
+    if (error || !round) {
+      console.error('Failed to advance round:', error);
+      throw fromBackendError(error, {}, ErrorType.UNAUTHORIZED);
+    }
+
+    await RealtimeService.broadcastRoundTransition(round.game_id, round.id, round.status);
+    console.log('⏩ Round advanced by the host:', { roundId, status: round.status });
+
+    return round;
+  }
+
+  /**
+   * Pick the category for a round that is still choosing and start the answering phase.
+   * Pass a null category once the choosing timer ran out to have one picked at random.
+   * The server takes a pick only from the chooser's device (or the signed-in host).
+   */
+  static async chooseCategory(
+    roundId: string,
+    category: string | null
+  ): Promise<{ round: GameRound; question: Question }> {
+    const supabase = getSupabase();
+
+    const { data: round, error } = await supabase.rpc('choose_category', {
+      p_round_id: roundId,
+      p_device_id: getDeviceId(),
+      p_category: category,
+    });
+
+    if (error?.hint === 'NO_QUESTIONS') {
+      throw new GameError(ErrorType.NO_QUESTIONS);
+    }
+
+    if (error || !round || !round.question_id) {
+      console.error('Failed to choose category:', error);
+      throw fromBackendError(error, {}, ErrorType.UNAUTHORIZED);
     }
 
+    const { data: question, error: questionError } = await supabase
+      .from('questions')
+      .select('*')
+      .eq('id', round.question_id)
+      .single();
+
+    if (questionError || !question) {
+      throw fromBackendError(questionError);
+    }
+
+    await RealtimeService.broadcastRoundControl(round.game_id, 'category_chosen', round, question);
+    console.log('🗂️ Category chosen:', { roundId, category: round.category });
+
     return { round, question };
   }
 
@@ -113,14 +267,22 @@ export class RoundService {
     roundId: string,
     playerId: string,
     answerText: string,
-    _correctAnswer: string
+    question: Pick<Question, 'correct_answer' | 'accepted_answers'>,
+    contentFilter: ContentFilterLevel = GAME_CONFIG.DEFAULT_CONTENT_FILTER
   ): Promise<PlayerAnswer> {
     const supabase = getSupabase();
 
     // Validate answer
     validateAnswer(answerText);
 
-    const sanitizedAnswer = sanitizeText(answerText);
+    // Offensive fakes are masked or rejected per the game's content filter
+    const sanitizedAnswer = applyContentFilter(sanitizeText(answerText), contentFilter);
+
+    // Reject fakes that are really the truth (Fibbage-style "enter a lie instead")
+    if (matchesCorrectAnswer(sanitizedAnswer, question)) {
+      throw new GameError(ErrorType.ANSWER_MATCHES_TRUTH);
+    }
+
     const isCorrect = false; // Player answers are never marked as correct
 
     const { data, error } = await supabase
@@ -136,7 +298,7 @@ export class RoundService {
 
     if (error) {
       // Handle duplicate submissions gracefully (e.g. double-click, retry after reconnect)
-      if (error.code === '23505') {
+      if (error.code === DB_ERROR_CODES.UNIQUE_VIOLATION) {
         console.log('⚠️ Duplicate answer detected, returning existing record');
         const { data: existingAnswer, error: fetchError } = await supabase
           .from('player_answers')
@@ -146,7 +308,7 @@ export class RoundService {
           .single();
 
         if (fetchError) {
-          throw new GameError(ErrorType.CONNECTION_LOST, fetchError.message);
+          throw fromBackendError(fetchError);
         }
 
         if (existingAnswer) {
@@ -154,7 +316,22 @@ export class RoundService {
         }
       }
 
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      // Server-side backstop (reject_fake_matching_truth trigger)
+      if (error.hint === 'ANSWER_MATCHES_TRUTH') {
+        throw new GameError(ErrorType.ANSWER_MATCHES_TRUTH);
+      }
+
+      // Server-side backstop (filter_fake_answer trigger)
+      if (error.hint === 'INAPPROPRIATE_CONTENT') {
+        throw new GameError(ErrorType.INAPPROPRIATE_CONTENT);
+      }
+
+      // Host paused the round (reject_while_paused trigger)
+      if (error.hint === 'ROUND_PAUSED') {
+        throw new GameError(ErrorType.ROUND_PAUSED);
+      }
+
+      throw fromBackendError(error);
     }
 
     return data;
@@ -182,7 +359,7 @@ export class RoundService {
       .single();
 
     if (error) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      throw fromBackendError(error);
     }
 
     return data;
@@ -200,11 +377,12 @@ export class RoundService {
       .eq('round_id', roundId);
 
     if (error) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      throw fromBackendError(error);
     }
 
-    // Shuffle answers for voting
-    const shuffled = (data || []).sort(() => Math.random() - 0.5);
+    // Merge duplicate fakes so two identical lies don't give each other away,
+    // then shuffle answers for voting
+    const shuffled = mergeDuplicateAnswers(data || []).sort(() => Math.random() - 0.5);
     return shuffled;
   }
 
@@ -221,12 +399,57 @@ export class RoundService {
     // Verify voter is not voting for their own answer
     const { data: answer } = await supabase
       .from('player_answers')
-      .select('player_id')
+      .select('player_id, answer_text, is_correct')
       .eq('id', answerId)
       .single();
 
     if (answer?.player_id === voterId) {
-      throw new GameError(ErrorType.CONNECTION_LOST, 'Cannot vote for own answer');
+      throw new GameError(ErrorType.OWN_ANSWER, 'Cannot vote for own answer');
+    }
+
+    // A merged duplicate card also belongs to the voter if they wrote the same fake
+    if (answer && !answer.is_correct) {
+      const { data: ownAnswer } = await supabase
+        .from('player_answers')
+        .select('answer_text')
+        .eq('round_id', roundId)
+        .eq('player_id', voterId)
+        .maybeSingle();
+
+      if (ownAnswer && getAnswerKey(ownAnswer.answer_text) === getAnswerKey(answer.answer_text)) {
+        throw new GameError(ErrorType.OWN_ANSWER, 'Cannot vote for own answer');
+      }
+
+      // Team mode: a card written only by the voter's teammates is off limits
+      const { data: voter } = await supabase
+        .from('players')
+        .select('team')
+        .eq('id', voterId)
+        .single();
+
+      if (voter?.team) {
+        const { data: fakes } = await supabase
+          .from('player_answers')
+          .select('answer_text, player_id')
+          .eq('round_id', roundId)
+          .eq('is_correct', false);
+
+        const authorIds = (fakes || [])
+          .filter((fake) => getAnswerKey(fake.answer_text) === getAnswerKey(answer.answer_text))
+          .map((fake) => fake.player_id);
+
+        const { data: authors } = await supabase
+          .from('players')
+          .select('team')
+          .in('id', authorIds);
+
+        const teammatesOnly =
+          !!authors?.length && authors.every((author) => isSameTeam(author.team, voter.team));
+
+        if (teammatesOnly) {
+          throw new GameError(ErrorType.TEAMMATE_ANSWER);
+        }
+      }
     }
 
     const { data, error } = await supabase
@@ -242,7 +465,7 @@ export class RoundService {
 
     if (error) {
       // Handle duplicate vote gracefully (e.g. double-click, retry after reconnect)
-      if (error.code === '23505') {
+      if (error.code === DB_ERROR_CODES.UNIQUE_VIOLATION) {
         console.log('⚠️ Duplicate vote detected, returning existing record');
         const { data: existingVote, error: fetchError } = await supabase
           .from('votes')
@@ -252,7 +475,7 @@ export class RoundService {
           .single();
 
         if (fetchError) {
-          throw new GameError(ErrorType.CONNECTION_LOST, fetchError.message);
+          throw fromBackendError(fetchError);
         }
 
         if (existingVote) {
@@ -260,12 +483,135 @@ export class RoundService {
         }
       }
 
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      // Host paused the round (reject_while_paused trigger)
+      if (error.hint === 'ROUND_PAUSED') {
+        throw new GameError(ErrorType.ROUND_PAUSED);
+      }
+
+      throw fromBackendError(error);
     }
 
     return data;
   }
 
+  /**
+   * Submit an audience member's vote (kept out of votes so it never affects quorum)
+   */
+  static async submitAudienceVote(
+    roundId: string,
+    audienceId: string,
+    answerId: string
+  ): Promise<AudienceVote> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase
+      .from('audience_votes')
+      .insert({
+        round_id: roundId,
+        answer_id: answerId,
+        audience_id: audienceId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Handle duplicate vote gracefully (e.g. double-click, retry after reconnect)
+      if (error.code === DB_ERROR_CODES.UNIQUE_VIOLATION) {
+        const { data: existingVote, error: fetchError } = await supabase
+          .from('audience_votes')
+          .select('*')
+          .eq('round_id', roundId)
+          .eq('audience_id', audienceId)
+          .single();
+
+        if (fetchError) {
+          throw fromBackendError(fetchError);
+        }
+
+        if (existingVote) {
+          return existingVote;
+        }
+      }
+
+      throw fromBackendError(error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Like a fake answer as funny (separate from the vote, any number of answers)
+   */
+  static async likeAnswer(
+    roundId: string,
+    likerId: string,
+    answerId: string
+  ): Promise<AnswerLike> {
+    const supabase = getSupabase();
+
+    const { data: answer } = await supabase
+      .from('player_answers')
+      .select('player_id')
+      .eq('id', answerId)
+      .single();
+
+    if (answer?.player_id === likerId) {
+      throw new GameError(ErrorType.OWN_ANSWER, 'Cannot like own answer');
+    }
+
+    const { data, error } = await supabase
+      .from('answer_likes')
+      .insert({
+        round_id: roundId,
+        answer_id: answerId,
+        liker_id: likerId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Already liked (double-tap) - return the existing like
+      if (error.code === DB_ERROR_CODES.UNIQUE_VIOLATION) {
+        const { data: existingLike, error: fetchError } = await supabase
+          .from('answer_likes')
+          .select('*')
+          .eq('answer_id', answerId)
+          .eq('liker_id', likerId)
+          .single();
+
+        if (fetchError) {
+          throw fromBackendError(fetchError);
+        }
+
+        if (existingLike) {
+          return existingLike;
+        }
+      }
+
+      throw fromBackendError(error);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get all likes for a round
+   */
+  static async getRoundLikes(roundId: string): Promise<AnswerLike[]> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase
+      .from('answer_likes')
+      .select('*')
+      .eq('round_id', roundId);
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+
+    return data || [];
+  }
+
   /**
    * Get all votes for a round
    */
@@ -278,7 +624,7 @@ export class RoundService {
       .eq('round_id', roundId);
 
     if (error) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      throw fromBackendError(error);
     }
 
     return data || [];
@@ -293,18 +639,11 @@ export class RoundService {
   ): Promise<GameRound> {
     const supabase = getSupabase();
 
-    const updateData: any = { status };
-
-    // Reset timer when transitioning to voting phase
-    // Use a special marker that triggers DB default
-    if (status === 'voting') {
-      updateData.timer_duration = 20; // 20 seconds for voting
-      // Don't set timer_starts_at - let it update via trigger or we'll fetch fresh
-    }
-
+    // The voting timer (games.voting_timer) and its start time are set by the
+    // update_timer_on_voting trigger when transitioning to voting
     await supabase
       .from('game_rounds')
-      .update(updateData)
+      .update({ status })
       .eq('id', roundId);
 
     // Fetch the updated round to get server's timer_starts_at
@@ -315,7 +654,7 @@ export class RoundService {
       .single();
 
     if (error || !updatedRound) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error?.message || 'Failed to fetch updated round');
+      throw fromBackendError(error);
     }
 
     return updatedRound;
@@ -349,9 +688,9 @@ export class RoundService {
       .eq('round_number', data.current_round)
       .maybeSingle();
 
-    if (roundError && roundError.code !== 'PGRST116') {
+    if (roundError && roundError.code !== DB_ERROR_CODES.NO_ROWS) {
       // If not found, fall through to return null
-      throw roundError;
+      throw fromBackendError(roundError);
     }
 
     return round;
@@ -1,18 +1,38 @@
 import { getSupabase } from './supabase';
-import { Player, GameError, ErrorType } from '../types';
-import { calculateRoundScores, aggregateScores } from '../utils/scoring';
+import { Player, RoundScoreBreakdown, ScoreLedgerEntry, Team } from '../types';
+import { buildRoundBreakdown } from '../utils/scoring';
+import { groupDuplicateAnswers } from '../utils/answerMatching';
+import { aggregateTeamScores } from '../utils/teams';
+import { fromBackendError } from '../utils/errors';
 
 export class ScoringService {
   /**
-   * Calculate and update scores after a round
+   * Get the points a scored round handed out, per player and reason (empty until it is scored)
    */
-  static async calculateAndUpdateScores(
-    roundId: string,
-    gameId: string
-  ): Promise<{ player_id: string; new_score: number }[]> {
+  static async getRoundScores(roundId: string): Promise<ScoreLedgerEntry[]> {
     const supabase = getSupabase();
 
-    // Get all answers and votes for this round
+    const { data, error } = await supabase
+      .from('score_ledger')
+      .select('*')
+      .eq('round_id', roundId);
+
+    if (error) {
+      throw fromBackendError(error);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a scored round's points per player, event by event ("+500 fooled Sara"), highest total first
+   */
+  static async getRoundBreakdown(roundId: string): Promise<RoundScoreBreakdown[]> {
+    const supabase = getSupabase();
+
+    const scores = await this.getRoundScores(roundId);
+    if (scores.length === 0) return [];
+
     const { data: answers, error: answersError } = await supabase
       .from('player_answers')
       .select('*')
@@ -23,59 +43,17 @@ export class ScoringService {
       .select('*')
       .eq('round_id', roundId);
 
-    if (answersError || votesError) {
-      throw new GameError(ErrorType.CONNECTION_LOST, 'Failed to fetch round data');
-    }
-
-    // Calculate scores
-    const scoreResults = calculateRoundScores(answers || [], votes || []);
-    const aggregatedScores = aggregateScores(scoreResults);
-
-    // Get current player scores
     const { data: players, error: playersError } = await supabase
       .from('players')
-      .select('id, score')
-      .eq('game_id', gameId);
-
-    if (playersError) {
-      throw new GameError(ErrorType.CONNECTION_LOST, 'Failed to fetch players');
-    }
-
-    // Update player scores
-    const updates: { player_id: string; new_score: number }[] = [];
-
-    for (const player of players || []) {
-      const roundPoints = aggregatedScores.get(player.id) || 0;
-      const newScore = player.score + roundPoints;
+      .select('id, user_name, team')
+      .eq('game_id', scores[0].game_id);
 
-      if (roundPoints > 0) {
-        await supabase
-          .from('players')
-          .update({ score: newScore })
-          .eq('id', player.id);
-
-        updates.push({
-          player_id: player.id,
-          new_score: newScore,
-        });
-      }
-    }
-
-    // Update vote points
-    for (const scoreResult of scoreResults) {
-      const vote = votes?.find(
-        (v) => v.voter_id === scoreResult.player_id
-      );
-
-      if (vote) {
-        await supabase
-          .from('votes')
-          .update({ points_earned: scoreResult.points_earned })
-          .eq('id', vote.id);
-      }
+    const breakdownError = answersError || votesError || playersError;
+    if (breakdownError) {
+      throw fromBackendError(breakdownError);
     }
 
-    return updates;
+    return buildRoundBreakdown(scores, answers || [], votes || [], players || []);
   }
 
   /**
@@ -93,10 +71,11 @@ export class ScoringService {
       .from('players')
       .select('*')
       .eq('game_id', gameId)
+      .eq('role', 'player')
       .order('score', { ascending: false });
 
     if (error) {
-      throw new GameError(ErrorType.CONNECTION_LOST, error.message);
+      throw fromBackendError(error);
     }
 
     return (players || []).map((player, index) => ({
@@ -105,6 +84,90 @@ export class ScoringService {
     }));
   }
 
+  /**
+   * Get the team leaderboard (team scores are the sum of their players), empty when team mode is off
+   */
+  static async getTeamLeaderboard(gameId: string): Promise<
+    Array<{
+      team: Team;
+      score: number;
+      players: Player[];
+      rank: number;
+    }>
+  > {
+    const supabase = getSupabase();
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('team_count')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError) {
+      throw fromBackendError(gameError);
+    }
+
+    if (!game?.team_count) return [];
+
+    const leaderboard = await this.getFinalLeaderboard(gameId);
+    return aggregateTeamScores(leaderboard.map(({ player }) => player), game.team_count);
+  }
+
+  /**
+   * Get the "funniest liar" (most audience likes across the game), null if no likes
+   */
+  static async getFunniestLiar(gameId: string): Promise<{
+    player: Player;
+    like_count: number;
+  } | null> {
+    const supabase = getSupabase();
+
+    const { data: rounds, error: roundsError } = await supabase
+      .from('game_rounds')
+      .select('id')
+      .eq('game_id', gameId);
+
+    if (roundsError) {
+      throw fromBackendError(roundsError);
+    }
+
+    const roundIds = (rounds || []).map((r) => r.id);
+    if (roundIds.length === 0) return null;
+
+    const { data: answers } = await supabase
+      .from('player_answers')
+      .select('*, player:players(*)')
+      .in('round_id', roundIds)
+      .eq('is_correct', false);
+
+    const { data: likes } = await supabase
+      .from('answer_likes')
+      .select('answer_id')
+      .in('round_id', roundIds);
+
+    if (!answers || !likes || likes.length === 0) return null;
+
+    // Likes on a merged duplicate count for every author of that fake
+    const likeCounts = new Map<string, { player: Player; like_count: number }>();
+    roundIds.forEach((roundId) => {
+      groupDuplicateAnswers(answers.filter((a) => a.round_id === roundId)).forEach((group) => {
+        const answerIds = new Set(group.map((a) => a.id));
+        const count = likes.filter((like) => answerIds.has(like.answer_id)).length;
+        if (count === 0) return;
+
+        group.forEach((answer) => {
+          if (!answer.player) return;
+          const entry = likeCounts.get(answer.player.id) || { player: answer.player, like_count: 0 };
+          entry.like_count += count;
+          likeCounts.set(answer.player.id, entry);
+        });
+      });
+    });
+
+    const [funniest] = Array.from(likeCounts.values()).sort((a, b) => b.like_count - a.like_count);
+    return funniest || null;
+  }
+
   /**
    * Get round statistics
    */
@@ -113,6 +176,7 @@ export class ScoringService {
     total_votes: number;
     correct_answer_votes: number;
     fooled_count: Map<string, number>; // player_id -> number of players fooled
+    multiplier: number; // Round points multiplier applied by scoring
   }> {
     const supabase = getSupabase();
 
@@ -126,6 +190,12 @@ export class ScoringService {
       .select('*')
       .eq('round_id', roundId);
 
+    const { data: round } = await supabase
+      .from('game_rounds')
+      .select('multiplier')
+      .eq('id', roundId)
+      .single();
+
     const correctAnswer = answers?.find((a) => a.is_correct);
     const correctVotes = votes?.filter((v) => v.answer_id === correctAnswer?.id) || [];
 
@@ -142,6 +212,7 @@ export class ScoringService {
       total_votes: votes?.length || 0,
       correct_answer_votes: correctVotes.length,
       fooled_count: fooledCount,
+      multiplier: round?.multiplier ?? 1,
     };
   }
 }
@@ -1,6 +1,9 @@
 import { getSupabase } from './supabase';
 import { Game, GameRound, Player, PlayerAnswer } from '../types';
 import { RoundService } from './RoundService';
+import { GameEventService } from './GameEventService';
+import { GameLogState, getLoggedCurrentRound } from '../utils/gameEventLog';
+import { mergeDuplicateAnswers } from '../utils/answerMatching';
 
 export interface SyncState {
   game: Game;
@@ -21,6 +24,8 @@ export interface SyncResult {
 /**
  * SyncService provides periodic state synchronization to catch missed realtime events.
  * This is a safety net - realtime should handle 99% of updates, but sync catches the rest.
+ * State comes from the game's event log (GameEventService): each sync only asks for
+ * events after the last one applied. Games without a log fall back to full snapshots.
  */
 export class SyncService {
   private static syncIntervals: Map<string, ReturnType<typeof setInterval>> = new Map();
@@ -52,6 +57,13 @@ export class SyncService {
     this.syncCallbacks.set(gameId, onSync);
     this.lastSyncTimes.set(gameId, Date.now());
 
+    // Every step the log moves forward is a sync
+    GameEventService.follow(gameId, (log) => {
+      if (!log.game) return;
+      this.lastSyncTimes.set(gameId, Date.now());
+      this.syncCallbacks.get(gameId)?.({ success: true, state: this.fromGameLog(log, playerId), changed: true });
+    });
+
     // Initial sync
     this.performSync(gameId, playerId);
 
@@ -82,6 +94,7 @@ export class SyncService {
     }
     this.syncCallbacks.delete(gameId);
     this.lastSyncTimes.delete(gameId);
+    GameEventService.stop(gameId);
   }
 
   /**
@@ -95,6 +108,7 @@ export class SyncService {
     this.syncIntervals.clear();
     this.syncCallbacks.clear();
     this.lastSyncTimes.clear();
+    GameEventService.stopAll();
   }
 
   /**
@@ -109,7 +123,8 @@ export class SyncService {
     const callback = this.syncCallbacks.get(gameId);
     
     try {
-      const state = await this.fetchGameState(gameId, playerId);
+      const log = await GameEventService.catchUp(gameId);
+      const state = log?.game ? this.fromGameLog(log, playerId) : await this.fetchGameState(gameId, playerId);
       this.lastSyncTimes.set(gameId, Date.now());
       
       const result: SyncResult = {
@@ -144,7 +159,7 @@ export class SyncService {
     // Fetch game, players, and current round in parallel
     const [gameResult, playersResult, roundResult] = await Promise.all([
       supabase.from('games').select('*').eq('id', gameId).single(),
-      supabase.from('players').select('*').eq('game_id', gameId).eq('connection_status', 'connected'),
+      supabase.from('players').select('*').eq('game_id', gameId).eq('connection_status', 'connected').eq('role', 'player'),
       RoundService.getCurrentRound(gameId),
     ]);
 
@@ -199,6 +214,38 @@ export class SyncService {
     };
   }
 
+  /**
+   * The state fetchGameState would return, read from a game rebuilt from its event log
+   */
+  static fromGameLog(log: GameLogState, playerId: string | null): SyncState {
+    if (!log.game) {
+      throw new Error('Game log has no game yet');
+    }
+
+    const currentRound = getLoggedCurrentRound(log);
+    const roundAnswers = currentRound ? log.answers.filter((a) => a.round_id === currentRound.id) : [];
+    const vote = currentRound && playerId
+      ? log.votes.find((v) => v.round_id === currentRound.id && v.voter_id === playerId)
+      : undefined;
+
+    // Like RoundService.getRoundAnswers, but in a fixed order (by id) so every sync agrees
+    const showAnswers = currentRound?.status === 'voting' || currentRound?.status === 'completed';
+    const answers = showAnswers
+      ? mergeDuplicateAnswers(
+          roundAnswers.map((a) => ({ ...a, player: log.players.find((p) => p.id === a.player_id) }))
+        ).sort((a, b) => a.id.localeCompare(b.id))
+      : [];
+
+    return {
+      game: log.game,
+      players: log.players.filter((p) => p.connection_status === 'connected' && p.role === 'player'),
+      currentRound,
+      answers,
+      playerAnswer: (playerId && roundAnswers.find((a) => a.player_id === playerId)) || null,
+      playerVote: vote ? { answer_id: vote.answer_id } : null,
+    };
+  }
+
   /**
    * Force immediate sync (useful after suspected connection issues)
    */
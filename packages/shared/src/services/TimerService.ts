@@ -4,6 +4,9 @@
 
 import { getSupabase } from './supabase';
 import { RealtimeService } from './RealtimeService';
+import { GameRound, RoundControlAction, GameError, ErrorType, TimerSyncEvent } from '../types';
+import { GAME_CONFIG } from '../constants/game';
+import { fromBackendError } from '../utils/errors';
 
 export interface TimerState {
   roundId: string;
@@ -104,10 +107,11 @@ export class TimerService {
       // Broadcast timer sync for other clients
       if (RealtimeService && gameId) {
         await RealtimeService.broadcastTimerSync(gameId, {
-          timer_remaining: timerState.timeRemaining,
+          round_id: roundId,
+          time_remaining: timerState.timeRemaining,
           timer_active: timerState.timerActive,
           server_time: timerState.serverTime
-        } as any);
+        });
       }
 
       // Call update callback if provided
@@ -128,6 +132,22 @@ export class TimerService {
     }
   }
 
+  /**
+   * Take a timer sync relayed by another client, less the time since the server measured it
+   */
+  static applyTimerSync(sync: TimerSyncEvent): void {
+    const sinceServerTime = Math.max(0, (this.getServerAdjustedTime() - Date.parse(sync.server_time)) / 1000);
+
+    this.timerStates.set(sync.round_id, {
+      roundId: sync.round_id,
+      timeRemaining: sync.timer_active ? Math.max(0, sync.time_remaining - sinceServerTime) : sync.time_remaining,
+      timerActive: sync.timer_active,
+      serverTime: sync.server_time,
+      lastSyncTime: Date.now(),
+      clientServerOffset: this.clientServerOffset,
+    });
+  }
+
   /**
    * Start periodic timer sync for a game
    */
@@ -231,6 +251,61 @@ export class TimerService {
     }
   }
 
+  /**
+   * Pause a running round, freezing its remaining time (host only)
+   */
+  static async pauseRound(roundId: string): Promise<GameRound> {
+    return this.controlRound('pause_round', 'paused', { p_round_id: roundId });
+  }
+
+  /**
+   * Resume a paused round where it stopped (host only)
+   */
+  static async resumeRound(roundId: string): Promise<GameRound> {
+    return this.controlRound('resume_round', 'resumed', { p_round_id: roundId });
+  }
+
+  /**
+   * Add seconds to a running round's timer (host only)
+   */
+  static async extendRoundTimer(roundId: string, seconds: number): Promise<GameRound> {
+    if (!Number.isInteger(seconds) || seconds < 1 || seconds > GAME_CONFIG.MAX_TIMER_EXTENSION) {
+      throw new GameError(ErrorType.INVALID_INPUT, 'Invalid timer extension', {
+        field: 'seconds',
+        min: 1,
+        max: GAME_CONFIG.MAX_TIMER_EXTENSION,
+      });
+    }
+
+    return this.controlRound('extend_round_timer', 'extended', {
+      p_round_id: roundId,
+      p_seconds: seconds,
+    });
+  }
+
+  /**
+   * Run a host timer RPC and broadcast the updated round to the other clients
+   */
+  private static async controlRound(
+    fn: string,
+    action: RoundControlAction,
+    params: Record<string, unknown>
+  ): Promise<GameRound> {
+    const supabase = getSupabase();
+
+    const { data: round, error } = await supabase.rpc(fn, params);
+
+    if (error || !round) {
+      console.error(`Failed to ${fn.replace(/_/g, ' ')}:`, error);
+      throw fromBackendError(error, {}, ErrorType.UNAUTHORIZED);
+    }
+
+    await RealtimeService.broadcastRoundControl(round.game_id, action, round);
+    console.log('🎛️ Round control:', { action, roundId: round.id });
+
+    return round;
+  }
+
   /**
    * Get current client-server clock offset
    */
@@ -4,6 +4,9 @@ export * from './RoundService';
 export * from './ScoringService';
 export * from './RealtimeService';
 export * from './SyncService';
+export * from './GameEventService';
 export * from './PaymentService';
 export * from './HostProfileService';
 export * from './TimerService';
+export * from './QuestionPackService';
+export * from './GameHistoryService';
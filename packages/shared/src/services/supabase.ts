@@ -6,9 +6,15 @@ let supabaseClient: SupabaseClient | null = null;
 export interface SupabaseOptions {
   storage?: any;
   detectSessionInUrl?: boolean;
+  client?: SupabaseClient; // Use this client instead of creating one (tests pass the in-memory fake)
 }
 
 export function initializeSupabase(url: string, anonKey: string, options?: SupabaseOptions) {
+  if (options?.client) {
+    supabaseClient = options.client;
+    return supabaseClient;
+  }
+
   if (!supabaseClient) {
     const storage = options?.storage || (typeof window !== 'undefined' ? window.localStorage : undefined);
     const detectSessionInUrl = options?.detectSessionInUrl ?? true;
@@ -1,7 +1,9 @@
 import { create } from 'zustand';
-import { Game, Player, GameSettings, GameRound, Question, PlayerAnswer, PlayerConnectionStatus } from '../types';
-import { GameService, RealtimeService, SyncService, SyncState } from '../services';
+import { Game, Player, GameSettings, GameRound, Question, PlayerAnswer, PlayerConnectionStatus, PlayerRole, TeamId, ErrorType, GameError, RoundControlAction } from '../types';
+import { GameService, RealtimeService, SyncService, SyncState, TimerService } from '../services';
 import { saveGameSession, clearGameSession, getGameSession } from '../utils/sessionStorage';
+import { getRoundTimeRemaining } from '../utils/roundTimer';
+import { toGameError } from '../utils/errors';
 import { GAME_CONFIG } from '../constants/game';
 
 /**
@@ -58,7 +60,13 @@ async function handleSyncResult(
     const roundChanged = 
       roundState.currentRound?.id !== state.currentRound.id ||
       roundState.currentRound?.status !== state.currentRound.status ||
-      roundState.roundStatus !== state.currentRound.status;
+      roundState.roundStatus !== state.currentRound.status ||
+      // Host controls (a missed pause/resume/extend/skip broadcast)
+      roundState.currentRound?.question_id !== state.currentRound.question_id ||
+      roundState.currentRound?.paused_at !== state.currentRound.paused_at ||
+      roundState.currentRound?.timer_duration !== state.currentRound.timer_duration ||
+      // Answers logged after the round already moved to voting
+      (state.answers.length > 0 && state.answers.length !== roundState.allAnswers.length);
     
     if (roundChanged) {
       console.log('🔄 Sync detected round state change:', {
@@ -68,15 +76,13 @@ async function handleSyncResult(
         newStatus: state.currentRound.status
       });
 
-      // Calculate time remaining
-      const startTime = state.currentRound.timer_starts_at
-        ? new Date(state.currentRound.timer_starts_at).getTime()
-        : Date.now();
-      const elapsed = Math.floor((Date.now() - startTime) / 1000);
-      const timeRemaining = Math.max(0, state.currentRound.timer_duration - elapsed);
+      // Calculate time remaining (frozen while paused)
+      const timeRemaining = getRoundTimeRemaining(state.currentRound);
 
-      // Get question from the round if it has one
-      const question = (state.currentRound as any).question || roundState.question;
+      // Get question from the round if it has one (none while the category is being picked)
+      const question = state.currentRound.question_id
+        ? (state.currentRound as any).question || roundState.question
+        : null;
 
       useRoundStore.setState({
         currentRound: state.currentRound,
@@ -84,7 +90,7 @@ async function handleSyncResult(
         roundNumber: state.currentRound.round_number,
         roundStatus: state.currentRound.status,
         timeRemaining,
-        timerActive: timeRemaining > 0,
+        timerActive: !state.currentRound.paused_at && timeRemaining > 0,
         allAnswers: state.answers.length > 0 ? state.answers : roundState.allAnswers,
         totalRounds: state.game.round_count,
         // Update player submission state
@@ -97,20 +103,259 @@ async function handleSyncResult(
   }
 }
 
+/**
+ * Host moderation: a kicked client leaves the game with the reason as the
+ * store error; everyone else just drops the player from their list.
+ */
+function handlePlayerKicked(
+  playerId: string,
+  banned: boolean,
+  get: () => GameState,
+  set: (partial: Partial<GameState>) => void
+) {
+  if (get().currentPlayer?.id !== playerId) {
+    get().removePlayer(playerId);
+    return;
+  }
+
+  console.log(banned ? '⛔ Banned from the game by the host' : '🚫 Kicked from the game by the host');
+  clearGameSession();
+  get().reset();
+  set({ error: new GameError(banned ? ErrorType.BANNED : ErrorType.KICKED) });
+}
+
+/**
+ * Host round controls arrive on the broadcast channel with the updated round
+ */
+function handleRoundControl(action: RoundControlAction, round: GameRound, question?: Question) {
+  import('./roundStore').then(({ useRoundStore }) => {
+    useRoundStore.getState().applyRoundControl(action, round, question);
+  });
+}
+
+/**
+ * A promotion broadcast arrives before the games row update, so the new captain takes over sooner
+ */
+function handleCaptainPromoted(
+  newCaptainId: string,
+  get: () => GameState,
+  set: (partial: Partial<GameState>) => void
+) {
+  const { game, currentPlayer } = get();
+  if (!game) return;
+
+  console.log('👑 Broadcast: Captain promoted', { newCaptainId });
+  set({
+    game: { ...game, phase_captain_id: newCaptainId },
+    isPhaseCaptain: currentPlayer?.id === newCaptainId,
+  });
+}
+
+/**
+ * Enter TV display mode for a game: set display state, subscribe to realtime
+ * events and save the display session. Shared by createGameAsDisplay and rematches.
+ */
+function watchGameAsDisplay(
+  game: Game,
+  get: () => GameState,
+  set: (partial: Partial<GameState>) => void
+) {
+  set({
+    game,
+    gameCode: game.code,
+    currentPlayer: null, // No player in display mode
+    isHost: false,
+    isPhaseCaptain: false,
+    isDisplayMode: true, // Flag for display-only mode
+    players: [],
+    isLoading: false,
+    rehydrationAttempted: true, // Fresh session - skip rehydrate guard
+  });
+
+  // Subscribe to realtime updates (display mode - no player actions)
+  RealtimeService.subscribeToGame(game.id, {
+    onGameUpdated: (updatedGame) => {
+      console.log('📺 [Display Mode] Game updated:', {
+        currentRound: updatedGame.current_round,
+        status: updatedGame.status
+      });
+      set({ game: updatedGame });
+
+      // Clear session when game finishes
+      if (updatedGame.status === 'finished') {
+        console.log('🏁 Game finished, clearing session');
+        clearGameSession();
+      }
+    },
+    onPlayerJoined: (newPlayer) => {
+      console.log('📺 [Display Mode] Player joined:', newPlayer.user_name);
+      get().addPlayer(newPlayer);
+    },
+    onPlayerLeft: (playerId) => {
+      console.log('📺 [Display Mode] Player left:', playerId);
+      get().removePlayer(playerId);
+    },
+    onPlayerKicked: (playerId, banned) => handlePlayerKicked(playerId, banned, get, set),
+    onRoundControl: handleRoundControl,
+    onCaptainPromoted: (newCaptainId) => handleCaptainPromoted(newCaptainId, get, set),
+    onTimerSync: (sync) => TimerService.applyTimerSync(sync),
+    onGameStarted: (updatedGame) => {
+      console.log('📺 [Display Mode] Game started:', updatedGame);
+      set({ game: updatedGame });
+    },
+    onRoundStarted: (round, question) => {
+      console.log('📺 [Display Mode] Round started:', { roundNumber: round.round_number, questionText: question?.question_text });
+      // Display mode doesn't participate, just shows the round
+      import('./roundStore').then(({ useRoundStore }) => {
+        const startTime = round.timer_starts_at ? new Date(round.timer_starts_at).getTime() : Date.now();
+        const elapsed = Math.floor((Date.now() - startTime) / 1000);
+        const initialTimeRemaining = Math.max(0, round.timer_duration - elapsed);
+
+        useRoundStore.setState({
+          currentRound: round,
+          question,
+          roundNumber: round.round_number,
+          roundStatus: round.status,
+          timeRemaining: initialTimeRemaining,
+          timerActive: initialTimeRemaining > 0,
+          totalRounds: get().game?.round_count || 0,
+          isLoading: false,
+        });
+      });
+    },
+    onAnswerSubmitted: (playerId, _hasSubmitted) => {
+      console.log('📺 [Display Mode] Answer submitted:', playerId);
+      // Display mode just observes
+    },
+    onVotingStarted: (answers) => {
+      console.log('📺 [Display Mode] Voting started with', answers.length, 'answers');
+      import('./roundStore').then(({ useRoundStore }) => {
+        useRoundStore.setState({
+          roundStatus: 'voting',
+          allAnswers: answers,
+          timerActive: true,
+        });
+      });
+    },
+    onVoteSubmitted: (voterId, _answerId) => {
+      console.log('📺 [Display Mode] Vote submitted:', voterId);
+      // Display mode just observes
+    },
+    onAnswerLiked: (answerId: string, likerId: string, roundId: string) => {
+      import('./roundStore').then(({ useRoundStore }) => {
+        const currentRound = useRoundStore.getState().currentRound;
+        if (currentRound?.id === roundId) {
+          useRoundStore.getState().addLike(answerId, likerId);
+        }
+      });
+    },
+    onRoundEnded: async (roundId: string) => {
+      console.log('📺 [Display Mode] Round ended:', roundId);
+      const currentGame = get().game;
+      if (!currentGame) return;
+
+      // Clear any existing timeout
+      const existingTimeout = get().roundEndResetTimeout;
+      if (existingTimeout) {
+        clearTimeout(existingTimeout);
+      }
+
+      // Check if this was the last round
+      if (currentGame.current_round >= currentGame.round_count) {
+        console.log('🎉 Game complete! All rounds finished.');
+        set({ roundEndResetTimeout: null });
+      } else {
+        console.log('➡️ Preparing for next round...');
+        const currentRoundNumber = currentGame.current_round;
+
+        // Wait to show scores, then clear for next round
+        const timeoutId = setTimeout(() => {
+          const freshGame = get().game;
+          if (freshGame && freshGame.current_round === currentRoundNumber) {
+            console.log('🧹 Resetting round state after round', currentRoundNumber);
+            import('./roundStore').then(({ useRoundStore }) => {
+              useRoundStore.getState().reset();
+            });
+            set({ roundEndResetTimeout: null });
+          } else {
+            console.log('⏭️ Round already advanced, skipping reset');
+            set({ roundEndResetTimeout: null });
+          }
+        }, GAME_CONFIG.RESULTS_DISPLAY_DURATION * 1000);
+
+        set({ roundEndResetTimeout: timeoutId });
+      }
+    },
+    onConnected: () => {
+      set({ isConnected: true });
+      // Start periodic sync for display mode (no player ID)
+      const { game: g } = get();
+      if (g) {
+        SyncService.startSync(g.id, null, (result) => {
+          if (result.success && result.state) {
+            handleSyncResult(result.state, get, set);
+          }
+        });
+      }
+    },
+    onDisconnected: () => {
+      set({ isConnected: false });
+    },
+    onReconnected: async () => {
+      // Force immediate sync for display mode
+      const { game } = get();
+      if (!game) return;
+
+      console.log('📺 [Display Mode] Force syncing after reconnection...');
+      const result = await SyncService.forceSyncNow(game.id, null);
+
+      if (result.success && result.state) {
+        await handleSyncResult(result.state, get, set);
+        console.log('✅ Display mode state sync completed');
+      } else {
+        console.error('❌ Sync failed after reconnection:', result.error);
+      }
+    },
+    onPresenceSync: (presences) => {
+      console.log('📺 [Display Mode] Presence sync:', presences.length, 'players online');
+      // In display mode, just track online players but don't update connection status
+      // since display mode doesn't participate as a player
+    },
+    onPresenceJoin: (presence) => {
+      console.log('📺 [Display Mode] Player joined (presence):', presence.nickname);
+    },
+    onPresenceLeave: (presence) => {
+      console.log('📺 [Display Mode] Player left (presence):', presence.nickname);
+    },
+  }
+  // No player info for display mode - don't pass third parameter
+  );
+
+  // Save display mode session to localStorage
+  saveGameSession({
+    gameId: game.id,
+    playerId: null, // No player in display mode
+    isHost: false,
+    isDisplayMode: true,
+  });
+}
+
 interface GameState {
   // Game data
   game: Game | null;
   gameCode: string | null;
   players: Player[];
+  audience: Player[]; // Spectators (role = 'audience'), kept out of players
   currentPlayer: Player | null;
   isHost: boolean;
   isPhaseCaptain: boolean; // Whether current player is responsible for phase transitions
   isDisplayMode: boolean; // TV display-only mode (no player participation)
+  isAudience: boolean; // Current user joined as audience (watches and casts audience votes)
 
   // Connection state
   isConnected: boolean;
   isLoading: boolean;
-  error: string | null;
+  error: GameError | null; // Render with formatError so the text follows the locale
   rehydrationAttempted: boolean; // Whether session rehydration has been attempted
   roundEndResetTimeout: ReturnType<typeof setTimeout> | null; // Track timeout for round end reset
   lastSyncTime: number | null; // Timestamp of last successful sync
@@ -118,16 +363,22 @@ interface GameState {
   // Actions
   createGame: (hostName: string, settings: GameSettings) => Promise<void>;
   createGameAsDisplay: (settings: GameSettings) => Promise<void>; // TV display mode
-  joinGame: (code: string, playerName: string) => Promise<void>;
+  joinGame: (code: string, playerName: string, role?: PlayerRole) => Promise<void>;
   rehydrateSession: () => Promise<boolean>; // Restore session after refresh
   startGame: () => Promise<void>;
+  setTeam: (team: TeamId) => Promise<void>; // Team mode: switch the current player's team in the lobby
+  shuffleTeams: () => Promise<void>; // Team mode: host rebalances all teams
+  playAgain: () => Promise<void>; // Host/display: rematch with the same lobby after the game finished
+  joinRematch: () => Promise<boolean>; // Move into the rematch lobby once the host starts it
+  kickPlayer: (playerId: string, ban?: boolean) => Promise<void>; // Host moderation (lobby only)
+  renamePlayer: (playerId: string, newName: string) => Promise<void>; // Host moderation: force-rename
   leaveGame: () => Promise<void>;
   setPlayers: (players: Player[]) => void;
   addPlayer: (player: Player) => void;
   removePlayer: (playerId: string) => void;
   updatePlayer: (player: Player) => void;
   promoteNewCaptain: (disconnectedPlayerId: string) => Promise<void>; // Handle captain failover
-  setError: (error: string | null) => void;
+  setError: (error: GameError | null) => void;
   setLoading: (loading: boolean) => void;
   reset: () => void;
 }
@@ -137,10 +388,12 @@ export const useGameStore = create<GameState>((set, get) => ({
   game: null,
   gameCode: null,
   players: [],
+  audience: [],
   currentPlayer: null,
   isHost: false,
   isPhaseCaptain: false,
   isDisplayMode: false,
+  isAudience: false,
   isConnected: false,
   lastSyncTime: null,
   isLoading: false,
@@ -218,16 +471,20 @@ export const useGameStore = create<GameState>((set, get) => ({
 
           get().removePlayer(playerId);
         },
+        onPlayerKicked: (playerId, banned) => handlePlayerKicked(playerId, banned, get, set),
+        onRoundControl: handleRoundControl,
+        onCaptainPromoted: (newCaptainId) => handleCaptainPromoted(newCaptainId, get, set),
+        onTimerSync: (sync) => TimerService.applyTimerSync(sync),
         onGameStarted: (updatedGame) => {
           console.log('🎮 Game started event received (createGame):', updatedGame);
           set({ game: updatedGame });
         },
-        onRoundStarted: (round: GameRound, question: Question) => {
+        onRoundStarted: (round: GameRound, question: Question | null) => {
           console.log('🎲 Round started event received', {
             roundId: round.id,
             roundNumber: round.round_number,
-            questionId: question.id,
-            questionText: question.question_text,
+            questionId: question?.id,
+            questionText: question?.question_text,
             timerStartsAt: round.timer_starts_at
           });
 
@@ -257,8 +514,8 @@ export const useGameStore = create<GameState>((set, get) => ({
             console.log('✅ Setting round state:', {
               roundId: round.id,
               roundNumber: round.round_number,
-              questionId: question.id,
-              questionText: question.question_text.substring(0, 50) + '...',
+              questionId: question?.id,
+              questionText: question?.question_text.substring(0, 50),
               timeRemaining: initialTimeRemaining
             });
 
@@ -266,9 +523,9 @@ export const useGameStore = create<GameState>((set, get) => ({
               currentRound: round,
               question: question,
               roundNumber: round.round_number,
-              roundStatus: 'answering',
+              roundStatus: round.status, // 'choosing' until the category is picked
               timeRemaining: initialTimeRemaining,
-              timerActive: true,
+              timerActive: initialTimeRemaining > 0,
               allAnswers: [],
               playerVotes: new Map(),
               playerAnswers: new Map(),
@@ -305,12 +562,10 @@ export const useGameStore = create<GameState>((set, get) => ({
                   .eq('id', roundId)
                   .single();
 
-                // Calculate time remaining based on updated server timestamp
-                const startTime = updatedRound?.timer_starts_at
-                  ? new Date(updatedRound.timer_starts_at).getTime()
-                  : Date.now();
-                const elapsed = Math.floor((Date.now() - startTime) / 1000);
-                const votingTimeRemaining = Math.max(0, (updatedRound?.timer_duration || 20) - elapsed);
+                // Calculate time remaining based on updated server timestamp (0 when untimed)
+                const votingTimeRemaining = updatedRound
+                  ? getRoundTimeRemaining(updatedRound)
+                  : GAME_CONFIG.VOTING_TIMER;
 
                 console.log('📋 Fetched answers:', answers.length, 'Time remaining:', votingTimeRemaining);
                 useRoundStore.setState({
@@ -318,7 +573,7 @@ export const useGameStore = create<GameState>((set, get) => ({
                   roundStatus: status as any,
                   allAnswers: answers,
                   timeRemaining: votingTimeRemaining,
-                  timerActive: true,
+                  timerActive: votingTimeRemaining > 0,
                   playerVotes: new Map(),
                   myVote: null,
                   hasSubmittedVote: false
@@ -356,6 +611,14 @@ export const useGameStore = create<GameState>((set, get) => ({
             }
           });
         },
+        onAnswerLiked: (answerId: string, likerId: string, roundId: string) => {
+          import('./roundStore').then(({ useRoundStore }) => {
+            const currentRound = useRoundStore.getState().currentRound;
+            if (currentRound?.id === roundId) {
+              useRoundStore.getState().addLike(answerId, likerId);
+            }
+          });
+        },
         onRoundEnded: async (roundId: string) => {
           console.log('🏁 Round ended:', roundId);
           const currentGame = get().game;
@@ -462,7 +725,7 @@ export const useGameStore = create<GameState>((set, get) => ({
         joinedAt: Date.now(),
       });
     } catch (error: any) {
-      set({ error: error.message, isLoading: false });
+      set({ error: toGameError(error), isLoading: false });
       throw error;
     }
   },
@@ -476,183 +739,18 @@ export const useGameStore = create<GameState>((set, get) => ({
     try {
       const game = await GameService.createGameForDisplay(settings);
 
-      set({
-        game,
-        gameCode: game.code,
-        currentPlayer: null, // No player in display mode
-        isHost: false,
-        isPhaseCaptain: false,
-        isDisplayMode: true, // Flag for display-only mode
-        players: [],
-        isLoading: false,
-        rehydrationAttempted: true, // Fresh session - skip rehydrate guard
-      });
-
-      // Subscribe to realtime updates (display mode - no player actions)
-      RealtimeService.subscribeToGame(game.id, {
-        onGameUpdated: (updatedGame) => {
-          console.log('📺 [Display Mode] Game updated:', {
-            currentRound: updatedGame.current_round,
-            status: updatedGame.status
-          });
-          set({ game: updatedGame });
-
-          // Clear session when game finishes
-          if (updatedGame.status === 'finished') {
-            console.log('🏁 Game finished, clearing session');
-            clearGameSession();
-          }
-        },
-        onPlayerJoined: (newPlayer) => {
-          console.log('📺 [Display Mode] Player joined:', newPlayer.user_name);
-          get().addPlayer(newPlayer);
-        },
-        onPlayerLeft: (playerId) => {
-          console.log('📺 [Display Mode] Player left:', playerId);
-          get().removePlayer(playerId);
-        },
-        onGameStarted: (updatedGame) => {
-          console.log('📺 [Display Mode] Game started:', updatedGame);
-          set({ game: updatedGame });
-        },
-        onRoundStarted: (round, question) => {
-          console.log('📺 [Display Mode] Round started:', { roundNumber: round.round_number, questionText: question.question_text });
-          // Display mode doesn't participate, just shows the round
-          import('./roundStore').then(({ useRoundStore }) => {
-            const startTime = round.timer_starts_at ? new Date(round.timer_starts_at).getTime() : Date.now();
-            const elapsed = Math.floor((Date.now() - startTime) / 1000);
-            const initialTimeRemaining = Math.max(0, round.timer_duration - elapsed);
-
-            useRoundStore.setState({
-              currentRound: round,
-              question,
-              roundNumber: round.round_number,
-              roundStatus: round.status,
-              timeRemaining: initialTimeRemaining,
-              timerActive: true,
-              totalRounds: get().game?.round_count || 0,
-              isLoading: false,
-            });
-          });
-        },
-        onAnswerSubmitted: (playerId, _hasSubmitted) => {
-          console.log('📺 [Display Mode] Answer submitted:', playerId);
-          // Display mode just observes
-        },
-        onVotingStarted: (answers) => {
-          console.log('📺 [Display Mode] Voting started with', answers.length, 'answers');
-          import('./roundStore').then(({ useRoundStore }) => {
-            useRoundStore.setState({
-              roundStatus: 'voting',
-              allAnswers: answers,
-              timerActive: true,
-            });
-          });
-        },
-        onVoteSubmitted: (voterId, _answerId) => {
-          console.log('📺 [Display Mode] Vote submitted:', voterId);
-          // Display mode just observes
-        },
-        onRoundEnded: async (roundId: string) => {
-          console.log('📺 [Display Mode] Round ended:', roundId);
-          const currentGame = get().game;
-          if (!currentGame) return;
-
-          // Clear any existing timeout
-          const existingTimeout = get().roundEndResetTimeout;
-          if (existingTimeout) {
-            clearTimeout(existingTimeout);
-          }
-
-          // Check if this was the last round
-          if (currentGame.current_round >= currentGame.round_count) {
-            console.log('🎉 Game complete! All rounds finished.');
-            set({ roundEndResetTimeout: null });
-          } else {
-            console.log('➡️ Preparing for next round...');
-            const currentRoundNumber = currentGame.current_round;
-
-            // Wait to show scores, then clear for next round
-            const timeoutId = setTimeout(() => {
-              const freshGame = get().game;
-              if (freshGame && freshGame.current_round === currentRoundNumber) {
-                console.log('🧹 Resetting round state after round', currentRoundNumber);
-                import('./roundStore').then(({ useRoundStore }) => {
-                  useRoundStore.getState().reset();
-                });
-                set({ roundEndResetTimeout: null });
-              } else {
-                console.log('⏭️ Round already advanced, skipping reset');
-                set({ roundEndResetTimeout: null });
-              }
-            }, GAME_CONFIG.RESULTS_DISPLAY_DURATION * 1000);
-
-            set({ roundEndResetTimeout: timeoutId });
-          }
-        },
-        onConnected: () => {
-          set({ isConnected: true });
-          // Start periodic sync for display mode (no player ID)
-          const { game: g } = get();
-          if (g) {
-            SyncService.startSync(g.id, null, (result) => {
-              if (result.success && result.state) {
-                handleSyncResult(result.state, get, set);
-              }
-            });
-          }
-        },
-        onDisconnected: () => {
-          set({ isConnected: false });
-        },
-        onReconnected: async () => {
-          // Force immediate sync for display mode
-          const { game } = get();
-          if (!game) return;
-
-          console.log('📺 [Display Mode] Force syncing after reconnection...');
-          const result = await SyncService.forceSyncNow(game.id, null);
-          
-          if (result.success && result.state) {
-            await handleSyncResult(result.state, get, set);
-            console.log('✅ Display mode state sync completed');
-          } else {
-            console.error('❌ Sync failed after reconnection:', result.error);
-          }
-        },
-        onPresenceSync: (presences) => {
-          console.log('📺 [Display Mode] Presence sync:', presences.length, 'players online');
-          // In display mode, just track online players but don't update connection status
-          // since display mode doesn't participate as a player
-        },
-        onPresenceJoin: (presence) => {
-          console.log('📺 [Display Mode] Player joined (presence):', presence.nickname);
-        },
-        onPresenceLeave: (presence) => {
-          console.log('📺 [Display Mode] Player left (presence):', presence.nickname);
-        },
-      }
-      // No player info for display mode - don't pass third parameter
-      );
-
-      // Save display mode session to localStorage
-      saveGameSession({
-        gameId: game.id,
-        playerId: null, // No player in display mode
-        isHost: false,
-        isDisplayMode: true,
-      });
+      watchGameAsDisplay(game, get, set);
 
       console.log('✅ Display mode game created:', { code: game.code, gameId: game.id });
     } catch (error: any) {
       console.error('❌ Failed to create display mode game:', error);
-      set({ error: error.message, isLoading: false });
+      set({ error: toGameError(error), isLoading: false });
       throw error;
     }
   },
 
   // Join existing game
-  joinGame: async (code: string, playerName: string) => {
+  joinGame: async (code: string, playerName: string, role: PlayerRole = 'player') => {
     // Disconnect from old game if player was in one
     const oldSession = getGameSession();
     if (oldSession && oldSession.playerId) {
@@ -670,10 +768,11 @@ export const useGameStore = create<GameState>((set, get) => ({
 
     set({ isLoading: true, error: null });
     try {
-      const { game, player } = await GameService.joinGame(code, playerName);
+      const { game, player } = await GameService.joinGame(code, playerName, role);
 
-      // Get all players
+      // Get all players and audience
       const players = await GameService.getGamePlayers(game.id);
+      const audience = await GameService.getGameAudience(game.id);
 
       // Check if this player is the phase captain
       const isPhaseCaptain = game.phase_captain_id === player.id;
@@ -685,7 +784,9 @@ export const useGameStore = create<GameState>((set, get) => ({
         currentPlayer: player,
         isHost: false,
         isPhaseCaptain,
+        isAudience: player.role === 'audience',
         players,
+        audience,
         isLoading: false,
         rehydrationAttempted: true, // Fresh session - skip rehydrate guard
       });
@@ -724,16 +825,20 @@ export const useGameStore = create<GameState>((set, get) => ({
 
           get().removePlayer(playerId);
         },
+        onPlayerKicked: (playerId, banned) => handlePlayerKicked(playerId, banned, get, set),
+        onRoundControl: handleRoundControl,
+        onCaptainPromoted: (newCaptainId) => handleCaptainPromoted(newCaptainId, get, set),
+        onTimerSync: (sync) => TimerService.applyTimerSync(sync),
         onGameStarted: (updatedGame) => {
           console.log('🎮 Game started event received (joinGame):', updatedGame);
           set({ game: updatedGame });
         },
-        onRoundStarted: (round: GameRound, question: Question) => {
+        onRoundStarted: (round: GameRound, question: Question | null) => {
           console.log('🎲 Round started event received', {
             roundId: round.id,
             roundNumber: round.round_number,
-            questionId: question.id,
-            questionText: question.question_text,
+            questionId: question?.id,
+            questionText: question?.question_text,
             timerStartsAt: round.timer_starts_at
           });
 
@@ -763,8 +868,8 @@ export const useGameStore = create<GameState>((set, get) => ({
             console.log('✅ Setting round state:', {
               roundId: round.id,
               roundNumber: round.round_number,
-              questionId: question.id,
-              questionText: question.question_text.substring(0, 50) + '...',
+              questionId: question?.id,
+              questionText: question?.question_text.substring(0, 50),
               timeRemaining: initialTimeRemaining
             });
 
@@ -772,9 +877,9 @@ export const useGameStore = create<GameState>((set, get) => ({
               currentRound: round,
               question: question,
               roundNumber: round.round_number,
-              roundStatus: 'answering',
+              roundStatus: round.status, // 'choosing' until the category is picked
               timeRemaining: initialTimeRemaining,
-              timerActive: true,
+              timerActive: initialTimeRemaining > 0,
               allAnswers: [],
               playerVotes: new Map(),
               playerAnswers: new Map(),
@@ -811,12 +916,10 @@ export const useGameStore = create<GameState>((set, get) => ({
                   .eq('id', roundId)
                   .single();
 
-                // Calculate time remaining based on updated server timestamp
-                const startTime = updatedRound?.timer_starts_at
-                  ? new Date(updatedRound.timer_starts_at).getTime()
-                  : Date.now();
-                const elapsed = Math.floor((Date.now() - startTime) / 1000);
-                const votingTimeRemaining = Math.max(0, (updatedRound?.timer_duration || 20) - elapsed);
+                // Calculate time remaining based on updated server timestamp (0 when untimed)
+                const votingTimeRemaining = updatedRound
+                  ? getRoundTimeRemaining(updatedRound)
+                  : GAME_CONFIG.VOTING_TIMER;
 
                 console.log('📋 Fetched answers:', answers.length, 'Time remaining:', votingTimeRemaining);
                 useRoundStore.setState({
@@ -824,7 +927,7 @@ export const useGameStore = create<GameState>((set, get) => ({
                   roundStatus: status as any,
                   allAnswers: answers,
                   timeRemaining: votingTimeRemaining,
-                  timerActive: true,
+                  timerActive: votingTimeRemaining > 0,
                   playerVotes: new Map(),
                   myVote: null,
                   hasSubmittedVote: false
@@ -862,6 +965,14 @@ export const useGameStore = create<GameState>((set, get) => ({
             }
           });
         },
+        onAnswerLiked: (answerId: string, likerId: string, roundId: string) => {
+          import('./roundStore').then(({ useRoundStore }) => {
+            const currentRound = useRoundStore.getState().currentRound;
+            if (currentRound?.id === roundId) {
+              useRoundStore.getState().addLike(answerId, likerId);
+            }
+          });
+        },
         onRoundEnded: async (roundId: string) => {
           console.log('🏁 Round ended:', roundId);
           const currentGame = get().game;
@@ -981,12 +1092,8 @@ export const useGameStore = create<GameState>((set, get) => ({
                 answers = await RoundService.getRoundAnswers(currentRound.id);
               }
 
-              // Calculate time remaining
-              const startTime = currentRound.timer_starts_at
-                ? new Date(currentRound.timer_starts_at).getTime()
-                : Date.now();
-              const elapsed = Math.floor((Date.now() - startTime) / 1000);
-              const timeRemaining = Math.max(0, currentRound.timer_duration - elapsed);
+              // Calculate time remaining (frozen while paused)
+              const timeRemaining = getRoundTimeRemaining(currentRound);
 
               // Import and update roundStore
               const { useRoundStore } = await import('./roundStore');
@@ -996,7 +1103,7 @@ export const useGameStore = create<GameState>((set, get) => ({
                 roundNumber: currentRound.round_number,
                 roundStatus: currentRound.status,
                 timeRemaining,
-                timerActive: timeRemaining > 0,
+                timerActive: !currentRound.paused_at && timeRemaining > 0,
                 allAnswers: answers,
                 playerAnswers: new Map(),
                 myAnswer: null,
@@ -1026,7 +1133,7 @@ export const useGameStore = create<GameState>((set, get) => ({
         joinedAt: Date.now(),
       });
     } catch (error: any) {
-      set({ error: error.message, isLoading: false });
+      set({ error: toGameError(error), isLoading: false });
       throw error;
     }
   },
@@ -1072,7 +1179,8 @@ export const useGameStore = create<GameState>((set, get) => ({
 
       // Fetch player data
       const players = await GameService.getGamePlayers(game.id);
-      const currentPlayer = players.find(p => p.id === session.playerId);
+      const audience = await GameService.getGameAudience(game.id);
+      const currentPlayer = [...players, ...audience].find(p => p.id === session.playerId);
 
       if (!currentPlayer) {
         console.log('❌ Player not found in game');
@@ -1104,6 +1212,8 @@ export const useGameStore = create<GameState>((set, get) => ({
         gameCode: game.code,
         currentPlayer,
         players,
+        audience,
+        isAudience: currentPlayer.role === 'audience',
         isHost: currentPlayer.is_host,
         isPhaseCaptain,
         isLoading: false,
@@ -1133,10 +1243,14 @@ export const useGameStore = create<GameState>((set, get) => ({
           }
           get().removePlayer(playerId);
         },
+        onPlayerKicked: (playerId, banned) => handlePlayerKicked(playerId, banned, get, set),
+        onRoundControl: handleRoundControl,
+        onCaptainPromoted: (newCaptainId) => handleCaptainPromoted(newCaptainId, get, set),
+        onTimerSync: (sync) => TimerService.applyTimerSync(sync),
         onGameStarted: (updatedGame) => {
           set({ game: updatedGame });
         },
-        onRoundStarted: (round: GameRound, question: Question) => {
+        onRoundStarted: (round: GameRound, question: Question | null) => {
           import('./roundStore').then(({ useRoundStore }) => {
             const currentState = useRoundStore.getState();
             if (currentState.currentRound?.id === round.id) return;
@@ -1201,6 +1315,14 @@ export const useGameStore = create<GameState>((set, get) => ({
             }
           });
         },
+        onAnswerLiked: (answerId: string, likerId: string, roundId: string) => {
+          import('./roundStore').then(({ useRoundStore }) => {
+            const currentRound = useRoundStore.getState().currentRound;
+            if (currentRound?.id === roundId) {
+              useRoundStore.getState().addLike(answerId, likerId);
+            }
+          });
+        },
         onConnected: () => {
           set({ isConnected: true });
           // Start periodic sync for safety net
@@ -1267,12 +1389,8 @@ export const useGameStore = create<GameState>((set, get) => ({
           if (currentRound) {
             const question = currentRound.question!;
 
-            // Calculate time remaining
-            const startTime = currentRound.timer_starts_at
-              ? new Date(currentRound.timer_starts_at).getTime()
-              : Date.now();
-            const elapsed = Math.floor((Date.now() - startTime) / 1000);
-            const timeRemaining = Math.max(0, currentRound.timer_duration - elapsed);
+            // Calculate time remaining (frozen while paused)
+            const timeRemaining = getRoundTimeRemaining(currentRound);
 
             // Get answers if in voting phase
             const answers = currentRound.status === 'voting' || currentRound.status === 'completed'
@@ -1287,7 +1405,7 @@ export const useGameStore = create<GameState>((set, get) => ({
                 roundNumber: currentRound.round_number,
                 roundStatus: currentRound.status,
                 timeRemaining,
-                timerActive: timeRemaining > 0,
+                timerActive: !currentRound.paused_at && timeRemaining > 0,
                 allAnswers: answers,
                 playerAnswers: new Map(),
                 myAnswer: null,
@@ -1311,7 +1429,7 @@ export const useGameStore = create<GameState>((set, get) => ({
     } catch (error: any) {
       console.error('❌ Failed to rehydrate session:', error);
       clearGameSession();
-      set({ error: error.message, isLoading: false, rehydrationAttempted: true });
+      set({ error: toGameError(error), isLoading: false, rehydrationAttempted: true });
       return false;
     }
   },
@@ -1335,7 +1453,133 @@ export const useGameStore = create<GameState>((set, get) => ({
       }
       set({ isLoading: false });
     } catch (error: any) {
-      set({ error: error.message, isLoading: false });
+      set({ error: toGameError(error), isLoading: false });
+      throw error;
+    }
+  },
+
+  // Switch the current player's team (optimistic, realtime confirms for everyone else)
+  setTeam: async (team: TeamId) => {
+    const { currentPlayer, players } = get();
+    if (!currentPlayer || currentPlayer.team === team) return;
+
+    const previousTeam = currentPlayer.team;
+    const withTeam = (t: TeamId | null) => ({
+      currentPlayer: { ...currentPlayer, team: t },
+      players: players.map((p) => (p.id === currentPlayer.id ? { ...p, team: t } : p)),
+    });
+
+    set(withTeam(team));
+    try {
+      await GameService.setPlayerTeam(currentPlayer.id, team);
+    } catch (error: any) {
+      set({ ...withTeam(previousTeam), error: toGameError(error) });
+      throw error;
+    }
+  },
+
+  // Rebalance teams (host only)
+  shuffleTeams: async () => {
+    const { game, isHost, isDisplayMode } = get();
+    if (!game || (!isHost && !isDisplayMode)) return;
+
+    try {
+      await GameService.autoAssignTeams(game.id);
+    } catch (error: any) {
+      set({ error: toGameError(error) });
+      throw error;
+    }
+  },
+
+  // Start a rematch with the same settings and connected players (host or display only)
+  playAgain: async () => {
+    const { game, isHost, isDisplayMode } = get();
+    if (!game || (!isHost && !isDisplayMode)) return;
+
+    set({ isLoading: true, error: null });
+    try {
+      const rematch = await GameService.createRematch(game.id);
+      // Don't wait for realtime to echo the link back
+      set({ game: { ...game, rematch_game_id: rematch.id }, isLoading: false });
+    } catch (error: any) {
+      set({ error: toGameError(error), isLoading: false });
+      throw error;
+    }
+  },
+
+  // Follow the host into the rematch lobby without re-entering a code or name
+  joinRematch: async (): Promise<boolean> => {
+    const { game, currentPlayer, isDisplayMode } = get();
+    if (!game?.rematch_game_id) return false;
+
+    try {
+      const rematch = await GameService.getGame(game.rematch_game_id);
+      if (!rematch) return false;
+
+      if (isDisplayMode) {
+        get().reset();
+        watchGameAsDisplay(rematch, get, set);
+        set({
+          players: await GameService.getGamePlayers(rematch.id),
+          audience: await GameService.getGameAudience(rematch.id),
+        });
+        console.log('🔁 Display moved to rematch:', rematch.code);
+        return true;
+      }
+
+      if (!currentPlayer) return false;
+
+      // Only players still connected when the host hit Play Again were carried over
+      const rematchPlayer = await GameService.getRematchPlayer(rematch.id, currentPlayer.id);
+      if (!rematchPlayer) {
+        console.log('❌ Player was not carried over to the rematch');
+        return false;
+      }
+
+      saveGameSession({
+        gameId: rematch.id,
+        gameCode: rematch.code,
+        playerId: rematchPlayer.id,
+        playerName: rematchPlayer.user_name,
+        isHost: rematchPlayer.is_host,
+        isPhaseCaptain: rematch.phase_captain_id === rematchPlayer.id,
+        joinedAt: Date.now(),
+      });
+
+      get().reset();
+      console.log('🔁 Moving to rematch:', rematch.code);
+      return await get().rehydrateSession();
+    } catch (error: any) {
+      console.error('❌ Failed to join rematch:', error);
+      set({ error: toGameError(error) });
+      return false;
+    }
+  },
+
+  // Remove a player from the lobby, optionally banning them (host or display only)
+  kickPlayer: async (playerId: string, ban: boolean = false) => {
+    const { game, isHost, isDisplayMode } = get();
+    if (!game || (!isHost && !isDisplayMode)) return;
+
+    try {
+      await GameService.kickPlayer(playerId, ban);
+      // Realtime DELETE confirms for everyone else
+      get().removePlayer(playerId);
+    } catch (error: any) {
+      set({ error: toGameError(error) });
+      throw error;
+    }
+  },
+
+  // Force-rename a player (host or display only)
+  renamePlayer: async (playerId: string, newName: string) => {
+    const { game, isHost, isDisplayMode } = get();
+    if (!game || (!isHost && !isDisplayMode)) return;
+
+    try {
+      await GameService.renamePlayer(playerId, newName);
+    } catch (error: any) {
+      set({ error: toGameError(error) });
       throw error;
     }
   },
@@ -1382,8 +1626,15 @@ export const useGameStore = create<GameState>((set, get) => ({
     set({ players });
   },
 
-  // Add player to list
+  // Add player to list (audience members go to the audience list)
   addPlayer: (player: Player) => {
+    if (player.role === 'audience') {
+      set((state) => ({
+        audience: [...state.audience.filter((p) => p.id !== player.id), player],
+      }));
+      return;
+    }
+
     set((state) => ({
       players: [...state.players.filter((p) => p.id !== player.id), player],
     }));
@@ -1393,18 +1644,28 @@ export const useGameStore = create<GameState>((set, get) => ({
   removePlayer: (playerId: string) => {
     set((state) => ({
       players: state.players.filter((p) => p.id !== playerId),
+      audience: state.audience.filter((p) => p.id !== playerId),
     }));
   },
 
   // Update player info
   updatePlayer: (player: Player) => {
+    if (player.role === 'audience') {
+      set((state) => ({
+        audience: state.audience.map((p) => (p.id === player.id ? player : p)),
+      }));
+      return;
+    }
+
     set((state) => ({
       players: state.players.map((p) => (p.id === player.id ? player : p)),
+      // Keep our own row fresh too (e.g. team changes made by the host)
+      currentPlayer: state.currentPlayer?.id === player.id ? player : state.currentPlayer,
     }));
   },
 
   // Set error
-  setError: (error: string | null) => {
+  setError: (error: GameError | null) => {
     set({ error });
   },
 
@@ -1460,7 +1721,8 @@ export const useGameStore = create<GameState>((set, get) => ({
 
       // Broadcast the captain change for immediate UI update
       if (RealtimeService) {
-        await RealtimeService.broadcastEvent(game.id, 'captain_promoted', {
+        await RealtimeService.broadcastEvent(game.id, {
+          type: 'captain_promoted',
           new_captain_id: result.new_captain_id,
           old_captain_id: disconnectedPlayerId
         });
@@ -1494,10 +1756,12 @@ export const useGameStore = create<GameState>((set, get) => ({
       game: null,
       gameCode: null,
       players: [],
+      audience: [],
       currentPlayer: null,
       isHost: false,
       isPhaseCaptain: false,
       isDisplayMode: false,
+      isAudience: false,
       isConnected: false,
       isLoading: false,
       error: null,
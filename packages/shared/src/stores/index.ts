@@ -1,3 +1,4 @@
 export * from './gameStore';
 export * from './roundStore';
 export * from './authStore';
+export * from './localeStore';
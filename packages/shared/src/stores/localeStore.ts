@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { Locale, TextDirection } from '../types';
+import { TextKey } from '../constants/text';
+import {
+  getLocale,
+  setLocale as setActiveLocale,
+  hasLocalePreference,
+  getTextDirection,
+  translate,
+  TranslateParams,
+} from '../utils/i18n';
+
+interface LocaleState {
+  locale: Locale;
+  direction: TextDirection;
+  t: (key: TextKey, params?: TranslateParams) => string; // Replaced on every switch so components re-render
+
+  // Actions
+  setLocale: (locale: Locale, persist?: boolean) => void;
+  followGameLanguage: (language: Locale) => void;
+}
+
+const translatorFor = (locale: Locale) => (key: TextKey, params?: TranslateParams) =>
+  translate(key, params, locale);
+
+export const useLocaleStore = create<LocaleState>((set, get) => ({
+  locale: getLocale(),
+  direction: getTextDirection(getLocale()),
+  t: translatorFor(getLocale()),
+
+  setLocale: (locale: Locale, persist: boolean = true) => {
+    setActiveLocale(locale, persist);
+    set({ locale, direction: getTextDirection(locale), t: translatorFor(locale) });
+  },
+
+  // Players who never picked a language get the game's language
+  followGameLanguage: (language: Locale) => {
+    if (hasLocalePreference() || get().locale === language) return;
+    console.log(`🌐 Switching UI to the game language (${language})`);
+    get().setLocale(language, false);
+  },
+}));
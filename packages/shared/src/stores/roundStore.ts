@@ -5,8 +5,11 @@ import {
   PlayerAnswer,
   Vote,
   RoundStatus,
+  RoundControlAction,
 } from '../types';
-import { RoundService } from '../services';
+import { RoundService, TimerService } from '../services';
+import { getRoundTimeRemaining } from '../utils/roundTimer';
+import { GAME_CONFIG } from '../constants/game';
 
 interface RoundState {
   // Round data
@@ -27,6 +30,9 @@ interface RoundState {
   votes: Vote[];
   playerVotes: Map<string, Vote>;
 
+  // Likes (answer_id -> liker ids)
+  answerLikes: Map<string, string[]>;
+
   // Timer
   timeRemaining: number;
   timerActive: boolean;
@@ -39,10 +45,20 @@ interface RoundState {
   startRound: (gameId: string, roundNum: number, totalRounds: number) => Promise<void>;
   submitAnswer: (playerId: string, answer: string) => Promise<void>;
   submitVote: (playerId: string, answerId: string) => Promise<void>;
+  submitAudienceVote: (audienceId: string, answerId: string) => Promise<void>;
+  likeAnswer: (playerId: string, answerId: string) => Promise<void>;
+  pauseRound: () => Promise<void>;
+  resumeRound: () => Promise<void>;
+  extendTimer: (seconds?: number) => Promise<void>;
+  skipQuestion: () => Promise<void>;
+  advanceRound: () => Promise<void>;
+  chooseCategory: (category: string | null) => Promise<void>;
+  applyRoundControl: (action: RoundControlAction, round: GameRound, question?: Question) => void;
   setTimeRemaining: (time: number) => void;
   setTimerActive: (active: boolean) => void;
   addPlayerAnswer: (playerId: string, hasSubmitted: boolean) => void;
   addVote: (voterId: string) => void;
+  addLike: (answerId: string, likerId: string) => void;
   reset: () => void;
 }
 
@@ -63,6 +79,8 @@ export const useRoundStore = create<RoundState>((set, get) => ({
   votes: [],
   playerVotes: new Map(),
 
+  answerLikes: new Map(),
+
   timeRemaining: 30,
   timerActive: false,
 
@@ -77,8 +95,8 @@ export const useRoundStore = create<RoundState>((set, get) => ({
       console.log('🎲 Host: Round created', {
         roundId: round.id,
         roundNumber: round.round_number,
-        questionId: question.id,
-        questionText: question.question_text,
+        questionId: question?.id,
+        questionText: question?.question_text,
         timerStartsAt: round.timer_starts_at
       });
 
@@ -92,9 +110,9 @@ export const useRoundStore = create<RoundState>((set, get) => ({
         question,
         roundNumber: roundNum,
         totalRounds,
-        roundStatus: 'answering',
+        roundStatus: round.status, // 'choosing' until the category is picked
         timeRemaining: initialTimeRemaining,
-        timerActive: true,
+        timerActive: initialTimeRemaining > 0, // Untimed rounds never count down
         isLoading: false,
         playerAnswers: new Map(),
         myAnswer: null,
@@ -104,6 +122,7 @@ export const useRoundStore = create<RoundState>((set, get) => ({
         playerVotes: new Map(),
         myVote: null,
         hasSubmittedVote: false,
+        answerLikes: new Map(),
       });
     } catch (error) {
       set({ isLoading: false });
@@ -118,11 +137,13 @@ export const useRoundStore = create<RoundState>((set, get) => ({
 
     set({ isLoading: true });
     try {
-      await RoundService.submitAnswer(
+      const { useGameStore } = await import('./gameStore');
+      const submitted = await RoundService.submitAnswer(
         currentRound.id,
         playerId,
         answer,
-        question.correct_answer
+        question,
+        useGameStore.getState().game?.content_filter
       );
 
       // Immediately add to playerAnswers Map
@@ -130,7 +151,7 @@ export const useRoundStore = create<RoundState>((set, get) => ({
       addPlayerAnswer(playerId, true);
 
       set({
-        myAnswer: answer,
+        myAnswer: submitted.answer_text, // May be masked by the content filter
         hasSubmittedAnswer: true,
         isLoading: false,
       });
@@ -170,6 +191,113 @@ export const useRoundStore = create<RoundState>((set, get) => ({
     }
   },
 
+  // Submit audience vote (not tracked in playerVotes - audience isn't part of quorum)
+  submitAudienceVote: async (audienceId: string, answerId: string) => {
+    const { currentRound } = get();
+    if (!currentRound) return;
+
+    set({ isLoading: true });
+    try {
+      await RoundService.submitAudienceVote(currentRound.id, audienceId, answerId);
+
+      set({
+        myVote: answerId,
+        hasSubmittedVote: true,
+        isLoading: false,
+      });
+    } catch (error) {
+      set({ isLoading: false });
+      throw error;
+    }
+  },
+
+  // Like a fake answer (optimistic, rolled back on error)
+  likeAnswer: async (playerId: string, answerId: string) => {
+    const { currentRound, answerLikes, addLike } = get();
+    if (!currentRound || answerLikes.get(answerId)?.includes(playerId)) return;
+
+    addLike(answerId, playerId);
+    try {
+      await RoundService.likeAnswer(currentRound.id, playerId, answerId);
+    } catch (error) {
+      set((state) => {
+        const updated = new Map(state.answerLikes);
+        updated.set(answerId, (updated.get(answerId) || []).filter((id) => id !== playerId));
+        return { answerLikes: updated };
+      });
+      throw error;
+    }
+  },
+
+  // Host controls: pause, resume, extend, skip and advance (the service broadcasts to other clients)
+  pauseRound: async () => {
+    const { currentRound, applyRoundControl } = get();
+    if (!currentRound) return;
+
+    applyRoundControl('paused', await TimerService.pauseRound(currentRound.id));
+  },
+
+  resumeRound: async () => {
+    const { currentRound, applyRoundControl } = get();
+    if (!currentRound) return;
+
+    applyRoundControl('resumed', await TimerService.resumeRound(currentRound.id));
+  },
+
+  extendTimer: async (seconds: number = GAME_CONFIG.TIMER_EXTENSION) => {
+    const { currentRound, applyRoundControl } = get();
+    if (!currentRound) return;
+
+    applyRoundControl('extended', await TimerService.extendRoundTimer(currentRound.id, seconds));
+  },
+
+  skipQuestion: async () => {
+    const { currentRound, applyRoundControl } = get();
+    if (!currentRound) return;
+
+    const { round, question } = await RoundService.skipQuestion(currentRound.id);
+    applyRoundControl('skipped', round, question);
+  },
+
+  // Move on without the contestants who haven't answered or voted (realtime delivers the new phase)
+  advanceRound: async () => {
+    const { currentRound } = get();
+    if (!currentRound) return;
+
+    await RoundService.advanceRound(currentRound.id);
+  },
+
+  // Pick the round's category (null once the choosing timer ran out)
+  chooseCategory: async (category: string | null) => {
+    const { currentRound, applyRoundControl } = get();
+    if (!currentRound) return;
+
+    const { round, question } = await RoundService.chooseCategory(currentRound.id, category);
+    applyRoundControl('category_chosen', round, question);
+  },
+
+  // Apply a host round control (local or broadcast) to the current round
+  applyRoundControl: (action: RoundControlAction, round: GameRound, question?: Question) => {
+    if (get().currentRound?.id !== round.id) return;
+
+    console.log('🎛️ Applying round control:', { action, roundId: round.id });
+    const timeRemaining = getRoundTimeRemaining(round);
+
+    set({
+      currentRound: round,
+      timeRemaining,
+      timerActive: !round.paused_at && timeRemaining > 0,
+      // A skipped question or picked category starts the answering phase
+      ...(question && {
+        question,
+        roundStatus: 'answering' as RoundStatus,
+        playerAnswers: new Map(),
+        myAnswer: null,
+        hasSubmittedAnswer: false,
+      }),
+    });
+  },
+
   // Set time remaining
   setTimeRemaining: (time: number) => {
     set({ timeRemaining: Math.max(0, time) });
@@ -207,6 +335,18 @@ export const useRoundStore = create<RoundState>((set, get) => ({
     });
   },
 
+  // Track audience like
+  addLike: (answerId: string, likerId: string) => {
+    set((state) => {
+      const likers = state.answerLikes.get(answerId) || [];
+      if (likers.includes(likerId)) return state;
+
+      const updated = new Map(state.answerLikes);
+      updated.set(answerId, [...likers, likerId]);
+      return { answerLikes: updated };
+    });
+  },
+
   // Reset round
   reset: () => {
     set({
@@ -220,6 +360,7 @@ export const useRoundStore = create<RoundState>((set, get) => ({
       myVote: null,
       hasSubmittedVote: false,
       votes: [],
+      answerLikes: new Map(),
       timeRemaining: 30,
       timerActive: false,
       roundStatus: 'pending',
@@ -0,0 +1,935 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * In-memory stand-in for the Supabase backend, used by the test suite.
+ *
+ * One FakeDatabase plays the server; every createClient() call returns a
+ * client (cast to SupabaseClient) that talks to it, so several app instances
+ * can play the same game. Covers the parts of supabase-js the app uses:
+ * table queries with embeds, RPCs, auth, and realtime postgres changes,
+ * broadcast and presence. Server-side behaviour (defaults, constraints,
+ * triggers, RPCs) is registered by the caller, see gameBackend.ts.
+ */
+
+export type Row = Record<string, unknown>;
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface UniqueConstraint {
+  columns: string[];
+  where?: (row: Row) => boolean; // Partial index
+}
+
+export interface Relation {
+  table: string;
+  column?: string; // Many-to-one: this row's column holds the target id
+  foreignColumn?: string; // One-to-many: target rows point back at this row's id
+}
+
+export interface TableDefinition {
+  defaults?: (db: FakeDatabase) => Row;
+  unique?: UniqueConstraint[];
+  relations?: Record<string, Relation>;
+  // SELECT policy for client queries and their embeds; RPCs and triggers see every row
+  selectable?: (row: Row, context: DbContext) => boolean;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+// Who is running a statement: RPCs and triggers use it like auth.uid()
+export interface DbContext {
+  userId: string | null;
+  direct?: boolean; // Sent straight to a table by a client (current_user anon/authenticated), not run by an RPC
+}
+
+// The row and param types default to Row; callers name the app's own types (Game, Player...)
+export type RpcHandler<P = Row> = (params: P, context: DbContext) => unknown;
+
+// Before triggers may return a replacement row; after triggers run once the row is written
+export type Trigger<T = Row> = (row: T, old: T | null, context: DbContext) => T | void;
+
+interface PostgrestError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+interface Change {
+  table: string;
+  eventType: ChangeEvent;
+  new: Row;
+  old: Row;
+}
+
+// What channel listeners receive, shaped like the supabase-js realtime payloads
+export interface ChangePayload extends Change {
+  schema: 'public';
+  commit_timestamp: string;
+  errors: null;
+}
+
+export interface BroadcastPayload {
+  type: 'broadcast';
+  event: string;
+  payload: unknown;
+}
+
+// Empty for sync events
+export interface PresencePayload {
+  event?: 'join' | 'leave';
+  key?: string;
+  newPresences?: Row[];
+  leftPresences?: Row[];
+  currentPresences?: Row[];
+}
+
+export type RealtimePayload = ChangePayload | BroadcastPayload | PresencePayload;
+
+interface ChannelFilter {
+  event: string;
+  schema?: string;
+  table?: string;
+  filter?: string; // postgres_changes only, e.g. "game_id=eq.<uuid>"
+}
+
+/**
+ * Error raised by the fake server, returned to clients as a PostgrestError
+ */
+export class FakeDbError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = 'P0001', // RAISE EXCEPTION
+    public readonly hint: string | null = null,
+    public readonly details: string | null = null
+  ) {
+    super(message);
+  }
+}
+
+const NO_ROWS_ERROR: PostgrestError = {
+  message: 'JSON object requested, multiple (or no) rows returned',
+  code: 'PGRST116',
+  details: null,
+  hint: null,
+};
+
+const SYSTEM_CONTEXT: DbContext = { userId: null };
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// Let other clients and realtime deliveries run between requests, like a network hop
+function nextTick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function toPostgrestError(error: unknown): PostgrestError {
+  if (error instanceof FakeDbError) {
+    return { message: error.message, code: error.code, details: error.details, hint: error.hint };
+  }
+  throw error; // A bug in the fake or the test, not a server error
+}
+
+export class FakeDatabase {
+  readonly users: AuthUser[] = [];
+
+  private tables = new Map<string, Row[]>();
+  private definitions = new Map<string, TableDefinition>();
+  private triggers = new Map<string, Trigger[]>();
+  private rpcs = new Map<string, RpcHandler>();
+  private channels = new Set<FakeChannel>();
+  private presence = new Map<string, Map<FakeChannel, Row>>();
+  private pendingChanges: Change[] = [];
+  private transactionDepth = 0;
+  private clockOffset = 0;
+  private lostChanges: ((table: string, row: Row) => boolean) | null = null;
+
+  // ==========================================================================
+  // Schema
+  // ==========================================================================
+
+  defineTable(name: string, definition: TableDefinition = {}): void {
+    this.tables.set(name, []);
+    this.definitions.set(name, definition);
+  }
+
+  defineRpc<P = Row>(name: string, handler: RpcHandler<P>): void {
+    this.rpcs.set(name, handler as RpcHandler);
+  }
+
+  before<T = Row>(table: string, event: ChangeEvent, trigger: Trigger<T>): void {
+    this.addTrigger(`before:${table}:${event}`, trigger as Trigger);
+  }
+
+  after<T = Row>(table: string, event: ChangeEvent, trigger: Trigger<T>): void {
+    this.addTrigger(`after:${table}:${event}`, trigger as Trigger);
+  }
+
+  private addTrigger(key: string, trigger: Trigger): void {
+    this.triggers.set(key, [...(this.triggers.get(key) || []), trigger]);
+  }
+
+  // ==========================================================================
+  // Clock
+  // ==========================================================================
+
+  /**
+   * Server time in ms (NOW()); advanceTime() moves it without touching timers
+   */
+  now(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  timestamp(): string {
+    return new Date(this.now()).toISOString();
+  }
+
+  advanceTime(ms: number): void {
+    this.clockOffset += ms;
+  }
+
+  // ==========================================================================
+  // Data access (server side: no network hop, triggers still fire)
+  // ==========================================================================
+
+  select<T = Row>(table: string, where: (row: T) => boolean = () => true): T[] {
+    return this.typedRowsOf<T>(table).filter(where).map(clone);
+  }
+
+  find<T = Row>(table: string, where: (row: T) => boolean): T | null {
+    const row = this.typedRowsOf<T>(table).find(where);
+    return row ? clone(row) : null;
+  }
+
+  insert<T = Row>(table: string, values: Row, context: DbContext = SYSTEM_CONTEXT): T {
+    return this.transaction(() => {
+      const definition = this.definitions.get(table);
+      let row: Row = { id: randomUUID(), ...definition?.defaults?.(this), ...clone(values) };
+      row = this.runTriggers('before', table, 'INSERT', row, null, context);
+      this.checkUnique(table, row);
+
+      this.rowsOf(table).push(row);
+      this.pendingChanges.push({ table, eventType: 'INSERT', new: clone(row), old: {} });
+      this.runTriggers('after', table, 'INSERT', clone(row), null, context);
+      return clone(row) as T;
+    });
+  }
+
+  update<T = Row>(
+    table: string,
+    where: (row: T) => boolean,
+    patch: NoInfer<Partial<T>> | ((row: T) => NoInfer<Partial<T>>),
+    context: DbContext = SYSTEM_CONTEXT
+  ): T[] {
+    return this.transaction(() => {
+      const rows = this.rowsOf(table);
+      const ids = rows.filter((row) => where(row as T)).map((row) => row.id as string);
+
+      return ids.flatMap((id) => {
+        const index = rows.findIndex((row) => row.id === id);
+        if (index === -1) return []; // Deleted by a trigger along the way
+
+        const old = rows[index];
+        const changes = typeof patch === 'function' ? patch(clone(old) as T) : patch;
+        let row: Row = { ...old, ...clone(changes) };
+        row = this.runTriggers('before', table, 'UPDATE', row, clone(old), context);
+        this.checkUnique(table, row, id);
+
+        rows[index] = row;
+        this.pendingChanges.push({ table, eventType: 'UPDATE', new: clone(row), old: clone(old) });
+        this.runTriggers('after', table, 'UPDATE', clone(row), clone(old), context);
+        return [clone(row) as T];
+      });
+    });
+  }
+
+  delete<T = Row>(table: string, where: (row: T) => boolean, context: DbContext = SYSTEM_CONTEXT): T[] {
+    return this.transaction(() => {
+      const removed = this.rowsOf(table).filter((row) => where(row as T));
+
+      removed.forEach((old) => {
+        this.runTriggers('before', table, 'DELETE', clone(old), clone(old), context);
+        this.tables.set(table, this.rowsOf(table).filter((row) => row.id !== old.id));
+        this.pendingChanges.push({ table, eventType: 'DELETE', new: {}, old: clone(old) });
+        this.runTriggers('after', table, 'DELETE', clone(old), clone(old), context);
+      });
+
+      return removed.map((row) => clone(row) as T);
+    });
+  }
+
+  /**
+   * Run statements atomically: a thrown error rolls back every write and drops
+   * its realtime events, a commit publishes them
+   */
+  transaction<T>(work: () => T): T {
+    const outermost = this.transactionDepth === 0;
+    const snapshot = outermost ? clone(Array.from(this.tables.entries())) : null;
+    this.transactionDepth++;
+
+    try {
+      const result = work();
+      if (outermost) {
+        this.publish(this.pendingChanges);
+        this.pendingChanges = [];
+      }
+      return result;
+    } catch (error) {
+      if (snapshot) {
+        this.tables = new Map(snapshot);
+        this.pendingChanges = [];
+      }
+      throw error;
+    } finally {
+      this.transactionDepth--;
+    }
+  }
+
+  /**
+   * Call a registered RPC the way a client would (used by RPCs calling each other)
+   */
+  call(name: string, params: Row = {}, context: DbContext = SYSTEM_CONTEXT): unknown {
+    const handler = this.rpcs.get(name);
+    if (!handler) {
+      throw new FakeDbError(`Could not find the function public.${name} in the schema cache`, 'PGRST202');
+    }
+    return this.transaction(() => clone(handler(params, context)));
+  }
+
+  relationsOf(table: string): Record<string, Relation> {
+    return this.definitions.get(table)?.relations || {};
+  }
+
+  canSelect(table: string, row: Row, context: DbContext): boolean {
+    const policy = this.definitions.get(table)?.selectable;
+    return !policy || policy(row, context);
+  }
+
+  private typedRowsOf<T>(table: string): T[] {
+    return this.rowsOf(table) as T[];
+  }
+
+  private rowsOf(table: string): Row[] {
+    const rows = this.tables.get(table);
+    if (!rows) {
+      throw new FakeDbError(`relation "public.${table}" does not exist`, '42P01');
+    }
+    return rows;
+  }
+
+  private runTriggers(
+    timing: 'before' | 'after',
+    table: string,
+    event: ChangeEvent,
+    row: Row,
+    old: Row | null,
+    context: DbContext
+  ): Row {
+    return (this.triggers.get(`${timing}:${table}:${event}`) || []).reduce(
+      (current, trigger) => trigger(current, old, context) || current,
+      row
+    );
+  }
+
+  private checkUnique(table: string, row: Row, ownId?: string): void {
+    const constraints = this.definitions.get(table)?.unique || [];
+
+    constraints.forEach(({ columns, where }) => {
+      if (where && !where(row)) return;
+      if (columns.some((column) => row[column] === null || row[column] === undefined)) return;
+
+      const conflict = this.rowsOf(table).some(
+        (other) =>
+          other.id !== ownId &&
+          (!where || where(other)) &&
+          columns.every((column) => other[column] === row[column])
+      );
+
+      if (conflict) {
+        throw new FakeDbError(
+          `duplicate key value violates unique constraint "${table}_${columns.join('_')}_key"`,
+          '23505'
+        );
+      }
+    });
+  }
+
+  // ==========================================================================
+  // Clients
+  // ==========================================================================
+
+  /**
+   * Register a host account (sign in with createClient({ user }))
+   */
+  createUser(email: string = `host-${this.users.length + 1}@example.com`): AuthUser {
+    const user = { id: randomUUID(), email };
+    this.users.push(user);
+    return user;
+  }
+
+  /**
+   * A supabase-js compatible client; pass a user for a signed-in host
+   */
+  createClient(options: { user?: AuthUser | null } = {}): SupabaseClient {
+    return new FakeClient(this, options.user ?? null) as unknown as SupabaseClient;
+  }
+
+  // ==========================================================================
+  // Realtime
+  // ==========================================================================
+
+  /**
+   * Simulate missed realtime messages: matching changes are never delivered (null delivers all again)
+   */
+  dropRealtimeChanges(filter: ((table: string, row: Row) => boolean) | null): void {
+    this.lostChanges = filter;
+  }
+
+  joinChannel(channel: FakeChannel): void {
+    this.channels.add(channel);
+  }
+
+  leaveChannel(channel: FakeChannel): void {
+    this.untrack(channel);
+    this.channels.delete(channel);
+  }
+
+  broadcast(sender: FakeChannel, event: string, payload: unknown): void {
+    const receivers = this.channelsOn(sender.topic).filter((channel) => channel !== sender);
+    setTimeout(() => {
+      receivers.forEach((channel) => channel.emit('broadcast', { event }, { type: 'broadcast', event, payload: clone(payload) }));
+    }, 0);
+  }
+
+  track(channel: FakeChannel, payload: Row): void {
+    const tracked = this.presence.get(channel.topic) || new Map<FakeChannel, Row>();
+    this.presence.set(channel.topic, tracked);
+
+    const meta = { ...clone(payload), presence_ref: randomUUID() };
+    tracked.set(channel, meta);
+    this.announcePresence(channel.topic, 'join', channel.presenceKey, meta);
+  }
+
+  untrack(channel: FakeChannel): void {
+    const tracked = this.presence.get(channel.topic);
+    const meta = tracked?.get(channel);
+    if (!tracked || !meta) return;
+
+    tracked.delete(channel);
+    this.announcePresence(channel.topic, 'leave', channel.presenceKey, meta);
+  }
+
+  /**
+   * Presence of a topic keyed like supabase-js presenceState()
+   */
+  presenceState(topic: string): Record<string, Row[]> {
+    const state: Record<string, Row[]> = {};
+    this.presence.get(topic)?.forEach((meta, channel) => {
+      state[channel.presenceKey] = [...(state[channel.presenceKey] || []), clone(meta)];
+    });
+    return state;
+  }
+
+  private channelsOn(topic: string): FakeChannel[] {
+    return Array.from(this.channels).filter((channel) => channel.topic === topic);
+  }
+
+  private announcePresence(topic: string, event: 'join' | 'leave', key: string, meta: Row): void {
+    const receivers = this.channelsOn(topic);
+    const payload: PresencePayload =
+      event === 'join'
+        ? { event, key, newPresences: [clone(meta)], currentPresences: [] }
+        : { event, key, leftPresences: [clone(meta)], currentPresences: [] };
+
+    setTimeout(() => {
+      receivers.forEach((channel) => {
+        channel.emit('presence', { event }, payload);
+        channel.emit('presence', { event: 'sync' }, {});
+      });
+    }, 0);
+  }
+
+  private publish(changes: Change[]): void {
+    const lost = this.lostChanges;
+    if (lost) {
+      changes = changes.filter((change) => !lost(change.table, change.eventType === 'DELETE' ? change.old : change.new));
+    }
+    if (changes.length === 0) return;
+
+    const receivers = Array.from(this.channels);
+    setTimeout(() => {
+      changes.forEach((change) => {
+        const payload: ChangePayload = {
+          schema: 'public',
+          table: change.table,
+          commit_timestamp: this.timestamp(),
+          eventType: change.eventType,
+          new: change.new,
+          old: change.old,
+          errors: null,
+        };
+        receivers.forEach((channel) => channel.emitChange(change, payload));
+      });
+    }, 0);
+  }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+class FakeClient {
+  readonly auth: FakeAuth;
+  private channels: FakeChannel[] = [];
+
+  constructor(
+    private db: FakeDatabase,
+    user: AuthUser | null
+  ) {
+    this.auth = new FakeAuth(db, user);
+  }
+
+  from(table: string): FakeQueryBuilder {
+    return new FakeQueryBuilder(this.db, table, { ...this.auth.context(), direct: true });
+  }
+
+  async rpc(name: string, params: Row = {}) {
+    await nextTick();
+    try {
+      const data = this.db.call(name, params, this.auth.context());
+      return { data: data ?? null, error: null, count: null, status: 200, statusText: 'OK' };
+    } catch (error) {
+      const postgrestError = toPostgrestError(error);
+      const status = postgrestError.code === 'PGRST202' ? 404 : 400;
+      return { data: null, error: postgrestError, count: null, status, statusText: 'Error' };
+    }
+  }
+
+  channel(name: string, options: { config?: { presence?: { key?: string } } } = {}): FakeChannel {
+    const channel = new FakeChannel(this.db, name, options.config?.presence?.key ?? '');
+    this.channels.push(channel);
+    return channel;
+  }
+
+  getChannels(): FakeChannel[] {
+    return [...this.channels];
+  }
+
+  async removeChannel(channel: FakeChannel): Promise<'ok'> {
+    this.channels = this.channels.filter((c) => c !== channel);
+    return channel.unsubscribe();
+  }
+
+  async removeAllChannels(): Promise<'ok'[]> {
+    return Promise.all(this.getChannels().map((channel) => this.removeChannel(channel)));
+  }
+}
+
+class FakeAuth {
+  private listeners = new Set<(event: string, session: Row | null) => void>();
+
+  constructor(
+    private db: FakeDatabase,
+    private user: AuthUser | null
+  ) {}
+
+  context(): DbContext {
+    return { userId: this.user?.id ?? null };
+  }
+
+  async getUser() {
+    await nextTick();
+    if (!this.user) {
+      return { data: { user: null }, error: { name: 'AuthSessionMissingError', message: 'Auth session missing!', status: 400 } };
+    }
+    return { data: { user: clone(this.user) }, error: null };
+  }
+
+  async getSession() {
+    await nextTick();
+    return { data: { session: this.session() }, error: null };
+  }
+
+  onAuthStateChange(callback: (event: string, session: Row | null) => void) {
+    this.listeners.add(callback);
+    return { data: { subscription: { unsubscribe: () => this.listeners.delete(callback) } } };
+  }
+
+  async signUp({ email }: { email: string; password: string }) {
+    await nextTick();
+    if (this.db.users.some((user) => user.email === email)) {
+      return { data: { user: null, session: null }, error: { name: 'AuthApiError', message: 'User already registered', status: 422 } };
+    }
+    return this.signInAs(this.db.createUser(email), 'SIGNED_IN');
+  }
+
+  async signInWithPassword({ email }: { email: string; password: string }) {
+    await nextTick();
+    const user = this.db.users.find((u) => u.email === email);
+    if (!user) {
+      return { data: { user: null, session: null }, error: { name: 'AuthApiError', message: 'Invalid login credentials', status: 400 } };
+    }
+    return this.signInAs(user, 'SIGNED_IN');
+  }
+
+  async signOut() {
+    await nextTick();
+    this.user = null;
+    this.listeners.forEach((listener) => listener('SIGNED_OUT', null));
+    return { error: null };
+  }
+
+  private signInAs(user: AuthUser, event: string) {
+    this.user = user;
+    const session = this.session();
+    this.listeners.forEach((listener) => listener(event, session));
+    return { data: { user: clone(user), session }, error: null };
+  }
+
+  private session(): Row | null {
+    return this.user ? { access_token: `fake-token-${this.user.id}`, user: clone(this.user) } : null;
+  }
+}
+
+// ============================================================================
+// Query builder
+// ============================================================================
+
+type SelectItem =
+  | { kind: 'all' }
+  | { kind: 'column'; name: string }
+  | { kind: 'embed'; alias: string; table: string; items: SelectItem[] };
+
+// Split "a, b:c(d, e)" on top-level commas
+function splitColumns(columns: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of columns) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function parseSelect(columns: string): SelectItem[] {
+  return splitColumns(columns).map((part): SelectItem => {
+    if (part === '*') return { kind: 'all' };
+
+    const embed = part.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\((.*)\)$/s);
+    if (embed) {
+      const [, alias, table, inner] = embed;
+      return { kind: 'embed', alias: alias || table, table, items: parseSelect(inner) };
+    }
+    return { kind: 'column', name: part };
+  });
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b));
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'delete';
+
+class FakeQueryBuilder implements PromiseLike<Row> {
+  private operation: Operation = 'select';
+  private columns = '*';
+  private returning = false;
+  private countRows = false;
+  private head = false;
+  private values: Row | Row[] = {};
+  private filters: ((row: Row) => boolean)[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private limitCount: number | null = null;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(
+    private db: FakeDatabase,
+    private table: string,
+    private context: DbContext
+  ) {}
+
+  select(columns: string = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}): this {
+    this.columns = columns;
+    if (this.operation === 'select') {
+      this.countRows = !!options.count;
+      this.head = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where((row) => sameValue(row[column], value));
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where((row) => !sameValue(row[column], value));
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where((row) => values.some((value) => sameValue(row[column], value)));
+  }
+
+  gt(column: string, value: number): this {
+    return this.where((row) => (row[column] as number) > value);
+  }
+
+  lte(column: string, value: number): this {
+    return this.where((row) => (row[column] as number) <= value);
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.where((row) => (row[column] ?? null) === value);
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = Row, TResult2 = never>(
+    onFulfilled?: ((value: Row) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.execute().then(onFulfilled, onRejected);
+  }
+
+  private where(filter: (row: Row) => boolean): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private matches = (row: Row): boolean => this.filters.every((filter) => filter(row));
+
+  private async execute(): Promise<Row> {
+    await nextTick();
+
+    let rows: Row[];
+    let data: Row[] | null;
+    try {
+      rows = this.db.transaction(() => this.run());
+      const showRows = !this.head && (this.operation === 'select' || this.returning);
+      data = showRows ? rows.map((row) => this.project(this.table, row, parseSelect(this.columns))) : null;
+    } catch (error) {
+      return { data: null, error: toPostgrestError(error), count: null, status: 400, statusText: 'Bad Request' };
+    }
+
+    const count = this.countRows ? rows.length : null;
+    if (this.head) {
+      return { data: null, error: null, count, status: 200, statusText: 'OK' };
+    }
+
+    if (data && this.cardinality !== 'many') {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return { data: null, error: { ...NO_ROWS_ERROR, details: `The result contains ${data.length} rows` }, count, status: 406, statusText: 'Not Acceptable' };
+      }
+      return { data: data[0] ?? null, error: null, count, status: 200, statusText: 'OK' };
+    }
+
+    return { data, error: null, count, status: 200, statusText: 'OK' };
+  }
+
+  private run(): Row[] {
+    switch (this.operation) {
+      case 'insert':
+        return (Array.isArray(this.values) ? this.values : [this.values]).map((values) =>
+          this.db.insert(this.table, values, this.context)
+        );
+      case 'update':
+        return this.db.update(this.table, this.matches, this.values as Row, this.context);
+      case 'delete':
+        return this.db.delete(this.table, this.matches, this.context);
+      default:
+        return this.sorted(
+          this.db.select(this.table, (row) => this.matches(row) && this.db.canSelect(this.table, row, this.context))
+        );
+    }
+  }
+
+  private sorted(rows: Row[]): Row[] {
+    const sorted = [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const [x, y] = [a[column], b[column]] as (string | number | null)[];
+        if (x === y) continue;
+        const before = x === null || (y !== null && x < y);
+        return before === ascending ? -1 : 1;
+      }
+      return 0;
+    });
+    return this.limitCount === null ? sorted : sorted.slice(0, this.limitCount);
+  }
+
+  private project(table: string, row: Row, items: SelectItem[]): Row {
+    const relations = this.db.relationsOf(table);
+
+    return items.reduce<Row>((result, item) => {
+      if (item.kind === 'all') return { ...result, ...clone(row) };
+      if (item.kind === 'column') return { ...result, [item.name]: clone(row[item.name] ?? null) };
+
+      const relation = relations[item.table];
+      if (!relation) {
+        throw new FakeDbError(`Could not find a relationship between '${table}' and '${item.table}'`, 'PGRST200');
+      }
+
+      const visible = (other: Row) => this.db.canSelect(relation.table, other, this.context);
+
+      if (relation.column) {
+        const target = this.db.find(relation.table, (other) => other.id === row[relation.column!] && visible(other));
+        return { ...result, [item.alias]: target ? this.project(relation.table, target, item.items) : null };
+      }
+
+      const targets = this.db.select(relation.table, (other) => other[relation.foreignColumn!] === row.id && visible(other));
+      const isCount = item.items.length === 1 && item.items[0].kind === 'column' && item.items[0].name === 'count';
+      return {
+        ...result,
+        [item.alias]: isCount
+          ? [{ count: targets.length }]
+          : targets.map((target) => this.project(relation.table, target, item.items)),
+      };
+    }, {});
+  }
+}
+
+// ============================================================================
+// Realtime channel
+// ============================================================================
+
+interface Binding {
+  type: string;
+  filter: ChannelFilter;
+  callback: (payload: RealtimePayload) => void;
+}
+
+class FakeChannel {
+  private bindings: Binding[] = [];
+  private joined = false;
+
+  constructor(
+    private db: FakeDatabase,
+    readonly topic: string,
+    readonly presenceKey: string
+  ) {}
+
+  on(type: string, filter: ChannelFilter, callback: (payload: RealtimePayload) => void): this {
+    this.bindings.push({ type, filter, callback });
+    return this;
+  }
+
+  subscribe(callback?: (status: string, error?: Error) => void): this {
+    this.joined = true;
+    this.db.joinChannel(this);
+    setTimeout(() => {
+      if (!this.joined) return;
+      callback?.('SUBSCRIBED');
+      this.emit('presence', { event: 'sync' }, {});
+    }, 0);
+    return this;
+  }
+
+  async track(payload: Row): Promise<'ok'> {
+    await nextTick();
+    if (this.joined) this.db.track(this, payload);
+    return 'ok';
+  }
+
+  async untrack(): Promise<'ok'> {
+    this.db.untrack(this);
+    return 'ok';
+  }
+
+  async send(message: { type: string; event: string; payload?: unknown }): Promise<'ok'> {
+    if (this.joined && message.type === 'broadcast') {
+      this.db.broadcast(this, message.event, message.payload);
+    }
+    return 'ok';
+  }
+
+  presenceState(): Record<string, Row[]> {
+    return this.db.presenceState(this.topic);
+  }
+
+  // Leaving does not report CLOSED: RealtimeService treats that as a dropped connection
+  async unsubscribe(): Promise<'ok'> {
+    this.joined = false;
+    this.db.leaveChannel(this);
+    return 'ok';
+  }
+
+  emit(type: 'broadcast' | 'presence', filter: { event: string }, payload: BroadcastPayload | PresencePayload): void {
+    if (!this.joined) return;
+    this.bindings
+      .filter((binding) => binding.type === type && (binding.filter.event === filter.event || binding.filter.event === '*'))
+      .forEach((binding) => binding.callback(payload));
+  }
+
+  emitChange(change: Change, payload: ChangePayload): void {
+    if (!this.joined) return;
+    this.bindings
+      .filter(
+        ({ type, filter }) =>
+          type === 'postgres_changes' &&
+          (filter.event === '*' || filter.event === change.eventType) &&
+          (!filter.table || filter.table === change.table) &&
+          matchesChangeFilter(filter.filter, change.eventType === 'DELETE' ? change.old : change.new)
+      )
+      .forEach((binding) => binding.callback(payload));
+  }
+}
+
+// Realtime filters look like "game_id=eq.<uuid>"
+function matchesChangeFilter(filter: string | undefined, row: Row): boolean {
+  if (!filter) return true;
+
+  const match = filter.match(/^(\w+)=eq\.(.*)$/);
+  if (!match) {
+    throw new Error(`Unsupported realtime filter: ${filter}`);
+  }
+  return sameValue(row[match[1]], match[2]);
+}
@@ -0,0 +1,752 @@
+import { randomUUID } from 'crypto';
+import {
+  AnswerLike,
+  AudienceVote,
+  Game,
+  GameRound,
+  Player,
+  PlayerAnswer,
+  Question,
+  QuestionDifficulty,
+  QuestionPack,
+  ScoreLedgerEntry,
+  Vote,
+} from '../types';
+import { calculateRoundScores, aggregateScores } from '../utils/scoring';
+import { DEFAULT_SCORING_RULES, GAME_CONFIG } from '../constants/game';
+import { DbContext, FakeDatabase, FakeDbError, Row } from './fakeSupabase';
+
+/**
+ * The game's schema and server-side logic on top of FakeDatabase: column
+ * defaults, unique constraints, the phase-transition triggers and the gameplay
+ * RPCs. Each piece follows the latest migration that defines it (named in the
+ * comments) so the client is tested against the same contracts as production.
+ * Left out: RLS beyond bans, seen-question history, payments and host profiles.
+ */
+
+// Grace for clients counting down ahead of the server (force_advance_round, choose_category)
+const TIMER_GRACE_MS = 2000;
+
+// Params of the round RPCs that only take the round
+interface RoundParams {
+  p_round_id: string;
+}
+
+/**
+ * A fresh in-memory backend with the game schema, triggers and RPCs installed
+ */
+export function createGameBackend(): FakeDatabase {
+  const db = new FakeDatabase();
+  defineSchema(db);
+  defineTriggers(db);
+  defineRpcs(db);
+  return db;
+}
+
+/**
+ * Add questions to the global pool (or a pack); returns the stored rows
+ */
+export function seedQuestions(db: FakeDatabase, count: number, overrides: Row = {}): Question[] {
+  return Array.from({ length: count }, (_, i) =>
+    db.insert<Question>('questions', {
+      question_text: `Question ${i + 1}?`,
+      correct_answer: `Truth ${i + 1}`,
+      ...overrides,
+    })
+  );
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+function defineSchema(db: FakeDatabase): void {
+  const createdAt = () => ({ created_at: db.timestamp() });
+
+  db.defineTable('games', {
+    defaults: () => ({
+      code: null,
+      host_id: null,
+      auth_host_id: null,
+      phase_captain_id: null,
+      status: 'waiting',
+      round_count: 4,
+      current_round: 0,
+      max_players: GAME_CONFIG.DEFAULT_MAX_PLAYERS,
+      question_pack_ids: [],
+      scoring_rules: DEFAULT_SCORING_RULES,
+      multiplier_rounds: [],
+      team_count: 0,
+      content_filter: GAME_CONFIG.DEFAULT_CONTENT_FILTER,
+      answer_timer: GAME_CONFIG.ANSWER_TIMER,
+      voting_timer: GAME_CONFIG.VOTING_TIMER,
+      question_categories: [],
+      question_difficulties: [],
+      difficulty_ramp: false,
+      category_picking: false,
+      language: 'ar',
+      rematch_game_id: null,
+      updated_at: db.timestamp(),
+      ...createdAt(),
+    }),
+    unique: [{ columns: ['code'] }],
+  });
+
+  db.defineTable('players', {
+    defaults: () => ({
+      avatar_color: '#FF6B6B',
+      score: 0,
+      is_host: false,
+      connection_status: 'connected',
+      role: 'player',
+      team: null,
+      previous_player_id: null,
+      device_id: null,
+      joined_at: db.timestamp(),
+    }),
+    unique: [{ columns: ['game_id', 'user_name'] }],
+  });
+
+  db.defineTable('question_packs', {
+    defaults: () => ({ language: 'ar', category: null, updated_at: db.timestamp(), ...createdAt() }),
+    relations: { questions: { table: 'questions', foreignColumn: 'pack_id' } },
+  });
+
+  db.defineTable('questions', {
+    defaults: () => ({
+      accepted_answers: [],
+      category: null,
+      difficulty: 'medium',
+      language: 'ar',
+      pack_id: null,
+      ...createdAt(),
+    }),
+    // Select policy (create_question_packs.sql): pack questions stay private to
+    // their owner until a round serves them
+    selectable: (row, context) =>
+      row.pack_id === null ||
+      db.find<QuestionPack>('question_packs', (p) => p.id === row.pack_id)?.owner_id === context.userId ||
+      !!db.find<GameRound>('game_rounds', (r) => r.question_id === row.id),
+  });
+
+  db.defineTable('game_rounds', {
+    defaults: () => ({
+      question_id: null,
+      status: 'answering',
+      required_players: 2,
+      timer_starts_at: db.timestamp(),
+      timer_duration: GAME_CONFIG.ANSWER_TIMER,
+      paused_at: null,
+      skipped_question_ids: [],
+      category: null,
+      category_options: [],
+      chooser_id: null,
+      multiplier: 1,
+      ...createdAt(),
+    }),
+    unique: [{ columns: ['game_id', 'round_number'] }],
+    relations: { questions: { table: 'questions', column: 'question_id' } },
+  });
+
+  db.defineTable('player_answers', {
+    defaults: () => ({ player_id: null, is_correct: false, submitted_at: db.timestamp() }),
+    // player_answers_round_player_unique: system answers have no player
+    unique: [{ columns: ['round_id', 'player_id'], where: (row) => row.player_id !== null }],
+    relations: { players: { table: 'players', column: 'player_id' } },
+  });
+
+  db.defineTable('votes', {
+    defaults: () => ({ points_earned: 0, ...createdAt() }),
+    unique: [{ columns: ['round_id', 'voter_id'] }],
+  });
+
+  db.defineTable('answer_likes', {
+    defaults: createdAt,
+    unique: [{ columns: ['answer_id', 'liker_id'] }],
+  });
+
+  db.defineTable('audience_votes', {
+    defaults: createdAt,
+    unique: [{ columns: ['round_id', 'audience_id'] }],
+  });
+
+  db.defineTable('score_ledger', {
+    defaults: createdAt,
+    unique: [{ columns: ['round_id', 'player_id', 'reason'] }],
+  });
+
+  db.defineTable('game_events', {
+    defaults: createdAt,
+    unique: [{ columns: ['game_id', 'seq'] }],
+  });
+
+  db.defineTable('player_kicks', { defaults: () => ({ banned: false, ...createdAt() }) });
+  db.defineTable('game_bans', { defaults: () => ({ device_id: null, ...createdAt() }) });
+}
+
+// ============================================================================
+// Triggers
+// ============================================================================
+
+function defineTriggers(db: FakeDatabase): void {
+  // update_games_updated_at (initial_schema.sql)
+  db.before<Game>('games', 'UPDATE', (row) => ({ ...row, updated_at: db.timestamp() }));
+
+  // check_game_question_packs (create_question_packs.sql): games only use their host's packs
+  const checkQuestionPacks = (row: Game) => {
+    const foreign = (row.question_pack_ids ?? []).some(
+      (packId) => db.find<QuestionPack>('question_packs', (p) => p.id === packId)?.owner_id !== row.auth_host_id
+    );
+    if (foreign) {
+      throw new FakeDbError("A game can only use its host's question packs", '42501');
+    }
+  };
+  db.before<Game>('games', 'INSERT', checkQuestionPacks);
+  db.before<Game>('games', 'UPDATE', checkQuestionPacks);
+
+  // Join policy (add_lobby_moderation.sql): banned names and devices can't insert
+  db.before<Player>('players', 'INSERT', (row) => {
+    const banned = db.find(
+      'game_bans',
+      (ban) =>
+        ban.game_id === row.game_id &&
+        (ban.user_name === row.user_name || (!!row.device_id && ban.device_id === row.device_id))
+    );
+    if (banned) {
+      throw new FakeDbError('new row violates row-level security policy for table "players"', '42501');
+    }
+  });
+
+  // protect_player_identity (add_lobby_moderation.sql): only RPCs rename or move players
+  db.before<Player>('players', 'UPDATE', (row, old, context) => {
+    const changed = (['user_name', 'game_id', 'role', 'device_id'] as const).some((column) => row[column] !== old?.[column]);
+    if (context.direct && changed) {
+      throw new FakeDbError('Player name, game, role and device can only be changed by the host', '42501');
+    }
+  });
+
+  // reject_while_paused (add_round_host_controls.sql): no answers or votes while paused
+  const rejectWhilePaused = (row: PlayerAnswer | Vote) => {
+    if (db.find<GameRound>('game_rounds', (r) => r.id === row.round_id)?.paused_at) {
+      throw new FakeDbError('Round is paused', '23514', 'ROUND_PAUSED');
+    }
+  };
+  db.before<PlayerAnswer>('player_answers', 'INSERT', (row) => {
+    if (row.player_id) rejectWhilePaused(row);
+  });
+  db.before<Vote>('votes', 'INSERT', rejectWhilePaused);
+
+  // update_timer_on_voting (add_game_timers.sql): voting gets the game's voting timer
+  db.before<GameRound>('game_rounds', 'UPDATE', (row, old) => {
+    if (row.status !== 'voting' || old?.status === 'voting') return;
+
+    const game = db.find<Game>('games', (g) => g.id === row.game_id);
+    return {
+      ...row,
+      timer_starts_at: db.timestamp(),
+      paused_at: null,
+      timer_duration: game?.voting_timer ?? GAME_CONFIG.VOTING_TIMER,
+    };
+  });
+
+  // check_round_after_answer (fix_trigger_recursion.sql): player answers only
+  db.after<PlayerAnswer>('player_answers', 'INSERT', (row) => {
+    if (!row.is_correct) advanceRoundIfReady(db, row.round_id);
+  });
+
+  // check_round_after_vote (add_server_side_phase_transitions.sql)
+  db.after<Vote>('votes', 'INSERT', (row) => {
+    advanceRoundIfReady(db, row.round_id);
+  });
+
+  // log_game_event (add_game_events.sql), registered last like the migration's
+  // trigger names sort after check_round_after_*
+  const roundGameId = (roundId: string) => db.find<GameRound>('game_rounds', (r) => r.id === roundId)?.game_id;
+  const withQuestion = (round: GameRound) => ({
+    ...round,
+    question: db.find<Question>('questions', (q) => q.id === round.question_id),
+  });
+
+  db.after<Game>('games', 'INSERT', (row) => appendGameEvent(db, row.id, 'game_updated', row));
+  db.after<Game>('games', 'UPDATE', (row, old) => {
+    if (changedBesides(row, old, 'updated_at')) appendGameEvent(db, row.id, 'game_updated', row);
+  });
+  db.after<Player>('players', 'INSERT', (row) => appendGameEvent(db, row.game_id, 'player_joined', row));
+  db.after<Player>('players', 'UPDATE', (row, old) => {
+    if (changedBesides(row, old, 'last_heartbeat')) appendGameEvent(db, row.game_id, 'player_updated', row);
+  });
+  db.after<Player>('players', 'DELETE', (row) => appendGameEvent(db, row.game_id, 'player_left', { id: row.id }));
+  db.after<GameRound>('game_rounds', 'INSERT', (row) => appendGameEvent(db, row.game_id, 'round_started', withQuestion(row)));
+  db.after<GameRound>('game_rounds', 'UPDATE', (row) => appendGameEvent(db, row.game_id, 'round_updated', withQuestion(row)));
+  db.after<PlayerAnswer>('player_answers', 'INSERT', (row) =>
+    appendGameEvent(db, roundGameId(row.round_id), 'answer_submitted', row)
+  );
+  db.after<PlayerAnswer>('player_answers', 'DELETE', (row) =>
+    appendGameEvent(db, roundGameId(row.round_id), 'answer_removed', { id: row.id })
+  );
+  db.after<Vote>('votes', 'INSERT', (row) => appendGameEvent(db, roundGameId(row.round_id), 'vote_submitted', row));
+}
+
+/**
+ * append_game_event (add_game_events.sql): the next seq of the game's log. The
+ * migration allocates it from game_event_seqs; statements here never interleave.
+ */
+function appendGameEvent(db: FakeDatabase, gameId: string | undefined, type: string, payload: object): void {
+  if (!gameId || !db.find<Game>('games', (g) => g.id === gameId)) return;
+
+  const seq = db.select('game_events', (e) => e.game_id === gameId).length + 1;
+  db.insert('game_events', { game_id: gameId, seq, type, payload });
+}
+
+function changedBesides(row: object, old: object | null, ignored: string): boolean {
+  const withoutIgnored = (values: object | null) => JSON.stringify({ ...values, [ignored]: undefined });
+  return withoutIgnored(row) !== withoutIgnored(old);
+}
+
+/**
+ * advance_round_if_ready (add_game_timers.sql): answering -> voting once the
+ * round's quorum of contestants answered, voting -> completed once they voted
+ */
+function advanceRoundIfReady(db: FakeDatabase, roundId: string): void {
+  const round = db.find<GameRound>('game_rounds', (r) => r.id === roundId);
+  if (!round || round.status === 'completed') return;
+
+  const game = db.find<Game>('games', (g) => g.id === round.game_id);
+  if (!game || round.required_players < 2) return;
+
+  const contestantIds = new Set<string | null>(
+    db.select<Player>('players', (p) => p.game_id === game.id && p.role === 'player').map((p) => p.id)
+  );
+
+  if (round.status === 'answering') {
+    const answerCount = db.select<PlayerAnswer>(
+      'player_answers',
+      (a) => a.round_id === roundId && !a.is_correct && contestantIds.has(a.player_id)
+    ).length;
+
+    if (answerCount >= round.required_players) {
+      // The migration's ON CONFLICT DO NOTHING has no index to conflict on:
+      // the round lock and status check are what keep this to one insert
+      insertCorrectAnswer(db, round);
+      db.update<GameRound>('game_rounds', (r) => r.id === roundId, { status: 'voting', timer_duration: game.voting_timer });
+    }
+    return;
+  }
+
+  if (round.status === 'voting') {
+    const voterIds = new Set(
+      db.select<Vote>('votes', (v) => v.round_id === roundId && contestantIds.has(v.voter_id)).map((v) => v.voter_id)
+    );
+
+    if (voterIds.size >= round.required_players) {
+      completeRound(db, roundId, game);
+    }
+  }
+}
+
+/**
+ * voting -> completed: score the round, then move the game to the next round or finish it
+ */
+function completeRound(db: FakeDatabase, roundId: string, game: Game): GameRound {
+  const [round] = db.update<GameRound>('game_rounds', (r) => r.id === roundId, { status: 'completed', paused_at: null });
+  calculateAndUpdateScores(db, roundId, game.id);
+
+  const nextRound = game.current_round + 1;
+  db.update(
+    'games',
+    (g) => g.id === game.id,
+    nextRound > game.round_count ? { status: 'finished' } : { current_round: nextRound }
+  );
+  return round;
+}
+
+function insertCorrectAnswer(db: FakeDatabase, round: GameRound): void {
+  const question = db.find<Question>('questions', (q) => q.id === round.question_id);
+  if (!question) return;
+
+  db.insert('player_answers', {
+    round_id: round.id,
+    player_id: null, // System answer (no player)
+    answer_text: question.correct_answer,
+    is_correct: true,
+  });
+}
+
+/**
+ * calculate_and_update_scores (add_score_ledger.sql), using the client's scoring
+ * rules which the parity tests check against hand-traced ledgers. Scores a round once.
+ * Not an RPC: clients can't execute it, only advance_round_if_ready calls it.
+ */
+function calculateAndUpdateScores(db: FakeDatabase, roundId: string, gameId: string): ScoreLedgerEntry[] {
+  const scoredRound = (): ScoreLedgerEntry[] => db.select<ScoreLedgerEntry>('score_ledger', (s) => s.round_id === roundId);
+  if (scoredRound().length > 0) return scoredRound();
+
+  const round = db.find<GameRound>('game_rounds', (r) => r.id === roundId)!;
+  if (round.status !== 'completed') throw new FakeDbError('Only completed rounds can be scored');
+
+  const game = db.find<Game>('games', (g) => g.id === gameId)!;
+  const players = db.select<Player>('players', (p) => p.game_id === gameId);
+
+  const results = calculateRoundScores(
+    db.select<PlayerAnswer>('player_answers', (a) => a.round_id === roundId),
+    db.select<Vote>('votes', (v) => v.round_id === roundId),
+    {
+      question: db.find<Question>('questions', (q) => q.id === round.question_id) ?? undefined,
+      rules: game.scoring_rules ?? DEFAULT_SCORING_RULES,
+      multiplier: round.multiplier ?? 1,
+      likes: db.select<AnswerLike>('answer_likes', (l) => l.round_id === roundId),
+      audienceVotes: db.select<AudienceVote>('audience_votes', (v) => v.round_id === roundId),
+      playerTeams: new Map(players.map((p) => [p.id, p.team])),
+    }
+  );
+  results.forEach((result) => db.insert('score_ledger', { game_id: gameId, round_id: roundId, ...result }));
+
+  const totals = aggregateScores(results);
+  totals.forEach((points, playerId) => {
+    db.update<Player>('players', (p) => p.id === playerId, (p) => ({ score: p.score + points }));
+  });
+  db.update<Vote>('votes', (v) => v.round_id === roundId, (v) => ({ points_earned: totals.get(v.voter_id) ?? 0 }));
+
+  return scoredRound();
+}
+
+// ============================================================================
+// RPCs
+// ============================================================================
+
+function defineRpcs(db: FakeDatabase): void {
+  const findRound = (roundId: string): GameRound => {
+    const round = db.find<GameRound>('game_rounds', (r) => r.id === roundId);
+    if (!round) throw new FakeDbError('Round not found');
+    return round;
+  };
+
+  // user_owns_game
+  const ownsGame = (gameId: string, context: DbContext): boolean => {
+    const game = db.find<Game>('games', (g) => g.id === gameId);
+    return !!game && !!context.userId && game.auth_host_id === context.userId;
+  };
+
+  const assertOwnsGame = (gameId: string, context: DbContext, message: string) => {
+    if (!ownsGame(gameId, context)) {
+      throw new FakeDbError(message);
+    }
+  };
+
+  const timerExpired = (round: GameRound): boolean =>
+    !round.timer_starts_at ||
+    Date.parse(round.timer_starts_at) + round.timer_duration * 1000 - TIMER_GRACE_MS <= db.now();
+
+  const updateRound = (
+    roundId: string,
+    patch: Partial<GameRound> | ((round: GameRound) => Partial<GameRound>)
+  ): GameRound =>
+    db.update<GameRound>('game_rounds', (r) => r.id === roundId, patch)[0];
+
+  // server_time_authority.sql
+  db.defineRpc('get_server_time', () => [{ server_time: db.timestamp(), timestamp_ms: db.now() }]);
+
+  // get_round_time_remaining (add_game_timers.sql)
+  db.defineRpc<RoundParams>('get_round_time_remaining', ({ p_round_id }) => {
+    const round = db.find<GameRound>('game_rounds', (r) => r.id === p_round_id);
+    if (!round) {
+      return [{ time_remaining: null, timer_active: false, server_time: db.timestamp(), round_status: null }];
+    }
+    if (!round.timer_starts_at || round.timer_duration === 0) {
+      return [{ time_remaining: round.timer_duration, timer_active: false, server_time: db.timestamp(), round_status: round.status }];
+    }
+
+    const until = round.paused_at ? Date.parse(round.paused_at) : db.now();
+    const elapsed = Math.floor((until - Date.parse(round.timer_starts_at)) / 1000);
+    const remaining = Math.max(0, round.timer_duration - elapsed);
+    return [{
+      time_remaining: remaining,
+      timer_active: remaining > 0 && !round.paused_at && ['answering', 'voting'].includes(round.status),
+      server_time: db.timestamp(),
+      round_status: round.status,
+    }];
+  });
+
+  // server_time_authority.sql
+  db.defineRpc<RoundParams>('start_round_timer', ({ p_round_id }) => {
+    const round = db.find<GameRound>('game_rounds', (r) => r.id === p_round_id);
+    if (!round) return [{ success: false, timer_starts_at: null, message: 'Round not found' }];
+    if (round.timer_starts_at) {
+      return [{ success: true, timer_starts_at: round.timer_starts_at, message: 'Timer already started' }];
+    }
+    const started = updateRound(p_round_id, { timer_starts_at: db.timestamp() });
+    return [{ success: true, timer_starts_at: started.timer_starts_at, message: 'Timer started' }];
+  });
+
+  // pick_question (add_game_language.sql), without the seen-questions ordering
+  db.defineRpc<{ p_game_id: string; p_round_number: number; p_category?: string | null; p_language?: string | null }>('pick_question', ({ p_game_id, p_round_number, p_category = null, p_language = null }) =>
+    pickQuestion(db, p_game_id, p_round_number, p_category, p_language)
+  );
+
+  // pick_category_options (add_question_selection.sql)
+  db.defineRpc<{ p_game_id: string; p_count?: number }>('pick_category_options', ({ p_game_id, p_count = 3 }) => {
+    const game = db.find<Game>('games', (g) => g.id === p_game_id);
+    if (!game) return [];
+
+    const categories = new Set(
+      questionPool(db, game, null)
+        .map((q) => q.category)
+        .filter((category): category is string => !!category && (game.question_categories.length === 0 || game.question_categories.includes(category)))
+    );
+    return shuffle(Array.from(categories)).slice(0, p_count);
+  });
+
+  // choose_category (add_question_selection.sql)
+  db.defineRpc<{ p_round_id: string; p_device_id: string | null; p_category?: string | null }>('choose_category', ({ p_round_id, p_device_id, p_category = null }, context) => {
+    const round = findRound(p_round_id);
+    if (round.status !== 'choosing') return round; // Late or repeated calls are harmless
+
+    let category = p_category;
+    if (category === null) {
+      if (!timerExpired(round)) throw new FakeDbError('Category choice has not timed out');
+      category = shuffle(round.category_options)[0];
+    } else {
+      const chooser = round.chooser_id ? db.find<Player>('players', (p) => p.id === round.chooser_id) : null;
+      const isChooser =
+        (!!p_device_id && chooser?.device_id === p_device_id) || (!!chooser?.is_host && ownsGame(round.game_id, context));
+      if (round.chooser_id && !isChooser) {
+        throw new FakeDbError('Only the chooser can pick the category', '42501');
+      }
+      if (!round.category_options.includes(category)) {
+        throw new FakeDbError('Category was not offered', '23514');
+      }
+    }
+
+    const game = db.find<Game>('games', (g) => g.id === round.game_id)!;
+    const questionId = pickQuestion(db, round.game_id, round.round_number, category, null);
+    if (!questionId) throw new FakeDbError('No questions available', 'P0001', 'NO_QUESTIONS');
+
+    return updateRound(p_round_id, {
+      question_id: questionId,
+      category,
+      status: 'answering',
+      timer_starts_at: db.timestamp(),
+      timer_duration: game.answer_timer,
+    });
+  });
+
+  // force_advance_round (add_game_timers.sql)
+  db.defineRpc<RoundParams>('force_advance_round', ({ p_round_id }) => {
+    const round = db.find<GameRound>('game_rounds', (r) => r.id === p_round_id);
+    if (!round || round.paused_at || round.timer_duration === 0 || !timerExpired(round)) return null;
+
+    if (round.status === 'answering') {
+      const hasCorrectAnswer = !!db.find<PlayerAnswer>('player_answers', (a) => a.round_id === p_round_id && a.is_correct);
+      if (!hasCorrectAnswer) insertCorrectAnswer(db, round);
+      updateRound(p_round_id, { status: 'voting' });
+    } else if (round.status === 'voting') {
+      advanceRoundIfReady(db, p_round_id);
+    }
+    return null;
+  });
+
+  // Host round controls (add_round_host_controls.sql, add_game_timers.sql)
+  const assertRunning = (round: GameRound, context: DbContext) => {
+    assertOwnsGame(round.game_id, context, 'Only the host can control the round');
+    if (!['answering', 'voting'].includes(round.status)) throw new FakeDbError('Round is not running');
+  };
+
+  // advance_round_now (add_game_timers.sql): the host moves on without waiting for everyone
+  db.defineRpc<RoundParams>('advance_round_now', ({ p_round_id }, context) => {
+    const round = findRound(p_round_id);
+    assertRunning(round, context);
+
+    if (round.status === 'voting') {
+      return completeRound(db, p_round_id, db.find<Game>('games', (g) => g.id === round.game_id)!);
+    }
+
+    const hasCorrectAnswer = !!db.find<PlayerAnswer>('player_answers', (a) => a.round_id === p_round_id && a.is_correct);
+    if (!hasCorrectAnswer) insertCorrectAnswer(db, round);
+    return updateRound(p_round_id, { status: 'voting' });
+  });
+
+  db.defineRpc<RoundParams>('pause_round', ({ p_round_id }, context) => {
+    const round = findRound(p_round_id);
+    assertRunning(round, context);
+    return round.paused_at ? round : updateRound(p_round_id, { paused_at: db.timestamp() });
+  });
+
+  db.defineRpc<RoundParams>('resume_round', ({ p_round_id }, context) => {
+    const round = findRound(p_round_id);
+    assertOwnsGame(round.game_id, context, 'Only the host can control the round');
+    if (!round.paused_at) return round;
+
+    const pausedFor = db.now() - Date.parse(round.paused_at);
+    return updateRound(p_round_id, {
+      timer_starts_at: new Date(Date.parse(round.timer_starts_at!) + pausedFor).toISOString(),
+      paused_at: null,
+    });
+  });
+
+  db.defineRpc<{ p_round_id: string; p_seconds: number }>('extend_round_timer', ({ p_round_id, p_seconds }, context) => {
+    if (!p_seconds || p_seconds < 1 || p_seconds > GAME_CONFIG.MAX_TIMER_EXTENSION) {
+      throw new FakeDbError('Invalid timer extension', '23514');
+    }
+    const round = findRound(p_round_id);
+    assertRunning(round, context);
+    if (round.timer_duration === 0) throw new FakeDbError('Round has no timer');
+    return updateRound(p_round_id, (r) => ({ timer_duration: r.timer_duration + p_seconds }));
+  });
+
+  db.defineRpc<RoundParams>('skip_question', ({ p_round_id }, context) => {
+    const round = findRound(p_round_id);
+    assertOwnsGame(round.game_id, context, 'Only the host can control the round');
+    if (round.status !== 'answering') {
+      throw new FakeDbError('Questions can only be skipped while players are answering');
+    }
+
+    const game = db.find<Game>('games', (g) => g.id === round.game_id)!;
+    const questionId = pickQuestion(db, round.game_id, round.round_number, round.category, null);
+    if (!questionId || questionId === round.question_id) {
+      throw new FakeDbError('No questions available', 'P0001', 'NO_QUESTIONS');
+    }
+
+    db.delete<PlayerAnswer>('player_answers', (a) => a.round_id === p_round_id);
+    return updateRound(p_round_id, (r) => ({
+      question_id: questionId,
+      skipped_question_ids: [...r.skipped_question_ids, r.question_id!],
+      timer_starts_at: db.timestamp(),
+      timer_duration: game.answer_timer,
+      paused_at: null,
+    }));
+  });
+
+  // kick_player (add_lobby_moderation.sql)
+  db.defineRpc<{ p_player_id: string; p_ban?: boolean }>('kick_player', ({ p_player_id, p_ban = false }, context) => {
+    const player = db.find<Player>('players', (p) => p.id === p_player_id);
+    if (!player) throw new FakeDbError('Player not found');
+
+    const game = db.find<Game>('games', (g) => g.id === player.game_id)!;
+    assertOwnsGame(game.id, context, 'Only the host can moderate players');
+    if (player.is_host) throw new FakeDbError('The host cannot be kicked');
+    if (game.status !== 'waiting') throw new FakeDbError('Players can only be kicked from the lobby');
+
+    if (p_ban) {
+      db.insert('game_bans', { game_id: game.id, user_name: player.user_name, device_id: player.device_id });
+    }
+    db.insert('player_kicks', { game_id: game.id, player_id: p_player_id, banned: p_ban });
+
+    if (game.phase_captain_id === p_player_id) {
+      db.update<Game>('games', (g) => g.id === game.id, (g) => ({ phase_captain_id: g.host_id }));
+    }
+    db.delete<Player>('players', (p) => p.id === p_player_id);
+    return null;
+  });
+
+  // rename_player (add_lobby_moderation.sql)
+  db.defineRpc<{ p_player_id: string; p_new_name: string }>('rename_player', ({ p_player_id, p_new_name }, context) => {
+    const player = db.find<Player>('players', (p) => p.id === p_player_id);
+    if (!player) throw new FakeDbError('Player not found');
+    assertOwnsGame(player.game_id, context, 'Only the host can moderate players');
+
+    const name = String(p_new_name).trim();
+    if (name.length < 2 || name.length > 50) throw new FakeDbError('Invalid player name', '23514');
+
+    db.update<Player>('players', (p) => p.id === p_player_id, () => ({ user_name: name }));
+    return null;
+  });
+
+  // promote_phase_captain (add_audience_mode.sql)
+  db.defineRpc<{ p_game_id: string; p_disconnected_player_id: string }>('promote_phase_captain', ({ p_game_id, p_disconnected_player_id }) => {
+    const game = db.find<Game>('games', (g) => g.id === p_game_id);
+    if (!game) return [{ success: false, new_captain_id: null, message: 'Game not found' }];
+    if (game.status === 'finished') {
+      return [{ success: false, new_captain_id: null, message: 'Cannot promote captain in finished game' }];
+    }
+    if (game.phase_captain_id !== p_disconnected_player_id) {
+      return [{ success: false, new_captain_id: game.phase_captain_id, message: 'Player is not the current captain' }];
+    }
+
+    const candidates = db
+      .select<Player>('players', (p) => p.game_id === p_game_id && p.id !== p_disconnected_player_id && p.role === 'player')
+      .sort((a, b) => Number(b.is_host) - Number(a.is_host) || a.joined_at.localeCompare(b.joined_at));
+    const next = candidates.find((p) => p.connection_status === 'connected') ?? candidates[0];
+    if (!next) return [{ success: false, new_captain_id: null, message: 'No eligible players to promote' }];
+
+    db.update<Game>('games', (g) => g.id === p_game_id, { phase_captain_id: next.id });
+    return [{ success: true, new_captain_id: next.id, message: 'Captain promoted successfully' }];
+  });
+}
+
+// ============================================================================
+// Question selection
+// ============================================================================
+
+// game_question_pool (add_game_language.sql): unused questions in the game's packs or language
+function questionPool(db: FakeDatabase, game: Game, language: string | null): Question[] {
+  const used = new Set(
+    db
+      .select<GameRound>('game_rounds', (r) => r.game_id === game.id)
+      .flatMap((r) => [r.question_id, ...r.skipped_question_ids])
+  );
+
+  return db.select<Question>('questions', (q) => {
+    const inPool = game.question_pack_ids.length > 0
+      ? !!q.pack_id && game.question_pack_ids.includes(q.pack_id)
+      : q.pack_id === null && q.language === (language ?? game.language);
+    return inPool && !used.has(q.id);
+  });
+}
+
+// ramp_difficulty (add_question_selection.sql)
+function rampDifficulty(roundNumber: number, roundCount: number): QuestionDifficulty {
+  if (roundCount <= 1) return 'medium';
+  const progress = (roundNumber - 1) / (roundCount - 1);
+  return progress < 1 / 3 ? 'easy' : progress < 2 / 3 ? 'medium' : 'hard';
+}
+
+function pickQuestion(
+  db: FakeDatabase,
+  gameId: string,
+  roundNumber: number,
+  category: string | null,
+  language: string | null
+): string | null {
+  const game = db.find<Game>('games', (g) => g.id === gameId);
+  if (!game) return null;
+
+  const categories: string[] = category ? [category] : game.question_categories;
+  const difficulties: string[] = game.difficulty_ramp
+    ? [rampDifficulty(roundNumber, game.round_count)]
+    : game.question_difficulties;
+  const pool = shuffle(questionPool(db, game, language));
+
+  // Pass 1 applies every filter, pass 2 drops difficulty, pass 3 drops category
+  for (let pass = 1; pass <= 3; pass++) {
+    const question = pool.find(
+      (q) =>
+        (categories.length === 0 || pass === 3 || (!!q.category && categories.includes(q.category))) &&
+        (difficulties.length === 0 || pass >= 2 || difficulties.includes(q.difficulty))
+    );
+    if (question) return question.id;
+  }
+
+  // Every question was already played this game: repeat the one played the fewest times
+  // and longest ago, avoiding this round's and the last round's question
+  const plays = new Map<string, { recent: boolean; count: number; last: number }>();
+  db.select<GameRound>('game_rounds', (r) => r.game_id === gameId && r.question_id !== null).forEach((r) => {
+    const questionId = r.question_id!;
+    const play = plays.get(questionId) ?? { recent: false, count: 0, last: 0 };
+    plays.set(questionId, {
+      recent: play.recent || r.round_number >= roundNumber - 1,
+      count: play.count + 1,
+      last: Math.max(play.last, r.round_number),
+    });
+  });
+  const [leastPlayed] = Array.from(plays.entries()).sort(
+    ([, a], [, b]) => Number(a.recent) - Number(b.recent) || a.count - b.count || a.last - b.last
+  );
+  return leastPlayed?.[0] ?? null;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  return items
+    .map((item) => ({ item, key: randomUUID() }))
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map(({ item }) => item);
+}
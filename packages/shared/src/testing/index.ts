@@ -0,0 +1,3 @@
+// Test doubles for the Supabase backend; deliberately not exported from the package index
+export * from './fakeSupabase';
+export * from './gameBackend';
@@ -1,7 +1,13 @@
 // Core game types
 export type GameStatus = 'waiting' | 'playing' | 'finished';
-export type RoundStatus = 'pending' | 'answering' | 'voting' | 'completed';
+export type RoundStatus = 'pending' | 'choosing' | 'answering' | 'voting' | 'completed';
 export type PlayerConnectionStatus = 'connected' | 'disconnected';
+export type PlayerRole = 'player' | 'audience'; // Audience: spectators beyond max_players
+export type TeamId = 'red' | 'blue' | 'green' | 'yellow';
+export type ContentFilterLevel = 'off' | 'mask' | 'reject'; // Per-game strictness for names and fakes
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+export type Locale = 'ar' | 'en'; // UI and question language
+export type TextDirection = 'rtl' | 'ltr';
 
 export interface Game {
   id: string;
@@ -13,6 +19,19 @@ export interface Game {
   round_count: number;
   current_round: number;
   max_players: number;
+  question_pack_ids: string[]; // Host-selected question packs (empty = global pool)
+  scoring_rules: ScoringRules; // Points chosen by the host at creation
+  multiplier_rounds: number[]; // Rounds the host marked for bonus points
+  team_count: number; // 0 = everyone for themselves, 2-4 = team mode
+  content_filter: ContentFilterLevel; // How offensive names and fakes are handled
+  answer_timer: number; // Seconds to write a fake (0 = no timer, wait for everyone)
+  voting_timer: number; // Seconds to vote (0 = no timer, wait for everyone)
+  question_categories: string[]; // Categories to draw from (empty = mixed)
+  question_difficulties: QuestionDifficulty[]; // Difficulties to draw from (empty = mixed)
+  difficulty_ramp: boolean; // Easy to hard over the rounds (overrides question_difficulties)
+  category_picking: boolean; // Each round's chooser picks one of a few categories first
+  language: Locale; // Language of the questions and the game's default UI language
+  rematch_game_id: string | null; // Lobby created by Play Again after this game finished
   created_at: string;
   updated_at: string;
 }
@@ -25,32 +44,84 @@ export interface Player {
   score: number;
   is_host: boolean;
   connection_status: PlayerConnectionStatus;
+  role: PlayerRole;
+  team: TeamId | null; // Set in team mode (chosen or assigned in the lobby)
+  previous_player_id: string | null; // Row this player was carried over from in a rematch
+  device_id: string | null; // Per-install ID used to enforce host bans
   joined_at: string;
 }
 
+export interface Team {
+  id: TeamId;
+  name: string;
+  color: string;
+}
+
 export interface Question {
   id: string;
   question_text: string;
   correct_answer: string;
+  accepted_answers: string[]; // Alternate spellings/phrasings also counted as correct
   category: string | null;
-  difficulty: 'easy' | 'medium' | 'hard';
-  language: 'ar' | 'en';
+  difficulty: QuestionDifficulty;
+  language: Locale;
+  pack_id: string | null; // NULL for the global question pool
   created_at: string;
 }
 
+export interface QuestionPack {
+  id: string;
+  owner_id: string;
+  title: string;
+  language: Locale;
+  category: string | null;
+  created_at: string;
+  updated_at: string;
+  questions?: Question[];
+}
+
+// Bulk question import/export
+export type QuestionFileFormat = 'csv' | 'json';
+
+export type QuestionImportRow = Pick<
+  Question,
+  'question_text' | 'correct_answer' | 'accepted_answers' | 'category' | 'difficulty' | 'language'
+>;
+
+export interface QuestionImportError {
+  row: number; // 1-based row in the source file (header excluded)
+  field: keyof QuestionImportRow | null;
+  message: string;
+}
+
+export interface QuestionImportResult {
+  rows: QuestionImportRow[];
+  errors: QuestionImportError[];
+  duplicates: { row: number; question_text: string }[];
+}
+
 export interface GameRound {
   id: string;
   game_id: string;
   round_number: number;
-  question_id: string;
+  question_id: string | null; // NULL while the chooser is picking a category
   status: RoundStatus;
   required_players: number; // Fixed quorum captured at round start
   timer_starts_at: string | null;
-  timer_duration: number;
+  timer_duration: number; // 0 = no timer, the phase waits for everyone
+  paused_at: string | null; // Set while the host has the round paused
+  skipped_question_ids: string[]; // Questions the host skipped in this round
+  category: string | null; // Category picked by the chooser
+  category_options: string[]; // Categories offered to the chooser (empty = no pick this round)
+  chooser_id: string | null; // Player whose turn it is to pick the category
+  multiplier: number; // Points multiplier for this round (1 = normal)
   created_at: string;
   question?: Question;
 }
 
+// Host round controls and category picks, broadcast to every client in the game
+export type RoundControlAction = 'paused' | 'resumed' | 'extended' | 'skipped' | 'category_chosen';
+
 export interface PlayerAnswer {
   id: string;
   round_id: string;
@@ -59,6 +130,7 @@ export interface PlayerAnswer {
   is_correct: boolean;
   submitted_at: string;
   player?: Player;
+  author_ids?: string[]; // Set when duplicate fakes are merged into one voting card
 }
 
 export interface Vote {
@@ -70,94 +142,274 @@ export interface Vote {
   created_at: string;
 }
 
+// Audience "funny" like on an answer (separate from the single vote)
+export interface AnswerLike {
+  id: string;
+  round_id: string;
+  answer_id: string;
+  liker_id: string;
+  created_at: string;
+}
+
+// Host removed a player from the lobby (published so the kicked client knows why)
+export interface PlayerKick {
+  id: string;
+  game_id: string;
+  player_id: string;
+  banned: boolean;
+  created_at: string;
+}
+
+// Audience member's guess during voting (never counts toward quorum)
+export interface AudienceVote {
+  id: string;
+  round_id: string;
+  answer_id: string;
+  audience_id: string;
+  created_at: string;
+}
+
+// Scoring rules (persisted per game on games.scoring_rules)
+export interface ScoringRules {
+  correct_answer: number;
+  per_fooled_player: number;
+  perfect_fake_bonus: number;
+  round_winner_bonus: number;
+  final_round_multiplier: number; // 1 = normal, 2 = double points in the last round
+  per_like?: number; // Omitted = GAME_CONFIG.POINTS.PER_LIKE (games created before it was stored)
+  audience_favorite_bonus?: number; // Omitted = GAME_CONFIG.POINTS.AUDIENCE_FAVORITE_BONUS
+}
+
+export type ScoringPreset = 'classic' | 'double_final' | 'master_liar' | 'truth_seeker' | 'custom';
+
+export type TimerPreset = 'quick' | 'standard' | 'relaxed' | 'untimed';
+
 // Game settings
 export interface GameSettings {
   roundCount: number; // 4, 6, 8, 10
   maxPlayers: number; // 4-10
+  questionPackIds?: string[]; // Empty or omitted = global question pool
+  scoringRules?: ScoringRules; // Omitted = DEFAULT_SCORING_RULES
+  multiplierRounds?: number[]; // Round numbers played at MARKED_ROUND_MULTIPLIER
+  teamCount?: number; // Omitted or 0 = no teams
+  contentFilter?: ContentFilterLevel; // Omitted = GAME_CONFIG.DEFAULT_CONTENT_FILTER
+  answerTimer?: number; // Seconds, 0 = no timer; omitted = GAME_CONFIG.ANSWER_TIMER
+  votingTimer?: number; // Seconds, 0 = no timer; omitted = GAME_CONFIG.VOTING_TIMER
+  questionCategories?: string[]; // Empty or omitted = mixed
+  questionDifficulties?: QuestionDifficulty[]; // Empty or omitted = mixed
+  difficultyRamp?: boolean; // Easy to hard over the rounds
+  categoryPicking?: boolean; // Chooser picks the category each round
+  language?: Locale; // Omitted = 'ar'
 }
 
-// Real-time events
-export interface PlayerJoinedEvent {
-  player: Player;
-}
-
-export interface PlayerLeftEvent {
-  player_id: string;
+// Realtime broadcast protocol: instant hints on top of postgres_changes, which stay the source of truth.
+// Sent as { v, major, ...event } under the broadcast event name event.type (see utils/realtimeProtocol.ts)
+export interface TimerSyncEvent {
+  type: 'timer_sync';
+  round_id: string;
+  time_remaining: number;
+  timer_active: boolean;
+  server_time: string;
 }
 
-export interface GameStartedEvent {
-  game: Game;
-  first_round: GameRound;
+export interface RoundTransitionEvent {
+  type: 'round_transition';
+  round_id: string;
+  status: RoundStatus;
 }
 
-export interface RoundStartedEvent {
+export interface RoundControlEvent {
+  type: 'round_control';
+  action: RoundControlAction;
   round: GameRound;
-  question: Question;
+  question?: Question; // Skipped and category_chosen rounds carry their new question
 }
 
-export interface AnswerSubmittedEvent {
-  player_id: string;
-  has_submitted: boolean;
+export interface CaptainPromotedEvent {
+  type: 'captain_promoted';
+  new_captain_id: string;
+  old_captain_id: string;
 }
 
-export interface VotingStartedEvent {
-  answers: PlayerAnswer[];
+export interface HeartbeatEvent {
+  type: 'heartbeat';
+  timestamp: number;
 }
 
-export interface RoundEndedEvent {
-  correct_answer: string;
-  votes: Vote[];
-  updated_scores: { player_id: string; new_score: number }[];
-}
+export type BroadcastEvent =
+  | TimerSyncEvent
+  | RoundTransitionEvent
+  | RoundControlEvent
+  | CaptainPromotedEvent
+  | HeartbeatEvent;
 
-export interface GameEndedEvent {
-  final_scores: { player_id: string; score: number }[];
-  winner: Player;
-}
+export type BroadcastEventType = BroadcastEvent['type'];
+
+// What goes over the wire: the event tagged with the sender's protocol version and major version,
+// plus the old names of renamed fields so builds from before versioning can still read it
+export type BroadcastMessage = BroadcastEvent & { v: number; major: number } & Record<string, unknown>;
+
+// Game event log (game_events): every committed change to a game, numbered 1, 2, 3... per game
+export type GameEventData =
+  | { type: 'game_updated'; payload: Game }
+  | { type: 'player_joined' | 'player_updated'; payload: Player }
+  | { type: 'player_left'; payload: { id: string } }
+  | { type: 'round_started' | 'round_updated'; payload: Omit<GameRound, 'question'> & { question: Question | null } }
+  | { type: 'answer_submitted'; payload: PlayerAnswer }
+  | { type: 'answer_removed'; payload: { id: string } }
+  | { type: 'vote_submitted'; payload: Vote };
+
+export type GameEvent = GameEventData & {
+  id: string;
+  game_id: string;
+  seq: number;
+  created_at: string;
+};
+
+export type GameEventType = GameEvent['type'];
 
 // Score calculation
 export interface ScoreResult {
   player_id: string;
   points_earned: number;
-  reason: 'correct_answer' | 'fooled_players' | 'perfect_fake' | 'round_winner';
+  reason: 'correct_answer' | 'fooled_players' | 'perfect_fake' | 'round_winner' | 'audience_like' | 'audience_favorite';
+}
+
+// Row of score_ledger: points handed out by the server when a round is scored
+export interface ScoreLedgerEntry extends ScoreResult {
+  id: string;
+  game_id: string;
+  round_id: string;
+  created_at: string;
+}
+
+// One line of a player's round breakdown ("+500 fooled Sara")
+export interface ScoreEvent extends ScoreResult {
+  fooled_names: string[]; // fooled_players only: voters who earned these points (no teammates)
+}
+
+// A player's points for one round, event by event
+export interface RoundScoreBreakdown {
+  player_id: string;
+  player_name: string;
+  total: number;
+  events: ScoreEvent[];
 }
 
 export interface RoundResult {
   round_number: number;
   question: string;
   correct_answer: string;
+  multiplier: number;
   player_answers: {
     player_name: string;
     answer: string;
     votes_received: number;
-    points_earned: number;
+    points_earned: number; // Author's total points for the round
+    voted_by: string[]; // Names of the players who picked this fake
   }[];
+  correct_voters: string[]; // Names of the players who found the truth
   fooled_by: {
     fooler: string;
     fooled: string[];
   }[];
+  scores: {
+    player_name: string;
+    points_earned: number;
+    reasons: ScoreResult['reason'][];
+  }[];
+}
+
+// Finished game summary for the host's history page
+export interface GameHistoryEntry {
+  id: string;
+  code: string;
+  created_at: string;
+  round_count: number;
+  team_count: number;
+  player_count: number;
+  winner_name: string | null;
+  winner_score: number | null;
+}
+
+// Public end-of-game recap (shareable card + read-only page)
+export interface GameRecap {
+  game: Pick<Game, 'id' | 'code' | 'created_at' | 'round_count'>;
+  winner: { player_name: string; score: number } | null;
+  best_lie: {
+    player_names: string[]; // Every author of a merged duplicate
+    answer: string;
+    question: string;
+    round_number: number;
+    fooled_count: number;
+  } | null;
+  most_gullible: { player_name: string; times_fooled: number } | null;
+  highlights: {
+    round_number: number;
+    question: string;
+    correct_answer: string;
+    top_fooler: string | null; // Player whose fake fooled the most voters this round
+    fooled_count: number;
+    correct_count: number;
+  }[];
+}
+
+// Full replay of a finished game (host only)
+export interface GameReplay {
+  game: Pick<Game, 'id' | 'code' | 'created_at' | 'round_count' | 'team_count'>;
+  players: Player[];
+  rounds: RoundResult[];
 }
 
-// Error types
+// Error codes: stable and machine-readable; display text comes from ERROR_MESSAGES
 export enum ErrorType {
-  GAME_NOT_FOUND = 'اللعبة غير موجودة',
-  GAME_FULL = 'اللعبة ممتلئة',
-  ALREADY_STARTED = 'اللعبة بدأت بالفعل',
-  CONNECTION_LOST = 'فقد الاتصال',
-  INVALID_CODE = 'كود غير صحيح',
-  DUPLICATE_NAME = 'الاسم مستخدم بالفعل',
-  ANSWER_TIMEOUT = 'انتهى وقت الإجابة',
-  VOTE_TIMEOUT = 'انتهى وقت التصويت',
-  INVALID_INPUT = 'مدخلات غير صحيحة',
-  UNAUTHORIZED = 'غير مصرح',
+  GAME_NOT_FOUND = 'GAME_NOT_FOUND',
+  GAME_FULL = 'GAME_FULL',
+  NOT_ENOUGH_PLAYERS = 'NOT_ENOUGH_PLAYERS',
+  ALREADY_STARTED = 'ALREADY_STARTED',
+  CONNECTION_LOST = 'CONNECTION_LOST',
+  INVALID_CODE = 'INVALID_CODE',
+  INVALID_NAME = 'INVALID_NAME',
+  DUPLICATE_NAME = 'DUPLICATE_NAME',
+  INVALID_ANSWER = 'INVALID_ANSWER',
+  ANSWER_TIMEOUT = 'ANSWER_TIMEOUT',
+  VOTE_TIMEOUT = 'VOTE_TIMEOUT',
+  INVALID_INPUT = 'INVALID_INPUT',
+  INVALID_SETTINGS = 'INVALID_SETTINGS',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  NOT_AUTHENTICATED = 'NOT_AUTHENTICATED',
+  NOT_FOUND = 'NOT_FOUND',
+  NO_QUESTIONS = 'NO_QUESTIONS',
+  ANSWER_MATCHES_TRUTH = 'ANSWER_MATCHES_TRUTH',
+  OWN_ANSWER = 'OWN_ANSWER',
+  TEAMMATE_ANSWER = 'TEAMMATE_ANSWER',
+  ROUND_PAUSED = 'ROUND_PAUSED',
+  KICKED = 'KICKED',
+  INAPPROPRIATE_CONTENT = 'INAPPROPRIATE_CONTENT',
+  BANNED = 'BANNED',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNKNOWN = 'UNKNOWN',
+}
+
+// Extra context carried by a GameError (also fills {placeholders} in its message)
+export interface ErrorDetails {
+  field?: string; // Input or setting that failed validation
+  min?: number;
+  max?: number;
+  dbCode?: string; // Postgres/PostgREST code of the backend error it came from
 }
 
+/**
+ * Error with a stable code. message is developer-facing (logs); show users
+ * formatError(error) so the text follows the current locale.
+ */
 export class GameError extends Error {
   constructor(
-    public type: ErrorType,
-    message?: string
+    public readonly code: ErrorType,
+    message?: string,
+    public readonly details: ErrorDetails = {}
   ) {
-    super(message || type);
+    super(message || code);
     this.name = 'GameError';
   }
 }
@@ -0,0 +1,186 @@
+import { GAME_CONFIG } from '../constants/game';
+import { PlayerAnswer, Question } from '../types';
+
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670\u06D6-\u06ED]/g; // Tashkeel and Quranic marks
+const TATWEEL = /\u0640/g;
+const ALEF_VARIANTS = /[\u0622\u0623\u0625\u0671]/g; // آ أ إ ٱ
+const PUNCTUATION = /[^\p{L}\p{N}\s]/gu;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g;
+
+/**
+ * Normalize an answer for comparison: compatibility forms, case, diacritics,
+ * alef/hamza forms, taa marbuta, alef maqsura, Arabic-Indic digits, punctuation
+ * and whitespace. normalize_answer_text (add_accepted_answers.sql) takes the
+ * same steps in the same order.
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(TATWEEL, '')
+    .replace(ALEF_VARIANTS, 'ا')
+    .replace(/\u0624/g, 'و') // ؤ
+    .replace(/\u0626/g, 'ي') // ئ
+    .replace(/\u0649/g, 'ي') // ى
+    .replace(/\u0629/g, 'ه') // ة
+    .replace(ARABIC_INDIC_DIGITS, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split a normalized answer into words, dropping the Arabic definite article
+ * so "النيل" and "نيل" compare equal
+ */
+function toWords(normalized: string): string[] {
+  return normalized
+    .split(' ')
+    .filter(Boolean)
+    .map((word) => (word.startsWith('ال') && word.length > 3 ? word.slice(2) : word));
+}
+
+/**
+ * Levenshtein edit distance
+ */
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity between two answers in [0, 1] (1 = identical after normalization)
+ */
+export function answerSimilarity(a: string, b: string): number {
+  const left = toWords(normalizeAnswer(a)).join(' ');
+  const right = toWords(normalizeAnswer(b)).join(' ');
+
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Whether a single candidate is close enough to a single accepted answer.
+ * Matches on typo-level similarity or when every word of the shorter answer
+ * appears in the longer one ("النيل" vs "نهر النيل").
+ */
+function isCloseMatch(candidate: string, accepted: string): boolean {
+  if (answerSimilarity(candidate, accepted) >= GAME_CONFIG.ANSWER_MATCH_THRESHOLD) {
+    return true;
+  }
+
+  const candidateWords = toWords(normalizeAnswer(candidate));
+  const acceptedWords = toWords(normalizeAnswer(accepted));
+  if (candidateWords.length === 0 || acceptedWords.length === 0) return false;
+
+  const [shorter, longer] =
+    candidateWords.length <= acceptedWords.length
+      ? [candidateWords, acceptedWords]
+      : [acceptedWords, candidateWords];
+
+  // Ignore short fragments so "في" or one word of a long answer doesn't match
+  const shorterLength = shorter.join('').length;
+  if (shorterLength < 3 || shorterLength / longer.join('').length < 0.5) return false;
+
+  return shorter.every((word) => longer.includes(word));
+}
+
+/**
+ * Check whether a player's fake is effectively the correct answer
+ * (the truth or any of the question's accepted alternates)
+ */
+export function matchesCorrectAnswer(
+  candidate: string,
+  question: Pick<Question, 'correct_answer' | 'accepted_answers'>
+): boolean {
+  return [question.correct_answer, ...(question.accepted_answers || [])].some((accepted) =>
+    isCloseMatch(candidate, accepted)
+  );
+}
+
+/**
+ * Comparison key for duplicate fakes ("النيل" and "نيل" share a key)
+ */
+export function getAnswerKey(text: string): string {
+  return toWords(normalizeAnswer(text)).join(' ');
+}
+
+/**
+ * Whether a fake normalizes to exactly the truth or an accepted answer. This is the
+ * server's rule (normalize_answer_text), so scoring uses it rather than the fuzzy
+ * matchesCorrectAnswer, which only guards submissions.
+ */
+export function isCorrectAnswerText(
+  candidate: string,
+  question: Pick<Question, 'correct_answer' | 'accepted_answers'>
+): boolean {
+  const key = getAnswerKey(candidate);
+  return (
+    !!key &&
+    [question.correct_answer, ...(question.accepted_answers || [])].some((accepted) => getAnswerKey(accepted) === key)
+  );
+}
+
+/**
+ * Group fakes that normalize to the same text. The correct answer and
+ * system answers always stay in their own group.
+ */
+export function groupDuplicateAnswers(answers: PlayerAnswer[]): PlayerAnswer[][] {
+  const groups = new Map<string, PlayerAnswer[]>();
+
+  answers.forEach((answer) => {
+    const key =
+      answer.is_correct || !answer.player_id ? `answer:${answer.id}` : getAnswerKey(answer.answer_text);
+
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(answer);
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Collapse duplicate fakes into a single votable card. The earliest
+ * submission represents the group and lists every author in author_ids.
+ */
+export function mergeDuplicateAnswers(answers: PlayerAnswer[]): PlayerAnswer[] {
+  return groupDuplicateAnswers(answers).map((group) => {
+    if (group.length === 1) return group[0];
+
+    const [representative] = [...group].sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
+
+    return {
+      ...representative,
+      author_ids: group.map((answer) => answer.player_id).filter((id): id is string => !!id),
+    };
+  });
+}
+
+/**
+ * Whether a player wrote this answer (including merged duplicates)
+ */
+export function isAnswerAuthor(answer: PlayerAnswer, playerId: string | undefined): boolean {
+  if (!playerId) return false;
+  return answer.player_id === playerId || !!answer.author_ids?.includes(playerId);
+}
@@ -0,0 +1,142 @@
+import { ContentFilterLevel, GameError, ErrorType } from '../types';
+import { BLOCKED_WORDS_AR, BLOCKED_WORDS_EN } from '../constants/blockedWords';
+
+/**
+ * A content filter decides which words of a text are offensive. Implementations
+ * receive the text already split on whitespace and return the indexes to block.
+ */
+export interface ContentFilter {
+  findBlockedWords: (words: string[]) => number[];
+}
+
+const LATIN_DIACRITICS = /[\u0300-\u036F]/g; // Combining accents left by NFKD
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670\u06D6-\u06ED]/g; // Tashkeel and Quranic marks
+const TATWEEL = /\u0640/g;
+const ALEF_VARIANTS = /[\u0622\u0623\u0625\u0671]/g; // آ أ إ ٱ
+const NON_LETTERS = /[^\p{L}]/gu;
+const REPEATED_LETTERS = /(\p{L})\1{2,}/gu; // "fuuuck" -> "fuck" (doubles are kept: "ass")
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+  '|': 'l',
+  '+': 't',
+};
+const LEET_CHARS = /[0134578@$!|+]/g;
+
+/**
+ * Normalize a single word for filtering: case, Latin and Arabic diacritics,
+ * alef/hamza forms, taa marbuta, alef maqsura, leetspeak, separators inside the
+ * word ("f.u.c.k"), stretched letters and the Arabic definite article
+ */
+export function normalizeForFilter(word: string): string {
+  const normalized = word
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(LATIN_DIACRITICS, '')
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(TATWEEL, '')
+    .replace(ALEF_VARIANTS, 'ا')
+    .replace(/\u0624/g, 'و') // ؤ
+    .replace(/\u0626/g, 'ي') // ئ
+    .replace(/\u0649/g, 'ي') // ى
+    .replace(/\u0629/g, 'ه') // ة
+    .replace(LEET_CHARS, (char) => LEET_MAP[char] ?? char)
+    .replace(NON_LETTERS, '')
+    .replace(REPEATED_LETTERS, '$1');
+
+  return normalized.startsWith('ال') && normalized.length > 3 ? normalized.slice(2) : normalized;
+}
+
+/**
+ * Build a filter from a wordlist. Entries may be phrases ("ابن الكلب"); runs of
+ * single letters in the text are joined first so "f u c k" is caught as well.
+ */
+export function createWordListFilter(wordList: readonly string[]): ContentFilter {
+  const blocked = new Set<string>();
+  let longestPhrase = 1;
+
+  for (const entry of wordList) {
+    const words = entry.split(/\s+/).map(normalizeForFilter).filter(Boolean);
+    if (words.length === 0) continue;
+    blocked.add(words.join(' '));
+    longestPhrase = Math.max(longestPhrase, words.length);
+  }
+
+  return {
+    findBlockedWords: (words: string[]) => {
+      const normalized = words.map(normalizeForFilter);
+      const hits = new Set<number>();
+
+      // Whole words and phrases
+      for (let start = 0; start < normalized.length; start++) {
+        for (let length = 1; length <= longestPhrase && start + length <= normalized.length; length++) {
+          const candidate = normalized.slice(start, start + length).filter(Boolean).join(' ');
+          if (candidate && blocked.has(candidate)) {
+            for (let i = start; i < start + length; i++) hits.add(i);
+          }
+        }
+      }
+
+      // Spelled-out words ("f u c k", "ك س")
+      let runStart = 0;
+      for (let i = 0; i <= normalized.length; i++) {
+        if (i < normalized.length && normalized[i].length === 1) continue;
+        if (i - runStart > 1 && blocked.has(normalized.slice(runStart, i).join(''))) {
+          for (let j = runStart; j < i; j++) hits.add(j);
+        }
+        runStart = i + 1;
+      }
+
+      return [...hits].sort((a, b) => a - b);
+    },
+  };
+}
+
+let activeFilter: ContentFilter = createWordListFilter([...BLOCKED_WORDS_AR, ...BLOCKED_WORDS_EN]);
+
+/**
+ * Replace the filter used by applyContentFilter (e.g. extra words for a school)
+ */
+export function setContentFilter(filter: ContentFilter): void {
+  activeFilter = filter;
+}
+
+/**
+ * Whether a text contains any blocked word
+ */
+export function containsBlockedContent(text: string, filter: ContentFilter = activeFilter): boolean {
+  return filter.findBlockedWords(text.split(/\s+/)).length > 0;
+}
+
+/**
+ * Apply a game's content filter level to a name or fake answer:
+ * off returns the text unchanged, mask stars out blocked words, reject throws
+ */
+export function applyContentFilter(
+  text: string,
+  level: ContentFilterLevel,
+  filter: ContentFilter = activeFilter
+): string {
+  if (level === 'off') return text;
+
+  const words = text.split(/\s+/);
+  const blocked = filter.findBlockedWords(words);
+  if (blocked.length === 0) return text;
+
+  if (level === 'reject') {
+    throw new GameError(ErrorType.INAPPROPRIATE_CONTENT);
+  }
+
+  return words
+    .map((word, index) => (blocked.includes(index) ? '*'.repeat(word.length) : word))
+    .join(' ');
+}
@@ -0,0 +1,89 @@
+import { ErrorType, GameError } from '../types';
+
+/**
+ * Postgres and PostgREST error codes the client branches on
+ */
+export const DB_ERROR_CODES = {
+  UNIQUE_VIOLATION: '23505',
+  FOREIGN_KEY_VIOLATION: '23503',
+  CHECK_VIOLATION: '23514',
+  STRING_TOO_LONG: '22001',
+  INVALID_TEXT: '22P02',
+  INSUFFICIENT_PRIVILEGE: '42501',
+  NO_ROWS: 'PGRST116',
+  JWT_EXPIRED: 'PGRST301',
+} as const;
+
+/**
+ * Shape of the errors supabase-js returns (PostgrestError and friends)
+ */
+export interface BackendError {
+  code?: string;
+  message: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+// Overrides of DB_ERROR_MAP for one call site, e.g. unique violation -> DUPLICATE_NAME
+export type DbErrorOverrides = Partial<Record<string, ErrorType>>;
+
+const DB_ERROR_MAP: Record<string, ErrorType> = {
+  [DB_ERROR_CODES.UNIQUE_VIOLATION]: ErrorType.INVALID_INPUT,
+  [DB_ERROR_CODES.FOREIGN_KEY_VIOLATION]: ErrorType.NOT_FOUND,
+  [DB_ERROR_CODES.CHECK_VIOLATION]: ErrorType.INVALID_INPUT,
+  [DB_ERROR_CODES.STRING_TOO_LONG]: ErrorType.INVALID_INPUT,
+  [DB_ERROR_CODES.INVALID_TEXT]: ErrorType.INVALID_INPUT,
+  [DB_ERROR_CODES.INSUFFICIENT_PRIVILEGE]: ErrorType.UNAUTHORIZED,
+  [DB_ERROR_CODES.NO_ROWS]: ErrorType.NOT_FOUND,
+  [DB_ERROR_CODES.JWT_EXPIRED]: ErrorType.NOT_AUTHENTICATED,
+};
+
+// fetch() failures surface as code-less errors with these messages
+const NETWORK_ERROR_PATTERN = /failed to fetch|network ?error|network request failed|load failed/i;
+
+/**
+ * Map a Supabase/Postgres error into a GameError. A missing error (query came back
+ * empty) maps to SERVER_ERROR unless the call site passes a better fallback.
+ */
+export function fromBackendError(
+  error: BackendError | null | undefined,
+  overrides: DbErrorOverrides = {},
+  fallback: ErrorType = ErrorType.SERVER_ERROR
+): GameError {
+  if (!error) {
+    return new GameError(fallback);
+  }
+
+  const dbCode = error.code || undefined;
+  if (!dbCode && NETWORK_ERROR_PATTERN.test(error.message)) {
+    return new GameError(ErrorType.CONNECTION_LOST, error.message);
+  }
+
+  const code = (dbCode && (overrides[dbCode] ?? DB_ERROR_MAP[dbCode])) || fallback;
+  return new GameError(code, error.message, { dbCode });
+}
+
+/**
+ * Normalize anything caught in a try/catch into a GameError
+ */
+export function toGameError(error: unknown): GameError {
+  if (error instanceof GameError) {
+    return error;
+  }
+  if (error instanceof Error) {
+    return NETWORK_ERROR_PATTERN.test(error.message)
+      ? new GameError(ErrorType.CONNECTION_LOST, error.message)
+      : new GameError(ErrorType.UNKNOWN, error.message);
+  }
+  if (error && typeof error === 'object' && typeof (error as BackendError).message === 'string') {
+    return fromBackendError(error as BackendError);
+  }
+  return new GameError(ErrorType.UNKNOWN, String(error));
+}
+
+/**
+ * Whether an error is a GameError, optionally with one of the given codes
+ */
+export function isGameError(error: unknown, ...codes: ErrorType[]): error is GameError {
+  return error instanceof GameError && (codes.length === 0 || codes.includes(error.code));
+}
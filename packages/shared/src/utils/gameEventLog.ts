@@ -0,0 +1,99 @@
+import { Game, GameEvent, GameRound, Player, PlayerAnswer, Vote } from '../types';
+
+/**
+ * A game rebuilt from its event log, with every event up to `seq` applied
+ */
+export interface GameLogState {
+  seq: number;
+  game: Game | null;
+  players: Player[];
+  rounds: GameRound[];
+  answers: PlayerAnswer[];
+  votes: Vote[];
+}
+
+// Missing events, to fetch by range: seq after < n <= through
+export interface GameLogGap {
+  after: number;
+  through: number;
+}
+
+/**
+ * State before the first event
+ */
+export function createGameLogState(): GameLogState {
+  return { seq: 0, game: null, players: [], rounds: [], answers: [], votes: [] };
+}
+
+function upsert<T extends { id: string }>(rows: T[], row: T): T[] {
+  return rows.some((r) => r.id === row.id) ? rows.map((r) => (r.id === row.id ? row : r)) : [...rows, row];
+}
+
+// Payloads are whole rows, so every event is an upsert (or a removal)
+function reduce(state: GameLogState, event: GameEvent): GameLogState {
+  switch (event.type) {
+    case 'game_updated':
+      return { ...state, game: event.payload };
+    case 'player_joined':
+    case 'player_updated':
+      return { ...state, players: upsert(state.players, event.payload) };
+    case 'player_left':
+      return { ...state, players: state.players.filter((p) => p.id !== event.payload.id) };
+    case 'round_started':
+    case 'round_updated': {
+      const { question, ...round } = event.payload;
+      return { ...state, rounds: upsert(state.rounds, { ...round, question: question ?? undefined }) };
+    }
+    case 'answer_submitted':
+      return { ...state, answers: upsert(state.answers, event.payload) };
+    case 'answer_removed':
+      // Votes for it go with it (ON DELETE CASCADE)
+      return {
+        ...state,
+        answers: state.answers.filter((a) => a.id !== event.payload.id),
+        votes: state.votes.filter((v) => v.answer_id !== event.payload.id),
+      };
+    case 'vote_submitted':
+      return { ...state, votes: upsert(state.votes, event.payload) };
+    default:
+      return state; // Event types from a newer server
+  }
+}
+
+/**
+ * Apply the events that continue the log (seq + 1, seq + 2, ...) in order.
+ * Ones already applied are dropped; ones after a gap come back as pending.
+ */
+export function applyGameEvents(
+  state: GameLogState,
+  events: GameEvent[]
+): { state: GameLogState; pending: GameEvent[] } {
+  const bySeq = new Map(events.filter((e) => e.seq > state.seq).map((e) => [e.seq, e]));
+
+  let next = state;
+  while (bySeq.has(next.seq + 1)) {
+    const event = bySeq.get(next.seq + 1)!;
+    bySeq.delete(event.seq);
+    next = { ...reduce(next, event), seq: event.seq };
+  }
+
+  return { state: next, pending: Array.from(bySeq.values()).sort((a, b) => a.seq - b.seq) };
+}
+
+/**
+ * The range missing before the earliest pending event, null if nothing is waiting
+ */
+export function findGameLogGap(state: GameLogState, pending: GameEvent[]): GameLogGap | null {
+  const waiting = pending.filter((e) => e.seq > state.seq);
+  if (waiting.length === 0) return null;
+
+  return { after: state.seq, through: Math.min(...waiting.map((e) => e.seq)) - 1 };
+}
+
+/**
+ * The round the game is on (none before the first round starts)
+ */
+export function getLoggedCurrentRound(state: GameLogState): GameRound | null {
+  if (!state.game?.current_round) return null;
+  return state.rounds.find((r) => r.round_number === state.game!.current_round) ?? null;
+}
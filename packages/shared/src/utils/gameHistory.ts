@@ -0,0 +1,105 @@
+import {
+  AnswerLike,
+  AudienceVote,
+  Player,
+  PlayerAnswer,
+  Question,
+  RoundResult,
+  ScoreResult,
+  ScoringRules,
+  Vote,
+} from '../types';
+import { calculateRoundScores, aggregateScores, getFooledRelationships } from './scoring';
+import { groupDuplicateAnswers, isCorrectAnswerText } from './answerMatching';
+
+// Raw round rows returned by the get_game_replay RPC
+export interface RoundReplayData {
+  id: string;
+  round_number: number;
+  multiplier: number;
+  question: Pick<Question, 'question_text' | 'correct_answer' | 'accepted_answers'>;
+  answers: PlayerAnswer[];
+  votes: Vote[];
+  likes: AnswerLike[];
+  audience_votes: AudienceVote[];
+  scores?: ScoreResult[]; // score_ledger rows, empty for rounds scored before the ledger
+}
+
+/**
+ * Rebuild a round's result (who wrote what, who voted for what, points) from its raw rows
+ */
+export function buildRoundResult(
+  round: RoundReplayData,
+  players: Player[],
+  rules: ScoringRules
+): RoundResult {
+  const nameOf = (playerId: string) =>
+    players.find((p) => p.id === playerId)?.user_name ?? '؟';
+
+  // Points as the server handed them out; older rounds are rescored with the same inputs
+  const scores = round.scores?.length
+    ? round.scores
+    : calculateRoundScores(round.answers, round.votes, {
+        question: round.question,
+        rules,
+        multiplier: round.multiplier,
+        likes: round.likes,
+        audienceVotes: round.audience_votes,
+        playerTeams: new Map(players.map((p) => [p.id, p.team])),
+      });
+  const totals = aggregateScores(scores);
+
+  const groups = groupDuplicateAnswers(round.answers);
+  const votersOf = (group: PlayerAnswer[]) => {
+    const answerIds = new Set(group.map((a) => a.id));
+    return round.votes.filter((v) => answerIds.has(v.answer_id)).map((v) => nameOf(v.voter_id));
+  };
+  const isCorrectGroup = ([answer]: PlayerAnswer[]) =>
+    answer.is_correct || isCorrectAnswerText(answer.answer_text, round.question);
+
+  const playerAnswers = groups
+    .filter((group) => !isCorrectGroup(group))
+    .flatMap((group) =>
+      group
+        .filter((answer): answer is PlayerAnswer & { player_id: string } => !!answer.player_id)
+        .map((answer) => {
+          const votedBy = votersOf(group);
+          return {
+            player_name: nameOf(answer.player_id),
+            answer: answer.answer_text,
+            votes_received: votedBy.length,
+            points_earned: totals.get(answer.player_id) ?? 0,
+            voted_by: votedBy,
+          };
+        })
+    );
+
+  const reasonsByPlayer = new Map<string, ScoreResult['reason'][]>();
+  scores.forEach(({ player_id, reason }) => {
+    const reasons = reasonsByPlayer.get(player_id) || [];
+    if (!reasons.includes(reason)) reasons.push(reason);
+    reasonsByPlayer.set(player_id, reasons);
+  });
+
+  return {
+    round_number: round.round_number,
+    question: round.question.question_text,
+    correct_answer: round.question.correct_answer,
+    multiplier: round.multiplier,
+    player_answers: playerAnswers,
+    correct_voters: groups.filter(isCorrectGroup).flatMap(votersOf),
+    fooled_by: getFooledRelationships(round.answers, round.votes, { question: round.question }).map(
+      ({ fooler_id, fooled_ids }) => ({
+        fooler: nameOf(fooler_id),
+        fooled: fooled_ids.map(nameOf),
+      })
+    ),
+    scores: Array.from(totals.entries())
+      .map(([playerId, points]) => ({
+        player_name: nameOf(playerId),
+        points_earned: points,
+        reasons: reasonsByPlayer.get(playerId) || [],
+      }))
+      .sort((a, b) => b.points_earned - a.points_earned),
+  };
+}
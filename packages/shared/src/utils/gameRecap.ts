@@ -0,0 +1,104 @@
+import { GameRecap, Player } from '../types';
+import { getFooledRelationships } from './scoring';
+import { groupDuplicateAnswers, isCorrectAnswerText } from './answerMatching';
+import { RoundReplayData } from './gameHistory';
+import { translate } from './i18n';
+
+/**
+ * Build the end-of-game recap: winner, best lie, most gullible player and per-round highlights
+ */
+export function buildGameRecap(
+  game: GameRecap['game'],
+  players: Player[],
+  rounds: RoundReplayData[]
+): GameRecap {
+  const contestants = players.filter((p) => p.role === 'player');
+  const nameOf = (playerId: string) =>
+    players.find((p) => p.id === playerId)?.user_name ?? '؟';
+
+  const [winner] = [...contestants].sort((a, b) => b.score - a.score);
+  const timesFooled = new Map<string, number>();
+  let bestLie: GameRecap['best_lie'] = null;
+
+  const highlights = rounds.map((round) => {
+    const question = round.question;
+    const relationships = getFooledRelationships(round.answers, round.votes, { question });
+
+    // A voter is fooled at most once per round, even if the fake had several authors
+    const fooledThisRound = new Set(relationships.flatMap((r) => r.fooled_ids));
+    fooledThisRound.forEach((voterId) => {
+      timesFooled.set(voterId, (timesFooled.get(voterId) || 0) + 1);
+    });
+
+    const [topFooler] = [...relationships].sort((a, b) => b.fooled_ids.length - a.fooled_ids.length);
+
+    groupDuplicateAnswers(round.answers)
+      .filter(([a]) => !a.is_correct && !isCorrectAnswerText(a.answer_text, question))
+      .forEach((group) => {
+        const answerIds = new Set(group.map((a) => a.id));
+        const fooledCount = round.votes.filter((v) => answerIds.has(v.answer_id)).length;
+
+        if (fooledCount > 0 && (!bestLie || fooledCount > bestLie.fooled_count)) {
+          bestLie = {
+            player_names: group
+              .map((a) => a.player_id)
+              .filter((id): id is string => !!id)
+              .map(nameOf),
+            answer: group[0].answer_text,
+            question: question.question_text,
+            round_number: round.round_number,
+            fooled_count: fooledCount,
+          };
+        }
+      });
+
+    const correctIds = new Set(round.answers.filter((a) => a.is_correct).map((a) => a.id));
+
+    return {
+      round_number: round.round_number,
+      question: question.question_text,
+      correct_answer: question.correct_answer,
+      top_fooler: topFooler ? nameOf(topFooler.fooler_id) : null,
+      fooled_count: topFooler?.fooled_ids.length ?? 0,
+      correct_count: round.votes.filter((v) => correctIds.has(v.answer_id)).length,
+    };
+  });
+
+  const [gullible] = Array.from(timesFooled.entries()).sort((a, b) => b[1] - a[1]);
+
+  return {
+    game,
+    winner: winner ? { player_name: winner.user_name, score: winner.score } : null,
+    best_lie: bestLie,
+    most_gullible: gullible ? { player_name: nameOf(gullible[0]), times_fooled: gullible[1] } : null,
+    highlights,
+  };
+}
+
+/**
+ * Public link to a game's recap page
+ */
+export function getRecapUrl(baseUrl: string, gameId: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/recap/${gameId}`;
+}
+
+/**
+ * Plain-text recap for share sheets and chat apps
+ */
+export function formatRecapMessage(recap: GameRecap): string {
+  const lines = [`🎭 ${translate('RECAP_TITLE')}`];
+
+  if (recap.winner) {
+    lines.push(translate('RECAP_WINNER_LINE', { name: recap.winner.player_name, score: recap.winner.score }));
+  }
+  if (recap.best_lie) {
+    lines.push(
+      translate('RECAP_BEST_LIE_LINE', { answer: recap.best_lie.answer, count: recap.best_lie.fooled_count })
+    );
+  }
+  if (recap.most_gullible) {
+    lines.push(translate('MOST_GULLIBLE', { name: recap.most_gullible.player_name }));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,116 @@
+import { ErrorDetails, ErrorType, GameError, Locale, ScoreEvent, TeamId, TextDirection } from '../types';
+import { DEFAULT_LOCALE, ERROR_MESSAGES, LANGUAGES, SCORE_REASONS, TEAM_NAMES, TextKey, UI_TEXT } from '../constants/text';
+
+const LOCALE_KEY = 'fibbage_locale';
+
+export type TranslateParams = Record<string, string | number>;
+
+let activeLocale: Locale = readStoredLocale() ?? DEFAULT_LOCALE;
+let localeChosen = readStoredLocale() !== null;
+
+function readStoredLocale(): Locale | null {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(LOCALE_KEY) : null;
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a value is one of the supported locales
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in LANGUAGES;
+}
+
+/**
+ * The UI language in use
+ */
+export function getLocale(): Locale {
+  return activeLocale;
+}
+
+/**
+ * Switch the UI language. persist marks it as the user's own choice and saves it
+ * to localStorage where available; pass false for automatic switches.
+ */
+export function setLocale(locale: Locale, persist: boolean = true): void {
+  activeLocale = locale;
+  if (!persist) return;
+
+  localeChosen = true;
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch {
+    // No localStorage (React Native): the app persists the choice itself
+  }
+}
+
+/**
+ * Whether the user picked a language on this device (otherwise games may pick for them)
+ */
+export function hasLocalePreference(): boolean {
+  return localeChosen;
+}
+
+/**
+ * Look up a UI string and fill in its {placeholders}
+ */
+export function translate(key: TextKey, params?: TranslateParams, locale: Locale = activeLocale): string {
+  return fillParams(UI_TEXT[locale][key] ?? UI_TEXT[DEFAULT_LOCALE][key], params);
+}
+
+function fillParams(text: string, params?: TranslateParams | ErrorDetails): string {
+  if (!params) return text;
+
+  const values = params as Record<string, string | number | undefined>;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] !== undefined ? String(values[name]) : match
+  );
+}
+
+/**
+ * User-facing message for an error code
+ */
+export function getErrorMessage(code: ErrorType, details?: ErrorDetails, locale: Locale = activeLocale): string {
+  return fillParams(ERROR_MESSAGES[locale][code] ?? ERROR_MESSAGES[locale][ErrorType.UNKNOWN], details);
+}
+
+/**
+ * User-facing message for anything caught in a try/catch
+ */
+export function formatError(error: unknown, locale: Locale = activeLocale): string {
+  if (error instanceof GameError) {
+    return getErrorMessage(error.code, error.details, locale);
+  }
+  return getErrorMessage(ErrorType.UNKNOWN, undefined, locale);
+}
+
+/**
+ * Writing direction of a locale
+ */
+export function getTextDirection(locale: Locale = activeLocale): TextDirection {
+  return LANGUAGES[locale].direction;
+}
+
+/**
+ * Display name of a team in a locale
+ */
+export function getTeamName(teamId: TeamId, locale: Locale = activeLocale): string {
+  return TEAM_NAMES[locale][teamId];
+}
+
+/**
+ * Label for a score event ("fooled Sara, Omar"), the plain reason when no one is named
+ */
+export function getScoreReasonLabel(
+  event: Pick<ScoreEvent, 'reason'> & { fooled_names?: string[] },
+  locale: Locale = activeLocale
+): string {
+  if (event.reason === 'fooled_players' && event.fooled_names?.length) {
+    const names = event.fooled_names.join(locale === 'ar' ? '، ' : ', ');
+    return translate('FOOLED_PLAYERS_NAMED', { names }, locale);
+  }
+  return SCORE_REASONS[locale][event.reason];
+}
@@ -0,0 +1,244 @@
+import { GAME_CONFIG } from '../constants/game';
+import {
+  Question,
+  QuestionFileFormat,
+  QuestionImportError,
+  QuestionImportResult,
+  QuestionImportRow,
+} from '../types';
+import { sanitizeText } from './validation';
+
+export const QUESTION_FILE_COLUMNS: (keyof QuestionImportRow)[] = [
+  'question_text',
+  'correct_answer',
+  'accepted_answers',
+  'category',
+  'difficulty',
+  'language',
+];
+
+const DIFFICULTIES: Question['difficulty'][] = ['easy', 'medium', 'hard'];
+const LANGUAGES: Question['language'][] = ['ar', 'en'];
+
+// Separator for multiple accepted answers inside a single CSV cell
+const ACCEPTED_ANSWERS_SEPARATOR = '|';
+
+/**
+ * Splits CSV text into records, honouring quoted fields with commas,
+ * escaped quotes ("") and line breaks
+ */
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM added by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Validates and normalizes a raw row, collecting errors instead of throwing
+ */
+function validateRow(
+  raw: Record<string, unknown>,
+  row: number,
+  defaults: Partial<QuestionImportRow>,
+  errors: QuestionImportError[]
+): QuestionImportRow | null {
+  const text = (value: unknown) => (typeof value === 'string' ? sanitizeText(value) : '');
+  const startingErrors = errors.length;
+
+  const question_text = text(raw.question_text);
+  const correct_answer = text(raw.correct_answer);
+  const accepted_answers = (
+    Array.isArray(raw.accepted_answers)
+      ? raw.accepted_answers
+      : text(raw.accepted_answers).split(ACCEPTED_ANSWERS_SEPARATOR)
+  )
+    .map(text)
+    .filter(Boolean);
+  const category = text(raw.category) || defaults.category || null;
+  const difficulty = (text(raw.difficulty).toLowerCase() || defaults.difficulty || 'medium') as Question['difficulty'];
+  const language = (text(raw.language).toLowerCase() || defaults.language || 'ar') as Question['language'];
+
+  if (!question_text) {
+    errors.push({ row, field: 'question_text', message: 'نص السؤال مطلوب' });
+  } else if (question_text.length > GAME_CONFIG.MAX_QUESTION_LENGTH) {
+    errors.push({ row, field: 'question_text', message: 'نص السؤال طويل جداً' });
+  }
+
+  if (!correct_answer) {
+    errors.push({ row, field: 'correct_answer', message: 'الإجابة الصحيحة مطلوبة' });
+  } else if (correct_answer.length > GAME_CONFIG.MAX_ANSWER_LENGTH) {
+    errors.push({ row, field: 'correct_answer', message: 'الإجابة الصحيحة طويلة جداً' });
+  }
+
+  if (accepted_answers.some((answer) => answer.length > GAME_CONFIG.MAX_ANSWER_LENGTH)) {
+    errors.push({ row, field: 'accepted_answers', message: 'إحدى الإجابات المقبولة طويلة جداً' });
+  }
+
+  if (category && category.length > 50) {
+    errors.push({ row, field: 'category', message: 'التصنيف طويل جداً' });
+  }
+
+  if (!DIFFICULTIES.includes(difficulty)) {
+    errors.push({ row, field: 'difficulty', message: `الصعوبة يجب أن تكون: ${DIFFICULTIES.join(', ')}` });
+  }
+
+  if (!LANGUAGES.includes(language)) {
+    errors.push({ row, field: 'language', message: `اللغة يجب أن تكون: ${LANGUAGES.join(', ')}` });
+  }
+
+  if (errors.length > startingErrors) {
+    return null;
+  }
+
+  return { question_text, correct_answer, accepted_answers, category, difficulty, language };
+}
+
+/**
+ * Key used to detect duplicate questions (case and whitespace insensitive)
+ */
+export function getQuestionDuplicateKey(questionText: string): string {
+  return sanitizeText(questionText).toLowerCase();
+}
+
+/**
+ * Parses an uploaded CSV or JSON question file with per-row validation.
+ * Rows duplicating an earlier row or one of `existingQuestions` are reported
+ * and left out of `rows`.
+ */
+export function parseQuestionFile(
+  content: string,
+  format: QuestionFileFormat,
+  options: {
+    defaults?: Partial<QuestionImportRow>;
+    existingQuestions?: Pick<Question, 'question_text'>[];
+  } = {}
+): QuestionImportResult {
+  const result: QuestionImportResult = { rows: [], errors: [], duplicates: [] };
+  let rawRows: Record<string, unknown>[];
+
+  if (format === 'json') {
+    try {
+      const parsed = JSON.parse(content);
+      const list = Array.isArray(parsed) ? parsed : parsed?.questions;
+
+      if (!Array.isArray(list)) {
+        result.errors.push({ row: 0, field: null, message: 'يجب أن يحتوي الملف على قائمة أسئلة' });
+        return result;
+      }
+
+      rawRows = list.map((item) => (item && typeof item === 'object' ? item : {}));
+    } catch {
+      result.errors.push({ row: 0, field: null, message: 'ملف JSON غير صالح' });
+      return result;
+    }
+  } else {
+    const [header, ...records] = parseCsvRecords(content);
+    const columns = (header || []).map((column) => column.trim().toLowerCase());
+
+    const missing = (['question_text', 'correct_answer'] as const).filter(
+      (column) => !columns.includes(column)
+    );
+    if (missing.length > 0) {
+      result.errors.push({ row: 0, field: null, message: `أعمدة مفقودة: ${missing.join(', ')}` });
+      return result;
+    }
+
+    rawRows = records.map((record) =>
+      Object.fromEntries(columns.map((column, index) => [column, record[index] ?? '']))
+    );
+  }
+
+  const seen = new Set(
+    (options.existingQuestions || []).map((q) => getQuestionDuplicateKey(q.question_text))
+  );
+
+  rawRows.forEach((raw, index) => {
+    const row = index + 1;
+    const validRow = validateRow(raw, row, options.defaults || {}, result.errors);
+    if (!validRow) return;
+
+    const key = getQuestionDuplicateKey(validRow.question_text);
+    if (seen.has(key)) {
+      result.duplicates.push({ row, question_text: validRow.question_text });
+      return;
+    }
+
+    seen.add(key);
+    result.rows.push(validRow);
+  });
+
+  return result;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes questions to CSV or JSON using the import column layout
+ */
+export function exportQuestions(
+  questions: QuestionImportRow[],
+  format: QuestionFileFormat
+): string {
+  const rows = questions.map((question) =>
+    Object.fromEntries(QUESTION_FILE_COLUMNS.map((column) => [column, question[column] ?? '']))
+  );
+
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  const toCell = (value: unknown) =>
+    escapeCsvField(Array.isArray(value) ? value.join(ACCEPTED_ANSWERS_SEPARATOR) : String(value));
+
+  const lines = [
+    QUESTION_FILE_COLUMNS.join(','),
+    ...rows.map((row) => QUESTION_FILE_COLUMNS.map((column) => toCell(row[column])).join(',')),
+  ];
+
+  return lines.join('\n');
+}
@@ -0,0 +1,138 @@
+import { GAME_CONFIG } from '../constants/game';
+import {
+  BroadcastEvent,
+  BroadcastEventType,
+  BroadcastMessage,
+  GameRound,
+  Question,
+  RoundControlAction,
+  RoundStatus,
+} from '../types';
+
+// Why a received broadcast was dropped
+export type BroadcastRejection = 'unknown_event' | 'newer_major' | 'invalid_payload';
+
+export type DecodedBroadcast =
+  | { ok: true; event: BroadcastEvent; version: number }
+  | { ok: false; reason: BroadcastRejection; version: number };
+
+type Fields = Record<string, unknown>;
+
+const ROUND_STATUSES: RoundStatus[] = ['pending', 'choosing', 'answering', 'voting', 'completed'];
+const ROUND_CONTROL_ACTIONS: RoundControlAction[] = ['paused', 'resumed', 'extended', 'skipped', 'category_chosen'];
+
+function isFields(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+  return typeof value === 'string' && (options as readonly string[]).includes(value);
+}
+
+function isRound(value: unknown): value is GameRound {
+  return isFields(value) && isString(value.id) && isOneOf(value.status, ROUND_STATUSES);
+}
+
+function isQuestion(value: unknown): value is Question {
+  return isFields(value) && isString(value.id) && typeof value.question_text === 'string';
+}
+
+// One parser per event type: returns the event built from the fields it knows, null if they don't check out
+const PARSERS: { [K in BroadcastEventType]: (data: Fields) => Extract<BroadcastEvent, { type: K }> | null } = {
+  timer_sync: (data) =>
+    isString(data.round_id) &&
+    typeof data.time_remaining === 'number' &&
+    typeof data.timer_active === 'boolean' &&
+    isString(data.server_time)
+      ? {
+          type: 'timer_sync',
+          round_id: data.round_id,
+          time_remaining: data.time_remaining,
+          timer_active: data.timer_active,
+          server_time: data.server_time,
+        }
+      : null,
+
+  round_transition: (data) =>
+    isString(data.round_id) && isOneOf(data.status, ROUND_STATUSES)
+      ? { type: 'round_transition', round_id: data.round_id, status: data.status }
+      : null,
+
+  round_control: (data) => {
+    if (!isOneOf(data.action, ROUND_CONTROL_ACTIONS) || !isRound(data.round)) return null;
+    if (data.question !== undefined && data.question !== null && !isQuestion(data.question)) return null;
+    return {
+      type: 'round_control',
+      action: data.action,
+      round: data.round,
+      question: isQuestion(data.question) ? data.question : undefined,
+    };
+  },
+
+  captain_promoted: (data) =>
+    isString(data.new_captain_id) && isString(data.old_captain_id)
+      ? { type: 'captain_promoted', new_captain_id: data.new_captain_id, old_captain_id: data.old_captain_id }
+      : null,
+
+  heartbeat: (data) =>
+    typeof data.timestamp === 'number' ? { type: 'heartbeat', timestamp: data.timestamp } : null,
+};
+
+// Payloads from builds before the protocol was versioned (no "v"), renamed to the current fields
+const LEGACY_FIELDS: Partial<Record<BroadcastEventType, (data: Fields) => Fields>> = {
+  round_transition: ({ roundId, ...rest }) => ({ ...rest, round_id: roundId }),
+};
+
+// The old names of renamed fields, sent alongside the current ones for builds before versioning
+const LEGACY_ALIASES: Partial<Record<BroadcastEventType, (event: BroadcastEvent) => Fields>> = {
+  round_transition: (event) => (event.type === 'round_transition' ? { roundId: event.round_id } : {}),
+};
+
+function isKnownEvent(name: string): name is BroadcastEventType {
+  return Object.prototype.hasOwnProperty.call(PARSERS, name);
+}
+
+/**
+ * Wrap an event for sending: tagged with this build's protocol version and major version
+ */
+export function encodeBroadcast(event: BroadcastEvent): BroadcastMessage {
+  return {
+    ...LEGACY_ALIASES[event.type]?.(event),
+    ...event,
+    v: GAME_CONFIG.REALTIME_PROTOCOL_VERSION,
+    major: GAME_CONFIG.REALTIME_PROTOCOL_MAJOR,
+  };
+}
+
+/**
+ * Validate a received broadcast. Messages from older builds are upgraded and ones
+ * from newer minor versions are read for the fields this build knows; unknown
+ * events and newer major versions are rejected so the caller can ignore them
+ * (postgres changes still deliver the state, just a little later).
+ */
+export function decodeBroadcast(name: string, payload: unknown): DecodedBroadcast {
+  if (!isFields(payload)) {
+    return { ok: false, reason: 'invalid_payload', version: 0 };
+  }
+
+  const version = typeof payload.v === 'number' ? payload.v : 0;
+  // Version 1 was sent before the major version was, and was major 1
+  const major = typeof payload.major === 'number' ? payload.major : Math.min(version, 1);
+
+  if (!isKnownEvent(name)) {
+    return { ok: false, reason: 'unknown_event', version };
+  }
+
+  if (major > GAME_CONFIG.REALTIME_PROTOCOL_MAJOR) {
+    return { ok: false, reason: 'newer_major', version };
+  }
+
+  const upgrade = version === 0 ? LEGACY_FIELDS[name] : undefined;
+  const event = PARSERS[name](upgrade ? upgrade(payload) : payload);
+
+  return event ? { ok: true, event, version } : { ok: false, reason: 'invalid_payload', version };
+}
@@ -0,0 +1,29 @@
+import { GameRound } from '../types';
+import { GAME_CONFIG } from '../constants/game';
+
+/**
+ * Seconds left on a round's timer, frozen at paused_at while the host has it paused
+ */
+export function getRoundTimeRemaining(
+  round: Pick<GameRound, 'timer_starts_at' | 'timer_duration' | 'paused_at'>,
+  now: number = Date.now()
+): number {
+  const startTime = round.timer_starts_at ? new Date(round.timer_starts_at).getTime() : now;
+  const endTime = round.paused_at ? new Date(round.paused_at).getTime() : now;
+  const elapsed = Math.floor((endTime - startTime) / 1000);
+  return Math.max(0, round.timer_duration - elapsed);
+}
+
+/**
+ * Whether the host has paused the round
+ */
+export function isRoundPaused(round: Pick<GameRound, 'paused_at'> | null | undefined): boolean {
+  return !!round?.paused_at;
+}
+
+/**
+ * Whether the round has no timer and waits for everyone (the game's untimed mode)
+ */
+export function isUntimedRound(round: Pick<GameRound, 'timer_duration'> | null | undefined): boolean {
+  return round?.timer_duration === GAME_CONFIG.NO_TIMER;
+}
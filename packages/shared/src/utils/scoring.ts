@@ -1,14 +1,76 @@
-import { GAME_CONFIG } from '../constants/game';
-import { PlayerAnswer, Vote, ScoreResult } from '../types';
+import { DEFAULT_SCORING_RULES, GAME_CONFIG } from '../constants/game';
+import {
+  PlayerAnswer,
+  Vote,
+  ScoreResult,
+  Question,
+  ScoringRules,
+  Game,
+  AnswerLike,
+  AudienceVote,
+  TeamId,
+  Player,
+  RoundScoreBreakdown,
+} from '../types';
+import { isCorrectAnswerText, groupDuplicateAnswers } from './answerMatching';
+import { isSameTeam } from './teams';
+
+export interface ScoringOptions {
+  // Round question; fakes normalizing to its correct/accepted answers are credited as correct
+  question?: Pick<Question, 'correct_answer' | 'accepted_answers'>;
+  // Game's scoring rules (defaults to DEFAULT_SCORING_RULES)
+  rules?: ScoringRules;
+  // Round points multiplier (GameRound.multiplier, defaults to 1)
+  multiplier?: number;
+  // Audience likes; each gives the fake's authors rules.per_like
+  likes?: AnswerLike[];
+  // Audience votes; the most picked fake earns rules.audience_favorite_bonus
+  audienceVotes?: AudienceVote[];
+  // Team mode: player_id -> team. Votes from an author's teammates don't earn fooled points
+  playerTeams?: Map<string, TeamId | null>;
+}
 
 /**
- * Calculate points earned in a round for each player
+ * Get the points multiplier for a round (final round and host-marked rounds)
+ */
+export function getRoundMultiplier(
+  game: Pick<Game, 'round_count' | 'scoring_rules' | 'multiplier_rounds'>,
+  roundNumber: number
+): number {
+  let multiplier = 1;
+
+  if (roundNumber === game.round_count) {
+    const rules = game.scoring_rules ?? DEFAULT_SCORING_RULES;
+    multiplier = Math.max(multiplier, rules.final_round_multiplier);
+  }
+
+  if (game.multiplier_rounds?.includes(roundNumber)) {
+    multiplier = Math.max(multiplier, GAME_CONFIG.MARKED_ROUND_MULTIPLIER);
+  }
+
+  return Math.min(multiplier, GAME_CONFIG.MAX_ROUND_MULTIPLIER);
+}
+
+/**
+ * Calculate points earned in a round for each player. The server's
+ * calculate_and_update_scores is authoritative (score_ledger); this mirrors it
+ * for replays of rounds scored before the ledger; the parity tests run both on
+ * the same rounds.
  */
 export function calculateRoundScores(
   answers: PlayerAnswer[],
-  votes: Vote[]
+  votes: Vote[],
+  options: ScoringOptions = {}
 ): ScoreResult[] {
   const scores: ScoreResult[] = [];
+  const {
+    question,
+    rules = DEFAULT_SCORING_RULES,
+    multiplier = 1,
+    likes = [],
+    audienceVotes = [],
+    playerTeams,
+  } = options;
 
   // Create a map of answer_id -> votes
   const votesByAnswer = new Map<string, Vote[]>();
@@ -19,60 +81,163 @@ export function calculateRoundScores(
     votesByAnswer.get(vote.answer_id)!.push(vote);
   });
 
-  answers.forEach((answer) => {
-    const votesForAnswer = votesByAnswer.get(answer.id) || [];
+  // Duplicate fakes are scored as one card shared by all of its authors
+  groupDuplicateAnswers(answers).forEach((group) => {
+    const [answer] = group;
+    const votesForAnswer = group.flatMap((a) => votesByAnswer.get(a.id) || []);
     let points = 0;
     let reason: ScoreResult['reason'];
 
-    if (answer.is_correct) {
+    // A fake that is really the truth (e.g. "النيل" for "نيل") counts as correct
+    const isEffectivelyCorrect =
+      answer.is_correct || (!!question && isCorrectAnswerText(answer.answer_text, question));
+
+    if (isEffectivelyCorrect) {
       // This is the correct answer - players who voted for it get points
       votesForAnswer.forEach((vote) => {
         scores.push({
           player_id: vote.voter_id,
-          points_earned: GAME_CONFIG.POINTS.CORRECT_ANSWER,
+          points_earned: rules.correct_answer,
           reason: 'correct_answer',
         });
       });
     } else {
-      // This is a fake answer - player gets points for each vote
+      // This is a fake answer - authors get points for each vote
       // Skip system-inserted answers (player_id = null)
-      if (!answer.player_id) return;
-
-      points = votesForAnswer.length * GAME_CONFIG.POINTS.PER_FOOLED_PLAYER;
+      const authorIds = group.map((a) => a.player_id).filter((id): id is string => !!id);
+      if (authorIds.length === 0) return;
 
       // Bonus for perfect fake (nobody voted for it AND it wasn't correct)
       if (votesForAnswer.length === 0) {
-        points += GAME_CONFIG.POINTS.PERFECT_FAKE_BONUS;
+        points = rules.perfect_fake_bonus;
         reason = 'perfect_fake';
       } else {
         reason = 'fooled_players';
       }
 
-      if (points > 0) {
-        scores.push({
-          player_id: answer.player_id,
-          points_earned: points,
-          reason,
-        });
-      }
+      authorIds.forEach((authorId) => {
+        if (reason === 'fooled_players') {
+          // Teammates can't fool each other; points are split between authors of a merged duplicate
+          const fooledVotes = votesForAnswer.filter(
+            (vote) => !isSameTeam(playerTeams?.get(vote.voter_id), playerTeams?.get(authorId))
+          );
+          points = Math.round((fooledVotes.length * rules.per_fooled_player) / authorIds.length);
+        }
+
+        if (points > 0) {
+          scores.push({
+            player_id: authorId,
+            points_earned: points,
+            reason,
+          });
+        }
+      });
     }
   });
 
   // Find round winner (highest points in this round) and add bonus
-  if (scores.length > 0) {
-    const maxPoints = Math.max(...scores.map((s) => s.points_earned));
-    const winners = scores.filter((s) => s.points_earned === maxPoints);
+  const maxPoints = scores.length > 0 ? Math.max(...scores.map((s) => s.points_earned)) : 0;
+  if (maxPoints > 0) {
+    const winnerIds = new Set(
+      scores.filter((s) => s.points_earned === maxPoints).map((s) => s.player_id)
+    );
 
-    // Add bonus to winner(s)
-    winners.forEach((winner) => {
+    // Add bonus to winner(s), once per player
+    winnerIds.forEach((winnerId) => {
       scores.push({
-        player_id: winner.player_id,
-        points_earned: GAME_CONFIG.POINTS.ROUND_WINNER_BONUS,
+        player_id: winnerId,
+        points_earned: rules.round_winner_bonus,
         reason: 'round_winner',
       });
     });
   }
 
+  // Double (or triple) points rounds, bonuses included
+  const roundScores =
+    multiplier !== 1
+      ? scores.map((score) => ({ ...score, points_earned: score.points_earned * multiplier }))
+      : scores;
+
+  // Audience bonuses are separate: not multiplied, not counted for round winner
+  return [
+    ...roundScores,
+    ...calculateLikeScores(answers, likes, rules),
+    ...calculateAudienceFavoriteScores(answers, audienceVotes, rules),
+  ];
+}
+
+/**
+ * Calculate audience like bonuses (split between duplicate authors like fooled points)
+ */
+export function calculateLikeScores(
+  answers: PlayerAnswer[],
+  likes: AnswerLike[],
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): ScoreResult[] {
+  const scores: ScoreResult[] = [];
+  if (likes.length === 0) return scores;
+
+  groupDuplicateAnswers(answers)
+    .filter(([a]) => !a.is_correct)
+    .forEach((group) => {
+      const answerIds = new Set(group.map((a) => a.id));
+      const likeCount = likes.filter((like) => answerIds.has(like.answer_id)).length;
+      const authorIds = group.map((a) => a.player_id).filter((id): id is string => !!id);
+      if (likeCount === 0 || authorIds.length === 0) return;
+
+      const points = Math.round((likeCount * (rules.per_like ?? GAME_CONFIG.POINTS.PER_LIKE)) / authorIds.length);
+      authorIds.forEach((authorId) => {
+        scores.push({
+          player_id: authorId,
+          points_earned: points,
+          reason: 'audience_like',
+        });
+      });
+    });
+
+  return scores;
+}
+
+/**
+ * Calculate the audience favorite bonus (fake(s) with the most audience votes)
+ */
+export function calculateAudienceFavoriteScores(
+  answers: PlayerAnswer[],
+  audienceVotes: AudienceVote[],
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): ScoreResult[] {
+  const scores: ScoreResult[] = [];
+  if (audienceVotes.length === 0) return scores;
+
+  const fakeGroups = groupDuplicateAnswers(answers)
+    .filter(([a]) => !a.is_correct)
+    .map((group) => {
+      const answerIds = new Set(group.map((a) => a.id));
+      return {
+        authorIds: group.map((a) => a.player_id).filter((id): id is string => !!id),
+        voteCount: audienceVotes.filter((v) => answerIds.has(v.answer_id)).length,
+      };
+    })
+    .filter((group) => group.authorIds.length > 0);
+
+  const maxVotes = Math.max(0, ...fakeGroups.map((g) => g.voteCount));
+  if (maxVotes === 0) return scores;
+
+  // Ties all get the bonus; duplicate authors split it
+  const bonus = rules.audience_favorite_bonus ?? GAME_CONFIG.POINTS.AUDIENCE_FAVORITE_BONUS;
+  fakeGroups
+    .filter((group) => group.voteCount === maxVotes)
+    .forEach(({ authorIds }) => {
+      const points = Math.round(bonus / authorIds.length);
+      authorIds.forEach((authorId) => {
+        scores.push({
+          player_id: authorId,
+          points_earned: points,
+          reason: 'audience_favorite',
+        });
+      });
+    });
+
   return scores;
 }
 
@@ -97,20 +262,29 @@ export function aggregateScores(
  */
 export function getFooledRelationships(
   answers: PlayerAnswer[],
-  votes: Vote[]
+  votes: Vote[],
+  options: ScoringOptions = {}
 ): { fooler_id: string; fooled_ids: string[] }[] {
   const relationships: Map<string, Set<string>> = new Map();
+  const { question } = options;
 
-  answers
-    .filter((a) => !a.is_correct && a.player_id !== null)
-    .forEach((answer) => {
+  groupDuplicateAnswers(answers)
+    .filter(([a]) => !a.is_correct && a.player_id !== null)
+    .filter(([a]) => !question || !isCorrectAnswerText(a.answer_text, question))
+    .forEach((group) => {
+      const answerIds = new Set(group.map((a) => a.id));
       const fooledBy = votes
-        .filter((v) => v.answer_id === answer.id)
+        .filter((v) => answerIds.has(v.answer_id))
         .map((v) => v.voter_id);
 
-      if (fooledBy.length > 0 && answer.player_id) {
-        relationships.set(answer.player_id, new Set(fooledBy));
-      }
+      if (fooledBy.length === 0) return;
+
+      // Every author of a merged duplicate fooled the same voters
+      group.forEach((answer) => {
+        if (answer.player_id) {
+          relationships.set(answer.player_id, new Set(fooledBy));
+        }
+      });
     });
 
   return Array.from(relationships.entries()).map(([fooler_id, fooled_set]) => ({
@@ -118,3 +292,63 @@ export function getFooledRelationships(
     fooled_ids: Array.from(fooled_set),
   }));
 }
+
+// Order of the lines in a round breakdown
+const SCORE_REASON_ORDER: ScoreResult['reason'][] = [
+  'correct_answer',
+  'fooled_players',
+  'perfect_fake',
+  'round_winner',
+  'audience_like',
+  'audience_favorite',
+];
+
+/**
+ * Turn a round's score ledger into per-player breakdowns (highest total first),
+ * naming the voters each fake fooled. Zero-point entries are left out.
+ */
+export function buildRoundBreakdown(
+  scores: ScoreResult[],
+  answers: PlayerAnswer[],
+  votes: Vote[],
+  players: Pick<Player, 'id' | 'user_name' | 'team'>[]
+): RoundScoreBreakdown[] {
+  const playerOf = (playerId: string) => players.find((p) => p.id === playerId);
+  const nameOf = (playerId: string) => playerOf(playerId)?.user_name ?? '؟';
+  const fooledBy = new Map(
+    getFooledRelationships(answers, votes).map(({ fooler_id, fooled_ids }) => [fooler_id, fooled_ids])
+  );
+
+  const breakdowns = new Map<string, RoundScoreBreakdown>();
+  scores
+    .filter((score) => score.points_earned !== 0)
+    .forEach(({ player_id, points_earned, reason }) => {
+      const breakdown = breakdowns.get(player_id) ?? {
+        player_id,
+        player_name: nameOf(player_id),
+        total: 0,
+        events: [],
+      };
+
+      // Teammates' votes earned nothing, so they aren't named
+      const fooledIds =
+        reason === 'fooled_players'
+          ? (fooledBy.get(player_id) ?? []).filter(
+              (voterId) => !isSameTeam(playerOf(voterId)?.team, playerOf(player_id)?.team)
+            )
+          : [];
+
+      breakdown.events.push({ player_id, points_earned, reason, fooled_names: fooledIds.map(nameOf) });
+      breakdown.total += points_earned;
+      breakdowns.set(player_id, breakdown);
+    });
+
+  return Array.from(breakdowns.values())
+    .map((breakdown) => ({
+      ...breakdown,
+      events: breakdown.events.sort(
+        (a, b) => SCORE_REASON_ORDER.indexOf(a.reason) - SCORE_REASON_ORDER.indexOf(b.reason)
+      ),
+    }))
+    .sort((a, b) => b.total - a.total);
+}
@@ -15,6 +15,7 @@ export interface GameSession {
 }
 
 const SESSION_KEY = 'fibbage_game_session';
+const DEVICE_ID_KEY = 'fibbage_device_id';
 const SESSION_EXPIRY_MS = 4 * 60 * 60 * 1000; // 4 hours
 
 /**
@@ -79,3 +80,21 @@ export function updateGameSession(updates: Partial<GameSession>): void {
     saveGameSession({ ...session, ...updates });
   }
 }
+
+/**
+ * Get this install's device ID (created on first use, survives leaving games)
+ * Used to enforce host bans and to avoid repeating questions; null if storage is unavailable
+ */
+export function getDeviceId(): string | null {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch (error) {
+    console.error('Failed to load device ID:', error);
+    return null;
+  }
+}
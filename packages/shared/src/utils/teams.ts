@@ -0,0 +1,97 @@
+import { TEAMS } from '../constants/game';
+import { Game, Player, PlayerAnswer, Team, TeamId } from '../types';
+import { getTeamName } from './i18n';
+
+/** Team with its name in the active UI language */
+const localizeTeam = (team: Team): Team => ({ ...team, name: getTeamName(team.id) });
+
+/**
+ * Get the teams in play for a game (empty when team mode is off)
+ */
+export function getGameTeams(game: Pick<Game, 'team_count'>): Team[] {
+  return TEAMS.slice(0, game.team_count || 0).map(localizeTeam);
+}
+
+/**
+ * Get a team by id
+ */
+export function getTeam(teamId: TeamId | null | undefined): Team | undefined {
+  const team = TEAMS.find((t) => t.id === teamId);
+  return team && localizeTeam(team);
+}
+
+/**
+ * Whether two team ids belong to the same team (players without a team are never teammates)
+ */
+export function isSameTeam(a: TeamId | null | undefined, b: TeamId | null | undefined): boolean {
+  return !!a && a === b;
+}
+
+/**
+ * Whether every author of an answer card is a teammate of the player (so they can't vote for it)
+ */
+export function isTeammateAnswer(
+  answer: PlayerAnswer,
+  players: Pick<Player, 'id' | 'team'>[],
+  playerId: string | undefined
+): boolean {
+  if (!playerId || answer.is_correct || !answer.player_id) return false;
+
+  const teamOf = (id: string) => players.find((p) => p.id === id)?.team ?? null;
+  const myTeam = teamOf(playerId);
+  const authorIds = answer.author_ids ?? [answer.player_id];
+
+  return authorIds.every((authorId) => authorId !== playerId && isSameTeam(teamOf(authorId), myTeam));
+}
+
+/**
+ * Spread players across teams as evenly as possible (random order)
+ */
+export function assignBalancedTeams(
+  players: Pick<Player, 'id'>[],
+  teamCount: number
+): Map<string, TeamId> {
+  const teams = TEAMS.slice(0, teamCount);
+  const shuffled = [...players].sort(() => Math.random() - 0.5);
+  const assignments = new Map<string, TeamId>();
+
+  shuffled.forEach((player, index) => {
+    assignments.set(player.id, teams[index % teams.length].id);
+  });
+
+  return assignments;
+}
+
+/**
+ * Pick the team with the fewest players (first team wins ties) for a newly joined player
+ */
+export function getSmallestTeam(
+  players: Pick<Player, 'team'>[],
+  teamCount: number
+): TeamId {
+  const teams = TEAMS.slice(0, teamCount);
+  const sizeOf = (teamId: TeamId) => players.filter((p) => p.team === teamId).length;
+
+  return teams.reduce((smallest, team) => (sizeOf(team.id) < sizeOf(smallest.id) ? team : smallest)).id;
+}
+
+/**
+ * Sum player scores per team, highest first
+ */
+export function aggregateTeamScores(
+  players: Player[],
+  teamCount: number
+): { team: Team; score: number; players: Player[]; rank: number }[] {
+  return TEAMS.slice(0, teamCount)
+    .map(localizeTeam)
+    .map((team) => {
+      const members = players.filter((p) => p.team === team.id);
+      return {
+        team,
+        players: members,
+        score: members.reduce((sum, p) => sum + p.score, 0),
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
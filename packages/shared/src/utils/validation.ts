@@ -1,5 +1,6 @@
 import { GAME_CONFIG } from '../constants/game';
-import { ErrorType, GameError } from '../types';
+import { ContentFilterLevel, ErrorType, GameError, Locale, QuestionDifficulty, ScoringRules } from '../types';
+import { isLocale } from './i18n';
 
 /**
  * Validates game code format
@@ -13,16 +14,19 @@ export function validateGameCode(code: string): boolean {
   return code.split('').every((char) => validChars.has(char.toUpperCase()));
 }
 
+const NAME_LENGTH = { min: GAME_CONFIG.MIN_PLAYER_NAME_LENGTH, max: GAME_CONFIG.MAX_PLAYER_NAME_LENGTH };
+const ANSWER_LENGTH = { min: GAME_CONFIG.MIN_ANSWER_LENGTH, max: GAME_CONFIG.MAX_ANSWER_LENGTH };
+
 /**
  * Validates player name
  */
 export function validatePlayerName(name: string): void {
   if (!name || name.trim().length < GAME_CONFIG.MIN_PLAYER_NAME_LENGTH) {
-    throw new GameError(ErrorType.INVALID_CODE, 'Name too short');
+    throw new GameError(ErrorType.INVALID_NAME, 'Name too short', NAME_LENGTH);
   }
 
   if (name.length > GAME_CONFIG.MAX_PLAYER_NAME_LENGTH) {
-    throw new GameError(ErrorType.INVALID_CODE, 'Name too long');
+    throw new GameError(ErrorType.INVALID_NAME, 'Name too long', NAME_LENGTH);
   }
 }
 
@@ -31,11 +35,11 @@ export function validatePlayerName(name: string): void {
  */
 export function validateAnswer(answer: string): void {
   if (!answer || answer.trim().length < GAME_CONFIG.MIN_ANSWER_LENGTH) {
-    throw new GameError(ErrorType.ANSWER_TIMEOUT, 'Answer too short');
+    throw new GameError(ErrorType.INVALID_ANSWER, 'Answer too short', ANSWER_LENGTH);
   }
 
   if (answer.length > GAME_CONFIG.MAX_ANSWER_LENGTH) {
-    throw new GameError(ErrorType.ANSWER_TIMEOUT, 'Answer too long');
+    throw new GameError(ErrorType.INVALID_ANSWER, 'Answer too long', ANSWER_LENGTH);
   }
 }
 
@@ -45,20 +49,177 @@ export function validateAnswer(answer: string): void {
 export function validateGameSettings(settings: {
   roundCount: number;
   maxPlayers: number;
+  scoringRules?: ScoringRules;
+  multiplierRounds?: number[];
+  teamCount?: number;
+  contentFilter?: ContentFilterLevel;
+  answerTimer?: number;
+  votingTimer?: number;
+  questionCategories?: string[];
+  questionDifficulties?: QuestionDifficulty[];
+  language?: Locale;
 }): void {
   if (
     !GAME_CONFIG.ROUND_OPTIONS.includes(settings.roundCount as typeof GAME_CONFIG.ROUND_OPTIONS[number]) ||
     settings.roundCount < GAME_CONFIG.MIN_ROUNDS ||
     settings.roundCount > GAME_CONFIG.MAX_ROUNDS
   ) {
-    throw new GameError(ErrorType.INVALID_CODE, 'Invalid round count');
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid round count', { field: 'roundCount' });
   }
 
   if (
     settings.maxPlayers < GAME_CONFIG.MIN_PLAYERS ||
     settings.maxPlayers > GAME_CONFIG.MAX_PLAYERS
   ) {
-    throw new GameError(ErrorType.INVALID_CODE, 'Invalid max players');
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid max players', {
+      field: 'maxPlayers',
+      min: GAME_CONFIG.MIN_PLAYERS,
+      max: GAME_CONFIG.MAX_PLAYERS,
+    });
+  }
+
+  if (settings.scoringRules) {
+    validateScoringRules(settings.scoringRules);
+  }
+
+  if (
+    settings.multiplierRounds?.some(
+      (round) => !Number.isInteger(round) || round < 1 || round > settings.roundCount
+    )
+  ) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid multiplier rounds', { field: 'multiplierRounds' });
+  }
+
+  if (
+    settings.teamCount !== undefined &&
+    !GAME_CONFIG.TEAM_OPTIONS.includes(settings.teamCount as typeof GAME_CONFIG.TEAM_OPTIONS[number])
+  ) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid team count', { field: 'teamCount' });
+  }
+
+  if (
+    settings.contentFilter !== undefined &&
+    !GAME_CONFIG.CONTENT_FILTER_OPTIONS.includes(settings.contentFilter)
+  ) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid content filter', { field: 'contentFilter' });
+  }
+
+  if (
+    (settings.answerTimer !== undefined && !isValidPhaseTimer(settings.answerTimer)) ||
+    (settings.votingTimer !== undefined && !isValidPhaseTimer(settings.votingTimer))
+  ) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid timer', {
+      field: 'timer',
+      min: GAME_CONFIG.MIN_PHASE_TIMER,
+      max: GAME_CONFIG.MAX_PHASE_TIMER,
+    });
+  }
+
+  if (settings.questionCategories?.some((category) => !category.trim())) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid question categories', { field: 'questionCategories' });
+  }
+
+  if (
+    settings.questionDifficulties?.some(
+      (difficulty) => !GAME_CONFIG.DIFFICULTY_OPTIONS.includes(difficulty)
+    )
+  ) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid question difficulties', {
+      field: 'questionDifficulties',
+    });
+  }
+
+  if (settings.language !== undefined && !isLocale(settings.language)) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid language', { field: 'language' });
+  }
+}
+
+/**
+ * A phase timer is either off (NO_TIMER) or a whole number of seconds in range
+ */
+function isValidPhaseTimer(seconds: number): boolean {
+  return (
+    seconds === GAME_CONFIG.NO_TIMER ||
+    (Number.isInteger(seconds) &&
+      seconds >= GAME_CONFIG.MIN_PHASE_TIMER &&
+      seconds <= GAME_CONFIG.MAX_PHASE_TIMER)
+  );
+}
+
+/**
+ * Validates custom scoring rules
+ */
+export function validateScoringRules(rules: ScoringRules): void {
+  const points = [
+    rules.correct_answer,
+    rules.per_fooled_player,
+    rules.perfect_fake_bonus,
+    rules.round_winner_bonus,
+    rules.per_like ?? 0,
+    rules.audience_favorite_bonus ?? 0,
+  ];
+
+  if (points.some((value) => !Number.isInteger(value) || value < 0 || value > GAME_CONFIG.MAX_POINTS_VALUE)) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid scoring points', {
+      field: 'scoringRules',
+      min: 0,
+      max: GAME_CONFIG.MAX_POINTS_VALUE,
+    });
+  }
+
+  if (
+    !Number.isInteger(rules.final_round_multiplier) ||
+    rules.final_round_multiplier < 1 ||
+    rules.final_round_multiplier > GAME_CONFIG.MAX_ROUND_MULTIPLIER
+  ) {
+    throw new GameError(ErrorType.INVALID_SETTINGS, 'Invalid final round multiplier', {
+      field: 'finalRoundMultiplier',
+      min: 1,
+      max: GAME_CONFIG.MAX_ROUND_MULTIPLIER,
+    });
+  }
+}
+
+/**
+ * Validates a question pack title
+ */
+export function validatePackTitle(title: string): void {
+  if (!title || title.trim().length === 0) {
+    throw new GameError(ErrorType.INVALID_INPUT, 'Pack title is required', { field: 'title' });
+  }
+
+  if (title.length > GAME_CONFIG.MAX_PACK_TITLE_LENGTH) {
+    throw new GameError(ErrorType.INVALID_INPUT, 'Pack title too long', {
+      field: 'title',
+      max: GAME_CONFIG.MAX_PACK_TITLE_LENGTH,
+    });
+  }
+}
+
+/**
+ * Validates a question/answer pair authored by a host
+ */
+export function validateQuestionPair(questionText: string, correctAnswer: string): void {
+  if (!questionText || questionText.trim().length === 0) {
+    throw new GameError(ErrorType.INVALID_INPUT, 'Question text is required', { field: 'questionText' });
+  }
+
+  if (questionText.length > GAME_CONFIG.MAX_QUESTION_LENGTH) {
+    throw new GameError(ErrorType.INVALID_INPUT, 'Question text too long', {
+      field: 'questionText',
+      max: GAME_CONFIG.MAX_QUESTION_LENGTH,
+    });
+  }
+
+  if (!correctAnswer || correctAnswer.trim().length < GAME_CONFIG.MIN_ANSWER_LENGTH) {
+    throw new GameError(ErrorType.INVALID_INPUT, 'Correct answer is required', { field: 'correctAnswer' });
+  }
+
+  if (correctAnswer.length > GAME_CONFIG.MAX_ANSWER_LENGTH) {
+    throw new GameError(ErrorType.INVALID_INPUT, 'Correct answer too long', {
+      field: 'correctAnswer',
+      max: GAME_CONFIG.MAX_ANSWER_LENGTH,
+    });
   }
 }
 
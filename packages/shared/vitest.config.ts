@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // Services and stores log every step; VERBOSE_TESTS=1 shows them
+    onConsoleLog: () => (process.env.VERBOSE_TESTS ? undefined : false),
+  },
+});
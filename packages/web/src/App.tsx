@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { BrowserRouter, Routes, Route, Navigate, useNavigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
-import { initializeSupabase, useGameStore, useAuthStore } from '@fakash/shared';
+import { initializeSupabase, useGameStore, useAuthStore, useLocaleStore } from '@fakash/shared';
 
 // Pages
 import { Home } from './pages/Home';
@@ -14,6 +14,10 @@ import { GameDeepLink } from './pages/GameDeepLink';
 import { Results } from './pages/Results';
 import { PaymentCallback } from './pages/PaymentCallback';
 import { Profile } from './pages/Profile';
+import { QuestionPacks } from './pages/QuestionPacks';
+import { GameHistory } from './pages/GameHistory';
+import { GameReplay } from './pages/GameReplay';
+import { Recap } from './pages/Recap';
 
 // Components
 import { ProtectedRoute } from './components/ProtectedRoute';
@@ -21,8 +25,23 @@ import { ProtectedRoute } from './components/ProtectedRoute';
 function AppContent() {
   const navigate = useNavigate();
   const { checkSession } = useAuthStore();
+  const { locale, direction, t, followGameLanguage } = useLocaleStore();
+  const gameLanguage = useGameStore((state) => state.game?.language);
   const [isRehydrating, setIsRehydrating] = useState(true);
 
+  // Mirror the layout for the UI language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = direction;
+  }, [locale, direction]);
+
+  // Players who never picked a language see the game in its own
+  useEffect(() => {
+    if (gameLanguage) {
+      followGameLanguage(gameLanguage);
+    }
+  }, [gameLanguage, followGameLanguage]);
+
   useEffect(() => {
     // Initialize Supabase
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -72,7 +91,7 @@ function AppContent() {
       <div className="min-h-screen bg-gradient-primary flex items-center justify-center">
         <div className="text-center">
           <div className="w-16 h-16 border-4 border-white border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-white text-lg">جارٍ التحميل...</p>
+          <p className="text-white text-lg">{t('LOADING')}</p>
         </div>
       </div>
     );
@@ -90,6 +109,9 @@ function AppContent() {
 
         {/* Profile - requires authentication */}
         <Route path="/profile" element={<Profile />} />
+        <Route path="/packs" element={<QuestionPacks />} />
+        <Route path="/history" element={<GameHistory />} />
+        <Route path="/history/:gameId" element={<GameReplay />} />
 
         {/* Protected routes - require authentication */}
         <Route path="/payment/callback" element={<ProtectedRoute><PaymentCallback /></ProtectedRoute>} />
@@ -99,6 +121,7 @@ function AppContent() {
         <Route path="/game/:code" element={<GameDeepLink />} />
         <Route path="/game" element={<Game />} />
         <Route path="/results" element={<Results />} />
+        <Route path="/recap/:gameId" element={<Recap />} />
 
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
@@ -114,7 +137,7 @@ function AppContent() {
             border: '1px solid rgba(255, 255, 255, 0.2)',
             borderRadius: '16px',
             padding: '16px',
-            direction: 'rtl',
+            direction,
           },
         }}
       />
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useGameStore, useRoundStore, useLocaleStore, GameError, formatError, isRoundPaused } from '@fakash/shared';
+
+/**
+ * Category pick at the start of a round: the chooser gets the offered categories,
+ * everyone else waits. The phase captain picks at random once the timer runs out.
+ */
+export const CategoryPicker: React.FC = () => {
+  const { currentPlayer, players, isPhaseCaptain } = useGameStore();
+  const { currentRound, timeRemaining, timerActive, chooseCategory } = useRoundStore();
+  const t = useLocaleStore((state) => state.t);
+  const [isBusy, setIsBusy] = useState(false);
+  const autoPickedRoundRef = useRef<string | null>(null);
+
+  const isChooser = !!currentPlayer && currentPlayer.id === currentRound?.chooser_id;
+  const chooserName = players.find((p) => p.id === currentRound?.chooser_id)?.user_name;
+
+  // Chooser ran out of time (or left): the captain picks for them
+  useEffect(() => {
+    if (!currentRound || !isPhaseCaptain || isRoundPaused(currentRound)) return;
+    if (timerActive || timeRemaining > 0) return;
+    if (autoPickedRoundRef.current === currentRound.id) return;
+
+    autoPickedRoundRef.current = currentRound.id;
+    chooseCategory(null).catch((err) => {
+      console.error('Failed to auto-pick category:', err);
+      autoPickedRoundRef.current = null;
+    });
+  }, [currentRound, isPhaseCaptain, timerActive, timeRemaining, chooseCategory]);
+
+  if (!currentRound) {
+    return null;
+  }
+
+  const handlePick = async (category: string) => {
+    setIsBusy(true);
+    try {
+      await chooseCategory(category);
+    } catch (err) {
+      console.error('Failed to choose category:', err);
+      toast.error(err instanceof GameError ? formatError(err) : t('CHOOSE_CATEGORY_FAILED'));
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="text-center">
+      <div className="text-4xl sm:text-5xl mb-3">🗂️</div>
+      <h2 className="text-xl sm:text-2xl font-bold mb-2">
+        {isChooser ? t('CHOOSE_CATEGORY') : t('PLAYER_CHOOSING_CATEGORY', { name: chooserName ?? t('PLAYER') })}
+      </h2>
+      <p className="text-sm sm:text-base text-white/60 mb-6">
+        {isChooser ? t('CATEGORY_RANDOM_HINT') : t('GET_READY')}
+      </p>
+      <div className="grid gap-3">
+        {currentRound.category_options.map((category) => (
+          <button
+            key={category}
+            onClick={() => handlePick(category)}
+            disabled={!isChooser || isBusy}
+            className="p-4 rounded-2xl glass text-lg font-bold transition-all hover:bg-white/20 disabled:cursor-default disabled:hover:bg-transparent"
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
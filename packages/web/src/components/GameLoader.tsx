@@ -1,13 +1,5 @@
 import React, { useState, useEffect } from 'react';
-
-const LOADING_MESSAGES = [
-  '🎭 نجهز المسرح...',
-  '🃏 نخلط الأوراق...',
-  '✨ نصقل الأسئلة...',
-  '🎪 نرتب الكراسي...',
-  '🎯 نجهز التحديات...',
-  '🌟 لحظات وتبدأ المتعة...',
-];
+import { useLocaleStore, LOADING_MESSAGES } from '@fakash/shared';
 
 interface GameLoaderProps {
   message?: string;
@@ -22,6 +14,8 @@ export const GameLoader: React.FC<GameLoaderProps> = ({
   onRetry,
   minimal = false,
 }) => {
+  const { locale, t } = useLocaleStore();
+  const loadingMessages = LOADING_MESSAGES[locale];
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
   const [isVisible, setIsVisible] = useState(true);
 
@@ -32,15 +26,15 @@ export const GameLoader: React.FC<GameLoaderProps> = ({
     const interval = setInterval(() => {
       setIsVisible(false);
       setTimeout(() => {
-        setCurrentMessageIndex((prev) => (prev + 1) % LOADING_MESSAGES.length);
+        setCurrentMessageIndex((prev) => (prev + 1) % loadingMessages.length);
         setIsVisible(true);
       }, 300);
     }, 2500);
 
     return () => clearInterval(interval);
-  }, [message]);
+  }, [message, loadingMessages]);
 
-  const displayMessage = message || LOADING_MESSAGES[currentMessageIndex];
+  const displayMessage = message || loadingMessages[currentMessageIndex];
 
   if (minimal) {
     return (
@@ -119,7 +113,7 @@ export const GameLoader: React.FC<GameLoaderProps> = ({
             onClick={onRetry}
             className="px-6 py-2 rounded-full glass hover:bg-white/20 transition-all text-sm"
           >
-            🔄 إعادة المحاولة
+            {t('RETRY')}
           </button>
         )}
       </div>
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useRoundStore, useLocaleStore, GAME_CONFIG, GameError, formatError, isRoundPaused, isUntimedRound } from '@fakash/shared';
+
+interface HostRoundControlsProps {
+  className?: string;
+}
+
+/**
+ * Pause/resume, extra time, skip-question and move-on buttons for the host or TV display
+ */
+export const HostRoundControls: React.FC<HostRoundControlsProps> = ({ className = '' }) => {
+  const { currentRound, roundStatus, pauseRound, resumeRound, extendTimer, skipQuestion, advanceRound } = useRoundStore();
+  const t = useLocaleStore((state) => state.t);
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!currentRound || (roundStatus !== 'answering' && roundStatus !== 'voting')) {
+    return null;
+  }
+
+  const isPaused = isRoundPaused(currentRound);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Failed to control round:', err);
+      toast.error(err instanceof GameError ? formatError(err) : t('COMMAND_FAILED'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSkip = () => {
+    const confirmed = window.confirm(t('SKIP_CONFIRM'));
+    if (confirmed) {
+      run(skipQuestion);
+    }
+  };
+
+  const handleAdvance = () => {
+    const confirmed = window.confirm(t('ADVANCE_CONFIRM'));
+    if (confirmed) {
+      run(advanceRound);
+    }
+  };
+
+  const buttonClass =
+    'px-3 py-2 rounded-2xl text-sm font-bold glass hover:bg-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className={`flex flex-wrap justify-center gap-2 ${className}`}>
+      <button
+        onClick={() => run(isPaused ? resumeRound : pauseRound)}
+        disabled={isBusy}
+        className={buttonClass}
+      >
+        {isPaused ? t('RESUME') : t('PAUSE')}
+      </button>
+      {!isUntimedRound(currentRound) && (
+        <button
+          onClick={() => run(() => extendTimer(GAME_CONFIG.TIMER_EXTENSION))}
+          disabled={isBusy}
+          className={buttonClass}
+        >
+          {t('EXTEND_TIME', { seconds: GAME_CONFIG.TIMER_EXTENSION })}
+        </button>
+      )}
+      {roundStatus === 'answering' && (
+        <button onClick={handleSkip} disabled={isBusy} className={buttonClass}>
+          {t('SKIP_QUESTION')}
+        </button>
+      )}
+      <button onClick={handleAdvance} disabled={isBusy} className={buttonClass}>
+        {t('ADVANCE_NOW')}
+      </button>
+    </div>
+  );
+};
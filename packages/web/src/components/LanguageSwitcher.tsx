@@ -0,0 +1,25 @@
+import React from 'react';
+import { useLocaleStore, LANGUAGES, type Locale } from '@fakash/shared';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Toggle between the supported UI languages (saved on this device)
+ */
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useLocaleStore();
+  const locales = Object.keys(LANGUAGES) as Locale[];
+  const next = locales[(locales.indexOf(locale) + 1) % locales.length];
+
+  return (
+    <button
+      onClick={() => setLocale(next)}
+      className={`px-3 py-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors text-sm font-medium ${className}`}
+      aria-label={t('LANGUAGE')}
+    >
+      🌐 {LANGUAGES[next].label}
+    </button>
+  );
+};
@@ -1,6 +1,6 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useGameStore } from '@fakash/shared';
+import { useGameStore, useLocaleStore } from '@fakash/shared';
 
 interface LeaveGameButtonProps {
   variant?: 'danger' | 'secondary';
@@ -15,9 +15,10 @@ export const LeaveGameButton: React.FC<LeaveGameButtonProps> = ({
 }) => {
   const navigate = useNavigate();
   const leaveGame = useGameStore((state) => state.leaveGame);
+  const t = useLocaleStore((state) => state.t);
 
   const handleLeaveGame = () => {
-    const confirmed = window.confirm('هل أنت متأكد أنك تريد مغادرة اللعبة؟');
+    const confirmed = window.confirm(t('LEAVE_GAME_CONFIRM'));
     if (confirmed) {
       leaveGame();
       navigate('/', { replace: true });
@@ -48,7 +49,7 @@ export const LeaveGameButton: React.FC<LeaveGameButtonProps> = ({
         ${className}
       `}
     >
-      مغادرة اللعبة
+      {t('LEAVE_GAME')}
     </button>
   );
 };
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useLocaleStore, getScoreReasonLabel, type RoundScoreBreakdown as Breakdown } from '@fakash/shared';
+
+interface RoundScoreBreakdownProps {
+  breakdown: Breakdown[];
+  highlightPlayerId?: string;
+  className?: string;
+}
+
+const STAGGER_MS = 150;
+
+/**
+ * What each player scored this round and why ("+500 fooled Sara"), revealed line by line
+ */
+export const RoundScoreBreakdown: React.FC<RoundScoreBreakdownProps> = ({
+  breakdown,
+  highlightPlayerId,
+  className = '',
+}) => {
+  const t = useLocaleStore((state) => state.t);
+  const locale = useLocaleStore((state) => state.locale);
+
+  if (breakdown.length === 0) return null;
+
+  // Events animate in one after another across all players
+  let step = 0;
+  const nextDelay = () => ({ animationDelay: `${step++ * STAGGER_MS}ms`, animationFillMode: 'both' as const });
+
+  return (
+    <div className={className}>
+      <h3 className="text-lg sm:text-xl font-bold mb-4">{t('ROUND_BREAKDOWN')}</h3>
+      <div className="space-y-2">
+        {breakdown.map((player) => (
+          <div
+            key={player.player_id}
+            className={`p-3 rounded-xl text-start animate-slide-up ${
+              player.player_id === highlightPlayerId ? 'bg-secondary-main/20 border border-secondary-light/50' : 'glass'
+            }`}
+            style={nextDelay()}
+          >
+            <div className="flex justify-between items-center mb-1">
+              <span className="font-semibold">{player.player_name}</span>
+              <span className="font-bold text-secondary-light">+{player.total}</span>
+            </div>
+            {player.events.map((event) => (
+              <p
+                key={event.reason}
+                className="text-sm text-white/70 animate-slide-up"
+                style={nextDelay()}
+              >
+                <span className="font-semibold text-white">+{event.points_earned}</span>{' '}
+                {getScoreReasonLabel(event, locale)}
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -3,12 +3,14 @@ import React from 'react';
 interface TimerProps {
   duration: number; // Total duration in seconds (for calculating percentage)
   timeRemaining: number; // Current time remaining in seconds
+  multiplier?: number; // Round points multiplier, badge shown when > 1
   className?: string;
 }
 
 export const Timer: React.FC<TimerProps> = ({
   duration,
   timeRemaining,
+  multiplier = 1,
   className = '',
 }) => {
   // Pure presentational component - no state, no intervals
@@ -53,6 +55,11 @@ export const Timer: React.FC<TimerProps> = ({
       <div className="absolute inset-0 flex items-center justify-center">
         <span className="text-3xl font-bold">{timeRemaining}</span>
       </div>
+      {multiplier > 1 && (
+        <span className="absolute -top-1 -left-1 px-2 py-0.5 rounded-full bg-gradient-to-r from-yellow-400 to-orange-500 text-sm font-bold shadow-lg">
+          ×{multiplier}
+        </span>
+      )}
     </div>
   );
 };
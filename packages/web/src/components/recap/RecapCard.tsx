@@ -0,0 +1,56 @@
+import React from 'react';
+import { useLocaleStore, type GameRecap } from '@fakash/shared';
+
+interface RecapCardProps {
+  recap: GameRecap;
+}
+
+export const RecapCard: React.FC<RecapCardProps> = ({ recap }) => {
+  const t = useLocaleStore((state) => state.t);
+
+  return (
+    <div className="space-y-3">
+      {recap.best_lie && (
+        <div className="flex items-center gap-3 p-3 sm:p-4 rounded-2xl bg-secondary-main/20 border border-secondary-main/50">
+          <span className="text-3xl">🤥</span>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-white/70">{t('BEST_LIE_ROUND', { round: recap.best_lie.round_number })}</p>
+            <p className="font-bold text-base sm:text-lg">{t('QUOTED', { text: recap.best_lie.answer })}</p>
+            <p className="text-xs sm:text-sm text-white/60 truncate">
+              {recap.best_lie.player_names.join(t('LIST_AND'))} • {recap.best_lie.question}
+            </p>
+          </div>
+          <p className="text-lg font-bold">{t('FOOLED_COUNT', { count: recap.best_lie.fooled_count })}</p>
+        </div>
+      )}
+
+      {recap.most_gullible && (
+        <div className="flex items-center gap-3 p-3 sm:p-4 rounded-2xl bg-pink-500/20 border border-pink-500/50">
+          <span className="text-3xl">🙈</span>
+          <div className="flex-1">
+            <p className="text-sm text-white/70">{t('MOST_GULLIBLE_TITLE')}</p>
+            <p className="font-bold text-base sm:text-lg">{recap.most_gullible.player_name}</p>
+          </div>
+          <p className="text-lg font-bold">{t('TIMES_FOOLED', { count: recap.most_gullible.times_fooled })}</p>
+        </div>
+      )}
+
+      {recap.highlights.length > 0 && (
+        <div className="glass rounded-2xl p-3 sm:p-4">
+          <p className="font-bold mb-2">{t('ROUND_HIGHLIGHTS')}</p>
+          <div className="space-y-1 text-sm text-white/80">
+            {recap.highlights.map((highlight) => (
+              <p key={highlight.round_number}>
+                <span className="font-semibold">{t('ROUND_LABEL', { round: highlight.round_number })}: </span>
+                {highlight.top_fooler
+                  ? t('HIGHLIGHT_FOOLER', { name: highlight.top_fooler, count: highlight.fooled_count })
+                  : t('HIGHLIGHT_NOBODY_FOOLED')}
+                {` • ${t('HIGHLIGHT_CORRECT', { count: highlight.correct_count })}`}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { getRecapUrl, useLocaleStore, type GameRecap } from '@fakash/shared';
+import { GradientButton } from '../GradientButton';
+import { renderRecapImage } from './recapImage';
+
+interface ShareRecapButtonProps {
+  recap: GameRecap;
+  className?: string;
+}
+
+export const ShareRecapButton: React.FC<ShareRecapButtonProps> = ({ recap, className = '' }) => {
+  const t = useLocaleStore((state) => state.t);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    const url = getRecapUrl(window.location.origin, recap.game.id);
+
+    try {
+      const image = await renderRecapImage(recap);
+      const file = new File([image], `fakash-${recap.game.code}.png`, { type: 'image/png' });
+
+      // Native share sheet (mobile browsers) with the image attached
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: t('RECAP_TITLE'), url });
+        return;
+      }
+
+      // Desktop fallback: download the image and copy the link
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(image);
+      link.download = file.name;
+      link.click();
+      URL.revokeObjectURL(link.href);
+
+      await navigator.clipboard.writeText(url);
+      toast.success(t('RECAP_SHARED'));
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Failed to share recap:', err);
+        toast.error(t('SHARE_FAILED'));
+      }
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <GradientButton variant="cyan" onClick={handleShare} disabled={isSharing} className={className}>
+      {isSharing ? t('PREPARING') : t('SHARE_GAME_RECAP')}
+    </GradientButton>
+  );
+};
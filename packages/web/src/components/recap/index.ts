@@ -0,0 +1,7 @@
+/**
+ * Recap Components - Shareable end-of-game summary
+ */
+
+export { RecapCard } from './RecapCard';
+export { ShareRecapButton } from './ShareRecapButton';
+export { renderRecapImage } from './recapImage';
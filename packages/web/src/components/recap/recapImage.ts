@@ -0,0 +1,83 @@
+import { translate as t, getTextDirection, type GameRecap } from '@fakash/shared';
+
+const WIDTH = 1080;
+const HEIGHT = 1350;
+
+/**
+ * Draw the recap as a portrait image (fits social posts) and return it as a PNG blob
+ */
+export const renderRecapImage = async (recap: GameRecap): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  // Background (matches the app's purple gradient)
+  const gradient = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT);
+  gradient.addColorStop(0, '#1a0933');
+  gradient.addColorStop(1, '#4c1d95');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+  ctx.direction = getTextDirection();
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#ffffff';
+
+  let y = 140;
+  const line = (text: string, size: number, color = '#ffffff', gap = 24) => {
+    ctx.font = `bold ${size}px sans-serif`;
+    ctx.fillStyle = color;
+    ctx.fillText(text, WIDTH / 2, y, WIDTH - 120);
+    y += size + gap;
+  };
+
+  line(`${t('HOME_TITLE')} 🎭`, 96, '#ec4899', 40);
+
+  if (recap.winner) {
+    line(t('RECAP_WINNER'), 44, '#facc15', 12);
+    line(`${recap.winner.player_name} • ${t('POINTS_COUNT', { count: recap.winner.score })}`, 56, '#ffffff', 60);
+  }
+
+  if (recap.best_lie) {
+    line(t('BEST_LIE_TITLE'), 44, '#06b6d4', 12);
+    line(t('QUOTED', { text: recap.best_lie.answer }), 52, '#ffffff', 12);
+    line(
+      `${recap.best_lie.player_names.join(t('LIST_AND'))} • ${t('FOOLED_COUNT', { count: recap.best_lie.fooled_count })}`,
+      36,
+      '#d1d5db',
+      60
+    );
+  }
+
+  if (recap.most_gullible) {
+    line(`🙈 ${t('MOST_GULLIBLE_TITLE')}`, 44, '#f472b6', 12);
+    line(
+      `${recap.most_gullible.player_name} • ${t('TIMES_FOOLED', { count: recap.most_gullible.times_fooled })}`,
+      40,
+      '#ffffff',
+      60
+    );
+  }
+
+  // Per-round highlights (as many as fit)
+  recap.highlights
+    .filter((h) => h.top_fooler)
+    .slice(0, 4)
+    .forEach((h) => {
+      line(
+        `${t('ROUND_LABEL', { round: h.round_number })}: ${t('HIGHLIGHT_FOOLER', { name: h.top_fooler!, count: h.fooled_count })}`,
+        32,
+        '#e9d5ff',
+        16
+      );
+    });
+
+  ctx.font = '28px sans-serif';
+  ctx.fillStyle = '#9ca3af';
+  ctx.fillText(t('RECAP_GAME_CODE', { code: recap.game.code }), WIDTH / 2, HEIGHT - 60);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render recap'))), 'image/png');
+  });
+};
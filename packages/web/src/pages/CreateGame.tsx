@@ -4,7 +4,28 @@ import { Logo } from '../components/Logo';
 import { GlassCard } from '../components/GlassCard';
 import { GradientButton } from '../components/GradientButton';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { useGameStore, GAME_CONFIG, useAuthStore, PaymentService } from '@fakash/shared';
+import {
+  useGameStore,
+  GAME_CONFIG,
+  useAuthStore,
+  PaymentService,
+  QuestionPackService,
+  SCORING_PRESETS,
+  DEFAULT_SCORING_RULES,
+  CONTENT_FILTER_LEVELS,
+  TIMER_PRESETS,
+  DIFFICULTY_LEVELS,
+  LANGUAGES,
+  getLocale,
+  formatError,
+  type ContentFilterLevel,
+  type Locale,
+  type QuestionDifficulty,
+  type QuestionPack,
+  type ScoringPreset,
+  type ScoringRules,
+  type TimerPreset,
+} from '@fakash/shared';
 import { AuthModal } from '../components/auth';
 import { UpgradeModal } from '../components/payment';
 
@@ -17,6 +38,20 @@ export const CreateGame: React.FC = () => {
   const [roundCount, setRoundCount] = useState(4);
   const [maxPlayers, setMaxPlayers] = useState(10);
   const [isDisplayMode, setIsDisplayMode] = useState(false);
+  const [packs, setPacks] = useState<(QuestionPack & { question_count: number })[]>([]);
+  const [selectedPackIds, setSelectedPackIds] = useState<string[]>([]);
+  const [scoringPreset, setScoringPreset] = useState<ScoringPreset>('classic');
+  const [customRules, setCustomRules] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+  const [multiplierRounds, setMultiplierRounds] = useState<number[]>([]);
+  const [teamCount, setTeamCount] = useState(0);
+  const [contentFilter, setContentFilter] = useState<ContentFilterLevel>(GAME_CONFIG.DEFAULT_CONTENT_FILTER);
+  const [timerPreset, setTimerPreset] = useState<TimerPreset>('standard');
+  const [categories, setCategories] = useState<{ category: string; question_count: number }[]>([]);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [selectedDifficulties, setSelectedDifficulties] = useState<QuestionDifficulty[]>([]);
+  const [difficultyRamp, setDifficultyRamp] = useState(false);
+  const [categoryPicking, setCategoryPicking] = useState(false);
+  const [language, setLanguage] = useState<Locale>(getLocale());
 
   // Auth modals
   const [showAuthModal, setShowAuthModal] = useState(false);
@@ -30,6 +65,63 @@ export const CreateGame: React.FC = () => {
     }
   }, [authLoading, user]);
 
+  // Load the host's question packs
+  useEffect(() => {
+    if (user) {
+      QuestionPackService.getMyPacks().then((myPacks) =>
+        setPacks(myPacks.filter((pack) => pack.question_count > 0))
+      );
+    }
+  }, [user]);
+
+  // Categories follow the selected packs (or the default questions in the game's language)
+  useEffect(() => {
+    if (!user) return;
+    QuestionPackService.getQuestionCategories(selectedPackIds, language).then((available) => {
+      setCategories(available);
+      setSelectedCategories((selected) =>
+        selected.filter((category) => available.some((c) => c.category === category))
+      );
+    });
+  }, [user, selectedPackIds, language]);
+
+  const scoringRules =
+    scoringPreset === 'custom' ? customRules : SCORING_PRESETS[scoringPreset].rules;
+
+  const customRuleFields: { key: keyof ScoringRules; label: string }[] = [
+    { key: 'correct_answer', label: 'الإجابة الصحيحة' },
+    { key: 'per_fooled_player', label: 'لكل لاعب مخدوع' },
+    { key: 'perfect_fake_bonus', label: 'إجابة لم يصوت لها أحد' },
+    { key: 'round_winner_bonus', label: 'الفائز بالجولة' },
+  ];
+
+  // Bonus rounds are picked among the non-final rounds (final uses final_round_multiplier)
+  const markableRounds = Array.from({ length: roundCount - 1 }, (_, i) => i + 1);
+
+  const toggleMultiplierRound = (round: number) => {
+    setMultiplierRounds((rounds) =>
+      rounds.includes(round) ? rounds.filter((r) => r !== round) : [...rounds, round].sort((a, b) => a - b)
+    );
+  };
+
+  const toggleCategory = (category: string) => {
+    setSelectedCategories((selected) =>
+      selected.includes(category) ? selected.filter((c) => c !== category) : [...selected, category]
+    );
+  };
+
+  const toggleDifficulty = (difficulty: QuestionDifficulty) => {
+    setSelectedDifficulties((selected) =>
+      selected.includes(difficulty) ? selected.filter((d) => d !== difficulty) : [...selected, difficulty]
+    );
+  };
+
+  const togglePack = (packId: string) => {
+    setSelectedPackIds((ids) =>
+      ids.includes(packId) ? ids.filter((id) => id !== packId) : [...ids, packId]
+    );
+  };
+
   const handleCreateGame = async () => {
     // Check authentication
     if (!user) {
@@ -62,18 +154,52 @@ export const CreateGame: React.FC = () => {
       return;
     }
 
+    // Selected packs must have enough questions for every round
+    const packQuestionCount = packs
+      .filter((pack) => selectedPackIds.includes(pack.id))
+      .reduce((total, pack) => total + pack.question_count, 0);
+
+    if (selectedPackIds.length > 0 && packQuestionCount < roundCount) {
+      alert(`الحزم المختارة تحتوي على ${packQuestionCount} سؤال فقط، وتحتاج ${roundCount} أسئلة على الأقل`);
+      return;
+    }
+
     try {
       if (isDisplayMode) {
         // Create game in display mode (for TV)
         await createGameAsDisplay({
           roundCount,
           maxPlayers,
+          questionPackIds: selectedPackIds,
+          scoringRules,
+          multiplierRounds,
+          teamCount,
+          contentFilter,
+          answerTimer: TIMER_PRESETS[timerPreset].answerTimer,
+          votingTimer: TIMER_PRESETS[timerPreset].votingTimer,
+          questionCategories: selectedCategories,
+          questionDifficulties: difficultyRamp ? [] : selectedDifficulties,
+          difficultyRamp,
+          categoryPicking,
+          language,
         });
       } else {
         // Create game normally with host player
         await createGame(hostName, {
           roundCount,
           maxPlayers,
+          questionPackIds: selectedPackIds,
+          scoringRules,
+          multiplierRounds,
+          teamCount,
+          contentFilter,
+          answerTimer: TIMER_PRESETS[timerPreset].answerTimer,
+          votingTimer: TIMER_PRESETS[timerPreset].votingTimer,
+          questionCategories: selectedCategories,
+          questionDifficulties: difficultyRamp ? [] : selectedDifficulties,
+          difficultyRamp,
+          categoryPicking,
+          language,
         });
       }
       navigate('/lobby');
@@ -189,7 +315,10 @@ export const CreateGame: React.FC = () => {
               {GAME_CONFIG.ROUND_OPTIONS.map((count) => (
                 <button
                   key={count}
-                  onClick={() => setRoundCount(count)}
+                  onClick={() => {
+                    setRoundCount(count);
+                    setMultiplierRounds((rounds) => rounds.filter((r) => r < count));
+                  }}
                   className={`h-16 sm:h-20 rounded-2xl font-bold text-lg sm:text-xl transition-all ${
                     roundCount === count
                       ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
@@ -227,11 +356,352 @@ export const CreateGame: React.FC = () => {
               </button>
             </div>
           </div>
+
+          {/* Team mode */}
+          <div>
+            <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+              اللعب بالفرق
+            </label>
+            <div className="grid grid-cols-4 gap-2 sm:gap-3">
+              {GAME_CONFIG.TEAM_OPTIONS.map((count) => (
+                <button
+                  key={count}
+                  onClick={() => setTeamCount(count)}
+                  className={`h-12 sm:h-14 rounded-2xl font-bold text-base sm:text-lg transition-all ${
+                    teamCount === count
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  {count === 0 ? 'بدون فرق' : `${count} فرق`}
+                </button>
+              ))}
+            </div>
+            {teamCount > 0 && (
+              <p className="text-right text-xs sm:text-sm text-white/60 mt-2">
+                نقاط الفريق مجموع نقاط لاعبيه، ولا يمكن التصويت لإجابة زميلك
+              </p>
+            )}
+          </div>
+
+          {/* Phase timers */}
+          <div>
+            <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+              مدة المؤقت
+            </label>
+            <div className="grid grid-cols-2 gap-2 sm:gap-3">
+              {(Object.keys(TIMER_PRESETS) as TimerPreset[]).map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => setTimerPreset(preset)}
+                  className={`p-3 rounded-2xl text-right transition-all ${
+                    timerPreset === preset
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  <p className="font-bold text-sm sm:text-base">{TIMER_PRESETS[preset].label}</p>
+                  <p className="text-xs text-white/70 mt-1">{TIMER_PRESETS[preset].description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Content filter */}
+          <div>
+            <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+              فلتر الكلمات غير اللائقة
+            </label>
+            <div className="grid grid-cols-3 gap-2 sm:gap-3">
+              {GAME_CONFIG.CONTENT_FILTER_OPTIONS.map((level) => (
+                <button
+                  key={level}
+                  onClick={() => setContentFilter(level)}
+                  className={`h-12 sm:h-14 rounded-2xl font-bold text-base sm:text-lg transition-all ${
+                    contentFilter === level
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  {CONTENT_FILTER_LEVELS[level].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-right text-xs sm:text-sm text-white/60 mt-2">
+              {CONTENT_FILTER_LEVELS[contentFilter].description} (أسماء اللاعبين والإجابات المزيفة)
+            </p>
+          </div>
+
+          {/* Scoring rules */}
+          <div>
+            <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+              نظام النقاط
+            </label>
+            <div className="grid grid-cols-2 gap-2 sm:gap-3">
+              {(Object.keys(SCORING_PRESETS) as (keyof typeof SCORING_PRESETS)[]).map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => setScoringPreset(preset)}
+                  className={`p-3 rounded-2xl text-right transition-all ${
+                    scoringPreset === preset
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  <p className="font-bold text-sm sm:text-base">{SCORING_PRESETS[preset].label}</p>
+                  <p className="text-xs text-white/70 mt-1">{SCORING_PRESETS[preset].description}</p>
+                </button>
+              ))}
+              <button
+                onClick={() => setScoringPreset('custom')}
+                className={`col-span-2 p-3 rounded-2xl font-bold transition-all ${
+                  scoringPreset === 'custom'
+                    ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
+                    : 'glass hover:bg-white/20'
+                }`}
+              >
+                مخصص ⚙️
+              </button>
+            </div>
+
+            {scoringPreset === 'custom' && (
+              <div className="mt-3 p-4 glass rounded-2xl space-y-3">
+                {customRuleFields.map(({ key, label }) => (
+                  <div key={key} className="flex items-center justify-between gap-3">
+                    <span className="text-sm sm:text-base">{label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={GAME_CONFIG.MAX_POINTS_VALUE}
+                      step={50}
+                      value={customRules[key]}
+                      onChange={(e) =>
+                        setCustomRules({ ...customRules, [key]: Math.max(0, Number(e.target.value) || 0) })
+                      }
+                      className="input-glass w-28 text-center"
+                    />
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm sm:text-base">مضاعف الجولة الأخيرة</span>
+                  <div className="flex gap-2">
+                    {Array.from({ length: GAME_CONFIG.MAX_ROUND_MULTIPLIER }, (_, i) => i + 1).map((multiplier) => (
+                      <button
+                        key={multiplier}
+                        onClick={() => setCustomRules({ ...customRules, final_round_multiplier: multiplier })}
+                        className={`w-12 h-10 rounded-xl font-bold transition-all ${
+                          customRules.final_round_multiplier === multiplier
+                            ? 'bg-gradient-to-br from-secondary-main to-secondary-light'
+                            : 'glass hover:bg-white/20'
+                        }`}
+                      >
+                        ×{multiplier}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="mt-3">
+              <p className="text-right text-sm sm:text-base mb-2">
+                جولات النقاط المضاعفة ×{GAME_CONFIG.MARKED_ROUND_MULTIPLIER}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {markableRounds.map((round) => (
+                  <button
+                    key={round}
+                    onClick={() => toggleMultiplierRound(round)}
+                    className={`w-10 h-10 rounded-xl font-bold transition-all ${
+                      multiplierRounds.includes(round)
+                        ? 'bg-gradient-to-br from-yellow-400 to-orange-500'
+                        : 'glass hover:bg-white/20'
+                    }`}
+                  >
+                    {round}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Question packs */}
+          {packs.length > 0 && (
+            <div>
+              <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+                حزم الأسئلة
+              </label>
+              <div className="space-y-2">
+                <button
+                  onClick={() => setSelectedPackIds([])}
+                  className={`w-full p-3 rounded-2xl text-right transition-all ${
+                    selectedPackIds.length === 0
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  الأسئلة الافتراضية
+                </button>
+                {packs.map((pack) => (
+                  <button
+                    key={pack.id}
+                    onClick={() => togglePack(pack.id)}
+                    className={`w-full p-3 rounded-2xl text-right flex items-center justify-between transition-all ${
+                      selectedPackIds.includes(pack.id)
+                        ? 'bg-gradient-to-br from-secondary-main to-secondary-light'
+                        : 'glass hover:bg-white/20'
+                    }`}
+                  >
+                    <span className="font-semibold">{pack.title}</span>
+                    <span className="text-sm text-white/70">{pack.question_count} سؤال</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Game language */}
+          <div>
+            <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+              لغة اللعبة
+            </label>
+            <div className="grid grid-cols-2 gap-2 sm:gap-3">
+              {(Object.keys(LANGUAGES) as Locale[]).map((locale) => (
+                <button
+                  key={locale}
+                  onClick={() => setLanguage(locale)}
+                  className={`h-12 sm:h-14 rounded-2xl font-bold text-base sm:text-lg transition-all ${
+                    language === locale
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  {LANGUAGES[locale].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-right text-xs sm:text-sm text-white/60 mt-2">
+              لغة الأسئلة الافتراضية واللغة التي يراها اللاعبون ما لم يختاروا غيرها
+            </p>
+          </div>
+
+          {/* Question selection */}
+          <div>
+            <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+              تصنيفات الأسئلة
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setSelectedCategories([])}
+                className={`px-4 py-2 rounded-xl font-semibold transition-all ${
+                  selectedCategories.length === 0
+                    ? 'bg-gradient-to-br from-secondary-main to-secondary-light'
+                    : 'glass hover:bg-white/20'
+                }`}
+              >
+                منوع
+              </button>
+              {categories.map(({ category, question_count }) => (
+                <button
+                  key={category}
+                  onClick={() => toggleCategory(category)}
+                  className={`px-4 py-2 rounded-xl font-semibold transition-all ${
+                    selectedCategories.includes(category)
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  {category} <span className="text-xs text-white/70">({question_count})</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+              مستوى الصعوبة
+            </label>
+            <div className="grid grid-cols-4 gap-2 sm:gap-3">
+              <button
+                onClick={() => setSelectedDifficulties([])}
+                disabled={difficultyRamp}
+                className={`h-12 sm:h-14 rounded-2xl font-bold text-base sm:text-lg transition-all disabled:opacity-50 ${
+                  !difficultyRamp && selectedDifficulties.length === 0
+                    ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
+                    : 'glass hover:bg-white/20'
+                }`}
+              >
+                منوع
+              </button>
+              {GAME_CONFIG.DIFFICULTY_OPTIONS.map((difficulty) => (
+                <button
+                  key={difficulty}
+                  onClick={() => toggleDifficulty(difficulty)}
+                  disabled={difficultyRamp}
+                  className={`h-12 sm:h-14 rounded-2xl font-bold text-base sm:text-lg transition-all disabled:opacity-50 ${
+                    !difficultyRamp && selectedDifficulties.includes(difficulty)
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light shadow-glow-cyan'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  {DIFFICULTY_LEVELS[difficulty].emoji} {DIFFICULTY_LEVELS[difficulty].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Difficulty ramp toggle */}
+          <div className="flex items-center justify-between p-4 glass rounded-2xl">
+            <div className="text-right">
+              <p className="font-semibold text-base sm:text-lg">تصاعد الصعوبة 📈</p>
+              <p className="text-xs sm:text-sm text-white/60 mt-1">
+                تبدأ الأسئلة سهلة وتصبح أصعب مع كل جولة
+              </p>
+            </div>
+            <button
+              onClick={() => setDifficultyRamp(!difficultyRamp)}
+              className={`relative w-14 h-8 rounded-full transition-all ${
+                difficultyRamp
+                  ? 'bg-gradient-to-r from-secondary-main to-secondary-light'
+                  : 'bg-white/20'
+              }`}
+            >
+              <div
+                className={`absolute top-1 w-6 h-6 bg-white rounded-full transition-all ${
+                  difficultyRamp ? 'right-1' : 'right-7'
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Category picking toggle */}
+          <div className="flex items-center justify-between p-4 glass rounded-2xl">
+            <div className="text-right">
+              <p className="font-semibold text-base sm:text-lg">اختيار التصنيف 🗂️</p>
+              <p className="text-xs sm:text-sm text-white/60 mt-1">
+                في كل جولة يختار أحد اللاعبين تصنيف السؤال من {GAME_CONFIG.CATEGORY_OPTIONS_COUNT} خيارات
+              </p>
+            </div>
+            <button
+              onClick={() => setCategoryPicking(!categoryPicking)}
+              className={`relative w-14 h-8 rounded-full transition-all ${
+                categoryPicking
+                  ? 'bg-gradient-to-r from-secondary-main to-secondary-light'
+                  : 'bg-white/20'
+              }`}
+            >
+              <div
+                className={`absolute top-1 w-6 h-6 bg-white rounded-full transition-all ${
+                  categoryPicking ? 'right-1' : 'right-7'
+                }`}
+              />
+            </button>
+          </div>
         </div>
 
         {error && (
           <div className="mt-4 sm:mt-6 p-3 sm:p-4 bg-red-500/20 border border-red-500/50 rounded-2xl text-center text-sm sm:text-base">
-            {error}
+            {formatError(error, 'ar')}
           </div>
         )}
 
@@ -1,16 +1,36 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { Logo } from '../components/Logo';
 import { GlassCard } from '../components/GlassCard';
 import { GradientButton } from '../components/GradientButton';
 import { Timer } from '../components/Timer';
 import { LeaveGameButton } from '../components/LeaveGameButton';
-import { useGameStore, useRoundStore, GAME_CONFIG } from '@fakash/shared';
+import { HostRoundControls } from '../components/HostRoundControls';
+import { CategoryPicker } from '../components/CategoryPicker';
+import {
+  useGameStore,
+  useRoundStore,
+  useLocaleStore,
+  GAME_CONFIG,
+  GameError,
+  DB_ERROR_CODES,
+  formatError,
+  isGameError,
+  isAnswerAuthor,
+  isTeammateAnswer,
+  getRoundTimeRemaining,
+  isRoundPaused,
+  isUntimedRound,
+  type RoundScoreBreakdown as RoundBreakdown,
+} from '@fakash/shared';
 import { GameLoader } from '../components/GameLoader';
+import { RoundScoreBreakdown } from '../components/RoundScoreBreakdown';
 
 export const Game: React.FC = () => {
   const navigate = useNavigate();
-  const { game, currentPlayer, players, isPhaseCaptain, isDisplayMode, rehydrationAttempted } = useGameStore();
+  const { game, currentPlayer, players, isHost, isPhaseCaptain, isDisplayMode, isAudience, rehydrationAttempted } = useGameStore();
+  const t = useLocaleStore((state) => state.t);
   const {
     currentRound,
     question,
@@ -20,6 +40,9 @@ export const Game: React.FC = () => {
     hasSubmittedVote,
     submitAnswer,
     submitVote,
+    submitAudienceVote,
+    likeAnswer,
+    answerLikes,
     timeRemaining,
     setTimeRemaining,
     timerActive,
@@ -29,6 +52,7 @@ export const Game: React.FC = () => {
   const [answerInput, setAnswerInput] = useState('');
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
   const [isRecovering, setIsRecovering] = useState(false);
+  const [roundBreakdown, setRoundBreakdown] = useState<RoundBreakdown[]>([]);
   const roundCreationRef = useRef<number | null>(null);
   const isCreatingRoundRef = useRef<boolean>(false);
   const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -52,13 +76,16 @@ export const Game: React.FC = () => {
       }
 
       const supabase = getSupabase();
-      const { data: q } = await supabase
-        .from('questions')
-        .select('*')
-        .eq('id', round.question_id)
-        .single();
-
-      if (!q) {
+      // No question yet while the chooser is picking the category
+      const { data: q } = round.question_id
+        ? await supabase
+          .from('questions')
+          .select('*')
+          .eq('id', round.question_id)
+          .single()
+        : { data: null };
+
+      if (!q && round.status !== 'choosing') {
         setIsRecovering(false);
         return;
       }
@@ -67,11 +94,7 @@ export const Game: React.FC = () => {
         ? await RoundService.getRoundAnswers(round.id)
         : [];
 
-      const startTime = round.timer_starts_at
-        ? new Date(round.timer_starts_at).getTime()
-        : Date.now();
-      const elapsed = Math.floor((Date.now() - startTime) / 1000);
-      const remaining = Math.max(0, round.timer_duration - elapsed);
+      const remaining = getRoundTimeRemaining(round);
 
       const { data: playerAnswer } = currentPlayer ? await supabase
         .from('player_answers')
@@ -93,7 +116,7 @@ export const Game: React.FC = () => {
         roundNumber: round.round_number,
         roundStatus: round.status,
         timeRemaining: remaining,
-        timerActive: remaining > 0,
+        timerActive: !isRoundPaused(round) && remaining > 0,
         allAnswers: answers,
         playerAnswers: new Map(),
         myAnswer: playerAnswer?.answer_text || null,
@@ -150,9 +173,9 @@ export const Game: React.FC = () => {
           const { startRound } = useRoundStore.getState();
           await startRound(game.id, game.current_round, game.round_count);
           console.log('✅ Round created successfully');
-        } catch (err: any) {
+        } catch (err) {
           console.error('❌ Failed to create round:', err);
-          if (!err.message?.includes('duplicate key')) {
+          if (!isGameError(err) || err.details.dbCode !== DB_ERROR_CODES.UNIQUE_VIOLATION) {
             roundCreationRef.current = null;
           }
         } finally {
@@ -200,7 +223,7 @@ export const Game: React.FC = () => {
   // Recovery mechanism if stuck loading
   useEffect(() => {
     if (!game || (!currentPlayer && !isDisplayMode)) return;
-    if (currentRound && question) return;
+    if (currentRound && (question || roundStatus === 'choosing')) return;
     if (game.status !== 'playing') return;
     if (isRecovering) return;
     if (isDisplayMode) return;
@@ -211,23 +234,56 @@ export const Game: React.FC = () => {
     }, 3000);
 
     return () => clearTimeout(timer);
-  }, [game, currentPlayer, isDisplayMode, currentRound, question, isRecovering, recoverRoundState]);
+  }, [game, currentPlayer, isDisplayMode, currentRound, question, roundStatus, isRecovering, recoverRoundState]);
 
   // Refresh player scores when a round completes so results show latest totals
+  // and what the server's score ledger gave each player this round
+  const roundId = currentRound?.id;
   useEffect(() => {
     const syncScores = async () => {
-      if (!game || roundStatus !== 'completed') return;
+      if (!game || !roundId || roundStatus !== 'completed') {
+        setRoundBreakdown([]);
+        return;
+      }
       try {
-        const { GameService } = await import('@fakash/shared');
-        const updatedPlayers = await GameService.getGamePlayers(game.id);
+        const { GameService, ScoringService } = await import('@fakash/shared');
+        const [updatedPlayers, breakdown] = await Promise.all([
+          GameService.getGamePlayers(game.id),
+          ScoringService.getRoundBreakdown(roundId),
+        ]);
         useGameStore.setState({ players: updatedPlayers });
+        setRoundBreakdown(breakdown);
       } catch (err) {
         console.error('Failed to refresh scores after round completion:', err);
       }
     };
 
     syncScores();
-  }, [game, roundStatus]);
+  }, [game, roundId, roundStatus]);
+
+  // Round chooser is picking the category, the question comes after
+  if (game && (currentPlayer || isDisplayMode) && currentRound && roundStatus === 'choosing') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4 sm:p-6 relative">
+        <div className="absolute top-4 right-4 z-10">
+          <LeaveGameButton variant="secondary" size="sm" />
+        </div>
+
+        <Logo size="sm" className="mb-4 sm:mb-6" />
+
+        <div className="w-full max-w-3xl mb-3 sm:mb-4 px-2 flex justify-between items-center">
+          <p className="text-base sm:text-lg">
+            {t('ROUND_OF', { round: currentRound.round_number, total: game.round_count })}
+          </p>
+          <Timer duration={currentRound.timer_duration} timeRemaining={timeRemaining} />
+        </div>
+
+        <GlassCard className="max-w-3xl w-full">
+          <CategoryPicker />
+        </GlassCard>
+      </div>
+    );
+  }
 
   // Loading screen with engaging animation
   if (!game || (!currentPlayer && !isDisplayMode) || !currentRound || !question) {
@@ -236,9 +292,9 @@ export const Game: React.FC = () => {
       return (
         <div className="min-h-screen flex items-center justify-center p-4">
           <GlassCard className="text-center max-w-md">
-            <p className="text-lg mb-4">اللعبة لم تبدأ بعد</p>
+            <p className="text-lg mb-4">{t('GAME_NOT_STARTED')}</p>
             <GradientButton variant="purple" onClick={() => navigate('/lobby')} className="w-full mb-3">
-              العودة للردهة
+              {t('BACK_TO_LOBBY')}
             </GradientButton>
             <LeaveGameButton variant="secondary" size="md" />
           </GlassCard>
@@ -267,6 +323,9 @@ export const Game: React.FC = () => {
       setAnswerInput('');
     } catch (err) {
       console.error('Failed to submit answer:', err);
+      if (err instanceof GameError) {
+        toast.error(formatError(err));
+      }
     }
   };
 
@@ -283,7 +342,12 @@ export const Game: React.FC = () => {
     useRoundStore.setState({ hasSubmittedVote: true });
 
     try {
-      await submitVote(currentPlayer.id, answerId);
+      // Audience votes are stored separately and never count toward the quorum
+      if (isAudience) {
+        await submitAudienceVote(currentPlayer.id, answerId);
+      } else {
+        await submitVote(currentPlayer.id, answerId);
+      }
       setSelectedAnswer(answerId);
     } catch (err) {
       console.error('Failed to submit vote:', err);
@@ -292,11 +356,23 @@ export const Game: React.FC = () => {
     }
   };
 
+  const handleLikeAnswer = async (answerId: string) => {
+    if (!currentPlayer) return;
+
+    try {
+      await likeAnswer(currentPlayer.id, answerId);
+    } catch (err) {
+      console.error('Failed to like answer:', err);
+    }
+  };
+
   const submittedCount = players.filter((p) =>
-    allAnswers.some((a) => a.player_id === p.id)
+    allAnswers.some((a) => isAnswerAuthor(a, p.id))
   ).length;
 
   const isFinalRound = currentRound.round_number === game.round_count;
+  const isPaused = isRoundPaused(currentRound);
+  const roundMultiplier = currentRound.multiplier ?? 1;
 
   // Host clicks this to go to next round
   const handleNextRound = async () => {
@@ -344,8 +420,9 @@ export const Game: React.FC = () => {
   };
 
   // Get player scores for display
+  const roundPoints = new Map(roundBreakdown.map((b) => [b.player_id, b.total]));
   const playerScores = players
-    .map(p => ({ name: p.user_name, score: p.score || 0 }))
+    .map(p => ({ name: p.user_name, score: p.score || 0, roundPoints: roundPoints.get(p.id) ?? 0 }))
     .sort((a, b) => b.score - a.score);
 
   return (
@@ -359,27 +436,60 @@ export const Game: React.FC = () => {
       <div className="w-full max-w-3xl mb-3 sm:mb-4 px-2">
         <div className="flex flex-col sm:flex-row justify-between items-center gap-2 sm:gap-0">
           <p className="text-base sm:text-lg">
-            الجولة {currentRound.round_number} / {game.round_count}
+            {t('ROUND_OF', { round: currentRound.round_number, total: game.round_count })}
           </p>
-          <Timer duration={currentRound.timer_duration} timeRemaining={timeRemaining} />
+          {isUntimedRound(currentRound) ? (
+            <span className="px-3 py-1 rounded-full glass text-sm sm:text-base">
+              {t('UNTIMED')}{roundMultiplier > 1 && ` · ×${roundMultiplier}`}
+            </span>
+          ) : (
+            <Timer
+              duration={currentRound.timer_duration}
+              timeRemaining={timeRemaining}
+              multiplier={roundMultiplier}
+            />
+          )}
         </div>
         {isPhaseCaptain && (
           <div className="mt-2 text-center">
             <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-gradient-to-r from-secondary-main/30 to-secondary-light/30 border border-secondary-main/50 text-xs sm:text-sm">
               <span className="text-secondary-main">👑</span>
-              <span>أنت قائد اللعبة</span>
+              <span>{t('PHASE_CAPTAIN')}</span>
             </span>
           </div>
         )}
+        {(isHost || isDisplayMode) && <HostRoundControls className="mt-3" />}
       </div>
 
       <GlassCard className="max-w-3xl w-full">
+        {/* Host paused the round */}
+        {isPaused && (
+          <div className="mb-4 sm:mb-6 p-3 sm:p-4 rounded-2xl bg-white/10 border border-white/30 text-center">
+            <p className="text-lg sm:text-xl font-bold">{t('PAUSED')}</p>
+          </div>
+        )}
+
+        {/* Double points announcement */}
+        {roundMultiplier > 1 && roundStatus === 'answering' && (
+          <div className="mb-4 sm:mb-6 p-3 sm:p-4 rounded-2xl bg-gradient-to-r from-yellow-400/30 to-orange-500/30 border border-yellow-400/60 text-center">
+            <p className="text-lg sm:text-xl font-bold">
+              {t('MULTIPLIER_ANNOUNCEMENT', {
+                label: isFinalRound ? t('FINAL_ROUND') : t('BONUS_ROUND'),
+                multiplier: roundMultiplier,
+              })}
+            </p>
+          </div>
+        )}
+
         {/* Question display */}
         <div className="mb-6 sm:mb-8">
+          {currentRound.category && (
+            <p className="text-center text-sm sm:text-base text-white/70 mb-3" dir="auto">🗂️ {currentRound.category}</p>
+          )}
           <div className="flex items-start gap-3 sm:gap-4 mb-4 sm:mb-6">
             <div className="text-3xl sm:text-5xl">❓</div>
             <div className="flex-1 glass rounded-2xl p-4 sm:p-6">
-              <h2 className="text-lg sm:text-2xl font-bold text-center">{question.question_text}</h2>
+              <h2 className="text-lg sm:text-2xl font-bold text-center" dir="auto">{question.question_text}</h2>
             </div>
           </div>
         </div>
@@ -387,27 +497,27 @@ export const Game: React.FC = () => {
         {/* Answer phase */}
         {roundStatus === 'answering' && (
           <div>
-            {isDisplayMode ? (
+            {isDisplayMode || isAudience ? (
               <div className="text-center p-4 sm:p-8">
-                <p className="text-lg sm:text-xl mb-3 sm:mb-4">📺 وضع العرض</p>
+                <p className="text-lg sm:text-xl mb-3 sm:mb-4">{isAudience ? t('AUDIENCE_BADGE') : t('DISPLAY_MODE')}</p>
                 <p className="text-sm sm:text-base text-white/60">
-                  في انتظار إجابات اللاعبين... ({submittedCount}/{players.length})
+                  {t('WAITING_FOR_PLAYER_ANSWERS', { count: submittedCount, total: players.length })}
                 </p>
               </div>
             ) : !hasSubmittedAnswer ? (
               <>
                 <div className="mb-4 sm:mb-6">
-                  <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
-                    إجابتك
+                  <label className="block text-start mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+                    {t('YOUR_ANSWER')}
                   </label>
                   <input
                     type="text"
                     value={answerInput}
                     onChange={(e) => setAnswerInput(e.target.value)}
-                    placeholder="اكتب إجابتك هنا..."
+                    placeholder={t('ANSWER_PLACEHOLDER')}
                     className="input-glass text-base sm:text-lg"
                     maxLength={GAME_CONFIG.MAX_ANSWER_LENGTH}
-                    onKeyPress={(e) => e.key === 'Enter' && handleSubmitAnswer()}
+                    onKeyPress={(e) => e.key === 'Enter' && !isPaused && handleSubmitAnswer()}
                     autoFocus
                   />
                 </div>
@@ -415,16 +525,16 @@ export const Game: React.FC = () => {
                   variant="pink"
                   onClick={handleSubmitAnswer}
                   className="w-full"
-                  disabled={!answerInput.trim()}
+                  disabled={!answerInput.trim() || isPaused}
                 >
-                  إرسال الإجابة
+                  {t('SUBMIT_ANSWER')}
                 </GradientButton>
               </>
             ) : (
               <div className="text-center p-4 sm:p-8">
-                <p className="text-lg sm:text-xl mb-3 sm:mb-4">✅ تم إرسال إجابتك</p>
+                <p className="text-lg sm:text-xl mb-3 sm:mb-4">{t('ANSWER_SUBMITTED')}</p>
                 <p className="text-sm sm:text-base text-white/60">
-                  في انتظار باقي اللاعبين... ({submittedCount}/{players.length})
+                  {t('WAITING_FOR_OTHERS', { count: submittedCount, total: players.length })}
                 </p>
               </div>
             )}
@@ -435,40 +545,60 @@ export const Game: React.FC = () => {
         {roundStatus === 'voting' && (
           <div>
             <h3 className="text-lg sm:text-xl font-bold text-center mb-4 sm:mb-6">
-              {isDisplayMode ? 'الإجابات المقدمة' : 'صوت للإجابة الصحيحة'}
+              {isDisplayMode ? t('SUBMITTED_ANSWERS') : isAudience ? t('AUDIENCE_VOTE_TITLE') : t('VOTE_FOR_CORRECT')}
             </h3>
             <div className="space-y-2 sm:space-y-3 mb-4 sm:mb-6">
-              {allAnswers.map((answer) => (
-                <button
-                  key={answer.id}
-                  onClick={() => {
-                    if (!isDisplayMode && !hasSubmittedVote) {
-                      handleSubmitVote(answer.id);
-                    }
-                  }}
-                  disabled={!!isDisplayMode || !!hasSubmittedVote || !!(currentPlayer && answer.player_id === currentPlayer.id)}
-                  className={`w-full p-3 sm:p-4 rounded-2xl font-bold text-base sm:text-lg transition-all ${
-                    selectedAnswer === answer.id
-                      ? 'bg-gradient-to-r from-secondary-main to-secondary-light shadow-glow-cyan'
-                      : currentPlayer && answer.player_id === currentPlayer.id
-                      ? 'glass opacity-50 cursor-not-allowed'
-                      : isDisplayMode
-                      ? 'glass cursor-default'
-                      : 'glass hover:bg-white/20'
-                  }`}
-                >
-                  {answer.answer_text}
-                  {currentPlayer && answer.player_id === currentPlayer.id && ' (إجابتك)'}
-                </button>
-              ))}
+              {allAnswers.map((answer) => {
+                const isOwnAnswer = isAnswerAuthor(answer, currentPlayer?.id);
+                const isTeammate = !isAudience && isTeammateAnswer(answer, players, currentPlayer?.id);
+                const likers = answerLikes.get(answer.id) || [];
+                const hasLiked = !!currentPlayer && likers.includes(currentPlayer.id);
+                return (
+                  <div key={answer.id} className="flex items-stretch gap-2">
+                    <button
+                      onClick={() => {
+                        if (!isDisplayMode && !hasSubmittedVote) {
+                          handleSubmitVote(answer.id);
+                        }
+                      }}
+                      disabled={!!isDisplayMode || !!hasSubmittedVote || isOwnAnswer || isTeammate || isPaused}
+                      className={`flex-1 p-3 sm:p-4 rounded-2xl font-bold text-base sm:text-lg transition-all ${
+                        selectedAnswer === answer.id
+                          ? 'bg-gradient-to-r from-secondary-main to-secondary-light shadow-glow-cyan'
+                          : isOwnAnswer || isTeammate
+                          ? 'glass opacity-50 cursor-not-allowed'
+                          : isDisplayMode
+                          ? 'glass cursor-default'
+                          : 'glass hover:bg-white/20'
+                      }`}
+                    >
+                      <bdi>{answer.answer_text}</bdi>
+                      {isOwnAnswer && ` (${t('YOUR_ANSWER')})`}
+                      {isTeammate && ` (${t('TEAMMATE_ANSWER')})`}
+                    </button>
+                    {!isDisplayMode && !isOwnAnswer && (
+                      <button
+                        onClick={() => handleLikeAnswer(answer.id)}
+                        disabled={hasLiked}
+                        title={t('FUNNY_ANSWER')}
+                        className={`px-3 rounded-2xl text-lg transition-all ${
+                          hasLiked ? 'bg-yellow-500/30 border border-yellow-500/60' : 'glass hover:bg-white/20'
+                        }`}
+                      >
+                        😂{likers.length > 0 && <span className="text-sm ms-1">{likers.length}</span>}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
             </div>
             {isDisplayMode ? (
               <p className="text-center text-sm sm:text-base text-white/60">
-                📺 في انتظار تصويت اللاعبين...
+                {t('WAITING_FOR_PLAYER_VOTES')}
               </p>
             ) : hasSubmittedVote && (
               <p className="text-center text-sm sm:text-base text-white/60">
-                تم التصويت! في انتظار باقي اللاعبين...
+                {t('VOTED_WAITING')}
               </p>
             )}
           </div>
@@ -478,13 +608,25 @@ export const Game: React.FC = () => {
         {roundStatus === 'completed' && (
           <div className="text-center">
             <div className="mb-4 sm:mb-6 p-4 sm:p-6 bg-gradient-to-br from-secondary-main to-secondary-light rounded-2xl sm:rounded-3xl">
-              <p className="text-base sm:text-lg mb-2">الإجابة الصحيحة</p>
-              <p className="text-2xl sm:text-3xl font-bold">{question.correct_answer}</p>
+              <p className="text-base sm:text-lg mb-2">{t('CORRECT_ANSWER')}</p>
+              <p className="text-2xl sm:text-3xl font-bold" dir="auto">{question.correct_answer}</p>
             </div>
 
+            {roundMultiplier > 1 && (
+              <p className="mb-4 text-sm sm:text-base text-yellow-300 font-semibold">
+                {t('ROUND_MULTIPLIED', { multiplier: roundMultiplier })}
+              </p>
+            )}
+
+            <RoundScoreBreakdown
+              breakdown={roundBreakdown}
+              highlightPlayerId={currentPlayer?.id}
+              className="mb-6"
+            />
+
             {/* Scores display */}
             <div className="mb-6">
-              <h3 className="text-lg sm:text-xl font-bold mb-4">🏆 النتائج الحالية</h3>
+              <h3 className="text-lg sm:text-xl font-bold mb-4">{t('CURRENT_SCORES')}</h3>
               <div className="space-y-2">
                 {playerScores.map((player, index) => (
                   <div
@@ -499,7 +641,12 @@ export const Game: React.FC = () => {
                       {index === 2 && <span>🥉</span>}
                       <span className="font-semibold">{player.name}</span>
                     </span>
-                    <span className="text-lg font-bold">{player.score} نقطة</span>
+                    <span className="flex items-center gap-2">
+                      {player.roundPoints > 0 && (
+                        <span className="text-sm font-semibold text-secondary-light">+{player.roundPoints}</span>
+                      )}
+                      <span className="text-lg font-bold">{t('POINTS_COUNT', { count: player.score })}</span>
+                    </span>
                   </div>
                 ))}
               </div>
@@ -508,13 +655,13 @@ export const Game: React.FC = () => {
             {/* Next round / End game button - HOST ONLY */}
             {isPhaseCaptain ? (
               <GradientButton variant="pink" onClick={handleNextRound} className="w-full">
-                {isFinalRound ? '🏁 إنهاء اللعبة وعرض النتائج' : '➡️ الجولة التالية'}
+                {isFinalRound ? t('END_GAME_SHOW_RESULTS') : t('NEXT_ROUND_BUTTON')}
               </GradientButton>
             ) : (
               <div className="glass rounded-2xl p-4 text-white/80">
                 {isFinalRound 
-                  ? '⏳ في انتظار قائد اللعبة لإنهاء اللعبة...'
-                  : '⏳ في انتظار قائد اللعبة للانتقال للجولة التالية...'
+                  ? t('WAITING_CAPTAIN_END')
+                  : t('WAITING_CAPTAIN_NEXT')
                 }
               </div>
             )}
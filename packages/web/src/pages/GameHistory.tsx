@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuthStore, GameHistoryService, type GameHistoryEntry } from '@fakash/shared';
+import { GlassCard } from '../components/GlassCard';
+import { GradientButton } from '../components/GradientButton';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { Logo } from '../components/Logo';
+
+export const GameHistory: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuthStore();
+  const [games, setGames] = useState<GameHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/');
+      return;
+    }
+
+    if (user) {
+      loadHistory();
+    }
+  }, [user, authLoading, navigate]);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    setGames(await GameHistoryService.getHistory());
+    setLoading(false);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('ar-SA', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 sm:p-6">
+      <div className="max-w-4xl mx-auto">
+        <Logo size="sm" className="mb-6" />
+
+        <GlassCard>
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold mb-2">سجل الألعاب</h1>
+              <p className="text-white/60">افتح أي لعبة منتهية لمراجعة جولاتها بالتفصيل</p>
+            </div>
+            <GradientButton variant="purple" onClick={() => navigate('/profile')} className="hidden sm:block">
+              العودة
+            </GradientButton>
+          </div>
+
+          {games.length === 0 ? (
+            <p className="text-center text-white/60 py-8">لا توجد ألعاب منتهية بعد</p>
+          ) : (
+            <div className="space-y-3">
+              {games.map((entry) => (
+                <button
+                  key={entry.id}
+                  onClick={() => navigate(`/history/${entry.id}`)}
+                  className="w-full flex items-center justify-between p-4 glass rounded-xl hover:bg-white/20 transition-all text-right"
+                >
+                  <div>
+                    <p className="font-semibold mb-1">
+                      {entry.code} • {entry.round_count} جولات • {entry.player_count} لاعبين
+                      {entry.team_count > 0 && ` • ${entry.team_count} فرق`}
+                    </p>
+                    <p className="text-sm text-white/60">{formatDate(entry.created_at)}</p>
+                  </div>
+                  {entry.winner_name && (
+                    <div className="text-left">
+                      <p className="font-bold">🏆 {entry.winner_name}</p>
+                      <p className="text-sm text-white/60">{entry.winner_score} نقطة</p>
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </GlassCard>
+
+        {/* Mobile Back Button */}
+        <GradientButton
+          variant="purple"
+          onClick={() => navigate('/profile')}
+          className="w-full mt-6 sm:hidden"
+        >
+          العودة
+        </GradientButton>
+      </div>
+    </div>
+  );
+};
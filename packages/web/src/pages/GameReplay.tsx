@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuthStore, GameHistoryService, getScoreReasonLabel, type GameReplay as GameReplayData } from '@fakash/shared';
+import { GlassCard } from '../components/GlassCard';
+import { GradientButton } from '../components/GradientButton';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { Logo } from '../components/Logo';
+
+export const GameReplay: React.FC = () => {
+  const navigate = useNavigate();
+  const { gameId } = useParams<{ gameId: string }>();
+  const { user, loading: authLoading } = useAuthStore();
+  const [replay, setReplay] = useState<GameReplayData | null>(null);
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/');
+      return;
+    }
+
+    if (user && gameId) {
+      loadReplay(gameId);
+    }
+  }, [user, authLoading, gameId, navigate]);
+
+  const loadReplay = async (id: string) => {
+    setLoading(true);
+    setReplay(await GameHistoryService.getReplay(id));
+    setRoundIndex(0);
+    setLoading(false);
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!replay) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <GlassCard className="max-w-md">
+          <p className="text-center text-lg mb-4">تعذر العثور على هذه اللعبة</p>
+          <GradientButton variant="cyan" onClick={() => navigate('/history')} className="w-full">
+            العودة لسجل الألعاب
+          </GradientButton>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  const round = replay.rounds[roundIndex];
+
+  return (
+    <div className="min-h-screen p-4 sm:p-6">
+      <div className="max-w-4xl mx-auto">
+        <Logo size="sm" className="mb-6" />
+
+        <GlassCard className="mb-6">
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold mb-2">إعادة اللعبة {replay.game.code}</h1>
+              <p className="text-white/60">
+                {replay.players
+                  .filter((p) => p.role === 'player')
+                  .map((p) => `${p.user_name} (${p.score})`)
+                  .join('، ')}
+              </p>
+            </div>
+            <GradientButton variant="purple" onClick={() => navigate('/history')} className="hidden sm:block">
+              العودة
+            </GradientButton>
+          </div>
+
+          {!round ? (
+            <p className="text-center text-white/60 py-8">لا توجد جولات مكتملة في هذه اللعبة</p>
+          ) : (
+            <>
+              {/* Round stepper */}
+              <div className="flex items-center justify-between mb-6">
+                <button
+                  onClick={() => setRoundIndex(roundIndex - 1)}
+                  disabled={roundIndex === 0}
+                  className="px-4 py-2 rounded-xl glass hover:bg-white/20 disabled:opacity-30"
+                >
+                  → السابقة
+                </button>
+                <p className="font-bold">
+                  الجولة {round.round_number} من {replay.game.round_count}
+                  {round.multiplier > 1 && ` • ×${round.multiplier}`}
+                </p>
+                <button
+                  onClick={() => setRoundIndex(roundIndex + 1)}
+                  disabled={roundIndex === replay.rounds.length - 1}
+                  className="px-4 py-2 rounded-xl glass hover:bg-white/20 disabled:opacity-30"
+                >
+                  التالية ←
+                </button>
+              </div>
+
+              {/* Question */}
+              <div className="glass rounded-2xl p-4 mb-4">
+                <p className="text-lg font-bold mb-2">{round.question}</p>
+                <p className="text-green-400 font-semibold">✓ {round.correct_answer}</p>
+                <p className="text-sm text-white/60 mt-1">
+                  {round.correct_voters.length > 0
+                    ? `عرفها: ${round.correct_voters.join('، ')}`
+                    : 'لم يعرفها أحد'}
+                </p>
+              </div>
+
+              {/* Fakes */}
+              <h2 className="text-lg font-bold mb-3">الإجابات المزيفة</h2>
+              <div className="space-y-2 mb-6">
+                {round.player_answers.map((answer) => (
+                  <div key={`${answer.player_name}-${answer.answer}`} className="glass rounded-xl p-3">
+                    <div className="flex items-center justify-between">
+                      <p className="font-semibold">{answer.answer}</p>
+                      <p className="text-sm text-white/60">{answer.player_name}</p>
+                    </div>
+                    <p className="text-sm text-white/60 mt-1">
+                      {answer.voted_by.length > 0
+                        ? `انخدع بها: ${answer.voted_by.join('، ')}`
+                        : 'لم ينخدع بها أحد'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Points */}
+              <h2 className="text-lg font-bold mb-3">النقاط</h2>
+              <div className="space-y-2">
+                {round.scores.map((score) => (
+                  <div key={score.player_name} className="flex items-center justify-between glass rounded-xl p-3">
+                    <div>
+                      <p className="font-semibold">{score.player_name}</p>
+                      <p className="text-xs text-white/60">
+                        {score.reasons.map((reason) => getScoreReasonLabel({ reason })).join('، ')}
+                      </p>
+                    </div>
+                    <p className="font-bold text-secondary-main">+{score.points_earned}</p>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </GlassCard>
+
+        {/* Mobile Back Button */}
+        <GradientButton
+          variant="purple"
+          onClick={() => navigate('/history')}
+          className="w-full sm:hidden"
+        >
+          العودة
+        </GradientButton>
+      </div>
+    </div>
+  );
+};
@@ -4,9 +4,12 @@ import { Logo } from '../components/Logo';
 import { GlassCard } from '../components/GlassCard';
 import { GradientButton } from '../components/GradientButton';
 import { UserMenu } from '../components/UserMenu';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { useLocaleStore } from '@fakash/shared';
 
 export const Home: React.FC = () => {
   const navigate = useNavigate();
+  const t = useLocaleStore((state) => state.t);
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 sm:p-6">
@@ -14,16 +17,18 @@ export const Home: React.FC = () => {
       <div className="fixed top-4 left-4 z-50">
         <UserMenu />
       </div>
+      <div className="fixed top-4 right-4 z-50">
+        <LanguageSwitcher />
+      </div>
 
       <div className="animate-slide-up w-full max-w-2xl">
         <Logo size="lg" className="mb-8 sm:mb-12" />
 
         <GlassCard className="mx-auto mb-6 sm:mb-8">
           <div className="text-center mb-6 sm:mb-8">
-            <h2 className="text-xl sm:text-2xl md:text-3xl font-bold mb-3 sm:mb-4">مرحبا بك في فقش</h2>
+            <h2 className="text-xl sm:text-2xl md:text-3xl font-bold mb-3 sm:mb-4">{t('HOME_WELCOME')}</h2>
             <p className="text-sm sm:text-base text-white/80 leading-relaxed">
-              لعبة المعلومات العامة والخداع الأكثر إثارة! أجب العتميذ واكتشف من الأكثب
-              في التمييز بين الحقائق والأكاذيب
+              {t('HOME_TAGLINE')}
             </p>
           </div>
         </GlassCard>
@@ -34,7 +39,7 @@ export const Home: React.FC = () => {
             onClick={() => navigate('/create')}
             className="w-full sm:w-auto sm:min-w-[200px]"
           >
-            تجهيز غرفة
+            {t('SET_UP_ROOM')}
           </GradientButton>
 
           <GradientButton
@@ -42,7 +47,7 @@ export const Home: React.FC = () => {
             onClick={() => navigate('/join')}
             className="w-full sm:w-auto sm:min-w-[200px]"
           >
-            الانضمام للعبة
+            {t('JOIN_GAME')}
           </GradientButton>
 
           <GradientButton
@@ -50,7 +55,7 @@ export const Home: React.FC = () => {
             onClick={() => navigate('/how-to-play')}
             className="w-full sm:w-auto sm:min-w-[200px]"
           >
-            كيف العب
+            {t('HOW_TO_PLAY')}
           </GradientButton>
         </div>
       </div>
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Logo } from '../components/Logo';
 import { GlassCard } from '../components/GlassCard';
 import { GradientButton } from '../components/GradientButton';
+import { DEFAULT_SCORING_RULES, GAME_CONFIG } from '@fakash/shared';
 
 export const HowToPlay: React.FC = () => {
   const navigate = useNavigate();
@@ -75,21 +76,32 @@ export const HowToPlay: React.FC = () => {
             <div className="space-y-2">
               <div className="flex items-center justify-between glass rounded-xl p-3">
                 <span className="text-white/80 text-sm">التصويت للإجابة الصحيحة</span>
-                <span className="font-bold text-secondary-main">500 نقطة</span>
+                <span className="font-bold text-secondary-main">{DEFAULT_SCORING_RULES.correct_answer} نقطة</span>
               </div>
               <div className="flex items-center justify-between glass rounded-xl p-3">
                 <span className="text-white/80 text-sm">لكل لاعب ينخدع بإجابتك</span>
-                <span className="font-bold text-secondary-main">500 نقطة</span>
+                <span className="font-bold text-secondary-main">{DEFAULT_SCORING_RULES.per_fooled_player} نقطة</span>
               </div>
               <div className="flex items-center justify-between glass rounded-xl p-3">
                 <span className="text-white/80 text-sm">إجابة مثالية (لا أحد اختارها)</span>
-                <span className="font-bold text-secondary-main">1000 نقطة</span>
+                <span className="font-bold text-secondary-main">{DEFAULT_SCORING_RULES.perfect_fake_bonus} نقطة</span>
               </div>
               <div className="flex items-center justify-between glass rounded-xl p-3">
                 <span className="text-white/80 text-sm">أعلى نقاط في الجولة</span>
-                <span className="font-bold text-secondary-main">250 نقطة</span>
+                <span className="font-bold text-secondary-main">{DEFAULT_SCORING_RULES.round_winner_bonus} نقطة</span>
+              </div>
+              <div className="flex items-center justify-between glass rounded-xl p-3">
+                <span className="text-white/80 text-sm">كل إعجاب 😂 على إجابتك</span>
+                <span className="font-bold text-secondary-main">{GAME_CONFIG.POINTS.PER_LIKE} نقطة</span>
+              </div>
+              <div className="flex items-center justify-between glass rounded-xl p-3">
+                <span className="text-white/80 text-sm">الإجابة الأكثر خداعاً للجمهور 👀</span>
+                <span className="font-bold text-secondary-main">{GAME_CONFIG.POINTS.AUDIENCE_FAVORITE_BONUS} نقطة</span>
               </div>
             </div>
+            <p className="text-white/60 text-xs mt-2">
+              هذه النقاط الافتراضية، ويمكن للمضيف تغييرها عند إنشاء اللعبة
+            </p>
           </div>
 
           {/* Tips */}
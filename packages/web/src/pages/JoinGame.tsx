@@ -5,12 +5,14 @@ import { GlassCard } from '../components/GlassCard';
 import { GradientButton } from '../components/GradientButton';
 import { CodeInput } from '../components/CodeInput';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { useGameStore } from '@fakash/shared';
+import { useGameStore, useLocaleStore, formatError, PlayerRole } from '@fakash/shared';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
 
 export const JoinGame: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { joinGame, isLoading, error } = useGameStore();
+  const t = useLocaleStore((state) => state.t);
 
   const [playerName, setPlayerName] = useState('');
   const [gameCode, setGameCode] = useState('');
@@ -41,14 +43,14 @@ export const JoinGame: React.FC = () => {
     setStep('name');
   };
 
-  const handleJoinGame = async () => {
+  const handleJoinGame = async (role: PlayerRole = 'player') => {
     if (!playerName.trim()) {
-      alert('الرجاء إدخال اسمك');
+      alert(t('NAME_REQUIRED'));
       return;
     }
 
     try {
-      await joinGame(gameCode, playerName);
+      await joinGame(gameCode, playerName, role);
       navigate('/lobby');
     } catch (err) {
       console.error('Failed to join game:', err);
@@ -57,12 +59,16 @@ export const JoinGame: React.FC = () => {
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 sm:p-6">
+      <div className="fixed top-4 right-4 z-50">
+        <LanguageSwitcher />
+      </div>
+
       <Logo size="md" className="mb-6 sm:mb-8" />
 
       <GlassCard className="max-w-xl w-full">
         {step === 'code' ? (
           <>
-            <h2 className="text-2xl sm:text-3xl font-bold text-center mb-6 sm:mb-8">غرفة اللعبة</h2>
+            <h2 className="text-2xl sm:text-3xl font-bold text-center mb-6 sm:mb-8">{t('GAME_ROOM')}</h2>
 
             <div className="mb-6 sm:mb-8">
               <div className="text-center mb-6">
@@ -70,15 +76,15 @@ export const JoinGame: React.FC = () => {
                   <span className="text-4xl sm:text-5xl">📱</span>
                 </div>
                 <p className="text-base sm:text-lg text-white/90 mb-2">
-                  امسح الكود للانضمام
+                  {t('SCAN_TO_JOIN')}
                 </p>
                 <p className="text-sm sm:text-base text-white/60">
-                  افتح الكاميرا وامسح رمز QR
+                  {t('OPEN_CAMERA_SCAN')}
                 </p>
               </div>
 
               <div className="text-center mb-4 sm:mb-6">
-                <p className="text-sm sm:text-base text-white/80 mb-3">أو أدخل الكود يدوياً</p>
+                <p className="text-sm sm:text-base text-white/80 mb-3">{t('OR_ENTER_CODE')}</p>
                 <CodeInput onComplete={handleCodeComplete} />
               </div>
             </div>
@@ -86,24 +92,24 @@ export const JoinGame: React.FC = () => {
         ) : (
           <>
             <h2 className="text-2xl sm:text-3xl font-bold text-center mb-6 sm:mb-8">
-              انضم إلى اللعبة
+              {t('JOIN_THE_GAME')}
             </h2>
 
             <div className="mb-4 sm:mb-6">
-              <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg">
-                الكود: {gameCode}
+              <label className="block text-start mb-2 sm:mb-3 text-base sm:text-lg">
+                {t('CODE_LABEL', { code: gameCode })}
               </label>
             </div>
 
             <div className="mb-4 sm:mb-6">
-              <label className="block text-right mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
-                أدخل اسمك
+              <label className="block text-start mb-2 sm:mb-3 text-base sm:text-lg font-semibold">
+                {t('ENTER_YOUR_NAME')}
               </label>
               <input
                 type="text"
                 value={playerName}
                 onChange={(e) => setPlayerName(e.target.value)}
-                placeholder="اسمك هنا"
+                placeholder={t('NAME_PLACEHOLDER')}
                 className="input-glass text-base sm:text-lg"
                 maxLength={50}
                 onKeyPress={(e) => e.key === 'Enter' && handleJoinGame()}
@@ -113,7 +119,7 @@ export const JoinGame: React.FC = () => {
 
             {error && (
               <div className="mb-4 sm:mb-6 p-3 sm:p-4 bg-red-500/20 border border-red-500/50 rounded-2xl text-center text-sm sm:text-base">
-                {error}
+                {formatError(error)}
               </div>
             )}
 
@@ -124,18 +130,27 @@ export const JoinGame: React.FC = () => {
                 className="flex-1"
                 disabled={isLoading}
               >
-                العودة
+                {t('BACK')}
               </GradientButton>
 
               <GradientButton
                 variant="pink"
-                onClick={handleJoinGame}
+                onClick={() => handleJoinGame()}
                 className="flex-1"
                 disabled={isLoading}
               >
-                {isLoading ? <LoadingSpinner size="sm" /> : 'بدأ اللعبة'}
+                {isLoading ? <LoadingSpinner size="sm" /> : t('JOIN')}
               </GradientButton>
             </div>
+
+            {/* Audience can join full or already started games */}
+            <button
+              onClick={() => handleJoinGame('audience')}
+              disabled={isLoading}
+              className="w-full mt-3 p-3 rounded-2xl glass hover:bg-white/20 text-sm sm:text-base transition-all"
+            >
+              {t('JOIN_AS_AUDIENCE')} {t('JOIN_AS_AUDIENCE_HINT')}
+            </button>
           </>
         )}
       </GlassCard>
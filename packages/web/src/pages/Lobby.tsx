@@ -6,16 +6,46 @@ import { GlassCard } from '../components/GlassCard';
 import { GradientButton } from '../components/GradientButton';
 import { PlayerAvatar } from '../components/PlayerAvatar';
 import { LeaveGameButton } from '../components/LeaveGameButton';
-import { useGameStore, GAME_CONFIG } from '@fakash/shared';
+import {
+  useGameStore,
+  useLocaleStore,
+  GAME_CONFIG,
+  ErrorType,
+  GameError,
+  formatError,
+  isGameError,
+  getGameTeams,
+  getTeam,
+  type Player,
+  type TeamId,
+} from '@fakash/shared';
 
 export const Lobby: React.FC = () => {
   const navigate = useNavigate();
-  const { game, players, currentPlayer, isHost, isDisplayMode, startGame, isConnected } = useGameStore();
+  const {
+    game,
+    players,
+    audience,
+    currentPlayer,
+    isHost,
+    isDisplayMode,
+    isAudience,
+    startGame,
+    setTeam,
+    shuffleTeams,
+    kickPlayer,
+    renamePlayer,
+    isConnected,
+    error,
+  } = useGameStore();
+  const t = useLocaleStore((state) => state.t);
 
   useEffect(() => {
     // Allow display mode without currentPlayer
     if (!game || (!currentPlayer && !isDisplayMode)) {
-      navigate('/');
+      // Kicked players land on the join page, which shows the reason
+      const wasKicked = isGameError(error, ErrorType.KICKED, ErrorType.BANNED);
+      navigate(wasKicked ? '/join' : '/');
       return;
     }
 
@@ -94,11 +124,56 @@ export const Lobby: React.FC = () => {
       await startGame();
     } catch (err) {
       console.error('Failed to start game:', err);
-      const message = err instanceof Error ? err.message : 'تعذر بدء اللعبة. تأكد من وجود لاعبين كافيين وحاول مرة أخرى.';
+      const message = err instanceof GameError ? formatError(err) : t('START_FAILED');
       alert(message);
     }
   };
 
+  const handleSetTeam = async (team: TeamId) => {
+    try {
+      await setTeam(team);
+    } catch (err) {
+      console.error('Failed to switch team:', err);
+    }
+  };
+
+  const handleShuffleTeams = async () => {
+    try {
+      await shuffleTeams();
+    } catch (err) {
+      console.error('Failed to shuffle teams:', err);
+    }
+  };
+
+  const handleRenamePlayer = async (player: Player) => {
+    const newName = window.prompt(t('RENAME_PROMPT'), player.user_name);
+    if (!newName || newName.trim() === player.user_name) return;
+
+    try {
+      await renamePlayer(player.id, newName);
+    } catch (err) {
+      console.error('Failed to rename player:', err);
+      alert(err instanceof GameError ? formatError(err) : t('RENAME_FAILED'));
+    }
+  };
+
+  const handleKickPlayer = async (player: Player, ban: boolean) => {
+    const question = ban
+      ? t('BAN_CONFIRM', { name: player.user_name })
+      : t('KICK_CONFIRM', { name: player.user_name });
+    if (!window.confirm(question)) return;
+
+    try {
+      await kickPlayer(player.id, ban);
+    } catch (err) {
+      console.error('Failed to kick player:', err);
+      alert(err instanceof GameError ? formatError(err) : t('KICK_FAILED'));
+    }
+  };
+
+  const canModerate = isHost || isDisplayMode;
+  const teams = getGameTeams(game);
+
   // Generate join URL for QR code
   const joinUrl = `${window.location.origin}/join?code=${game.code}`;
 
@@ -122,7 +197,7 @@ export const Lobby: React.FC = () => {
                     className="w-full h-full"
                   />
                 </div>
-                <p className="text-sm text-center text-white/60">امسح الكود للانضمام</p>
+                <p className="text-sm text-center text-white/60">{t('SCAN_TO_JOIN')}</p>
                 <p className="text-2xl sm:text-3xl md:text-lg font-bold text-center mt-2">{game.code}</p>
               </>
             ) : (
@@ -132,13 +207,13 @@ export const Lobby: React.FC = () => {
                   <span className="text-3xl sm:text-4xl">📱</span>
                 </div>
                 <p className="text-sm sm:text-base text-white/80 mb-1">
-                  للانضمام للعبة:
+                  {t('TO_JOIN')}
                 </p>
                 <p className="text-xs sm:text-sm text-white/60 mb-3">
-                  افتح الكاميرا وامسح الكود
+                  {t('OPEN_CAMERA_SCAN_CODE')}
                 </p>
                 <p className="text-xs sm:text-sm text-white/60">
-                  أو أدخل الكود يدوياً:
+                  {t('OR_ENTER_CODE')}:
                 </p>
                 <div className="glass rounded-2xl px-6 py-4 inline-block mt-3">
                   <p className="text-3xl sm:text-4xl md:text-2xl font-bold tracking-wider">{game.code}</p>
@@ -148,9 +223,9 @@ export const Lobby: React.FC = () => {
           </div>
 
           {/* Player List */}
-          <div className="flex-1 w-full md:mr-8">
+          <div className="flex-1 w-full md:ms-8">
             <div className="flex flex-col sm:flex-row items-center justify-center gap-2 sm:gap-3 mb-6">
-              <h2 className="text-xl sm:text-2xl font-bold">اللاعبين المنضمين</h2>
+              <h2 className="text-xl sm:text-2xl font-bold">{t('JOINED_PLAYERS')}</h2>
               <div className="flex items-center gap-2">
                 <div
                   className={`w-3 h-3 rounded-full ${
@@ -158,11 +233,44 @@ export const Lobby: React.FC = () => {
                   }`}
                 ></div>
                 <span className="text-sm text-white/60">
-                  {isConnected ? 'متصل' : 'غير متصل'}
+                  {isConnected ? t('CONNECTED') : t('DISCONNECTED')}
                 </span>
               </div>
             </div>
 
+            {/* Team picker (team mode only) */}
+            {teams.length > 0 && (
+              <div className="mb-4">
+                <div className="grid grid-cols-2 gap-2">
+                  {teams.map((team) => {
+                    const isMyTeam = currentPlayer?.team === team.id;
+                    const memberCount = players.filter((p) => p.team === team.id).length;
+                    return (
+                      <button
+                        key={team.id}
+                        onClick={() => handleSetTeam(team.id)}
+                        disabled={!currentPlayer || isAudience || isMyTeam}
+                        className={`rounded-2xl p-3 font-bold text-sm sm:text-base transition-all border-2 ${
+                          isMyTeam ? 'bg-white/20' : 'glass hover:bg-white/20'
+                        }`}
+                        style={{ borderColor: team.color }}
+                      >
+                        {team.name} ({memberCount})
+                      </button>
+                    );
+                  })}
+                </div>
+                {(isHost || isDisplayMode) && (
+                  <button
+                    onClick={handleShuffleTeams}
+                    className="w-full mt-2 text-sm text-secondary-main hover:underline"
+                  >
+                    {t('SHUFFLE_TEAMS')}
+                  </button>
+                )}
+              </div>
+            )}
+
             <div className="space-y-3 max-h-96 overflow-y-auto">
               {players.map((player) => (
                 <div
@@ -178,9 +286,42 @@ export const Lobby: React.FC = () => {
                   <div className="flex-1 min-w-0">
                     <p className="font-bold text-base sm:text-lg truncate">{player.user_name}</p>
                     {player.is_host && (
-                      <p className="text-xs sm:text-sm text-yellow-400">المضيف</p>
+                      <p className="text-xs sm:text-sm text-yellow-400">{t('HOST')}</p>
                     )}
                   </div>
+                  {getTeam(player.team) && (
+                    <span
+                      className="text-xs sm:text-sm font-bold px-2 py-1 rounded-lg flex-shrink-0"
+                      style={{ backgroundColor: getTeam(player.team)!.color }}
+                    >
+                      {getTeam(player.team)!.name}
+                    </span>
+                  )}
+                  {canModerate && !player.is_host && player.id !== currentPlayer?.id && (
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleRenamePlayer(player)}
+                        title={t('RENAME')}
+                        className="w-8 h-8 rounded-lg glass hover:bg-white/20"
+                      >
+                        ✏️
+                      </button>
+                      <button
+                        onClick={() => handleKickPlayer(player, false)}
+                        title={t('KICK')}
+                        className="w-8 h-8 rounded-lg glass hover:bg-white/20"
+                      >
+                        🚫
+                      </button>
+                      <button
+                        onClick={() => handleKickPlayer(player, true)}
+                        title={t('BAN')}
+                        className="w-8 h-8 rounded-lg glass hover:bg-red-500/40"
+                      >
+                        ⛔
+                      </button>
+                    </div>
+                  )}
                   <div
                     className={`w-3 h-3 rounded-full flex-shrink-0 ${
                       player.connection_status === 'connected'
@@ -193,8 +334,14 @@ export const Lobby: React.FC = () => {
             </div>
 
             <p className="text-center mt-4 text-white/60">
-              {players.length} / {game.max_players} لاعبين
+              {t('PLAYER_COUNT', { count: players.length, max: game.max_players })}
+              {audience.length > 0 && ` • ${t('AUDIENCE_COUNT', { count: audience.length })}`}
             </p>
+            {isAudience && (
+              <p className="text-center mt-2 text-sm text-secondary-main">
+                {t('AUDIENCE_HINT')}
+              </p>
+            )}
           </div>
         </div>
 
@@ -213,7 +360,7 @@ export const Lobby: React.FC = () => {
                 className="flex-1 w-full sm:w-auto"
                 disabled={players.length < GAME_CONFIG.MIN_PLAYERS}
               >
-                بدأ اللعبة
+                {t('START_GAME')}
               </GradientButton>
             )}
           </div>
@@ -223,7 +370,7 @@ export const Lobby: React.FC = () => {
           <div className="space-y-3">
             <div className="text-center p-4 bg-secondary-main/20 border border-secondary-main/50 rounded-2xl">
               <p className="text-sm sm:text-base">
-                📺 وضع العرض - امسح رمز QR من هاتفك للانضمام كمضيف
+                {t('DISPLAY_MODE_HINT')}
               </p>
             </div>
             <GradientButton
@@ -232,7 +379,7 @@ export const Lobby: React.FC = () => {
               className="w-full"
               disabled={players.length < GAME_CONFIG.MIN_PLAYERS}
             >
-              بدأ اللعبة
+              {t('START_GAME')}
             </GradientButton>
           </div>
         )}
@@ -22,6 +22,8 @@ export const Profile: React.FC = () => {
   const [profile, setProfile] = useState<HostProfile | null>(null);
   const [payments, setPayments] = useState<PaymentHistory[]>([]);
   const [loading, setLoading] = useState(true);
+  const [seenQuestionCount, setSeenQuestionCount] = useState(0);
+  const [isResettingSeen, setIsResettingSeen] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -45,6 +47,9 @@ export const Profile: React.FC = () => {
       // Load payment history
       const paymentHistory = await PaymentService.getPaymentHistory();
       setPayments(paymentHistory?.map(p => ({ ...p, paid_at: p.paid_at ?? null })) || []);
+
+      // Questions already played in this host's games (drawn last in new games)
+      setSeenQuestionCount(await HostProfileService.getSeenQuestionCount());
     } catch (error) {
       console.error('Failed to load profile data:', error);
     } finally {
@@ -57,6 +62,20 @@ export const Profile: React.FC = () => {
     navigate('/');
   };
 
+  const handleResetSeenQuestions = async () => {
+    if (!window.confirm('إعادة تعيين الأسئلة التي ظهرت؟ قد تتكرر الأسئلة في ألعابك القادمة.')) return;
+
+    setIsResettingSeen(true);
+    const success = await HostProfileService.resetSeenQuestions();
+    setIsResettingSeen(false);
+
+    if (success) {
+      setSeenQuestionCount(0);
+    } else {
+      alert('تعذر إعادة تعيين الأسئلة');
+    }
+  };
+
   const getTierBadge = (tier: string) => {
     const badges = {
       free: { label: 'مجاني', color: 'bg-gray-500' },
@@ -178,6 +197,20 @@ export const Profile: React.FC = () => {
                 ترقية الحساب
               </GradientButton>
             )}
+            <GradientButton
+              variant="pink"
+              onClick={() => navigate('/packs')}
+              className="flex-1"
+            >
+              حزم الأسئلة
+            </GradientButton>
+            <GradientButton
+              variant="cyan"
+              onClick={() => navigate('/history')}
+              className="flex-1"
+            >
+              سجل الألعاب
+            </GradientButton>
             <GradientButton
               variant="purple"
               onClick={handleSignOut}
@@ -188,6 +221,25 @@ export const Profile: React.FC = () => {
           </div>
         </GlassCard>
 
+        {/* Seen questions */}
+        <GlassCard className="mb-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold mb-1">الأسئلة التي ظهرت</h2>
+              <p className="text-white/60 text-sm">
+                ظهر {seenQuestionCount} سؤال في ألعابك، وتأتي الأسئلة الجديدة أولاً في الألعاب القادمة
+              </p>
+            </div>
+            <GradientButton
+              variant="purple"
+              onClick={handleResetSeenQuestions}
+              disabled={isResettingSeen || seenQuestionCount === 0}
+            >
+              إعادة التعيين
+            </GradientButton>
+          </div>
+        </GlassCard>
+
         {/* Payment History */}
         {payments.length > 0 && (
           <GlassCard>
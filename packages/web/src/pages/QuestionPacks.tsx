@@ -0,0 +1,403 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  useAuthStore,
+  QuestionPackService,
+  GameError,
+  formatError,
+  type QuestionPack,
+  type QuestionFileFormat,
+  type QuestionImportResult,
+} from '@fakash/shared';
+import { GlassCard } from '../components/GlassCard';
+import { GradientButton } from '../components/GradientButton';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { Logo } from '../components/Logo';
+
+type PackSummary = QuestionPack & { question_count: number };
+
+export const QuestionPacks: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuthStore();
+
+  const [packs, setPacks] = useState<PackSummary[]>([]);
+  const [selectedPack, setSelectedPack] = useState<QuestionPack | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New pack form
+  const [title, setTitle] = useState('');
+  const [language, setLanguage] = useState<'ar' | 'en'>('ar');
+  const [category, setCategory] = useState('');
+
+  // New question form
+  const [questionText, setQuestionText] = useState('');
+  const [correctAnswer, setCorrectAnswer] = useState('');
+  const [acceptedAnswers, setAcceptedAnswers] = useState('');
+
+  // Last bulk import report
+  const [importReport, setImportReport] = useState<(QuestionImportResult & { imported: number }) | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/');
+      return;
+    }
+
+    if (user) {
+      loadPacks();
+    }
+  }, [user, authLoading, navigate]);
+
+  const loadPacks = async () => {
+    setLoading(true);
+    setPacks(await QuestionPackService.getMyPacks());
+    setLoading(false);
+  };
+
+  const openPack = async (packId: string) => {
+    setError(null);
+    setImportReport(null);
+    setSelectedPack(await QuestionPackService.getPack(packId));
+  };
+
+  const getErrorMessage = (err: unknown) =>
+    err instanceof GameError ? formatError(err, 'ar') : 'حدث خطأ، حاول مرة أخرى';
+
+  const handleCreatePack = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const pack = await QuestionPackService.createPack({ title, language, category });
+      setTitle('');
+      setCategory('');
+      await loadPacks();
+      await openPack(pack.id);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePack = async (packId: string) => {
+    if (!window.confirm('هل أنت متأكد أنك تريد حذف هذه الحزمة وجميع أسئلتها؟')) return;
+
+    try {
+      await QuestionPackService.deletePack(packId);
+      if (selectedPack?.id === packId) setSelectedPack(null);
+      await loadPacks();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleAddQuestion = async () => {
+    if (!selectedPack) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await QuestionPackService.addQuestions(selectedPack, [
+        {
+          question_text: questionText,
+          correct_answer: correctAnswer,
+          accepted_answers: acceptedAnswers.split('،').flatMap((part) => part.split(',')),
+        },
+      ]);
+      setQuestionText('');
+      setCorrectAnswer('');
+      setAcceptedAnswers('');
+      await openPack(selectedPack.id);
+      await loadPacks();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selectedPack) return;
+
+    const format: QuestionFileFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+
+    setSaving(true);
+    setError(null);
+    try {
+      const content = await file.text();
+      const report = await QuestionPackService.importQuestions(selectedPack, content, format);
+      await openPack(selectedPack.id);
+      setImportReport(report);
+      await loadPacks();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async (format: QuestionFileFormat) => {
+    if (!selectedPack) return;
+
+    try {
+      const content = await QuestionPackService.exportPack(selectedPack.id, format);
+      const blob = new Blob([content], {
+        type: format === 'json' ? 'application/json' : 'text/csv;charset=utf-8',
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${selectedPack.title}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleDeleteQuestion = async (questionId: string) => {
+    if (!selectedPack) return;
+
+    try {
+      await QuestionPackService.deleteQuestion(questionId);
+      await openPack(selectedPack.id);
+      await loadPacks();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 sm:p-6">
+      <div className="max-w-4xl mx-auto">
+        <Logo size="sm" className="mb-6" />
+
+        <GlassCard className="mb-6">
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold mb-2">حزم الأسئلة</h1>
+              <p className="text-white/60">أنشئ أسئلتك الخاصة واخترها عند إنشاء لعبة</p>
+            </div>
+            <GradientButton variant="purple" onClick={() => navigate('/profile')} className="hidden sm:block">
+              العودة
+            </GradientButton>
+          </div>
+
+          {/* Create pack */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="عنوان الحزمة"
+              className="input-glass text-base"
+              maxLength={100}
+            />
+            <input
+              type="text"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="التصنيف (اختياري)"
+              className="input-glass text-base"
+              maxLength={50}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              {(['ar', 'en'] as const).map((lang) => (
+                <button
+                  key={lang}
+                  onClick={() => setLanguage(lang)}
+                  className={`rounded-2xl font-bold transition-all ${
+                    language === lang
+                      ? 'bg-gradient-to-br from-secondary-main to-secondary-light'
+                      : 'glass hover:bg-white/20'
+                  }`}
+                >
+                  {lang === 'ar' ? 'عربي' : 'English'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <GradientButton
+            variant="cyan"
+            onClick={handleCreatePack}
+            className="w-full"
+            disabled={saving || !title.trim()}
+          >
+            إنشاء حزمة جديدة
+          </GradientButton>
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-2xl text-center text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Pack list */}
+          <div className="space-y-3 mt-6">
+            {packs.length === 0 && (
+              <p className="text-center text-white/60">لا توجد حزم بعد</p>
+            )}
+            {packs.map((pack) => (
+              <div
+                key={pack.id}
+                className={`flex items-center justify-between p-4 rounded-xl cursor-pointer transition-all ${
+                  selectedPack?.id === pack.id ? 'bg-white/20' : 'glass hover:bg-white/10'
+                }`}
+                onClick={() => openPack(pack.id)}
+              >
+                <div>
+                  <p className="font-semibold">{pack.title}</p>
+                  <p className="text-sm text-white/60">
+                    {pack.question_count} سؤال
+                    {pack.category ? ` • ${pack.category}` : ''}
+                    {` • ${pack.language === 'ar' ? 'عربي' : 'English'}`}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeletePack(pack.id);
+                  }}
+                  className="text-sm text-red-400 hover:text-red-300 px-3 py-1"
+                >
+                  حذف
+                </button>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+
+        {/* Selected pack editor */}
+        {selectedPack && (
+          <GlassCard>
+            <h2 className="text-xl sm:text-2xl font-bold mb-4">{selectedPack.title}</h2>
+
+            <div className="space-y-3 mb-4">
+              <textarea
+                value={questionText}
+                onChange={(e) => setQuestionText(e.target.value)}
+                placeholder="نص السؤال"
+                className="input-glass text-base min-h-[80px]"
+                maxLength={500}
+              />
+              <input
+                type="text"
+                value={correctAnswer}
+                onChange={(e) => setCorrectAnswer(e.target.value)}
+                placeholder="الإجابة الصحيحة"
+                className="input-glass text-base"
+                maxLength={200}
+              />
+              <input
+                type="text"
+                value={acceptedAnswers}
+                onChange={(e) => setAcceptedAnswers(e.target.value)}
+                placeholder="إجابات مقبولة أخرى (اختياري، افصل بينها بفاصلة)"
+                className="input-glass text-base"
+              />
+              <GradientButton
+                variant="pink"
+                onClick={handleAddQuestion}
+                className="w-full"
+                disabled={saving || !questionText.trim() || !correctAnswer.trim()}
+              >
+                {saving ? <LoadingSpinner size="sm" /> : 'إضافة سؤال'}
+              </GradientButton>
+            </div>
+
+            {/* Bulk import/export */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4 pt-4 border-t border-white/10">
+              <label
+                className={`btn-gradient btn-purple text-center cursor-pointer min-h-[48px] flex items-center justify-center ${
+                  saving ? 'opacity-50 pointer-events-none' : ''
+                }`}
+              >
+                استيراد ملف (CSV / JSON)
+                <input type="file" accept=".csv,.json" className="hidden" onChange={handleImportFile} />
+              </label>
+              <GradientButton variant="cyan" onClick={() => handleExport('csv')}>
+                تصدير CSV
+              </GradientButton>
+              <GradientButton variant="cyan" onClick={() => handleExport('json')}>
+                تصدير JSON
+              </GradientButton>
+            </div>
+            <p className="text-xs text-white/60 mb-4" dir="ltr">
+              question_text, correct_answer, accepted_answers (a|b), category, difficulty (easy/medium/hard), language (ar/en)
+            </p>
+
+            {importReport && (
+              <div className="mb-4 p-4 glass rounded-xl text-sm space-y-2">
+                <p className="font-semibold text-green-400">تم استيراد {importReport.imported} سؤال</p>
+                {importReport.duplicates.length > 0 && (
+                  <div>
+                    <p className="text-yellow-400">أسئلة مكررة تم تجاهلها ({importReport.duplicates.length}):</p>
+                    <ul className="text-white/70">
+                      {importReport.duplicates.map((dup) => (
+                        <li key={dup.row}>الصف {dup.row}: {dup.question_text}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {importReport.errors.length > 0 && (
+                  <div>
+                    <p className="text-red-400">أخطاء ({importReport.errors.length}):</p>
+                    <ul className="text-white/70">
+                      {importReport.errors.map((rowError, index) => (
+                        <li key={index}>
+                          {rowError.row > 0 ? `الصف ${rowError.row}` : 'الملف'}
+                          {rowError.field ? ` (${rowError.field})` : ''}: {rowError.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {(selectedPack.questions || []).map((question) => (
+                <div key={question.id} className="flex items-start justify-between p-4 glass rounded-xl gap-4">
+                  <div>
+                    <p className="font-semibold mb-1">{question.question_text}</p>
+                    <p className="text-sm text-green-400">
+                      {[question.correct_answer, ...(question.accepted_answers || [])].join(' • ')}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteQuestion(question.id)}
+                    className="text-sm text-red-400 hover:text-red-300 px-3 py-1 shrink-0"
+                  >
+                    حذف
+                  </button>
+                </div>
+              ))}
+            </div>
+          </GlassCard>
+        )}
+
+        {/* Mobile Back Button */}
+        <GradientButton
+          variant="purple"
+          onClick={() => navigate('/profile')}
+          className="w-full mt-6 sm:hidden"
+        >
+          العودة
+        </GradientButton>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { GameHistoryService, useLocaleStore, type GameRecap } from '@fakash/shared';
+import { GlassCard } from '../components/GlassCard';
+import { GradientButton } from '../components/GradientButton';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { Logo } from '../components/Logo';
+import { RecapCard, ShareRecapButton } from '../components/recap';
+
+export const Recap: React.FC = () => {
+  const navigate = useNavigate();
+  const { gameId } = useParams<{ gameId: string }>();
+  const t = useLocaleStore((state) => state.t);
+  const [recap, setRecap] = useState<GameRecap | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    GameHistoryService.getRecap(gameId).then((data) => {
+      setRecap(data);
+      setLoading(false);
+    });
+  }, [gameId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!recap) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <GlassCard className="max-w-md">
+          <p className="text-center text-lg mb-4">{t('RECAP_UNAVAILABLE')}</p>
+          <GradientButton variant="cyan" onClick={() => navigate('/')} className="w-full">
+            {t('RETURN_HOME')}
+          </GradientButton>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-4 sm:p-6">
+      <Logo size="md" className="mb-4 sm:mb-6" />
+
+      {recap.winner && (
+        <div className="mb-6 sm:mb-8 text-center">
+          <p className="text-3xl sm:text-4xl mb-3">🏆</p>
+          <p className="text-2xl sm:text-3xl font-bold bg-gradient-gold bg-clip-text text-transparent">
+            {recap.winner.player_name}
+          </p>
+          <p className="text-lg sm:text-xl mt-2">{t('POINTS_COUNT', { count: recap.winner.score })}</p>
+        </div>
+      )}
+
+      <GlassCard className="max-w-2xl w-full">
+        <h1 className="text-xl sm:text-2xl font-bold text-center mb-4 sm:mb-6">
+          {t('RECAP_OF_GAME', { code: recap.game.code })}
+        </h1>
+
+        <RecapCard recap={recap} />
+
+        <div className="mt-6 flex flex-col sm:flex-row gap-3">
+          <ShareRecapButton recap={recap} className="flex-1" />
+          <GradientButton variant="pink" onClick={() => navigate('/')} className="flex-1">
+            {t('PLAY_FAKASH')}
+          </GradientButton>
+        </div>
+      </GlassCard>
+    </div>
+  );
+};
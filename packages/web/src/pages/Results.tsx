@@ -4,18 +4,40 @@ import { Logo } from '../components/Logo';
 import { GlassCard } from '../components/GlassCard';
 import { GradientButton } from '../components/GradientButton';
 import { PlayerAvatar } from '../components/PlayerAvatar';
-import { useGameStore, ScoringService, GameService, clearGameSession } from '@fakash/shared';
+import {
+  useGameStore,
+  useLocaleStore,
+  ScoringService,
+  GameService,
+  GameHistoryService,
+  PaymentService,
+  clearGameSession,
+  type GameRecap,
+} from '@fakash/shared';
 import { GameLoader } from '../components/GameLoader';
+import { RecapCard, ShareRecapButton } from '../components/recap';
+import { UpgradeModal } from '../components/payment';
 
 export const Results: React.FC = () => {
   const navigate = useNavigate();
-  const { game, isHost, leaveGame } = useGameStore();
+  const { game, isHost, isDisplayMode, leaveGame, playAgain, joinRematch } = useGameStore();
+  const t = useLocaleStore((state) => state.t);
   const [leaderboard, setLeaderboard] = useState<any[]>([]);
+  const [teamLeaderboard, setTeamLeaderboard] = useState<Awaited<
+    ReturnType<typeof ScoringService.getTeamLeaderboard>
+  >>([]);
+  const [funniestLiar, setFunniestLiar] = useState<Awaited<
+    ReturnType<typeof ScoringService.getFunniestLiar>
+  >>(null);
+  const [recap, setRecap] = useState<GameRecap | null>(null);
   const [isEnding, setIsEnding] = useState(false);
+  const [isStartingRematch, setIsStartingRematch] = useState(false);
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   
   // Store game ID in ref so we can still fetch leaderboard even if game state changes
   const gameIdRef = useRef<string | null>(null);
   const hasLoadedRef = useRef(false);
+  const joiningRematchRef = useRef(false);
 
   // Capture game ID on mount
   useEffect(() => {
@@ -36,9 +58,9 @@ export const Results: React.FC = () => {
       return;
     }
 
-    // If game is not finished yet, go back to game page
+    // If game is not finished yet, go back to game page (or the rematch lobby)
     if (game && game.status !== 'finished') {
-      navigate('/game');
+      navigate(game.status === 'waiting' ? '/lobby' : '/game');
       return;
     }
 
@@ -48,6 +70,9 @@ export const Results: React.FC = () => {
         hasLoadedRef.current = true;
         const data = await ScoringService.getFinalLeaderboard(gameId);
         setLeaderboard(data);
+        setTeamLeaderboard(await ScoringService.getTeamLeaderboard(gameId));
+        setFunniestLiar(await ScoringService.getFunniestLiar(gameId));
+        setRecap(await GameHistoryService.getRecap(gameId));
       } catch (err) {
         console.error('Failed to fetch leaderboard:', err);
       }
@@ -56,6 +81,45 @@ export const Results: React.FC = () => {
     fetchLeaderboard();
   }, [game, navigate]);
 
+  // Follow the host into the rematch lobby as soon as it exists
+  const rematchGameId = game?.rematch_game_id;
+  useEffect(() => {
+    if (!rematchGameId || joiningRematchRef.current) return;
+
+    joiningRematchRef.current = true;
+    joinRematch().then((joined) => {
+      if (!joined) {
+        console.log('⚠️ Could not follow the host into the rematch');
+        setIsStartingRematch(false);
+      }
+    });
+  }, [rematchGameId, joinRematch]);
+
+  // Handle starting a rematch with the same lobby (host or display)
+  const handlePlayAgain = async () => {
+    setIsStartingRematch(true);
+
+    // Rematches are new games, so the same entitlement applies
+    try {
+      const entitlement = await PaymentService.checkHostEntitlement();
+      if (!entitlement || !entitlement.can_create_games) {
+        setShowUpgradeModal(true);
+        setIsStartingRematch(false);
+        return;
+      }
+    } catch (err) {
+      console.error('Failed to check entitlement:', err);
+    }
+
+    try {
+      await playAgain();
+    } catch (err) {
+      console.error('Failed to start rematch:', err);
+      alert(t('REMATCH_FAILED'));
+      setIsStartingRematch(false);
+    }
+  };
+
   // Handle creating a new game
   const handleCreateNewGame = async () => {
     // Clean up current session
@@ -90,10 +154,11 @@ export const Results: React.FC = () => {
 
   // Show loading state if leaderboard hasn't loaded yet
   if (leaderboard.length === 0 && !hasLoadedRef.current) {
-    return <GameLoader message="🏆 نحسب النتائج النهائية..." />;
+    return <GameLoader message={t('CALCULATING_RESULTS')} />;
   }
 
   const winner = leaderboard[0];
+  const winningTeam = teamLeaderboard[0];
 
   const getRankGradient = (rank: number) => {
     switch (rank) {
@@ -112,21 +177,68 @@ export const Results: React.FC = () => {
     <div className="min-h-screen flex flex-col items-center justify-center p-4 sm:p-6">
       <Logo size="md" className="mb-4 sm:mb-6" />
 
-      {winner && (
+      {/* Upgrade Modal */}
+      <UpgradeModal
+        isOpen={showUpgradeModal}
+        onClose={() => setShowUpgradeModal(false)}
+      />
+
+      {winningTeam ? (
         <div className="mb-6 sm:mb-8 text-center animate-celebrate">
           <p className="text-3xl sm:text-4xl mb-3 sm:mb-4">🎉</p>
-          <h1 className="text-3xl sm:text-4xl md:text-5xl font-extrabold mb-2">الفائز!</h1>
+          <h1 className="text-3xl sm:text-4xl md:text-5xl font-extrabold mb-2">{t('WINNING_TEAM')}</h1>
+          <p className="text-2xl sm:text-3xl font-bold" style={{ color: winningTeam.team.color }}>
+            {winningTeam.team.name}
+          </p>
+          <p className="text-lg sm:text-xl mt-2">
+            {t('POINTS_COUNT', { count: winningTeam.score })}
+          </p>
+        </div>
+      ) : winner && (
+        <div className="mb-6 sm:mb-8 text-center animate-celebrate">
+          <p className="text-3xl sm:text-4xl mb-3 sm:mb-4">🎉</p>
+          <h1 className="text-3xl sm:text-4xl md:text-5xl font-extrabold mb-2">{t('WINNER')}</h1>
           <p className="text-2xl sm:text-3xl font-bold bg-gradient-gold bg-clip-text text-transparent">
             {winner.player.user_name}
           </p>
           <p className="text-lg sm:text-xl mt-2">
-            {winner.player.score} نقطة
+            {t('POINTS_COUNT', { count: winner.player.score })}
           </p>
         </div>
       )}
 
       <GlassCard className="max-w-2xl w-full">
-        <h2 className="text-xl sm:text-2xl font-bold text-center mb-4 sm:mb-6">🏆 لوحة المتصدرين</h2>
+        {/* Team standings (team mode only) */}
+        {teamLeaderboard.length > 0 && (
+          <div className="mb-6 sm:mb-8">
+            <h2 className="text-xl sm:text-2xl font-bold text-center mb-4 sm:mb-6">{t('TEAM_STANDINGS')}</h2>
+            <div className="space-y-2 sm:space-y-3">
+              {teamLeaderboard.map(({ team, score, players: members, rank }) => (
+                <div
+                  key={team.id}
+                  className="flex items-center gap-3 sm:gap-4 p-3 sm:p-4 rounded-2xl glass border-2"
+                  style={{ borderColor: team.color }}
+                >
+                  <div className="w-8 h-8 sm:w-10 sm:h-10 flex items-center justify-center font-bold text-xl sm:text-2xl">
+                    {rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : rank}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-base sm:text-lg truncate">{team.name}</p>
+                    <p className="text-xs sm:text-sm text-white/60 truncate">
+                      {members.map((p) => p.user_name).join(t('LIST_SEPARATOR'))}
+                    </p>
+                  </div>
+                  <div className="text-left">
+                    <p className="text-2xl sm:text-3xl font-bold">{score}</p>
+                    <p className="text-xs sm:text-sm text-white/60">{t('POINTS')}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <h2 className="text-xl sm:text-2xl font-bold text-center mb-4 sm:mb-6">🏆 {t('LEADERBOARD')}</h2>
 
         <div className="space-y-2 sm:space-y-3">
           {leaderboard.map(({ player, rank }) => (
@@ -152,14 +264,45 @@ export const Results: React.FC = () => {
 
               <div className="text-left">
                 <p className="text-2xl sm:text-3xl font-bold">{player.score}</p>
-                <p className="text-xs sm:text-sm text-white/60">نقطة</p>
+                <p className="text-xs sm:text-sm text-white/60">{t('POINTS')}</p>
               </div>
             </div>
           ))}
         </div>
 
+        {/* Funniest liar award (most audience likes) */}
+        {funniestLiar && (
+          <div className="mt-4 sm:mt-6 flex items-center gap-3 p-3 sm:p-4 rounded-2xl bg-yellow-500/20 border border-yellow-500/50">
+            <span className="text-3xl">😂</span>
+            <div className="flex-1">
+              <p className="text-sm text-white/70">{t('FUNNIEST_LIAR')}</p>
+              <p className="font-bold text-base sm:text-lg">{funniestLiar.player.user_name}</p>
+            </div>
+            <p className="text-lg font-bold">{t('LIKES_COUNT', { count: funniestLiar.like_count })}</p>
+          </div>
+        )}
+
+        {/* Game recap (best lie, most gullible, round highlights) */}
+        {recap && (
+          <div className="mt-4 sm:mt-6">
+            <RecapCard recap={recap} />
+            <ShareRecapButton recap={recap} className="w-full mt-3" />
+          </div>
+        )}
+
         {/* Action buttons - different for host vs players */}
         <div className="mt-6 sm:mt-8">
+          {(isHost || isDisplayMode) && (
+            <GradientButton
+              variant="purple"
+              onClick={handlePlayAgain}
+              disabled={isStartingRematch}
+              className="w-full mb-3"
+            >
+              {isStartingRematch ? t('PREPARING_LOBBY') : `🔁 ${t('PLAY_AGAIN')}`}
+            </GradientButton>
+          )}
+
           {isHost ? (
             // Host controls
             <div className="flex flex-col gap-3">
@@ -168,7 +311,7 @@ export const Results: React.FC = () => {
                 onClick={handleCreateNewGame}
                 className="w-full"
               >
-                🎮 إنشاء لعبة جديدة
+                🎮 {t('CREATE_NEW_GAME')}
               </GradientButton>
               
               <GradientButton
@@ -177,7 +320,7 @@ export const Results: React.FC = () => {
                 disabled={isEnding}
                 className="w-full"
               >
-                {isEnding ? '⏳ جاري الإنهاء...' : '🏠 إنهاء اللعبة والعودة للرئيسية'}
+                {isEnding ? t('ENDING') : `🏠 ${t('END_GAME_AND_RETURN')}`}
               </GradientButton>
             </div>
           ) : (
@@ -188,12 +331,17 @@ export const Results: React.FC = () => {
                 onClick={handleGoHome}
                 className="w-full"
               >
-                🏠 العودة للرئيسية
+                🏠 {t('RETURN_HOME')}
               </GradientButton>
               
               <p className="text-center text-sm text-white/60">
-                شكراً لك على اللعب! 🎉
+                {t('THANKS_FOR_PLAYING')}
               </p>
+              {!isDisplayMode && (
+                <p className="text-center text-sm text-white/60">
+                  {t('REMATCH_FOLLOW_HINT')}
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,169 @@
+-- Migration: Create question_packs table for host-authored questions
+-- Description: Hosts can author their own question packs (title, language,
+-- category and question/answer pairs) and pick which packs a game draws from.
+-- Packs stay private: players only see a pack question once a round serves it
+
+-- ============================================================================
+-- QUESTION PACKS TABLE
+-- ============================================================================
+-- Each pack is owned by an authenticated host. Questions belonging to a pack
+-- live in the existing questions table with pack_id set; the global pool keeps
+-- pack_id NULL.
+
+CREATE TABLE IF NOT EXISTS question_packs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title VARCHAR(100) NOT NULL,
+  language VARCHAR(2) DEFAULT 'ar' CHECK (language IN ('ar', 'en')),
+  category VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_question_packs_owner ON question_packs(owner_id);
+
+-- ============================================================================
+-- LINK QUESTIONS AND GAMES TO PACKS
+-- ============================================================================
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS pack_id UUID REFERENCES question_packs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_questions_pack ON questions(pack_id);
+
+-- Packs selected by the host at creation time (empty = global question pool)
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS question_pack_ids UUID[] DEFAULT '{}';
+
+COMMENT ON COLUMN questions.pack_id IS 'Owning question pack (NULL for the global question pool)';
+COMMENT ON COLUMN games.question_pack_ids IS 'Question packs this game draws from (empty = global pool)';
+
+-- ============================================================================
+-- UPDATED_AT TRIGGER
+-- ============================================================================
+
+CREATE TRIGGER update_question_packs_updated_at BEFORE UPDATE ON question_packs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE question_packs ENABLE ROW LEVEL SECURITY;
+
+-- Packs are private to their owner; games draw from them through pick_question
+-- (SECURITY DEFINER), so players never read a pack directly
+CREATE POLICY "Hosts can view own packs"
+  ON question_packs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = owner_id);
+
+-- Pack questions are readable by their owner, and by everyone once a round has
+-- served them (players load the round's question by id); the global pool stays public
+DROP POLICY IF EXISTS "Questions are viewable by everyone" ON questions;
+
+CREATE POLICY "Questions are viewable in the global pool, own packs and played rounds"
+  ON questions
+  FOR SELECT
+  USING (
+    pack_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM question_packs
+      WHERE question_packs.id = questions.pack_id
+      AND question_packs.owner_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM game_rounds
+      WHERE game_rounds.question_id = questions.id
+    )
+  );
+
+CREATE POLICY "Hosts can create own packs"
+  ON question_packs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Hosts can update own packs"
+  ON question_packs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Hosts can delete own packs"
+  ON question_packs
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = owner_id);
+
+-- Pack questions can only be written by the pack owner
+CREATE POLICY "Hosts can add questions to own packs"
+  ON questions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    pack_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM question_packs
+      WHERE question_packs.id = questions.pack_id
+      AND question_packs.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Hosts can update questions in own packs"
+  ON questions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM question_packs
+      WHERE question_packs.id = questions.pack_id
+      AND question_packs.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Hosts can delete questions in own packs"
+  ON questions
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM question_packs
+      WHERE question_packs.id = questions.pack_id
+      AND question_packs.owner_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- GAMES ONLY USE THEIR HOST'S PACKS
+-- ============================================================================
+-- Rounds are drawn with the definer's rights, so a game naming someone else's
+-- pack would serve (and reveal) its questions.
+
+CREATE OR REPLACE FUNCTION check_game_question_packs()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(COALESCE(NEW.question_pack_ids, '{}'::UUID[])) AS pack(id)
+    LEFT JOIN question_packs qp ON qp.id = pack.id
+    WHERE qp.owner_id IS DISTINCT FROM NEW.auth_host_id
+  ) THEN
+    RAISE EXCEPTION 'A game can only use its host''s question packs'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_game_question_packs_trigger
+  BEFORE INSERT OR UPDATE OF question_pack_ids, auth_host_id ON games
+  FOR EACH ROW
+  EXECUTE FUNCTION check_game_question_packs();
+
+REVOKE EXECUTE ON FUNCTION check_game_question_packs FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE question_packs IS 'Host-authored question packs';
@@ -0,0 +1,111 @@
+-- Migration: Accepted alternate answers and truth-matching fakes
+-- Purpose: Questions can list alternate accepted answers, and player fakes that
+-- are really the correct answer (after Arabic-aware normalization) are rejected.
+-- Client-side fuzzy matching lives in packages/shared/src/utils/answerMatching.ts;
+-- this server-side check is the exact-match backstop.
+
+-- ============================================================================
+-- ACCEPTED ANSWERS
+-- ============================================================================
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS accepted_answers TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN questions.accepted_answers IS 'Alternate spellings/phrasings also counted as the correct answer';
+
+-- ============================================================================
+-- NORMALIZATION
+-- ============================================================================
+-- Mirrors getAnswerKey(): NFKC (presentation forms, ligatures, full-width),
+-- lower-case, strip tashkeel, Quranic marks and tatweel, unify alef and hamza
+-- forms, taa marbuta -> haa, alef maqsura -> yaa, Arabic-Indic digits, drop
+-- punctuation, collapse whitespace and the definite article.
+
+CREATE OR REPLACE FUNCTION normalize_answer_text(p_text TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_text TEXT;
+BEGIN
+  IF p_text IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_text := lower(normalize(p_text, NFKC));
+
+  -- Strip diacritics (U+064B-U+065F, U+0670), Quranic marks (U+06D6-U+06ED)
+  -- and tatweel (U+0640)
+  v_text := regexp_replace(v_text, '[\u064B-\u065F\u0670\u06D6-\u06ED\u0640]', '', 'g');
+
+  -- Unify letter variants: آأإٱ -> ا, ؤ -> و, ئ -> ي, ى -> ي, ة -> ه
+  v_text := translate(v_text, 'آأإٱؤئىة', 'ااااوييه');
+
+  -- Arabic-Indic digits -> ASCII
+  v_text := translate(v_text, '٠١٢٣٤٥٦٧٨٩', '0123456789');
+
+  -- Punctuation to spaces, collapse whitespace
+  v_text := regexp_replace(v_text, '[^[:alnum:][:space:]]', ' ', 'g');
+  v_text := regexp_replace(v_text, '\s+', ' ', 'g');
+
+  -- Drop the definite article at the start of words longer than 3 letters
+  v_text := regexp_replace(' ' || trim(v_text), ' ال(\S{2,})', ' \1', 'g');
+
+  RETURN trim(v_text);
+END;
+$$;
+
+COMMENT ON FUNCTION normalize_answer_text IS 'Arabic-aware answer normalization used to compare fakes against the truth';
+
+-- ============================================================================
+-- REJECT FAKES THAT EQUAL THE TRUTH
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION reject_fake_matching_truth()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_question RECORD;
+  v_normalized TEXT;
+BEGIN
+  -- Only player-submitted fakes are checked
+  IF NEW.is_correct OR NEW.player_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT q.correct_answer, q.accepted_answers
+  INTO v_question
+  FROM game_rounds gr
+  JOIN questions q ON q.id = gr.question_id
+  WHERE gr.id = NEW.round_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  v_normalized := normalize_answer_text(NEW.answer_text);
+
+  IF v_normalized = normalize_answer_text(v_question.correct_answer)
+     OR v_normalized IN (
+       SELECT normalize_answer_text(accepted)
+       FROM unnest(v_question.accepted_answers) AS accepted
+     ) THEN
+    RAISE NOTICE '🚫 Rejected fake matching the correct answer for round %', NEW.round_id;
+    RAISE EXCEPTION 'Answer matches the correct answer'
+      USING ERRCODE = 'check_violation', HINT = 'ANSWER_MATCHES_TRUTH';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_fake_matching_truth_trigger ON player_answers;
+
+CREATE TRIGGER reject_fake_matching_truth_trigger
+  BEFORE INSERT ON player_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_fake_matching_truth();
+
+COMMENT ON FUNCTION reject_fake_matching_truth IS 'Rejects player fakes that normalize to the correct or an accepted answer';
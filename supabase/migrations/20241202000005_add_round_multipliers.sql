@@ -0,0 +1,176 @@
+-- Migration: Round multipliers ("double points" rounds)
+-- Purpose: Each round carries a points multiplier fixed when it is created
+-- (final round uses scoring_rules.final_round_multiplier, host-marked rounds use
+-- GAME_CONFIG.MARKED_ROUND_MULTIPLIER). Clients announce it at round start and
+-- calculate_and_update_scores applies it, matching getRoundMultiplier().
+
+-- ============================================================================
+-- MULTIPLIER COLUMNS
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS multiplier_rounds INTEGER[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN games.multiplier_rounds IS 'Round numbers the host marked as bonus (double points) rounds';
+
+ALTER TABLE game_rounds
+  ADD COLUMN IF NOT EXISTS multiplier INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE game_rounds
+  ADD CONSTRAINT valid_round_multiplier CHECK (multiplier BETWEEN 1 AND 3);
+
+COMMENT ON COLUMN game_rounds.multiplier IS 'Points multiplier for this round (1 = normal)';
+
+-- Rounds created before this migration keep the final round multiplier
+UPDATE game_rounds gr
+SET multiplier = COALESCE((g.scoring_rules->>'final_round_multiplier')::INTEGER, 1)
+FROM games g
+WHERE g.id = gr.game_id
+  AND gr.round_number = g.round_count;
+
+-- ============================================================================
+-- FUNCTION: calculate_and_update_scores
+-- ============================================================================
+-- Same contract as add_game_scoring_rules.sql; the multiplier now comes from
+-- game_rounds.multiplier instead of being derived from the final round.
+
+CREATE OR REPLACE FUNCTION calculate_and_update_scores(
+  p_round_id UUID,
+  p_game_id UUID
+)
+RETURNS TABLE(player_id UUID, points_earned INTEGER, reason TEXT) AS $$
+DECLARE
+  v_answer RECORD;
+  v_group RECORD;
+  v_vote RECORD;
+  v_player RECORD;
+  v_points INTEGER;
+  v_reason TEXT;
+  v_max_points INTEGER := 0;
+  v_winner_ids UUID[];
+  v_rules JSONB;
+  v_multiplier INTEGER := 1;
+BEGIN
+  -- Lock the round to prevent concurrent scoring
+  PERFORM 1 FROM game_rounds WHERE id = p_round_id FOR UPDATE;
+
+  -- Load the game's scoring rules and this round's multiplier
+  SELECT g.scoring_rules, gr.multiplier
+  INTO v_rules, v_multiplier
+  FROM games g
+  JOIN game_rounds gr ON gr.game_id = g.id
+  WHERE g.id = p_game_id
+    AND gr.id = p_round_id;
+
+  -- Create temporary table to store round scores
+  CREATE TEMP TABLE IF NOT EXISTS round_scores (
+    p_id UUID,
+    pts INTEGER,
+    rsn TEXT
+  ) ON COMMIT DROP;
+
+  -- Correct answer: give points to voters who chose it
+  FOR v_answer IN
+    SELECT id
+    FROM player_answers
+    WHERE round_id = p_round_id
+      AND is_correct = true
+  LOOP
+    FOR v_vote IN
+      SELECT voter_id
+      FROM votes
+      WHERE answer_id = v_answer.id
+    LOOP
+      INSERT INTO round_scores (p_id, pts, rsn)
+      VALUES (v_vote.voter_id, (v_rules->>'correct_answer')::INTEGER, 'correct_answer');
+    END LOOP;
+  END LOOP;
+
+  -- Fake answers grouped by normalized text (duplicates share one card)
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      COUNT(v.id) AS vote_count
+    FROM player_answers pa
+    LEFT JOIN votes v ON v.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.vote_count = 0 THEN
+      -- Perfect fake bonus (no one voted for it)
+      v_points := (v_rules->>'perfect_fake_bonus')::INTEGER;
+      v_reason := 'perfect_fake';
+    ELSE
+      -- Points per fooled player, split between duplicate authors
+      v_points := ROUND(
+        (v_group.vote_count * (v_rules->>'per_fooled_player')::INTEGER)::NUMERIC
+        / array_length(v_group.author_ids, 1)
+      );
+      v_reason := 'fooled_players';
+    END IF;
+
+    IF v_points > 0 THEN
+      INSERT INTO round_scores (p_id, pts, rsn)
+      SELECT author_id, v_points, v_reason
+      FROM unnest(v_group.author_ids) AS author_id;
+    END IF;
+  END LOOP;
+
+  -- Find max points for round winner bonus
+  SELECT COALESCE(MAX(pts), 0) INTO v_max_points
+  FROM round_scores;
+
+  -- Get all players who achieved max points (ties possible)
+  IF v_max_points > 0 THEN
+    SELECT ARRAY_AGG(DISTINCT p_id) INTO v_winner_ids
+    FROM round_scores
+    WHERE pts = v_max_points;
+
+    -- Add round winner bonus to each winner
+    INSERT INTO round_scores (p_id, pts, rsn)
+    SELECT winner_id, (v_rules->>'round_winner_bonus')::INTEGER, 'round_winner'
+    FROM unnest(v_winner_ids) AS winner_id;
+  END IF;
+
+  -- Double (or triple) points rounds
+  IF v_multiplier <> 1 THEN
+    UPDATE round_scores SET pts = pts * v_multiplier;
+    RAISE NOTICE '✖️ Round multiplier x% applied', v_multiplier;
+  END IF;
+
+  -- Aggregate scores by player
+  FOR v_player IN
+    SELECT p_id, SUM(pts) as total_points
+    FROM round_scores
+    GROUP BY p_id
+  LOOP
+    -- Lock player row and update score atomically
+    UPDATE players
+    SET score = score + v_player.total_points
+    WHERE id = v_player.p_id;
+  END LOOP;
+
+  -- Update vote points_earned for display
+  FOR v_vote IN
+    SELECT v.id as vote_id, COALESCE(SUM(rs.pts), 0) as pts
+    FROM votes v
+    LEFT JOIN round_scores rs ON rs.p_id = v.voter_id
+    WHERE v.round_id = p_round_id
+    GROUP BY v.id
+  LOOP
+    UPDATE votes
+    SET points_earned = v_vote.pts
+    WHERE id = v_vote.vote_id;
+  END LOOP;
+
+  -- Return round scores for display
+  RETURN QUERY
+  SELECT p_id, pts, rsn
+  FROM round_scores;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION calculate_and_update_scores IS
+  'Atomically calculates and updates scores for a completed round using games.scoring_rules and game_rounds.multiplier.';
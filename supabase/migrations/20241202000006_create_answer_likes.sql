@@ -0,0 +1,261 @@
+-- Migration: Audience likes on fake answers
+-- Purpose: Besides their single vote, players can "like" any fakes they found
+-- funny during the voting phase. Each like gives the author a small bonus
+-- (GAME_CONFIG.POINTS.PER_LIKE) and feeds the "funniest liar" award.
+
+-- ============================================================================
+-- ANSWER LIKES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS answer_likes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  round_id UUID NOT NULL REFERENCES game_rounds(id) ON DELETE CASCADE,
+  answer_id UUID NOT NULL REFERENCES player_answers(id) ON DELETE CASCADE,
+  liker_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(answer_id, liker_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_likes_round_id ON answer_likes(round_id);
+CREATE INDEX IF NOT EXISTS idx_answer_likes_answer_id ON answer_likes(answer_id);
+
+COMMENT ON TABLE answer_likes IS 'Audience "funny" likes on answers, separate from votes';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE answer_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can like answers in their game"
+ON answer_likes
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM player_answers pa
+    JOIN game_rounds gr ON gr.id = pa.round_id
+    JOIN players p ON p.game_id = gr.game_id
+    WHERE pa.id = answer_likes.answer_id
+    AND pa.round_id = answer_likes.round_id
+    AND p.id = answer_likes.liker_id
+  )
+);
+
+CREATE POLICY "Answer likes are viewable by everyone"
+ON answer_likes
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- ============================================================================
+-- VALIDATE LIKES
+-- ============================================================================
+-- Likes are only accepted while the round is voting (scoring runs when it
+-- completes) and never on the liker's own answer.
+
+CREATE OR REPLACE FUNCTION validate_answer_like()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status TEXT;
+  v_author_id UUID;
+BEGIN
+  SELECT status INTO v_status
+  FROM game_rounds
+  WHERE id = NEW.round_id;
+
+  IF v_status IS DISTINCT FROM 'voting' THEN
+    RAISE EXCEPTION 'Likes are only accepted during voting'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT player_id INTO v_author_id
+  FROM player_answers
+  WHERE id = NEW.answer_id;
+
+  IF v_author_id = NEW.liker_id THEN
+    RAISE EXCEPTION 'Cannot like own answer'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_answer_like_trigger ON answer_likes;
+
+CREATE TRIGGER validate_answer_like_trigger
+  BEFORE INSERT ON answer_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_answer_like();
+
+-- ============================================================================
+-- FUNCTION: calculate_and_update_scores
+-- ============================================================================
+-- Same contract as add_round_multipliers.sql; adds 'audience_like' rows.
+
+CREATE OR REPLACE FUNCTION calculate_and_update_scores(
+  p_round_id UUID,
+  p_game_id UUID
+)
+RETURNS TABLE(player_id UUID, points_earned INTEGER, reason TEXT) AS $$
+DECLARE
+  v_answer RECORD;
+  v_group RECORD;
+  v_vote RECORD;
+  v_player RECORD;
+  v_points INTEGER;
+  v_reason TEXT;
+  v_max_points INTEGER := 0;
+  v_winner_ids UUID[];
+  v_rules JSONB;
+  v_multiplier INTEGER := 1;
+BEGIN
+  -- Lock the round to prevent concurrent scoring
+  PERFORM 1 FROM game_rounds WHERE id = p_round_id FOR UPDATE;
+
+  -- Load the game's scoring rules and this round's multiplier
+  SELECT g.scoring_rules, gr.multiplier
+  INTO v_rules, v_multiplier
+  FROM games g
+  JOIN game_rounds gr ON gr.game_id = g.id
+  WHERE g.id = p_game_id
+    AND gr.id = p_round_id;
+
+  -- Create temporary table to store round scores
+  CREATE TEMP TABLE IF NOT EXISTS round_scores (
+    p_id UUID,
+    pts INTEGER,
+    rsn TEXT
+  ) ON COMMIT DROP;
+
+  -- Correct answer: give points to voters who chose it
+  FOR v_answer IN
+    SELECT id
+    FROM player_answers
+    WHERE round_id = p_round_id
+      AND is_correct = true
+  LOOP
+    FOR v_vote IN
+      SELECT voter_id
+      FROM votes
+      WHERE answer_id = v_answer.id
+    LOOP
+      INSERT INTO round_scores (p_id, pts, rsn)
+      VALUES (v_vote.voter_id, (v_rules->>'correct_answer')::INTEGER, 'correct_answer');
+    END LOOP;
+  END LOOP;
+
+  -- Fake answers grouped by normalized text (duplicates share one card)
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      COUNT(v.id) AS vote_count
+    FROM player_answers pa
+    LEFT JOIN votes v ON v.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.vote_count = 0 THEN
+      -- Perfect fake bonus (no one voted for it)
+      v_points := (v_rules->>'perfect_fake_bonus')::INTEGER;
+      v_reason := 'perfect_fake';
+    ELSE
+      -- Points per fooled player, split between duplicate authors
+      v_points := ROUND(
+        (v_group.vote_count * (v_rules->>'per_fooled_player')::INTEGER)::NUMERIC
+        / array_length(v_group.author_ids, 1)
+      );
+      v_reason := 'fooled_players';
+    END IF;
+
+    IF v_points > 0 THEN
+      INSERT INTO round_scores (p_id, pts, rsn)
+      SELECT author_id, v_points, v_reason
+      FROM unnest(v_group.author_ids) AS author_id;
+    END IF;
+  END LOOP;
+
+  -- Find max points for round winner bonus
+  SELECT COALESCE(MAX(pts), 0) INTO v_max_points
+  FROM round_scores;
+
+  -- Get all players who achieved max points (ties possible)
+  IF v_max_points > 0 THEN
+    SELECT ARRAY_AGG(DISTINCT p_id) INTO v_winner_ids
+    FROM round_scores
+    WHERE pts = v_max_points;
+
+    -- Add round winner bonus to each winner
+    INSERT INTO round_scores (p_id, pts, rsn)
+    SELECT winner_id, (v_rules->>'round_winner_bonus')::INTEGER, 'round_winner'
+    FROM unnest(v_winner_ids) AS winner_id;
+  END IF;
+
+  -- Double (or triple) points rounds
+  IF v_multiplier <> 1 THEN
+    UPDATE round_scores SET pts = pts * v_multiplier;
+    RAISE NOTICE '✖️ Round multiplier x% applied', v_multiplier;
+  END IF;
+
+  -- Audience likes: small bonus per like, split between duplicate authors.
+  -- Added after the multiplier and round winner (GAME_CONFIG.POINTS.PER_LIKE).
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      COUNT(al.id) AS like_count
+    FROM player_answers pa
+    LEFT JOIN answer_likes al ON al.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.like_count > 0 THEN
+      INSERT INTO round_scores (p_id, pts, rsn)
+      SELECT
+        author_id,
+        ROUND((v_group.like_count * 100)::NUMERIC / array_length(v_group.author_ids, 1)),
+        'audience_like'
+      FROM unnest(v_group.author_ids) AS author_id;
+    END IF;
+  END LOOP;
+
+  -- Aggregate scores by player
+  FOR v_player IN
+    SELECT p_id, SUM(pts) as total_points
+    FROM round_scores
+    GROUP BY p_id
+  LOOP
+    -- Lock player row and update score atomically
+    UPDATE players
+    SET score = score + v_player.total_points
+    WHERE id = v_player.p_id;
+  END LOOP;
+
+  -- Update vote points_earned for display
+  FOR v_vote IN
+    SELECT v.id as vote_id, COALESCE(SUM(rs.pts), 0) as pts
+    FROM votes v
+    LEFT JOIN round_scores rs ON rs.p_id = v.voter_id
+    WHERE v.round_id = p_round_id
+    GROUP BY v.id
+  LOOP
+    UPDATE votes
+    SET points_earned = v_vote.pts
+    WHERE id = v_vote.vote_id;
+  END LOOP;
+
+  -- Return round scores for display
+  RETURN QUERY
+  SELECT p_id, pts, rsn
+  FROM round_scores;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION calculate_and_update_scores IS
+  'Atomically calculates and updates scores for a completed round, including audience like bonuses.';
@@ -0,0 +1,526 @@
+-- Migration: Audience mode
+-- Purpose: Streams and classrooms exceed max_players. Audience members join any
+-- game by code (even after it started), watch every phase and cast audience
+-- votes. They never count toward the round quorum, never become phase captain,
+-- and the fake most picked by the audience earns its authors a bonus.
+
+-- ============================================================================
+-- PLAYER ROLE
+-- ============================================================================
+
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'player'
+  CHECK (role IN ('player', 'audience'));
+
+CREATE INDEX IF NOT EXISTS idx_players_role ON players(game_id, role);
+
+COMMENT ON COLUMN players.role IS 'player = contestant (counts toward max_players and quorum), audience = spectator';
+
+-- ============================================================================
+-- AUDIENCE VOTES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS audience_votes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  round_id UUID NOT NULL REFERENCES game_rounds(id) ON DELETE CASCADE,
+  answer_id UUID NOT NULL REFERENCES player_answers(id) ON DELETE CASCADE,
+  audience_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(round_id, audience_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audience_votes_round_id ON audience_votes(round_id);
+CREATE INDEX IF NOT EXISTS idx_audience_votes_answer_id ON audience_votes(answer_id);
+
+COMMENT ON TABLE audience_votes IS 'Audience guesses during voting; aggregated into the audience favorite bonus';
+
+ALTER TABLE audience_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Audience can vote in their game"
+ON audience_votes
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM player_answers pa
+    JOIN game_rounds gr ON gr.id = pa.round_id
+    JOIN players p ON p.game_id = gr.game_id
+    WHERE pa.id = audience_votes.answer_id
+    AND pa.round_id = audience_votes.round_id
+    AND p.id = audience_votes.audience_id
+    AND p.role = 'audience'
+  )
+);
+
+CREATE POLICY "Audience votes are viewable by everyone"
+ON audience_votes
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- ============================================================================
+-- VALIDATE AUDIENCE VOTES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION validate_audience_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM game_rounds
+    WHERE id = NEW.round_id
+      AND status = 'voting'
+  ) THEN
+    RAISE EXCEPTION 'Audience votes are only accepted during voting'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_audience_vote_trigger ON audience_votes;
+
+CREATE TRIGGER validate_audience_vote_trigger
+  BEFORE INSERT ON audience_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_audience_vote();
+
+-- ============================================================================
+-- FUNCTION: advance_round_if_ready
+-- ============================================================================
+-- Same as switch_to_fixed_quorum.sql, but only contestants are counted toward
+-- required_players.
+
+CREATE OR REPLACE FUNCTION advance_round_if_ready(p_round_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_round RECORD;
+  v_game RECORD;
+  v_answer_count INTEGER;
+  v_vote_count INTEGER;
+  v_next_round_number INTEGER;
+BEGIN
+  -- Lock the round row to prevent concurrent updates (race condition protection)
+  SELECT gr.* INTO v_round
+  FROM game_rounds gr
+  WHERE gr.id = p_round_id
+  FOR UPDATE;
+
+  -- Exit if round not found or already completed
+  IF v_round IS NULL OR v_round.status = 'completed' THEN
+    RETURN;
+  END IF;
+
+  -- Get game info and lock it too
+  SELECT g.* INTO v_game
+  FROM games g
+  WHERE g.id = v_round.game_id
+  FOR UPDATE;
+
+  -- Safety check: need at least 2 players
+  IF v_round.required_players < 2 THEN
+    RAISE NOTICE 'Not enough required players (%), skipping phase transition', v_round.required_players;
+    RETURN;
+  END IF;
+
+  -- ========================================================================
+  -- ANSWERING → VOTING transition
+  -- ========================================================================
+  IF v_round.status = 'answering' THEN
+    -- Count contestant answers for this round (excluding correct answer)
+    SELECT COUNT(*) INTO v_answer_count
+    FROM player_answers pa
+    JOIN players p ON p.id = pa.player_id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND p.role = 'player';
+
+    RAISE NOTICE 'Round % answering phase: % answers / % required players',
+      v_round.round_number, v_answer_count, v_round.required_players;
+
+    -- All required players have answered
+    IF v_answer_count >= v_round.required_players THEN
+      RAISE NOTICE '✅ All players answered! Adding correct answer and transitioning to voting...';
+
+      -- Insert the correct answer into the voting pool (fully qualified to avoid ambiguity)
+      INSERT INTO player_answers (round_id, player_id, answer_text, is_correct)
+      SELECT
+        p_round_id AS round_id,
+        NULL::UUID AS player_id,  -- System answer (no player)
+        q.correct_answer AS answer_text,
+        true AS is_correct
+      FROM questions q
+      WHERE q.id = v_round.question_id
+      ON CONFLICT DO NOTHING;  -- Prevent duplicate correct answer
+
+      -- Update round status to voting
+      UPDATE game_rounds gr
+      SET status = 'voting',
+          timer_duration = 20  -- 20 seconds for voting
+      WHERE gr.id = p_round_id;
+
+      RAISE NOTICE '🗳️ Round % transitioned to VOTING with correct answer added', v_round.round_number;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- ========================================================================
+  -- VOTING → COMPLETED transition
+  -- ========================================================================
+  IF v_round.status = 'voting' THEN
+    -- Count contestant votes for this round (audience votes live in audience_votes)
+    SELECT COUNT(DISTINCT v.voter_id) INTO v_vote_count
+    FROM votes v
+    JOIN players p ON p.id = v.voter_id
+    WHERE v.round_id = p_round_id
+      AND p.role = 'player';
+
+    RAISE NOTICE 'Round % voting phase: % votes / % required players',
+      v_round.round_number, v_vote_count, v_round.required_players;
+
+    -- All required players have voted
+    IF v_vote_count >= v_round.required_players THEN
+      RAISE NOTICE '✅ All players voted! Ending round...';
+
+      -- Mark round as completed
+      UPDATE game_rounds gr
+      SET status = 'completed'
+      WHERE gr.id = p_round_id;
+
+      -- Calculate scores before advancing
+      PERFORM calculate_and_update_scores(p_round_id, v_game.id);
+
+      -- Calculate next round number
+      v_next_round_number := v_game.current_round + 1;
+
+      -- Check if game should end
+      IF v_next_round_number > v_game.round_count THEN
+        RAISE NOTICE '🎉 Game finished! Final round completed.';
+
+        -- Mark game as finished
+        UPDATE games g
+        SET status = 'finished'
+        WHERE g.id = v_game.id;
+      ELSE
+        RAISE NOTICE '➡️ Advancing to round %', v_next_round_number;
+
+        -- Increment to next round
+        UPDATE games g
+        SET current_round = v_next_round_number
+        WHERE g.id = v_game.id;
+      END IF;
+
+      RAISE NOTICE '🏁 Round % completed', v_round.round_number;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- If we get here, not enough submissions yet
+  RAISE NOTICE '⏳ Waiting for more submissions...';
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION advance_round_if_ready IS
+  'Automatically advances round phases when required_players contestants have submitted answers/votes. Audience members are never counted.';
+
+-- ============================================================================
+-- FUNCTION: promote_phase_captain
+-- ============================================================================
+-- Same as 20241130_atomic_captain_promotion.sql; audience members are skipped.
+
+CREATE OR REPLACE FUNCTION promote_phase_captain(
+  p_game_id UUID,
+  p_disconnected_player_id UUID
+)
+RETURNS TABLE(
+  success BOOLEAN,
+  new_captain_id UUID,
+  message TEXT
+) AS $$
+DECLARE
+  v_current_captain_id UUID;
+  v_new_captain_id UUID;
+  v_game_status VARCHAR(20);
+BEGIN
+  -- Lock the game row to prevent concurrent updates
+  SELECT phase_captain_id, status INTO v_current_captain_id, v_game_status
+  FROM games
+  WHERE id = p_game_id
+  FOR UPDATE;
+
+  -- Check if game exists and is active
+  IF v_game_status IS NULL THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, 'Game not found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_game_status = 'finished' THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, 'Cannot promote captain in finished game'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check if the disconnected player is actually the current captain
+  IF v_current_captain_id != p_disconnected_player_id THEN
+    RETURN QUERY SELECT FALSE, v_current_captain_id, 'Player is not the current captain'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Find the next eligible captain
+  -- Priority: 1) Host if still connected, 2) Longest connected player
+  SELECT p.id INTO v_new_captain_id
+  FROM players p
+  WHERE p.game_id = p_game_id
+    AND p.id != p_disconnected_player_id
+    AND p.connection_status = 'connected'
+    AND p.role = 'player'
+  ORDER BY
+    p.is_host DESC,  -- Prefer host
+    p.joined_at ASC  -- Then longest connected player
+  LIMIT 1;
+
+  -- If no connected players found, try any remaining player
+  IF v_new_captain_id IS NULL THEN
+    SELECT p.id INTO v_new_captain_id
+    FROM players p
+    WHERE p.game_id = p_game_id
+      AND p.id != p_disconnected_player_id
+      AND p.role = 'player'
+    ORDER BY
+      p.is_host DESC,
+      p.joined_at ASC
+    LIMIT 1;
+  END IF;
+
+  -- If still no captain found, game is empty
+  IF v_new_captain_id IS NULL THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, 'No eligible players to promote'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Update the game with new captain (atomic operation)
+  UPDATE games
+  SET phase_captain_id = v_new_captain_id,
+      updated_at = NOW()
+  WHERE id = p_game_id;
+
+  -- Log the promotion
+  RAISE NOTICE 'Promoted player % to phase captain for game %', v_new_captain_id, p_game_id;
+
+  RETURN QUERY SELECT TRUE, v_new_captain_id, 'Captain promoted successfully'::TEXT;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- If any error occurs, return failure
+    RETURN QUERY SELECT FALSE, NULL::UUID, SQLERRM::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION promote_phase_captain IS 'Atomically promotes a new phase captain (contestants only) when the current captain disconnects.';
+
+-- ============================================================================
+-- FUNCTION: calculate_and_update_scores
+-- ============================================================================
+-- Same contract as create_answer_likes.sql; adds 'audience_favorite' rows.
+
+CREATE OR REPLACE FUNCTION calculate_and_update_scores(
+  p_round_id UUID,
+  p_game_id UUID
+)
+RETURNS TABLE(player_id UUID, points_earned INTEGER, reason TEXT) AS $$
+DECLARE
+  v_answer RECORD;
+  v_group RECORD;
+  v_vote RECORD;
+  v_player RECORD;
+  v_points INTEGER;
+  v_reason TEXT;
+  v_max_points INTEGER := 0;
+  v_winner_ids UUID[];
+  v_rules JSONB;
+  v_multiplier INTEGER := 1;
+  v_max_audience INTEGER := 0;
+BEGIN
+  -- Lock the round to prevent concurrent scoring
+  PERFORM 1 FROM game_rounds WHERE id = p_round_id FOR UPDATE;
+
+  -- Load the game's scoring rules and this round's multiplier
+  SELECT g.scoring_rules, gr.multiplier
+  INTO v_rules, v_multiplier
+  FROM games g
+  JOIN game_rounds gr ON gr.game_id = g.id
+  WHERE g.id = p_game_id
+    AND gr.id = p_round_id;
+
+  -- Create temporary table to store round scores
+  CREATE TEMP TABLE IF NOT EXISTS round_scores (
+    p_id UUID,
+    pts INTEGER,
+    rsn TEXT
+  ) ON COMMIT DROP;
+
+  -- Correct answer: give points to voters who chose it
+  FOR v_answer IN
+    SELECT id
+    FROM player_answers
+    WHERE round_id = p_round_id
+      AND is_correct = true
+  LOOP
+    FOR v_vote IN
+      SELECT voter_id
+      FROM votes
+      WHERE answer_id = v_answer.id
+    LOOP
+      INSERT INTO round_scores (p_id, pts, rsn)
+      VALUES (v_vote.voter_id, (v_rules->>'correct_answer')::INTEGER, 'correct_answer');
+    END LOOP;
+  END LOOP;
+
+  -- Fake answers grouped by normalized text (duplicates share one card)
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      COUNT(v.id) AS vote_count
+    FROM player_answers pa
+    LEFT JOIN votes v ON v.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.vote_count = 0 THEN
+      -- Perfect fake bonus (no one voted for it)
+      v_points := (v_rules->>'perfect_fake_bonus')::INTEGER;
+      v_reason := 'perfect_fake';
+    ELSE
+      -- Points per fooled player, split between duplicate authors
+      v_points := ROUND(
+        (v_group.vote_count * (v_rules->>'per_fooled_player')::INTEGER)::NUMERIC
+        / array_length(v_group.author_ids, 1)
+      );
+      v_reason := 'fooled_players';
+    END IF;
+
+    IF v_points > 0 THEN
+      INSERT INTO round_scores (p_id, pts, rsn)
+      SELECT author_id, v_points, v_reason
+      FROM unnest(v_group.author_ids) AS author_id;
+    END IF;
+  END LOOP;
+
+  -- Find max points for round winner bonus
+  SELECT COALESCE(MAX(pts), 0) INTO v_max_points
+  FROM round_scores;
+
+  -- Get all players who achieved max points (ties possible)
+  IF v_max_points > 0 THEN
+    SELECT ARRAY_AGG(DISTINCT p_id) INTO v_winner_ids
+    FROM round_scores
+    WHERE pts = v_max_points;
+
+    -- Add round winner bonus to each winner
+    INSERT INTO round_scores (p_id, pts, rsn)
+    SELECT winner_id, (v_rules->>'round_winner_bonus')::INTEGER, 'round_winner'
+    FROM unnest(v_winner_ids) AS winner_id;
+  END IF;
+
+  -- Double (or triple) points rounds
+  IF v_multiplier <> 1 THEN
+    UPDATE round_scores SET pts = pts * v_multiplier;
+    RAISE NOTICE '✖️ Round multiplier x% applied', v_multiplier;
+  END IF;
+
+  -- Audience likes: small bonus per like, split between duplicate authors.
+  -- Added after the multiplier and round winner (GAME_CONFIG.POINTS.PER_LIKE).
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      COUNT(al.id) AS like_count
+    FROM player_answers pa
+    LEFT JOIN answer_likes al ON al.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.like_count > 0 THEN
+      INSERT INTO round_scores (p_id, pts, rsn)
+      SELECT
+        author_id,
+        ROUND((v_group.like_count * 100)::NUMERIC / array_length(v_group.author_ids, 1)),
+        'audience_like'
+      FROM unnest(v_group.author_ids) AS author_id;
+    END IF;
+  END LOOP;
+
+  -- Audience favorite: the fake(s) most picked by the audience share a bonus
+  -- (GAME_CONFIG.POINTS.AUDIENCE_FAVORITE_BONUS), split between duplicate authors
+  SELECT COALESCE(MAX(grp.audience_count), 0) INTO v_max_audience
+  FROM (
+    SELECT COUNT(av.id) AS audience_count
+    FROM player_answers pa
+    LEFT JOIN audience_votes av ON av.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  ) grp;
+
+  IF v_max_audience > 0 THEN
+    FOR v_group IN
+      SELECT
+        ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+        COUNT(av.id) AS audience_count
+      FROM player_answers pa
+      LEFT JOIN audience_votes av ON av.answer_id = pa.id
+      WHERE pa.round_id = p_round_id
+        AND pa.is_correct = false
+        AND pa.player_id IS NOT NULL
+      GROUP BY normalize_answer_text(pa.answer_text)
+    LOOP
+      IF v_group.audience_count = v_max_audience THEN
+        INSERT INTO round_scores (p_id, pts, rsn)
+        SELECT
+          author_id,
+          ROUND(500::NUMERIC / array_length(v_group.author_ids, 1)),
+          'audience_favorite'
+        FROM unnest(v_group.author_ids) AS author_id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Aggregate scores by player
+  FOR v_player IN
+    SELECT p_id, SUM(pts) as total_points
+    FROM round_scores
+    GROUP BY p_id
+  LOOP
+    -- Lock player row and update score atomically
+    UPDATE players
+    SET score = score + v_player.total_points
+    WHERE id = v_player.p_id;
+  END LOOP;
+
+  -- Update vote points_earned for display
+  FOR v_vote IN
+    SELECT v.id as vote_id, COALESCE(SUM(rs.pts), 0) as pts
+    FROM votes v
+    LEFT JOIN round_scores rs ON rs.p_id = v.voter_id
+    WHERE v.round_id = p_round_id
+    GROUP BY v.id
+  LOOP
+    UPDATE votes
+    SET points_earned = v_vote.pts
+    WHERE id = v_vote.vote_id;
+  END LOOP;
+
+  -- Return round scores for display
+  RETURN QUERY
+  SELECT p_id, pts, rsn
+  FROM round_scores;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION calculate_and_update_scores IS
+  'Atomically calculates and updates scores for a completed round, including audience like and audience favorite bonuses.';
@@ -0,0 +1,295 @@
+-- Migration: Team mode
+-- Purpose: Players split into 2-4 teams in the lobby. Team scores are the sum
+-- of their players' scores, teammates can't vote for each other's fakes, and
+-- a teammate's vote never earns fooled points.
+
+-- ============================================================================
+-- GAME + PLAYER COLUMNS
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS team_count INTEGER NOT NULL DEFAULT 0
+  CHECK (team_count = 0 OR team_count BETWEEN 2 AND 4);
+
+COMMENT ON COLUMN games.team_count IS 'Number of teams (0 = free-for-all)';
+
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS team VARCHAR(20)
+  CHECK (team IN ('red', 'blue', 'green', 'yellow'));
+
+CREATE INDEX IF NOT EXISTS idx_players_team ON players(game_id, team);
+
+COMMENT ON COLUMN players.team IS 'Team id in team mode (TEAMS constant), NULL otherwise';
+
+-- ============================================================================
+-- VALIDATE VOTES: NO VOTING FOR TEAMMATES
+-- ============================================================================
+-- A card is off limits when every author of its (merged) fake is on the
+-- voter's team. Mirrors RoundService.submitVote.
+
+CREATE OR REPLACE FUNCTION validate_team_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_voter_team VARCHAR(20);
+  v_answer RECORD;
+BEGIN
+  SELECT team INTO v_voter_team
+  FROM players
+  WHERE id = NEW.voter_id;
+
+  IF v_voter_team IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT answer_text, is_correct INTO v_answer
+  FROM player_answers
+  WHERE id = NEW.answer_id;
+
+  IF v_answer.is_correct THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM player_answers pa
+    JOIN players p ON p.id = pa.player_id
+    WHERE pa.round_id = NEW.round_id
+      AND pa.is_correct = false
+      AND normalize_answer_text(pa.answer_text) = normalize_answer_text(v_answer.answer_text)
+      AND p.team IS DISTINCT FROM v_voter_team
+  ) THEN
+    RAISE EXCEPTION 'Cannot vote for a teammate''s answer'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_team_vote_trigger ON votes;
+
+CREATE TRIGGER validate_team_vote_trigger
+  BEFORE INSERT ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_team_vote();
+
+-- ============================================================================
+-- FUNCTION: calculate_and_update_scores
+-- ============================================================================
+-- Same contract as add_audience_mode.sql; fooled points skip votes from the
+-- author's own team.
+
+CREATE OR REPLACE FUNCTION calculate_and_update_scores(
+  p_round_id UUID,
+  p_game_id UUID
+)
+RETURNS TABLE(player_id UUID, points_earned INTEGER, reason TEXT) AS $$
+DECLARE
+  v_answer RECORD;
+  v_group RECORD;
+  v_vote RECORD;
+  v_player RECORD;
+  v_points INTEGER;
+  v_max_points INTEGER := 0;
+  v_winner_ids UUID[];
+  v_rules JSONB;
+  v_multiplier INTEGER := 1;
+  v_max_audience INTEGER := 0;
+BEGIN
+  -- Lock the round to prevent concurrent scoring
+  PERFORM 1 FROM game_rounds WHERE id = p_round_id FOR UPDATE;
+
+  -- Load the game's scoring rules and this round's multiplier
+  SELECT g.scoring_rules, gr.multiplier
+  INTO v_rules, v_multiplier
+  FROM games g
+  JOIN game_rounds gr ON gr.game_id = g.id
+  WHERE g.id = p_game_id
+    AND gr.id = p_round_id;
+
+  -- Create temporary table to store round scores
+  CREATE TEMP TABLE IF NOT EXISTS round_scores (
+    p_id UUID,
+    pts INTEGER,
+    rsn TEXT
+  ) ON COMMIT DROP;
+
+  -- Correct answer: give points to voters who chose it
+  FOR v_answer IN
+    SELECT id
+    FROM player_answers
+    WHERE round_id = p_round_id
+      AND is_correct = true
+  LOOP
+    FOR v_vote IN
+      SELECT voter_id
+      FROM votes
+      WHERE answer_id = v_answer.id
+    LOOP
+      INSERT INTO round_scores (p_id, pts, rsn)
+      VALUES (v_vote.voter_id, (v_rules->>'correct_answer')::INTEGER, 'correct_answer');
+    END LOOP;
+  END LOOP;
+
+  -- Fake answers grouped by normalized text (duplicates share one card)
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      ARRAY_REMOVE(ARRAY_AGG(v.voter_id), NULL) AS voter_ids,
+      COUNT(v.id) AS vote_count
+    FROM player_answers pa
+    LEFT JOIN votes v ON v.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.vote_count = 0 THEN
+      -- Perfect fake bonus (no one voted for it)
+      v_points := (v_rules->>'perfect_fake_bonus')::INTEGER;
+
+      IF v_points > 0 THEN
+        INSERT INTO round_scores (p_id, pts, rsn)
+        SELECT author_id, v_points, 'perfect_fake'
+        FROM unnest(v_group.author_ids) AS author_id;
+      END IF;
+    ELSE
+      -- Points per fooled player, split between duplicate authors.
+      -- Team mode: votes from an author's own teammates don't count.
+      INSERT INTO round_scores (p_id, pts, rsn)
+      SELECT fooled.author_id, fooled.pts, 'fooled_players'
+      FROM (
+        SELECT
+          a.author_id,
+          ROUND(
+            (COUNT(*) * (v_rules->>'per_fooled_player')::INTEGER)::NUMERIC
+            / array_length(v_group.author_ids, 1)
+          )::INTEGER AS pts
+        FROM unnest(v_group.author_ids) AS a(author_id)
+        JOIN players ap ON ap.id = a.author_id
+        CROSS JOIN unnest(v_group.voter_ids) AS vt(voter_id)
+        JOIN players vp ON vp.id = vt.voter_id
+        WHERE ap.team IS NULL OR vp.team IS DISTINCT FROM ap.team
+        GROUP BY a.author_id
+      ) fooled
+      WHERE fooled.pts > 0;
+    END IF;
+  END LOOP;
+
+  -- Find max points for round winner bonus
+  SELECT COALESCE(MAX(pts), 0) INTO v_max_points
+  FROM round_scores;
+
+  -- Get all players who achieved max points (ties possible)
+  IF v_max_points > 0 THEN
+    SELECT ARRAY_AGG(DISTINCT p_id) INTO v_winner_ids
+    FROM round_scores
+    WHERE pts = v_max_points;
+
+    -- Add round winner bonus to each winner
+    INSERT INTO round_scores (p_id, pts, rsn)
+    SELECT winner_id, (v_rules->>'round_winner_bonus')::INTEGER, 'round_winner'
+    FROM unnest(v_winner_ids) AS winner_id;
+  END IF;
+
+  -- Double (or triple) points rounds
+  IF v_multiplier <> 1 THEN
+    UPDATE round_scores SET pts = pts * v_multiplier;
+    RAISE NOTICE '✖️ Round multiplier x% applied', v_multiplier;
+  END IF;
+
+  -- Audience likes: small bonus per like, split between duplicate authors.
+  -- Added after the multiplier and round winner (GAME_CONFIG.POINTS.PER_LIKE).
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      COUNT(al.id) AS like_count
+    FROM player_answers pa
+    LEFT JOIN answer_likes al ON al.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.like_count > 0 THEN
+      INSERT INTO round_scores (p_id, pts, rsn)
+      SELECT
+        author_id,
+        ROUND((v_group.like_count * 100)::NUMERIC / array_length(v_group.author_ids, 1)),
+        'audience_like'
+      FROM unnest(v_group.author_ids) AS author_id;
+    END IF;
+  END LOOP;
+
+  -- Audience favorite: the fake(s) most picked by the audience share a bonus
+  -- (GAME_CONFIG.POINTS.AUDIENCE_FAVORITE_BONUS), split between duplicate authors
+  SELECT COALESCE(MAX(grp.audience_count), 0) INTO v_max_audience
+  FROM (
+    SELECT COUNT(av.id) AS audience_count
+    FROM player_answers pa
+    LEFT JOIN audience_votes av ON av.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  ) grp;
+
+  IF v_max_audience > 0 THEN
+    FOR v_group IN
+      SELECT
+        ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+        COUNT(av.id) AS audience_count
+      FROM player_answers pa
+      LEFT JOIN audience_votes av ON av.answer_id = pa.id
+      WHERE pa.round_id = p_round_id
+        AND pa.is_correct = false
+        AND pa.player_id IS NOT NULL
+      GROUP BY normalize_answer_text(pa.answer_text)
+    LOOP
+      IF v_group.audience_count = v_max_audience THEN
+        INSERT INTO round_scores (p_id, pts, rsn)
+        SELECT
+          author_id,
+          ROUND(500::NUMERIC / array_length(v_group.author_ids, 1)),
+          'audience_favorite'
+        FROM unnest(v_group.author_ids) AS author_id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Aggregate scores by player
+  FOR v_player IN
+    SELECT p_id, SUM(pts) as total_points
+    FROM round_scores
+    GROUP BY p_id
+  LOOP
+    -- Lock player row and update score atomically
+    UPDATE players
+    SET score = score + v_player.total_points
+    WHERE id = v_player.p_id;
+  END LOOP;
+
+  -- Update vote points_earned for display
+  FOR v_vote IN
+    SELECT v.id as vote_id, COALESCE(SUM(rs.pts), 0) as pts
+    FROM votes v
+    LEFT JOIN round_scores rs ON rs.p_id = v.voter_id
+    WHERE v.round_id = p_round_id
+    GROUP BY v.id
+  LOOP
+    UPDATE votes
+    SET points_earned = v_vote.pts
+    WHERE id = v_vote.vote_id;
+  END LOOP;
+
+  -- Return round scores for display
+  RETURN QUERY
+  SELECT p_id, pts, rsn
+  FROM round_scores;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION calculate_and_update_scores IS
+  'Atomically calculates and updates scores for a completed round, including audience bonuses and team mode fooled-vote rules.';
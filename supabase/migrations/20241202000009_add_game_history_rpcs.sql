@@ -0,0 +1,150 @@
+-- Migration: Game history and replay
+-- Purpose: get_host_dashboard only lists the 10 most recent games. Hosts need
+-- the full list of their finished games and a round-by-round replay (question,
+-- every fake with its author, who voted for what) to settle disputes after
+-- events. Points are recomputed client-side from the raw rows with the same
+-- rules used at play time.
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_games_auth_host_history
+  ON games(auth_host_id, status, created_at DESC);
+
+-- ============================================================================
+-- RPC: Get Host Game History
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_host_game_history()
+RETURNS JSON AS $$
+DECLARE
+  v_auth_user_id UUID;
+BEGIN
+  v_auth_user_id := auth.uid();
+
+  IF v_auth_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(json_agg(history ORDER BY history.created_at DESC), '[]'::json)
+    FROM (
+      SELECT
+        g.id,
+        g.code,
+        g.created_at,
+        g.round_count,
+        g.team_count,
+        (
+          SELECT COUNT(*)
+          FROM players p
+          WHERE p.game_id = g.id
+            AND p.role = 'player'
+        ) AS player_count,
+        winner.user_name AS winner_name,
+        winner.score AS winner_score
+      FROM games g
+      LEFT JOIN LATERAL (
+        SELECT p.user_name, p.score
+        FROM players p
+        WHERE p.game_id = g.id
+          AND p.role = 'player'
+        ORDER BY p.score DESC
+        LIMIT 1
+      ) winner ON TRUE
+      WHERE g.auth_host_id = v_auth_user_id
+        AND g.status = 'finished'
+    ) AS history
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_host_game_history IS 'Returns every finished game owned by the authenticated host, newest first, with its winner.';
+
+-- ============================================================================
+-- RPC: Get Game Replay
+-- ============================================================================
+-- Raw rows for every completed round of one game. Only the owning host can
+-- read it.
+
+CREATE OR REPLACE FUNCTION get_game_replay(p_game_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_auth_user_id UUID;
+  v_game RECORD;
+BEGIN
+  v_auth_user_id := auth.uid();
+
+  IF v_auth_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id;
+
+  IF v_game IS NULL
+    OR v_game.auth_host_id IS DISTINCT FROM v_auth_user_id
+    OR v_game.status <> 'finished' THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN json_build_object(
+    'game', json_build_object(
+      'id', v_game.id,
+      'code', v_game.code,
+      'created_at', v_game.created_at,
+      'round_count', v_game.round_count,
+      'team_count', v_game.team_count,
+      'scoring_rules', v_game.scoring_rules
+    ),
+    'players', (
+      SELECT COALESCE(json_agg(p ORDER BY p.score DESC), '[]'::json)
+      FROM players p
+      WHERE p.game_id = p_game_id
+    ),
+    'rounds', (
+      SELECT COALESCE(json_agg(
+        json_build_object(
+          'id', gr.id,
+          'round_number', gr.round_number,
+          'multiplier', gr.multiplier,
+          'question', json_build_object(
+            'question_text', q.question_text,
+            'correct_answer', q.correct_answer,
+            'accepted_answers', q.accepted_answers
+          ),
+          'answers', (
+            SELECT COALESCE(json_agg(pa), '[]'::json)
+            FROM player_answers pa
+            WHERE pa.round_id = gr.id
+          ),
+          'votes', (
+            SELECT COALESCE(json_agg(v), '[]'::json)
+            FROM votes v
+            WHERE v.round_id = gr.id
+          ),
+          'likes', (
+            SELECT COALESCE(json_agg(al), '[]'::json)
+            FROM answer_likes al
+            WHERE al.round_id = gr.id
+          ),
+          'audience_votes', (
+            SELECT COALESCE(json_agg(av), '[]'::json)
+            FROM audience_votes av
+            WHERE av.round_id = gr.id
+          )
+        )
+        ORDER BY gr.round_number
+      ), '[]'::json)
+      FROM game_rounds gr
+      JOIN questions q ON q.id = gr.question_id
+      WHERE gr.game_id = p_game_id
+        AND gr.status = 'completed'
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_game_replay IS 'Returns a finished game with every completed round (question, answers, votes, likes) for the owning host.';
@@ -0,0 +1,133 @@
+-- Migration: Shareable game recaps
+-- Purpose: Players want something to post after a session. A finished game's
+-- recap (winner, best lie, most gullible player, round highlights) is readable
+-- by anyone with its link, so get_game_recap is public. The replay JSON is
+-- shared with get_game_replay through one helper.
+
+-- ============================================================================
+-- HELPER: game_replay_json
+-- ============================================================================
+-- Raw rows for every completed round of one game (no access checks; callers
+-- must check ownership or status first).
+
+CREATE OR REPLACE FUNCTION game_replay_json(p_game_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_game RECORD;
+BEGIN
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id;
+
+  RETURN json_build_object(
+    'game', json_build_object(
+      'id', v_game.id,
+      'code', v_game.code,
+      'created_at', v_game.created_at,
+      'round_count', v_game.round_count,
+      'team_count', v_game.team_count,
+      'scoring_rules', v_game.scoring_rules
+    ),
+    'players', (
+      SELECT COALESCE(json_agg(p ORDER BY p.score DESC), '[]'::json)
+      FROM players p
+      WHERE p.game_id = p_game_id
+    ),
+    'rounds', (
+      SELECT COALESCE(json_agg(
+        json_build_object(
+          'id', gr.id,
+          'round_number', gr.round_number,
+          'multiplier', gr.multiplier,
+          'question', json_build_object(
+            'question_text', q.question_text,
+            'correct_answer', q.correct_answer,
+            'accepted_answers', q.accepted_answers
+          ),
+          'answers', (
+            SELECT COALESCE(json_agg(pa), '[]'::json)
+            FROM player_answers pa
+            WHERE pa.round_id = gr.id
+          ),
+          'votes', (
+            SELECT COALESCE(json_agg(v), '[]'::json)
+            FROM votes v
+            WHERE v.round_id = gr.id
+          ),
+          'likes', (
+            SELECT COALESCE(json_agg(al), '[]'::json)
+            FROM answer_likes al
+            WHERE al.round_id = gr.id
+          ),
+          'audience_votes', (
+            SELECT COALESCE(json_agg(av), '[]'::json)
+            FROM audience_votes av
+            WHERE av.round_id = gr.id
+          )
+        )
+        ORDER BY gr.round_number
+      ), '[]'::json)
+      FROM game_rounds gr
+      JOIN questions q ON q.id = gr.question_id
+      WHERE gr.game_id = p_game_id
+        AND gr.status = 'completed'
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION game_replay_json FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION game_replay_json IS 'Builds the replay JSON (game, players, completed rounds) used by get_game_replay and get_game_recap.';
+
+-- ============================================================================
+-- RPC: Get Game Replay
+-- ============================================================================
+-- Same contract as add_game_history_rpcs.sql, now built by game_replay_json.
+
+CREATE OR REPLACE FUNCTION get_game_replay(p_game_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_auth_user_id UUID;
+BEGIN
+  v_auth_user_id := auth.uid();
+
+  IF v_auth_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM games
+    WHERE id = p_game_id
+      AND auth_host_id = v_auth_user_id
+      AND status = 'finished'
+  ) THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN game_replay_json(p_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- RPC: Get Game Recap (public)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_game_recap(p_game_id UUID)
+RETURNS JSON AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM games
+    WHERE id = p_game_id
+      AND status = 'finished'
+  ) THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN game_replay_json(p_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_game_recap TO anon, authenticated;
+
+COMMENT ON FUNCTION get_game_recap IS 'Returns a finished game''s rounds for its public recap page. Anyone with the game id can read it.';
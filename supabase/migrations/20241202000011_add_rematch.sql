@@ -0,0 +1,141 @@
+-- Migration: Play again (rematch)
+-- Purpose: After a game finishes the host can start a rematch that carries the
+-- lobby over: same settings, every connected player and audience member, the
+-- same host and phase captain. Clients are moved by the realtime UPDATE on the
+-- finished game (rematch_game_id) and find their new row through
+-- previous_player_id, so nobody re-enters a code or a name.
+
+-- ============================================================================
+-- REMATCH LINKS
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS rematch_game_id UUID REFERENCES games(id) ON DELETE SET NULL;
+
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS previous_player_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_players_previous_player_id
+  ON players(game_id, previous_player_id);
+
+COMMENT ON COLUMN games.rematch_game_id IS 'Lobby created by Play Again once this game finished';
+COMMENT ON COLUMN players.previous_player_id IS 'Player row this one was carried over from in a rematch';
+
+-- ============================================================================
+-- RPC: Create Rematch
+-- ============================================================================
+-- Owner-only and subject to the same entitlement as creating a game. Calling it
+-- twice returns the existing rematch so a double tap cannot fork the lobby.
+
+CREATE OR REPLACE FUNCTION create_rematch(p_game_id UUID, p_code VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+  v_auth_user_id UUID;
+  v_game RECORD;
+  v_new_game_id UUID;
+  v_host_id UUID;
+  v_captain_id UUID;
+BEGIN
+  v_auth_user_id := auth.uid();
+
+  IF v_auth_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Lock the finished game so concurrent calls serialize
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id
+  FOR UPDATE;
+
+  IF v_game IS NULL OR v_game.auth_host_id IS DISTINCT FROM v_auth_user_id THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.status <> 'finished' THEN
+    RAISE EXCEPTION 'Game is not finished';
+  END IF;
+
+  IF v_game.rematch_game_id IS NOT NULL THEN
+    RETURN v_game.rematch_game_id;
+  END IF;
+
+  IF NOT is_host_subscription_active(v_auth_user_id) THEN
+    RAISE EXCEPTION 'Host subscription required';
+  END IF;
+
+  INSERT INTO games (
+    code,
+    status,
+    round_count,
+    max_players,
+    question_pack_ids,
+    scoring_rules,
+    multiplier_rounds,
+    team_count,
+    auth_host_id
+  ) VALUES (
+    p_code,
+    'waiting',
+    v_game.round_count,
+    v_game.max_players,
+    v_game.question_pack_ids,
+    v_game.scoring_rules,
+    v_game.multiplier_rounds,
+    v_game.team_count,
+    v_auth_user_id
+  )
+  RETURNING id INTO v_new_game_id;
+
+  -- Carry over everyone still connected with a fresh score
+  INSERT INTO players (
+    game_id,
+    user_name,
+    avatar_color,
+    is_host,
+    role,
+    team,
+    previous_player_id
+  )
+  SELECT
+    v_new_game_id,
+    p.user_name,
+    p.avatar_color,
+    p.is_host,
+    p.role,
+    p.team,
+    p.id
+  FROM players p
+  WHERE p.game_id = p_game_id
+    AND p.connection_status = 'connected'
+  ORDER BY p.joined_at;
+
+  SELECT id INTO v_host_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND previous_player_id = v_game.host_id;
+
+  SELECT id INTO v_captain_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND role = 'player'
+    AND previous_player_id = v_game.phase_captain_id;
+
+  UPDATE games
+  SET host_id = v_host_id,
+      phase_captain_id = COALESCE(v_captain_id, v_host_id)
+  WHERE id = v_new_game_id;
+
+  -- Broadcasts the rematch to every client still on the results screen
+  UPDATE games
+  SET rematch_game_id = v_new_game_id,
+      updated_at = NOW()
+  WHERE id = p_game_id;
+
+  RETURN v_new_game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_rematch IS 'Creates a waiting game with the same settings and connected players as a finished game owned by the caller.';
+
+GRANT EXECUTE ON FUNCTION create_rematch TO authenticated;
@@ -0,0 +1,219 @@
+-- Migration: Lobby moderation
+-- Purpose: Hosts running public or classroom games need to remove trolls before
+-- the game starts. The owning host can kick a player (optionally banning their
+-- name and device from rejoining the same game) and force-rename offensive
+-- names. Everything goes through owner-only RPCs and the join policy, so a
+-- modified client cannot bypass it. Kicks are published through player_kicks
+-- so the kicked client learns why its row disappeared.
+
+-- ============================================================================
+-- DEVICE ID
+-- ============================================================================
+
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS device_id TEXT;
+
+COMMENT ON COLUMN players.device_id IS 'Random per-install ID sent on join, used to enforce bans';
+
+-- ============================================================================
+-- GAME BANS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS game_bans (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  user_name VARCHAR(50) NOT NULL,
+  device_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_bans_game_id ON game_bans(game_id);
+
+COMMENT ON TABLE game_bans IS 'Names and devices the host banned from rejoining a game';
+
+-- Only read through is_banned_from_game (no direct access)
+ALTER TABLE game_bans ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- PLAYER KICKS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS player_kicks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL, -- No FK: the player row is deleted by the kick
+  banned BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_kicks_game_id ON player_kicks(game_id);
+
+COMMENT ON TABLE player_kicks IS 'Kick notifications for realtime clients (written by kick_player only)';
+
+ALTER TABLE player_kicks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Player kicks are viewable by everyone"
+ON player_kicks
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- ============================================================================
+-- JOIN POLICY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION is_banned_from_game(
+  p_game_id UUID,
+  p_user_name VARCHAR,
+  p_device_id TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM game_bans
+    WHERE game_id = p_game_id
+      AND (
+        LOWER(TRIM(user_name)) = LOWER(TRIM(p_user_name))
+        OR (p_device_id IS NOT NULL AND device_id = p_device_id)
+      )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION is_banned_from_game IS 'Returns true if the name or device was banned from the game by its host';
+
+DROP POLICY IF EXISTS "Anyone can join a game" ON players;
+
+CREATE POLICY "Anyone not banned can join a game" ON players
+  FOR INSERT WITH CHECK (NOT is_banned_from_game(game_id, user_name, device_id));
+
+-- ============================================================================
+-- TRIGGER: Protect Player Identity
+-- ============================================================================
+-- The update policy stays USING (true) so players can set their own connection
+-- status and team. Name, game, role and device only change through the
+-- SECURITY DEFINER RPCs (which run as the function owner), otherwise a renamed
+-- player could write their old name back, or a banned device could join another
+-- game and move its row into the one that banned it.
+
+CREATE OR REPLACE FUNCTION protect_player_identity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND (
+    NEW.user_name IS DISTINCT FROM OLD.user_name
+    OR NEW.game_id IS DISTINCT FROM OLD.game_id
+    OR NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.device_id IS DISTINCT FROM OLD.device_id
+  ) THEN
+    RAISE EXCEPTION 'Player name, game, role and device can only be changed by the host'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql; -- Not SECURITY DEFINER: current_user must stay the caller
+
+DROP TRIGGER IF EXISTS protect_player_identity_trigger ON players;
+CREATE TRIGGER protect_player_identity_trigger
+  BEFORE UPDATE ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_player_identity();
+
+-- ============================================================================
+-- RPC: Kick Player
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION kick_player(p_player_id UUID, p_ban BOOLEAN DEFAULT FALSE)
+RETURNS VOID AS $$
+DECLARE
+  v_player RECORD;
+  v_game RECORD;
+BEGIN
+  SELECT * INTO v_player
+  FROM players
+  WHERE id = p_player_id;
+
+  IF v_player IS NULL THEN
+    RAISE EXCEPTION 'Player not found';
+  END IF;
+
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = v_player.game_id
+  FOR UPDATE;
+
+  IF NOT user_owns_game(v_game.id) THEN
+    RAISE EXCEPTION 'Only the host can moderate players';
+  END IF;
+
+  IF v_player.is_host THEN
+    RAISE EXCEPTION 'The host cannot be kicked';
+  END IF;
+
+  IF v_game.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Players can only be kicked from the lobby';
+  END IF;
+
+  IF p_ban THEN
+    INSERT INTO game_bans (game_id, user_name, device_id)
+    VALUES (v_game.id, v_player.user_name, v_player.device_id);
+  END IF;
+
+  INSERT INTO player_kicks (game_id, player_id, banned)
+  VALUES (v_game.id, p_player_id, p_ban);
+
+  -- Hand the captaincy back to the host if the kicked player held it
+  IF v_game.phase_captain_id = p_player_id THEN
+    UPDATE games
+    SET phase_captain_id = host_id
+    WHERE id = v_game.id;
+  END IF;
+
+  DELETE FROM players WHERE id = p_player_id;
+
+  RAISE NOTICE '🚫 Kicked % from game % (banned: %)', v_player.user_name, v_game.code, p_ban;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION kick_player IS 'Removes a player from a waiting game owned by the caller, optionally banning their name and device.';
+
+-- ============================================================================
+-- RPC: Rename Player
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION rename_player(p_player_id UUID, p_new_name VARCHAR)
+RETURNS VOID AS $$
+DECLARE
+  v_game_id UUID;
+  v_name TEXT;
+BEGIN
+  SELECT game_id INTO v_game_id
+  FROM players
+  WHERE id = p_player_id;
+
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Player not found';
+  END IF;
+
+  IF NOT user_owns_game(v_game_id) THEN
+    RAISE EXCEPTION 'Only the host can moderate players';
+  END IF;
+
+  -- Same limits as GAME_CONFIG.MIN/MAX_PLAYER_NAME_LENGTH
+  v_name := TRIM(p_new_name);
+  IF char_length(v_name) < 2 OR char_length(v_name) > 50 THEN
+    RAISE EXCEPTION 'Invalid player name'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Duplicate names surface as unique_violation (23505)
+  UPDATE players
+  SET user_name = v_name
+  WHERE id = p_player_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION rename_player IS 'Force-renames a player in a game owned by the caller.';
+
+GRANT EXECUTE ON FUNCTION kick_player TO authenticated;
+GRANT EXECUTE ON FUNCTION rename_player TO authenticated;
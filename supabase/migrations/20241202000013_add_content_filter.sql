@@ -0,0 +1,438 @@
+-- Migration: Content filter for names and fakes
+-- Purpose: Family events and school sessions need offensive player names and
+-- fake answers kept off the shared screen. Each game picks a strictness
+-- (off / mask / reject). Clients filter first with the same wordlists
+-- (packages/shared/src/utils/contentFilter.ts); these triggers are the
+-- server-side backstop so a modified client cannot bypass the setting.
+
+-- ============================================================================
+-- GAME SETTING
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS content_filter VARCHAR(10) NOT NULL DEFAULT 'mask'
+  CHECK (content_filter IN ('off', 'mask', 'reject'));
+
+COMMENT ON COLUMN games.content_filter IS 'off = no filtering, mask = star out blocked words, reject = refuse the name or fake';
+
+-- ============================================================================
+-- NORMALIZATION
+-- ============================================================================
+-- Mirrors normalizeForFilter(): lower-case, strip Latin accents, tashkeel and
+-- tatweel, unify alef/hamza forms, leetspeak to letters, drop separators inside
+-- the word, squeeze stretched letters and drop the definite article.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE OR REPLACE FUNCTION normalize_filter_word(p_word TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_word TEXT;
+BEGIN
+  IF p_word IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_word := lower(unaccent(p_word));
+
+  -- Strip diacritics (U+064B-U+065F, U+0670, U+06D6-U+06ED) and tatweel (U+0640)
+  v_word := regexp_replace(v_word, '[\u064B-\u065F\u0670\u06D6-\u06ED\u0640]', '', 'g');
+
+  -- Unify letter variants: آأإٱ -> ا, ؤ -> و, ئ -> ي, ى -> ي, ة -> ه
+  v_word := translate(v_word, 'آأإٱؤئىة', 'ااااوييه');
+
+  -- Leetspeak (same map as LEET_MAP)
+  v_word := translate(v_word, '0134578@$!|+', 'oieastbasilt');
+
+  -- Separators inside the word ("f.u.c.k"), then stretched letters ("fuuuck")
+  v_word := regexp_replace(v_word, '[^[:alpha:]]', '', 'g');
+  v_word := regexp_replace(v_word, '([[:alpha:]])\1{2,}', '\1', 'g');
+
+  -- Drop the definite article on words longer than 3 letters
+  IF v_word LIKE 'ال%' AND char_length(v_word) > 3 THEN
+    v_word := substr(v_word, 3);
+  END IF;
+
+  RETURN v_word;
+END;
+$$;
+
+COMMENT ON FUNCTION normalize_filter_word IS 'Content filter normalization for a single word';
+
+-- ============================================================================
+-- BLOCKED WORDS TABLE
+-- ============================================================================
+-- Same lists as BLOCKED_WORDS_AR / BLOCKED_WORDS_EN. Entries are normalized on
+-- insert, so admins can add plain words or phrases here without touching code.
+
+CREATE TABLE IF NOT EXISTS blocked_words (
+  word TEXT PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE blocked_words IS 'Content filter wordlist (normalized words and space-separated phrases)';
+
+-- Only read through find_blocked_words (no direct access)
+ALTER TABLE blocked_words ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION normalize_blocked_word()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT string_agg(normalize_filter_word(part), ' ' ORDER BY ord)
+  INTO NEW.word
+  FROM regexp_split_to_table(trim(NEW.word), '\s+') WITH ORDINALITY AS t(part, ord)
+  WHERE normalize_filter_word(part) <> '';
+
+  IF NEW.word IS NULL THEN
+    RAISE EXCEPTION 'Blocked word is empty after normalization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_blocked_word_trigger ON blocked_words;
+
+CREATE TRIGGER normalize_blocked_word_trigger
+  BEFORE INSERT OR UPDATE ON blocked_words
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_blocked_word();
+
+INSERT INTO blocked_words (word) VALUES
+  -- Arabic
+  ('كس'),
+  ('كسمك'),
+  ('كسختك'),
+  ('زب'),
+  ('زبي'),
+  ('طيز'),
+  ('نيك'),
+  ('نيج'),
+  ('منيوك'),
+  ('منيك'),
+  ('متناك'),
+  ('شرموط'),
+  ('شرموطة'),
+  ('شرمطة'),
+  ('قحبة'),
+  ('قحاب'),
+  ('عاهرة'),
+  ('عاهر'),
+  ('خول'),
+  ('لوطي'),
+  ('معرص'),
+  ('عرص'),
+  ('ديوث'),
+  ('زاني'),
+  ('زانية'),
+  ('ابن الكلب'),
+  ('ابن القحبة'),
+  ('يلعن'),
+  -- English
+  ('fuck'),
+  ('fucker'),
+  ('fucking'),
+  ('motherfucker'),
+  ('shit'),
+  ('bullshit'),
+  ('bitch'),
+  ('bastard'),
+  ('asshole'),
+  ('dick'),
+  ('dickhead'),
+  ('cock'),
+  ('cunt'),
+  ('pussy'),
+  ('whore'),
+  ('slut'),
+  ('wanker'),
+  ('twat'),
+  ('nigger'),
+  ('nigga'),
+  ('faggot'),
+  ('retard')
+ON CONFLICT (word) DO NOTHING;
+
+-- ============================================================================
+-- MATCHING
+-- ============================================================================
+-- Mirrors createWordListFilter(): whole words, phrases, and runs of single
+-- letters joined together ("f u c k"). Returns 1-based word indexes.
+
+CREATE OR REPLACE FUNCTION find_blocked_words(p_words TEXT[])
+RETURNS INTEGER[] AS $$
+DECLARE
+  v_words TEXT[];
+  v_count INTEGER;
+  v_longest INTEGER;
+  v_candidate TEXT;
+  v_hits INTEGER[] := '{}';
+  v_run_start INTEGER := 1;
+  i INTEGER;
+  j INTEGER;
+  k INTEGER;
+BEGIN
+  v_count := COALESCE(array_length(p_words, 1), 0);
+  IF v_count = 0 THEN
+    RETURN v_hits;
+  END IF;
+
+  SELECT array_agg(normalize_filter_word(word) ORDER BY ord)
+  INTO v_words
+  FROM unnest(p_words) WITH ORDINALITY AS t(word, ord);
+
+  SELECT COALESCE(MAX(array_length(string_to_array(word, ' '), 1)), 1)
+  INTO v_longest
+  FROM blocked_words;
+
+  -- Whole words and phrases
+  FOR i IN 1..v_count LOOP
+    FOR k IN 1..LEAST(v_longest, v_count - i + 1) LOOP
+      v_candidate := array_to_string(array_remove(v_words[i:i + k - 1], ''), ' ');
+      IF v_candidate <> '' AND EXISTS (SELECT 1 FROM blocked_words WHERE word = v_candidate) THEN
+        FOR j IN i..i + k - 1 LOOP
+          v_hits := array_append(v_hits, j);
+        END LOOP;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Spelled-out words
+  FOR i IN 1..v_count + 1 LOOP
+    CONTINUE WHEN i <= v_count AND char_length(v_words[i]) = 1;
+
+    IF i - v_run_start > 1
+       AND EXISTS (
+         SELECT 1 FROM blocked_words
+         WHERE word = array_to_string(v_words[v_run_start:i - 1], '')
+       ) THEN
+      FOR j IN v_run_start..i - 1 LOOP
+        v_hits := array_append(v_hits, j);
+      END LOOP;
+    END IF;
+
+    v_run_start := i + 1;
+  END LOOP;
+
+  RETURN v_hits;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION find_blocked_words IS 'Indexes (1-based) of the words that hit the content filter wordlist';
+
+CREATE OR REPLACE FUNCTION apply_content_filter(p_text TEXT, p_level VARCHAR)
+RETURNS TEXT AS $$
+DECLARE
+  v_words TEXT[];
+  v_hits INTEGER[];
+BEGIN
+  IF p_text IS NULL OR p_level IS NULL OR p_level = 'off' THEN
+    RETURN p_text;
+  END IF;
+
+  v_words := regexp_split_to_array(trim(p_text), '\s+');
+  v_hits := find_blocked_words(v_words);
+
+  IF cardinality(v_hits) = 0 THEN
+    RETURN p_text;
+  END IF;
+
+  IF p_level = 'reject' THEN
+    RAISE EXCEPTION 'Text contains blocked words'
+      USING ERRCODE = 'check_violation', HINT = 'INAPPROPRIATE_CONTENT';
+  END IF;
+
+  FOR i IN 1..array_length(v_words, 1) LOOP
+    IF i = ANY(v_hits) THEN
+      v_words[i] := repeat('*', char_length(v_words[i]));
+    END IF;
+  END LOOP;
+
+  RETURN array_to_string(v_words, ' ');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION apply_content_filter IS 'Masks or rejects blocked words according to a game content_filter level';
+
+-- ============================================================================
+-- ENFORCE ON PLAYER NAMES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION filter_player_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_level VARCHAR;
+BEGIN
+  SELECT content_filter INTO v_level
+  FROM games
+  WHERE id = NEW.game_id;
+
+  NEW.user_name := apply_content_filter(NEW.user_name, v_level);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS filter_player_name_trigger ON players;
+
+CREATE TRIGGER filter_player_name_trigger
+  BEFORE INSERT OR UPDATE OF user_name ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION filter_player_name();
+
+-- ============================================================================
+-- ENFORCE ON FAKE ANSWERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION filter_fake_answer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_level VARCHAR;
+BEGIN
+  -- Only player-submitted fakes are checked
+  IF NEW.is_correct OR NEW.player_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT g.content_filter INTO v_level
+  FROM game_rounds gr
+  JOIN games g ON g.id = gr.game_id
+  WHERE gr.id = NEW.round_id;
+
+  NEW.answer_text := apply_content_filter(NEW.answer_text, v_level);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS filter_fake_answer_trigger ON player_answers;
+
+CREATE TRIGGER filter_fake_answer_trigger
+  BEFORE INSERT ON player_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION filter_fake_answer();
+
+-- ============================================================================
+-- RPC: Create Rematch
+-- ============================================================================
+-- Same contract as add_rematch.sql; the rematch keeps the content filter.
+
+CREATE OR REPLACE FUNCTION create_rematch(p_game_id UUID, p_code VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+  v_auth_user_id UUID;
+  v_game RECORD;
+  v_new_game_id UUID;
+  v_host_id UUID;
+  v_captain_id UUID;
+BEGIN
+  v_auth_user_id := auth.uid();
+
+  IF v_auth_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Lock the finished game so concurrent calls serialize
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id
+  FOR UPDATE;
+
+  IF v_game IS NULL OR v_game.auth_host_id IS DISTINCT FROM v_auth_user_id THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.status <> 'finished' THEN
+    RAISE EXCEPTION 'Game is not finished';
+  END IF;
+
+  IF v_game.rematch_game_id IS NOT NULL THEN
+    RETURN v_game.rematch_game_id;
+  END IF;
+
+  IF NOT is_host_subscription_active(v_auth_user_id) THEN
+    RAISE EXCEPTION 'Host subscription required';
+  END IF;
+
+  INSERT INTO games (
+    code,
+    status,
+    round_count,
+    max_players,
+    question_pack_ids,
+    scoring_rules,
+    multiplier_rounds,
+    team_count,
+    content_filter,
+    auth_host_id
+  ) VALUES (
+    p_code,
+    'waiting',
+    v_game.round_count,
+    v_game.max_players,
+    v_game.question_pack_ids,
+    v_game.scoring_rules,
+    v_game.multiplier_rounds,
+    v_game.team_count,
+    v_game.content_filter,
+    v_auth_user_id
+  )
+  RETURNING id INTO v_new_game_id;
+
+  -- Carry over everyone still connected with a fresh score
+  INSERT INTO players (
+    game_id,
+    user_name,
+    avatar_color,
+    is_host,
+    role,
+    team,
+    previous_player_id
+  )
+  SELECT
+    v_new_game_id,
+    p.user_name,
+    p.avatar_color,
+    p.is_host,
+    p.role,
+    p.team,
+    p.id
+  FROM players p
+  WHERE p.game_id = p_game_id
+    AND p.connection_status = 'connected'
+  ORDER BY p.joined_at;
+
+  SELECT id INTO v_host_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND previous_player_id = v_game.host_id;
+
+  SELECT id INTO v_captain_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND role = 'player'
+    AND previous_player_id = v_game.phase_captain_id;
+
+  UPDATE games
+  SET host_id = v_host_id,
+      phase_captain_id = COALESCE(v_captain_id, v_host_id)
+  WHERE id = v_new_game_id;
+
+  -- Broadcasts the rematch to every client still on the results screen
+  UPDATE games
+  SET rematch_game_id = v_new_game_id,
+      updated_at = NOW()
+  WHERE id = p_game_id;
+
+  RETURN v_new_game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_rematch IS 'Creates a waiting game with the same settings and connected players as a finished game owned by the caller.';
@@ -0,0 +1,424 @@
+-- Migration: Host round controls
+-- Purpose: Once a round starts its timer runs on its own. The owning host (or
+-- the TV display, which signs in as the host) can now pause a round, resume it,
+-- extend the timer by a few seconds and skip a bad question while players are
+-- still answering. The remaining time is frozen server-side while paused, so
+-- force_advance_round and every timer RPC agree with what clients show, and no
+-- answers or votes are taken until the round resumes. Clients
+-- are told through the game broadcast channel by whoever made the change.
+
+-- ============================================================================
+-- PAUSE STATE
+-- ============================================================================
+
+ALTER TABLE game_rounds
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS skipped_question_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN game_rounds.paused_at IS 'Set while the host has the round paused (remaining time is frozen at this moment)';
+COMMENT ON COLUMN game_rounds.skipped_question_ids IS 'Questions the host skipped in this round (never drawn again in the game)';
+
+-- ============================================================================
+-- TIMER FUNCTIONS
+-- ============================================================================
+-- Same contracts as 20241130_server_time_authority.sql; elapsed time is measured
+-- up to paused_at instead of NOW() while a round is paused.
+
+CREATE OR REPLACE FUNCTION get_round_time_remaining(p_round_id UUID)
+RETURNS TABLE(
+  time_remaining INTEGER,
+  timer_active BOOLEAN,
+  server_time TIMESTAMPTZ,
+  round_status VARCHAR(20)
+) AS $$
+DECLARE
+  v_timer_starts_at TIMESTAMPTZ;
+  v_timer_duration INTEGER;
+  v_paused_at TIMESTAMPTZ;
+  v_round_status VARCHAR(20);
+  v_elapsed INTEGER;
+  v_remaining INTEGER;
+BEGIN
+  SELECT timer_starts_at, timer_duration, paused_at, status
+  INTO v_timer_starts_at, v_timer_duration, v_paused_at, v_round_status
+  FROM game_rounds
+  WHERE id = p_round_id;
+
+  IF v_round_status IS NULL THEN
+    RETURN QUERY SELECT NULL::INTEGER, FALSE, NOW(), NULL::VARCHAR(20);
+    RETURN;
+  END IF;
+
+  IF v_timer_starts_at IS NULL THEN
+    RETURN QUERY SELECT v_timer_duration, FALSE, NOW(), v_round_status;
+    RETURN;
+  END IF;
+
+  v_elapsed := EXTRACT(EPOCH FROM (COALESCE(v_paused_at, NOW()) - v_timer_starts_at))::INTEGER;
+  v_remaining := GREATEST(0, v_timer_duration - v_elapsed);
+
+  -- A paused timer is not active (clients stop counting down)
+  RETURN QUERY SELECT
+    v_remaining,
+    (v_remaining > 0 AND v_paused_at IS NULL AND v_round_status IN ('answering', 'voting')),
+    NOW(),
+    v_round_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION sync_game_timers(p_game_id UUID)
+RETURNS TABLE(
+  round_id UUID,
+  round_number INTEGER,
+  round_status VARCHAR(20),
+  time_remaining INTEGER,
+  timer_active BOOLEAN,
+  server_time TIMESTAMPTZ,
+  timer_starts_at TIMESTAMPTZ,
+  timer_duration INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    gr.id as round_id,
+    gr.round_number,
+    gr.status as round_status,
+    CASE
+      WHEN gr.timer_starts_at IS NULL THEN gr.timer_duration
+      ELSE GREATEST(0, gr.timer_duration - EXTRACT(EPOCH FROM (COALESCE(gr.paused_at, NOW()) - gr.timer_starts_at))::INTEGER)
+    END as time_remaining,
+    (gr.timer_starts_at IS NOT NULL AND
+     gr.paused_at IS NULL AND
+     gr.status IN ('answering', 'voting') AND
+     EXTRACT(EPOCH FROM (NOW() - gr.timer_starts_at))::INTEGER < gr.timer_duration) as timer_active,
+    NOW() as server_time,
+    gr.timer_starts_at,
+    gr.timer_duration
+  FROM game_rounds gr
+  WHERE gr.game_id = p_game_id
+    AND gr.status IN ('answering', 'voting')
+  ORDER BY gr.round_number DESC
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same contract as add_timer_trigger.sql; the voting timer always starts unpaused
+CREATE OR REPLACE FUNCTION update_timer_on_voting()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'voting' AND OLD.status != 'voting' THEN
+    NEW.timer_starts_at = NOW();
+    NEW.paused_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FORCE ADVANCE
+-- ============================================================================
+-- Same contract as 20241129000001_fix_voting_duplicate_correct_answer.sql; a
+-- paused round (or one whose extended timer has not run out) is left alone so a
+-- client whose countdown hit zero cannot advance it behind the host's back.
+
+CREATE OR REPLACE FUNCTION force_advance_round(p_round_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_round RECORD;
+  v_correct_answer_exists BOOLEAN;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_round.paused_at IS NOT NULL THEN
+    RAISE NOTICE '⏸️ Round is paused, not advancing';
+    RETURN;
+  END IF;
+
+  -- A couple of seconds of grace for clients counting down ahead of the server
+  -- (a client that missed an extension is off by the whole extension)
+  IF v_round.timer_starts_at IS NOT NULL
+     AND v_round.timer_starts_at + make_interval(secs => v_round.timer_duration - 2) > NOW() THEN
+    RAISE NOTICE '⏳ Timer has not expired yet, not advancing';
+    RETURN;
+  END IF;
+
+  IF v_round.status = 'answering' THEN
+    RAISE NOTICE '⏰ Timer expired! Adding correct answer and force transitioning to voting...';
+
+    SELECT EXISTS(
+      SELECT 1 FROM player_answers
+      WHERE round_id = p_round_id AND is_correct = true
+    ) INTO v_correct_answer_exists;
+
+    IF NOT v_correct_answer_exists THEN
+      INSERT INTO player_answers (round_id, player_id, answer_text, is_correct)
+      SELECT
+        p_round_id,
+        NULL,  -- System answer (no player)
+        q.correct_answer,
+        true
+      FROM questions q
+      WHERE q.id = v_round.question_id;
+      RAISE NOTICE '📝 Correct answer inserted';
+    ELSE
+      RAISE NOTICE '⚠️ Correct answer already exists, skipping insert';
+    END IF;
+
+    UPDATE game_rounds
+    SET status = 'voting',
+        timer_duration = 20
+    WHERE id = p_round_id;
+
+  ELSIF v_round.status = 'voting' THEN
+    RAISE NOTICE '⏰ Timer expired! Force ending round...';
+    PERFORM advance_round_if_ready(p_round_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION force_advance_round IS
+  'Forces round to advance when timer expires. Does nothing while the host has the round paused.';
+
+-- ============================================================================
+-- RPC: Pause / Resume
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION pause_round(p_round_id UUID)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT user_owns_game(v_round.game_id) THEN
+    RAISE EXCEPTION 'Only the host can control the round';
+  END IF;
+
+  IF v_round.status NOT IN ('answering', 'voting') THEN
+    RAISE EXCEPTION 'Round is not running';
+  END IF;
+
+  -- Pausing twice keeps the original pause time
+  IF v_round.paused_at IS NULL THEN
+    UPDATE game_rounds
+    SET paused_at = NOW()
+    WHERE id = p_round_id
+    RETURNING * INTO v_round;
+  END IF;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION pause_round IS 'Freezes the remaining time of a running round in a game owned by the caller.';
+
+CREATE OR REPLACE FUNCTION resume_round(p_round_id UUID)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT user_owns_game(v_round.game_id) THEN
+    RAISE EXCEPTION 'Only the host can control the round';
+  END IF;
+
+  -- Shift the start by the paused duration so the remaining time picks up where it stopped
+  IF v_round.paused_at IS NOT NULL THEN
+    UPDATE game_rounds
+    SET timer_starts_at = timer_starts_at + (NOW() - paused_at),
+        paused_at = NULL
+    WHERE id = p_round_id
+    RETURNING * INTO v_round;
+  END IF;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION resume_round IS 'Resumes a paused round in a game owned by the caller.';
+
+-- ============================================================================
+-- TRIGGER: Reject Answers and Votes While Paused
+-- ============================================================================
+-- A paused round is frozen: otherwise the last answer or vote would let
+-- advance_round_if_ready move it on (and update_timer_on_voting would clear the
+-- pause). System answers (no player) are left alone.
+
+CREATE OR REPLACE FUNCTION reject_while_paused()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Nested: votes rows have no player_id to read
+  IF TG_TABLE_NAME = 'player_answers' THEN
+    IF NEW.player_id IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM game_rounds WHERE id = NEW.round_id AND paused_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Round is paused'
+      USING ERRCODE = 'check_violation', HINT = 'ROUND_PAUSED';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reject_answer_while_paused ON player_answers;
+CREATE TRIGGER reject_answer_while_paused
+  BEFORE INSERT ON player_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_while_paused();
+
+DROP TRIGGER IF EXISTS reject_vote_while_paused ON votes;
+CREATE TRIGGER reject_vote_while_paused
+  BEFORE INSERT ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_while_paused();
+
+-- ============================================================================
+-- RPC: Extend Timer
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION extend_round_timer(p_round_id UUID, p_seconds INTEGER)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+BEGIN
+  -- Same limit as GAME_CONFIG.MAX_TIMER_EXTENSION
+  IF p_seconds IS NULL OR p_seconds < 1 OR p_seconds > 60 THEN
+    RAISE EXCEPTION 'Invalid timer extension'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT user_owns_game(v_round.game_id) THEN
+    RAISE EXCEPTION 'Only the host can control the round';
+  END IF;
+
+  IF v_round.status NOT IN ('answering', 'voting') THEN
+    RAISE EXCEPTION 'Round is not running';
+  END IF;
+
+  UPDATE game_rounds
+  SET timer_duration = timer_duration + p_seconds
+  WHERE id = p_round_id
+  RETURNING * INTO v_round;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION extend_round_timer IS 'Adds seconds to the timer of a running round in a game owned by the caller.';
+
+-- ============================================================================
+-- RPC: Skip Question
+-- ============================================================================
+-- Only while answering (nobody has voted yet). Draws from the same pool as
+-- RoundService.createRound, discards the fakes written for the old question and
+-- restarts the answer timer unpaused.
+
+CREATE OR REPLACE FUNCTION skip_question(p_round_id UUID)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+  v_game RECORD;
+  v_language VARCHAR(2);
+  v_question_id UUID;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT user_owns_game(v_round.game_id) THEN
+    RAISE EXCEPTION 'Only the host can control the round';
+  END IF;
+
+  IF v_round.status <> 'answering' THEN
+    RAISE EXCEPTION 'Questions can only be skipped while players are answering';
+  END IF;
+
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = v_round.game_id;
+
+  SELECT language INTO v_language
+  FROM questions
+  WHERE id = v_round.question_id;
+
+  SELECT q.id INTO v_question_id
+  FROM questions q
+  WHERE (
+      (COALESCE(array_length(v_game.question_pack_ids, 1), 0) > 0 AND q.pack_id = ANY(v_game.question_pack_ids))
+      OR (COALESCE(array_length(v_game.question_pack_ids, 1), 0) = 0 AND q.pack_id IS NULL AND q.language = COALESCE(v_language, 'ar'))
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM game_rounds gr
+      WHERE gr.game_id = v_round.game_id
+        AND (gr.question_id = q.id OR q.id = ANY(gr.skipped_question_ids))
+    )
+  ORDER BY random()
+  LIMIT 1;
+
+  IF v_question_id IS NULL THEN
+    RAISE EXCEPTION 'No questions available'
+      USING HINT = 'NO_QUESTIONS';
+  END IF;
+
+  DELETE FROM player_answers WHERE round_id = p_round_id;
+
+  UPDATE game_rounds
+  SET question_id = v_question_id,
+      skipped_question_ids = array_append(skipped_question_ids, question_id),
+      timer_starts_at = NOW(),
+      timer_duration = 30, -- GAME_CONFIG.ANSWER_TIMER
+      paused_at = NULL
+  WHERE id = p_round_id
+  RETURNING * INTO v_round;
+
+  RAISE NOTICE '⏭️ Skipped question in round % of game %', v_round.round_number, v_game.code;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION skip_question IS 'Replaces the question of a round that is still answering with a fresh one, in a game owned by the caller.';
+
+GRANT EXECUTE ON FUNCTION pause_round TO authenticated;
+GRANT EXECUTE ON FUNCTION resume_round TO authenticated;
+GRANT EXECUTE ON FUNCTION extend_round_timer TO authenticated;
+GRANT EXECUTE ON FUNCTION skip_question TO authenticated;
@@ -0,0 +1,623 @@
+-- Migration: Per-game phase timers
+-- Purpose: Answer and voting timers were fixed at 30s/20s. Hosts now pick the
+-- lengths at creation (quick, standard, relaxed) or turn timers off so each
+-- phase waits for everyone. The game stores both lengths; new rounds, the
+-- voting transition, skipped questions and rematches all read them. A length
+-- of 0 means no timer: force_advance_round leaves such rounds to the quorum
+-- check in advance_round_if_ready.
+
+-- ============================================================================
+-- GAME SETTINGS
+-- ============================================================================
+
+-- Same limits as GAME_CONFIG.MIN_PHASE_TIMER / MAX_PHASE_TIMER (0 = no timer)
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS answer_timer INTEGER NOT NULL DEFAULT 30
+    CHECK (answer_timer = 0 OR answer_timer BETWEEN 10 AND 300),
+  ADD COLUMN IF NOT EXISTS voting_timer INTEGER NOT NULL DEFAULT 20
+    CHECK (voting_timer = 0 OR voting_timer BETWEEN 10 AND 300);
+
+COMMENT ON COLUMN games.answer_timer IS 'Seconds to write a fake (0 = no timer, wait for everyone)';
+COMMENT ON COLUMN games.voting_timer IS 'Seconds to vote (0 = no timer, wait for everyone)';
+
+-- Untimed rounds store a zero duration
+ALTER TABLE game_rounds
+  DROP CONSTRAINT IF EXISTS game_rounds_timer_duration_check;
+
+ALTER TABLE game_rounds
+  ADD CONSTRAINT game_rounds_timer_duration_check CHECK (timer_duration >= 0);
+
+-- ============================================================================
+-- TIMER FUNCTIONS
+-- ============================================================================
+
+-- Same contract as add_round_host_controls.sql; the voting phase gets the
+-- game's voting timer instead of whatever the caller wrote
+CREATE OR REPLACE FUNCTION update_timer_on_voting()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'voting' AND OLD.status != 'voting' THEN
+    NEW.timer_starts_at = NOW();
+    NEW.paused_at = NULL;
+    NEW.timer_duration = COALESCE(
+      (SELECT voting_timer FROM games WHERE id = NEW.game_id),
+      20
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same contract as add_round_host_controls.sql; an untimed round is never active
+CREATE OR REPLACE FUNCTION get_round_time_remaining(p_round_id UUID)
+RETURNS TABLE(
+  time_remaining INTEGER,
+  timer_active BOOLEAN,
+  server_time TIMESTAMPTZ,
+  round_status VARCHAR(20)
+) AS $$
+DECLARE
+  v_timer_starts_at TIMESTAMPTZ;
+  v_timer_duration INTEGER;
+  v_paused_at TIMESTAMPTZ;
+  v_round_status VARCHAR(20);
+  v_elapsed INTEGER;
+  v_remaining INTEGER;
+BEGIN
+  SELECT timer_starts_at, timer_duration, paused_at, status
+  INTO v_timer_starts_at, v_timer_duration, v_paused_at, v_round_status
+  FROM game_rounds
+  WHERE id = p_round_id;
+
+  IF v_round_status IS NULL THEN
+    RETURN QUERY SELECT NULL::INTEGER, FALSE, NOW(), NULL::VARCHAR(20);
+    RETURN;
+  END IF;
+
+  IF v_timer_starts_at IS NULL OR v_timer_duration = 0 THEN
+    RETURN QUERY SELECT v_timer_duration, FALSE, NOW(), v_round_status;
+    RETURN;
+  END IF;
+
+  v_elapsed := EXTRACT(EPOCH FROM (COALESCE(v_paused_at, NOW()) - v_timer_starts_at))::INTEGER;
+  v_remaining := GREATEST(0, v_timer_duration - v_elapsed);
+
+  RETURN QUERY SELECT
+    v_remaining,
+    (v_remaining > 0 AND v_paused_at IS NULL AND v_round_status IN ('answering', 'voting')),
+    NOW(),
+    v_round_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FORCE ADVANCE
+-- ============================================================================
+-- Same contract as add_round_host_controls.sql; untimed rounds are left alone.
+
+CREATE OR REPLACE FUNCTION force_advance_round(p_round_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_round RECORD;
+  v_correct_answer_exists BOOLEAN;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_round.paused_at IS NOT NULL THEN
+    RAISE NOTICE '⏸️ Round is paused, not advancing';
+    RETURN;
+  END IF;
+
+  -- Untimed rounds only advance once everyone is in (advance_round_if_ready)
+  IF v_round.timer_duration = 0 THEN
+    RAISE NOTICE '⏳ Round has no timer, waiting for everyone';
+    RETURN;
+  END IF;
+
+  -- A couple of seconds of grace for clients counting down ahead of the server
+  -- (a client that missed an extension is off by the whole extension)
+  IF v_round.timer_starts_at IS NOT NULL
+     AND v_round.timer_starts_at + make_interval(secs => v_round.timer_duration - 2) > NOW() THEN
+    RAISE NOTICE '⏳ Timer has not expired yet, not advancing';
+    RETURN;
+  END IF;
+
+  IF v_round.status = 'answering' THEN
+    RAISE NOTICE '⏰ Timer expired! Adding correct answer and force transitioning to voting...';
+
+    SELECT EXISTS(
+      SELECT 1 FROM player_answers
+      WHERE round_id = p_round_id AND is_correct = true
+    ) INTO v_correct_answer_exists;
+
+    IF NOT v_correct_answer_exists THEN
+      INSERT INTO player_answers (round_id, player_id, answer_text, is_correct)
+      SELECT
+        p_round_id,
+        NULL,  -- System answer (no player)
+        q.correct_answer,
+        true
+      FROM questions q
+      WHERE q.id = v_round.question_id;
+      RAISE NOTICE '📝 Correct answer inserted';
+    ELSE
+      RAISE NOTICE '⚠️ Correct answer already exists, skipping insert';
+    END IF;
+
+    -- update_timer_on_voting sets the game's voting timer
+    UPDATE game_rounds
+    SET status = 'voting'
+    WHERE id = p_round_id;
+
+  ELSIF v_round.status = 'voting' THEN
+    RAISE NOTICE '⏰ Timer expired! Force ending round...';
+    PERFORM advance_round_if_ready(p_round_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION force_advance_round IS
+  'Forces round to advance when timer expires. Does nothing while paused or when the game has no timer.';
+
+-- ============================================================================
+-- FUNCTION: advance_round_if_ready
+-- ============================================================================
+-- Same as add_audience_mode.sql, but the voting phase gets the game's voting
+-- timer instead of a fixed 20 seconds
+
+CREATE OR REPLACE FUNCTION advance_round_if_ready(p_round_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_round RECORD;
+  v_game RECORD;
+  v_answer_count INTEGER;
+  v_vote_count INTEGER;
+  v_next_round_number INTEGER;
+BEGIN
+  -- Lock the round row to prevent concurrent updates (race condition protection)
+  SELECT gr.* INTO v_round
+  FROM game_rounds gr
+  WHERE gr.id = p_round_id
+  FOR UPDATE;
+
+  -- Exit if round not found or already completed
+  IF v_round IS NULL OR v_round.status = 'completed' THEN
+    RETURN;
+  END IF;
+
+  -- Get game info and lock it too
+  SELECT g.* INTO v_game
+  FROM games g
+  WHERE g.id = v_round.game_id
+  FOR UPDATE;
+
+  -- Safety check: need at least 2 players
+  IF v_round.required_players < 2 THEN
+    RAISE NOTICE 'Not enough required players (%), skipping phase transition', v_round.required_players;
+    RETURN;
+  END IF;
+
+  -- ========================================================================
+  -- ANSWERING → VOTING transition
+  -- ========================================================================
+  IF v_round.status = 'answering' THEN
+    -- Count contestant answers for this round (excluding correct answer)
+    SELECT COUNT(*) INTO v_answer_count
+    FROM player_answers pa
+    JOIN players p ON p.id = pa.player_id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND p.role = 'player';
+
+    RAISE NOTICE 'Round % answering phase: % answers / % required players',
+      v_round.round_number, v_answer_count, v_round.required_players;
+
+    -- All required players have answered
+    IF v_answer_count >= v_round.required_players THEN
+      RAISE NOTICE '✅ All players answered! Adding correct answer and transitioning to voting...';
+
+      -- Insert the correct answer into the voting pool (fully qualified to avoid ambiguity)
+      INSERT INTO player_answers (round_id, player_id, answer_text, is_correct)
+      SELECT
+        p_round_id AS round_id,
+        NULL::UUID AS player_id,  -- System answer (no player)
+        q.correct_answer AS answer_text,
+        true AS is_correct
+      FROM questions q
+      WHERE q.id = v_round.question_id
+      ON CONFLICT DO NOTHING;  -- Prevent duplicate correct answer
+
+      -- Update round status to voting
+      UPDATE game_rounds gr
+      SET status = 'voting',
+          timer_duration = v_game.voting_timer
+      WHERE gr.id = p_round_id;
+
+      RAISE NOTICE '🗳️ Round % transitioned to VOTING with correct answer added', v_round.round_number;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- ========================================================================
+  -- VOTING → COMPLETED transition
+  -- ========================================================================
+  IF v_round.status = 'voting' THEN
+    -- Count contestant votes for this round (audience votes live in audience_votes)
+    SELECT COUNT(DISTINCT v.voter_id) INTO v_vote_count
+    FROM votes v
+    JOIN players p ON p.id = v.voter_id
+    WHERE v.round_id = p_round_id
+      AND p.role = 'player';
+
+    RAISE NOTICE 'Round % voting phase: % votes / % required players',
+      v_round.round_number, v_vote_count, v_round.required_players;
+
+    -- All required players have voted
+    IF v_vote_count >= v_round.required_players THEN
+      RAISE NOTICE '✅ All players voted! Ending round...';
+
+      -- Mark round as completed
+      UPDATE game_rounds gr
+      SET status = 'completed'
+      WHERE gr.id = p_round_id;
+
+      -- Calculate scores before advancing
+      PERFORM calculate_and_update_scores(p_round_id, v_game.id);
+
+      -- Calculate next round number
+      v_next_round_number := v_game.current_round + 1;
+
+      -- Check if game should end
+      IF v_next_round_number > v_game.round_count THEN
+        RAISE NOTICE '🎉 Game finished! Final round completed.';
+
+        -- Mark game as finished
+        UPDATE games g
+        SET status = 'finished'
+        WHERE g.id = v_game.id;
+      ELSE
+        RAISE NOTICE '➡️ Advancing to round %', v_next_round_number;
+
+        -- Increment to next round
+        UPDATE games g
+        SET current_round = v_next_round_number
+        WHERE g.id = v_game.id;
+      END IF;
+
+      RAISE NOTICE '🏁 Round % completed', v_round.round_number;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- If we get here, not enough submissions yet
+  RAISE NOTICE '⏳ Waiting for more submissions...';
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- HOST CONTROLS
+-- ============================================================================
+-- Same contracts as add_round_host_controls.sql; untimed rounds cannot be
+-- extended and a skipped question restarts with the game's answer timer.
+
+CREATE OR REPLACE FUNCTION extend_round_timer(p_round_id UUID, p_seconds INTEGER)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+BEGIN
+  -- Same limit as GAME_CONFIG.MAX_TIMER_EXTENSION
+  IF p_seconds IS NULL OR p_seconds < 1 OR p_seconds > 60 THEN
+    RAISE EXCEPTION 'Invalid timer extension'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT user_owns_game(v_round.game_id) THEN
+    RAISE EXCEPTION 'Only the host can control the round';
+  END IF;
+
+  IF v_round.status NOT IN ('answering', 'voting') THEN
+    RAISE EXCEPTION 'Round is not running';
+  END IF;
+
+  IF v_round.timer_duration = 0 THEN
+    RAISE EXCEPTION 'Round has no timer';
+  END IF;
+
+  UPDATE game_rounds
+  SET timer_duration = timer_duration + p_seconds
+  WHERE id = p_round_id
+  RETURNING * INTO v_round;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION extend_round_timer IS 'Adds seconds to the timer of a running round in a game owned by the caller.';
+
+CREATE OR REPLACE FUNCTION skip_question(p_round_id UUID)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+  v_game RECORD;
+  v_language VARCHAR(2);
+  v_question_id UUID;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT user_owns_game(v_round.game_id) THEN
+    RAISE EXCEPTION 'Only the host can control the round';
+  END IF;
+
+  IF v_round.status <> 'answering' THEN
+    RAISE EXCEPTION 'Questions can only be skipped while players are answering';
+  END IF;
+
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = v_round.game_id;
+
+  SELECT language INTO v_language
+  FROM questions
+  WHERE id = v_round.question_id;
+
+  SELECT q.id INTO v_question_id
+  FROM questions q
+  WHERE (
+      (COALESCE(array_length(v_game.question_pack_ids, 1), 0) > 0 AND q.pack_id = ANY(v_game.question_pack_ids))
+      OR (COALESCE(array_length(v_game.question_pack_ids, 1), 0) = 0 AND q.pack_id IS NULL AND q.language = COALESCE(v_language, 'ar'))
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM game_rounds gr
+      WHERE gr.game_id = v_round.game_id
+        AND (gr.question_id = q.id OR q.id = ANY(gr.skipped_question_ids))
+    )
+  ORDER BY random()
+  LIMIT 1;
+
+  IF v_question_id IS NULL THEN
+    RAISE EXCEPTION 'No questions available'
+      USING HINT = 'NO_QUESTIONS';
+  END IF;
+
+  DELETE FROM player_answers WHERE round_id = p_round_id;
+
+  UPDATE game_rounds
+  SET question_id = v_question_id,
+      skipped_question_ids = array_append(skipped_question_ids, question_id),
+      timer_starts_at = NOW(),
+      timer_duration = v_game.answer_timer,
+      paused_at = NULL
+  WHERE id = p_round_id
+  RETURNING * INTO v_round;
+
+  RAISE NOTICE '⏭️ Skipped question in round % of game %', v_round.round_number, v_game.code;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION skip_question IS 'Replaces the question of a round that is still answering with a fresh one, in a game owned by the caller.';
+
+-- ============================================================================
+-- RPC: Advance Round Now
+-- ============================================================================
+-- force_advance_round leaves untimed rounds alone, so a contestant who dropped
+-- out would hold one in answering or voting forever. The host moves it on:
+-- answering -> voting with the fakes written so far, voting -> completed
+-- (scored, then the next round or the end of the game, as in
+-- advance_round_if_ready).
+
+CREATE OR REPLACE FUNCTION advance_round_now(p_round_id UUID)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+  v_game RECORD;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT user_owns_game(v_round.game_id) THEN
+    RAISE EXCEPTION 'Only the host can control the round';
+  END IF;
+
+  IF v_round.status NOT IN ('answering', 'voting') THEN
+    RAISE EXCEPTION 'Round is not running';
+  END IF;
+
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = v_round.game_id
+  FOR UPDATE;
+
+  IF v_round.status = 'answering' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM player_answers
+      WHERE round_id = p_round_id AND is_correct = true
+    ) THEN
+      INSERT INTO player_answers (round_id, player_id, answer_text, is_correct)
+      SELECT p_round_id, NULL, q.correct_answer, true
+      FROM questions q
+      WHERE q.id = v_round.question_id;
+    END IF;
+
+    -- update_timer_on_voting sets the game's voting timer (and lifts a pause)
+    UPDATE game_rounds
+    SET status = 'voting'
+    WHERE id = p_round_id
+    RETURNING * INTO v_round;
+  ELSE
+    UPDATE game_rounds
+    SET status = 'completed',
+        paused_at = NULL
+    WHERE id = p_round_id
+    RETURNING * INTO v_round;
+
+    PERFORM calculate_and_update_scores(p_round_id, v_game.id);
+
+    IF v_game.current_round + 1 > v_game.round_count THEN
+      UPDATE games SET status = 'finished' WHERE id = v_game.id;
+    ELSE
+      UPDATE games SET current_round = v_game.current_round + 1 WHERE id = v_game.id;
+    END IF;
+  END IF;
+
+  RAISE NOTICE '⏩ Host advanced round % of game % to %', v_round.round_number, v_game.code, v_round.status;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION advance_round_now IS 'Moves a running round to its next phase without waiting for every contestant, in a game owned by the caller.';
+
+GRANT EXECUTE ON FUNCTION advance_round_now TO authenticated;
+
+-- ============================================================================
+-- RPC: Create Rematch
+-- ============================================================================
+-- Same contract as add_content_filter.sql; the rematch keeps the timers.
+
+CREATE OR REPLACE FUNCTION create_rematch(p_game_id UUID, p_code VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+  v_auth_user_id UUID;
+  v_game RECORD;
+  v_new_game_id UUID;
+  v_host_id UUID;
+  v_captain_id UUID;
+BEGIN
+  v_auth_user_id := auth.uid();
+
+  IF v_auth_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Lock the finished game so concurrent calls serialize
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id
+  FOR UPDATE;
+
+  IF v_game IS NULL OR v_game.auth_host_id IS DISTINCT FROM v_auth_user_id THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.status <> 'finished' THEN
+    RAISE EXCEPTION 'Game is not finished';
+  END IF;
+
+  IF v_game.rematch_game_id IS NOT NULL THEN
+    RETURN v_game.rematch_game_id;
+  END IF;
+
+  IF NOT is_host_subscription_active(v_auth_user_id) THEN
+    RAISE EXCEPTION 'Host subscription required';
+  END IF;
+
+  INSERT INTO games (
+    code,
+    status,
+    round_count,
+    max_players,
+    question_pack_ids,
+    scoring_rules,
+    multiplier_rounds,
+    team_count,
+    content_filter,
+    answer_timer,
+    voting_timer,
+    auth_host_id
+  ) VALUES (
+    p_code,
+    'waiting',
+    v_game.round_count,
+    v_game.max_players,
+    v_game.question_pack_ids,
+    v_game.scoring_rules,
+    v_game.multiplier_rounds,
+    v_game.team_count,
+    v_game.content_filter,
+    v_game.answer_timer,
+    v_game.voting_timer,
+    v_auth_user_id
+  )
+  RETURNING id INTO v_new_game_id;
+
+  -- Carry over everyone still connected with a fresh score
+  INSERT INTO players (
+    game_id,
+    user_name,
+    avatar_color,
+    is_host,
+    role,
+    team,
+    previous_player_id
+  )
+  SELECT
+    v_new_game_id,
+    p.user_name,
+    p.avatar_color,
+    p.is_host,
+    p.role,
+    p.team,
+    p.id
+  FROM players p
+  WHERE p.game_id = p_game_id
+    AND p.connection_status = 'connected'
+  ORDER BY p.joined_at;
+
+  SELECT id INTO v_host_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND previous_player_id = v_game.host_id;
+
+  SELECT id INTO v_captain_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND role = 'player'
+    AND previous_player_id = v_game.phase_captain_id;
+
+  UPDATE games
+  SET host_id = v_host_id,
+      phase_captain_id = COALESCE(v_captain_id, v_host_id)
+  WHERE id = v_new_game_id;
+
+  -- Broadcasts the rematch to every client still on the results screen
+  UPDATE games
+  SET rematch_game_id = v_new_game_id,
+      updated_at = NOW()
+  WHERE id = p_game_id;
+
+  RETURN v_new_game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_rematch IS 'Creates a waiting game with the same settings and connected players as a finished game owned by the caller.';
@@ -0,0 +1,494 @@
+-- Migration: Question selection by category and difficulty
+-- Purpose: Rounds used to draw any unused question. Hosts can now narrow the
+-- pool to chosen categories and difficulties, ramp difficulty from easy to hard
+-- over the game, and turn on a Fibbage-style category pick where the round's
+-- chooser gets three random categories before the question is drawn. All
+-- drawing goes through pick_question so new rounds, category picks and skipped
+-- questions follow the same rules. Filters are loosened (difficulty first, then
+-- category) rather than ending the game when the pool runs dry.
+
+-- ============================================================================
+-- GAME SETTINGS
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS question_categories TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS question_difficulties TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (question_difficulties <@ ARRAY['easy', 'medium', 'hard']),
+  ADD COLUMN IF NOT EXISTS difficulty_ramp BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS category_picking BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN games.question_categories IS 'Categories this game draws from (empty = mixed)';
+COMMENT ON COLUMN games.question_difficulties IS 'Difficulties this game draws from (empty = mixed)';
+COMMENT ON COLUMN games.difficulty_ramp IS 'Go from easy to hard over the rounds (overrides question_difficulties)';
+COMMENT ON COLUMN games.category_picking IS 'Each round starts with its chooser picking one of three categories';
+
+-- ============================================================================
+-- CATEGORY PICK ON ROUNDS
+-- ============================================================================
+-- A round waiting for its chooser has status 'choosing' and no question yet.
+
+ALTER TABLE game_rounds
+  ALTER COLUMN question_id DROP NOT NULL;
+
+ALTER TABLE game_rounds
+  DROP CONSTRAINT IF EXISTS game_rounds_status_check;
+
+ALTER TABLE game_rounds
+  ADD CONSTRAINT game_rounds_status_check
+  CHECK (status IN ('pending', 'choosing', 'answering', 'voting', 'completed'));
+
+ALTER TABLE game_rounds
+  ADD COLUMN IF NOT EXISTS category TEXT,
+  ADD COLUMN IF NOT EXISTS category_options TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS chooser_id UUID REFERENCES players(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN game_rounds.category IS 'Category picked by the chooser (NULL when the round had no pick)';
+COMMENT ON COLUMN game_rounds.category_options IS 'Categories offered to the chooser';
+COMMENT ON COLUMN game_rounds.chooser_id IS 'Player whose turn it is to pick the category';
+
+-- ============================================================================
+-- QUESTION POOL
+-- ============================================================================
+
+-- Same pool as RoundService.createRound used to query: the game's packs, or the
+-- global pool in the given language, minus questions already used or skipped
+CREATE OR REPLACE FUNCTION game_question_pool(p_game_id UUID, p_language VARCHAR DEFAULT 'ar')
+RETURNS SETOF questions AS $$
+  SELECT q.*
+  FROM questions q
+  JOIN games g ON g.id = p_game_id
+  WHERE (
+      (COALESCE(array_length(g.question_pack_ids, 1), 0) > 0 AND q.pack_id = ANY(g.question_pack_ids))
+      OR (COALESCE(array_length(g.question_pack_ids, 1), 0) = 0 AND q.pack_id IS NULL AND q.language = p_language)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM game_rounds gr
+      WHERE gr.game_id = p_game_id
+        AND (gr.question_id = q.id OR q.id = ANY(gr.skipped_question_ids))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION game_question_pool IS 'Unused questions a game can still draw from';
+
+-- Returns pack questions with their answers, so only the definer functions may call it
+REVOKE EXECUTE ON FUNCTION game_question_pool FROM PUBLIC, anon, authenticated;
+
+-- Easy for the first third of the game, medium for the second, hard for the rest
+CREATE OR REPLACE FUNCTION ramp_difficulty(p_round_number INTEGER, p_round_count INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+  v_progress NUMERIC;
+BEGIN
+  IF p_round_count <= 1 THEN
+    RETURN 'medium';
+  END IF;
+
+  v_progress := (p_round_number - 1)::NUMERIC / (p_round_count - 1);
+
+  IF v_progress < 1.0 / 3 THEN
+    RETURN 'easy';
+  ELSIF v_progress < 2.0 / 3 THEN
+    RETURN 'medium';
+  END IF;
+
+  RETURN 'hard';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- RPC: Pick Question
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION pick_question(
+  p_game_id UUID,
+  p_round_number INTEGER,
+  p_category TEXT DEFAULT NULL,
+  p_language VARCHAR DEFAULT 'ar'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_game RECORD;
+  v_categories TEXT[];
+  v_difficulties TEXT[];
+  v_question_id UUID;
+BEGIN
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id;
+
+  IF v_game IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- A picked category replaces the host's category list for the round
+  v_categories := CASE
+    WHEN p_category IS NOT NULL THEN ARRAY[p_category]
+    ELSE NULLIF(v_game.question_categories, '{}'::TEXT[])
+  END;
+
+  v_difficulties := CASE
+    WHEN v_game.difficulty_ramp THEN ARRAY[ramp_difficulty(p_round_number, v_game.round_count)]
+    ELSE NULLIF(v_game.question_difficulties, '{}'::TEXT[])
+  END;
+
+  -- Pass 1 applies every filter, pass 2 drops difficulty, pass 3 drops category
+  FOR v_pass IN 1..3 LOOP
+    SELECT q.id INTO v_question_id
+    FROM game_question_pool(p_game_id, p_language) q
+    WHERE (v_categories IS NULL OR v_pass = 3 OR q.category = ANY(v_categories))
+      AND (v_difficulties IS NULL OR v_pass >= 2 OR q.difficulty = ANY(v_difficulties))
+    ORDER BY random()
+    LIMIT 1;
+
+    EXIT WHEN v_question_id IS NOT NULL;
+  END LOOP;
+
+  RETURN v_question_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION pick_question IS 'Draws an unused question for a round following the game''s category and difficulty settings (NULL when the pool is empty).';
+
+-- ============================================================================
+-- RPC: Category Options
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION pick_category_options(p_game_id UUID, p_count INTEGER DEFAULT 3)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_host_categories TEXT[];
+  v_options TEXT[];
+BEGIN
+  SELECT NULLIF(question_categories, '{}'::TEXT[]) INTO v_host_categories
+  FROM games
+  WHERE id = p_game_id;
+
+  SELECT COALESCE(array_agg(c.category), '{}')
+  INTO v_options
+  FROM (
+    SELECT DISTINCT pool.category
+    FROM game_question_pool(p_game_id) pool
+    WHERE pool.category IS NOT NULL
+      AND (v_host_categories IS NULL OR pool.category = ANY(v_host_categories))
+    ORDER BY random()
+    LIMIT p_count
+  ) c;
+
+  RETURN v_options;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION pick_category_options IS 'Random categories that still have unused questions, offered to the round''s chooser.';
+
+-- ============================================================================
+-- RPC: Choose Category
+-- ============================================================================
+-- Called by the chooser with their pick, or by anyone with NULL once the pick
+-- has timed out (a random offered category is used). Calling it after the pick
+-- returns the round unchanged so late or repeated calls are harmless.
+-- Players join without an account, so the chooser is recognised like a banned
+-- player is: by the device that joined with the chooser's player row, or by the
+-- signed-in host when the host is choosing.
+
+CREATE OR REPLACE FUNCTION choose_category(
+  p_round_id UUID,
+  p_device_id TEXT,
+  p_category TEXT DEFAULT NULL
+)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+  v_chooser RECORD;
+  v_game RECORD;
+  v_category TEXT;
+  v_question_id UUID;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF v_round.status <> 'choosing' THEN
+    RETURN v_round;
+  END IF;
+
+  IF p_category IS NULL THEN
+    -- Same grace as force_advance_round
+    IF v_round.timer_starts_at + make_interval(secs => v_round.timer_duration - 2) > NOW() THEN
+      RAISE EXCEPTION 'Category choice has not timed out';
+    END IF;
+
+    v_category := v_round.category_options[1 + floor(random() * array_length(v_round.category_options, 1))::INTEGER];
+  ELSE
+    SELECT * INTO v_chooser
+    FROM players
+    WHERE id = v_round.chooser_id;
+
+    IF v_round.chooser_id IS NOT NULL AND NOT COALESCE(
+      (p_device_id IS NOT NULL AND v_chooser.device_id = p_device_id)
+      OR (v_chooser.is_host AND user_owns_game(v_round.game_id)),
+      false
+    ) THEN
+      RAISE EXCEPTION 'Only the chooser can pick the category'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NOT p_category = ANY(v_round.category_options) THEN
+      RAISE EXCEPTION 'Category was not offered'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_category := p_category;
+  END IF;
+
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = v_round.game_id;
+
+  v_question_id := pick_question(v_round.game_id, v_round.round_number, v_category);
+
+  IF v_question_id IS NULL THEN
+    RAISE EXCEPTION 'No questions available'
+      USING HINT = 'NO_QUESTIONS';
+  END IF;
+
+  UPDATE game_rounds
+  SET question_id = v_question_id,
+      category = v_category,
+      status = 'answering',
+      timer_starts_at = NOW(),
+      timer_duration = v_game.answer_timer
+  WHERE id = p_round_id
+  RETURNING * INTO v_round;
+
+  RAISE NOTICE '🗂️ Category % picked for round % of game %', v_category, v_round.round_number, v_game.code;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION choose_category IS 'Draws the question for a round waiting on its category pick and starts the answering phase.';
+
+-- ============================================================================
+-- RPC: Question Categories (game creation)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_question_categories(p_pack_ids UUID[] DEFAULT '{}', p_language VARCHAR DEFAULT 'ar')
+RETURNS TABLE(category TEXT, question_count BIGINT) AS $$
+  SELECT q.category::TEXT, COUNT(*) AS question_count
+  FROM questions q
+  WHERE q.category IS NOT NULL
+    AND (
+      (COALESCE(array_length(p_pack_ids, 1), 0) > 0 AND q.pack_id = ANY(p_pack_ids))
+      OR (COALESCE(array_length(p_pack_ids, 1), 0) = 0 AND q.pack_id IS NULL AND q.language = p_language)
+    )
+  GROUP BY q.category
+  ORDER BY question_count DESC, q.category;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_question_categories IS 'Categories in the global pool or the given packs, with question counts (runs with the caller''s pack access).';
+
+-- ============================================================================
+-- RPC: Skip Question
+-- ============================================================================
+-- Same contract as add_game_timers.sql; the replacement comes from pick_question
+-- and stays in the round's picked category when there is one.
+
+CREATE OR REPLACE FUNCTION skip_question(p_round_id UUID)
+RETURNS game_rounds AS $$
+DECLARE
+  v_round game_rounds;
+  v_game RECORD;
+  v_language VARCHAR(2);
+  v_question_id UUID;
+BEGIN
+  SELECT * INTO v_round
+  FROM game_rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT user_owns_game(v_round.game_id) THEN
+    RAISE EXCEPTION 'Only the host can control the round';
+  END IF;
+
+  IF v_round.status <> 'answering' THEN
+    RAISE EXCEPTION 'Questions can only be skipped while players are answering';
+  END IF;
+
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = v_round.game_id;
+
+  SELECT language INTO v_language
+  FROM questions
+  WHERE id = v_round.question_id;
+
+  v_question_id := pick_question(v_round.game_id, v_round.round_number, v_round.category, COALESCE(v_language, 'ar'));
+
+  IF v_question_id IS NULL THEN
+    RAISE EXCEPTION 'No questions available'
+      USING HINT = 'NO_QUESTIONS';
+  END IF;
+
+  DELETE FROM player_answers WHERE round_id = p_round_id;
+
+  UPDATE game_rounds
+  SET question_id = v_question_id,
+      skipped_question_ids = array_append(skipped_question_ids, question_id),
+      timer_starts_at = NOW(),
+      timer_duration = v_game.answer_timer,
+      paused_at = NULL
+  WHERE id = p_round_id
+  RETURNING * INTO v_round;
+
+  RAISE NOTICE '⏭️ Skipped question in round % of game %', v_round.round_number, v_game.code;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION skip_question IS 'Replaces the question of a round that is still answering with a fresh one, in a game owned by the caller.';
+
+-- ============================================================================
+-- RPC: Create Rematch
+-- ============================================================================
+-- Same contract as add_game_timers.sql; the rematch keeps the question selection.
+
+CREATE OR REPLACE FUNCTION create_rematch(p_game_id UUID, p_code VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+  v_auth_user_id UUID;
+  v_game RECORD;
+  v_new_game_id UUID;
+  v_host_id UUID;
+  v_captain_id UUID;
+BEGIN
+  v_auth_user_id := auth.uid();
+
+  IF v_auth_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Lock the finished game so concurrent calls serialize
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id
+  FOR UPDATE;
+
+  IF v_game IS NULL OR v_game.auth_host_id IS DISTINCT FROM v_auth_user_id THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.status <> 'finished' THEN
+    RAISE EXCEPTION 'Game is not finished';
+  END IF;
+
+  IF v_game.rematch_game_id IS NOT NULL THEN
+    RETURN v_game.rematch_game_id;
+  END IF;
+
+  IF NOT is_host_subscription_active(v_auth_user_id) THEN
+    RAISE EXCEPTION 'Host subscription required';
+  END IF;
+
+  INSERT INTO games (
+    code,
+    status,
+    round_count,
+    max_players,
+    question_pack_ids,
+    scoring_rules,
+    multiplier_rounds,
+    team_count,
+    content_filter,
+    answer_timer,
+    voting_timer,
+    question_categories,
+    question_difficulties,
+    difficulty_ramp,
+    category_picking,
+    auth_host_id
+  ) VALUES (
+    p_code,
+    'waiting',
+    v_game.round_count,
+    v_game.max_players,
+    v_game.question_pack_ids,
+    v_game.scoring_rules,
+    v_game.multiplier_rounds,
+    v_game.team_count,
+    v_game.content_filter,
+    v_game.answer_timer,
+    v_game.voting_timer,
+    v_game.question_categories,
+    v_game.question_difficulties,
+    v_game.difficulty_ramp,
+    v_game.category_picking,
+    v_auth_user_id
+  )
+  RETURNING id INTO v_new_game_id;
+
+  -- Carry over everyone still connected with a fresh score
+  INSERT INTO players (
+    game_id,
+    user_name,
+    avatar_color,
+    is_host,
+    role,
+    team,
+    previous_player_id
+  )
+  SELECT
+    v_new_game_id,
+    p.user_name,
+    p.avatar_color,
+    p.is_host,
+    p.role,
+    p.team,
+    p.id
+  FROM players p
+  WHERE p.game_id = p_game_id
+    AND p.connection_status = 'connected'
+  ORDER BY p.joined_at;
+
+  SELECT id INTO v_host_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND previous_player_id = v_game.host_id;
+
+  SELECT id INTO v_captain_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND role = 'player'
+    AND previous_player_id = v_game.phase_captain_id;
+
+  UPDATE games
+  SET host_id = v_host_id,
+      phase_captain_id = COALESCE(v_captain_id, v_host_id)
+  WHERE id = v_new_game_id;
+
+  -- Broadcasts the rematch to every client still on the results screen
+  UPDATE games
+  SET rematch_game_id = v_new_game_id,
+      updated_at = NOW()
+  WHERE id = p_game_id;
+
+  RETURN v_new_game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_rematch IS 'Creates a waiting game with the same settings and connected players as a finished game owned by the caller.';
+
+GRANT EXECUTE ON FUNCTION pick_question TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION pick_category_options TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION choose_category TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_question_categories TO authenticated;
@@ -0,0 +1,196 @@
+-- Migration: Seen questions
+-- Purpose: pick_question only skipped questions used in the current game, so
+-- groups playing every week kept getting the same questions. Every question a
+-- round serves is now recorded against the game's host account and the devices
+-- of the connected players. pick_question prefers questions none of them has
+-- seen, then the ones seen longest ago, so a fully seen pack still plays. A game
+-- that runs out of questions altogether repeats its oldest round instead of
+-- failing. Hosts can clear their history from the profile page.
+
+-- ============================================================================
+-- SEEN QUESTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS seen_questions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  auth_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT,
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK ((auth_user_id IS NULL) <> (device_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seen_questions_host
+  ON seen_questions(auth_user_id, question_id) WHERE auth_user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seen_questions_device
+  ON seen_questions(device_id, question_id) WHERE device_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_seen_questions_question_id ON seen_questions(question_id);
+
+COMMENT ON TABLE seen_questions IS 'Questions served to a host account or a player device (one row per viewer and question)';
+
+ALTER TABLE seen_questions ENABLE ROW LEVEL SECURITY;
+
+-- Hosts can count their own history; rows are written by the trigger only
+CREATE POLICY "Hosts can view their seen questions"
+ON seen_questions
+FOR SELECT
+TO authenticated
+USING (auth_user_id = auth.uid());
+
+-- ============================================================================
+-- RECORD SERVED QUESTIONS
+-- ============================================================================
+-- Fires for new rounds, category picks and skips alike.
+
+CREATE OR REPLACE FUNCTION record_seen_question()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_auth_host_id UUID;
+BEGIN
+  SELECT auth_host_id INTO v_auth_host_id
+  FROM games
+  WHERE id = NEW.game_id;
+
+  IF v_auth_host_id IS NOT NULL THEN
+    INSERT INTO seen_questions (auth_user_id, question_id)
+    VALUES (v_auth_host_id, NEW.question_id)
+    ON CONFLICT (auth_user_id, question_id) WHERE auth_user_id IS NOT NULL
+    DO UPDATE SET seen_at = NOW();
+  END IF;
+
+  INSERT INTO seen_questions (device_id, question_id)
+  SELECT DISTINCT p.device_id, NEW.question_id
+  FROM players p
+  WHERE p.game_id = NEW.game_id
+    AND p.device_id IS NOT NULL
+    AND p.connection_status = 'connected'
+  ON CONFLICT (device_id, question_id) WHERE device_id IS NOT NULL
+  DO UPDATE SET seen_at = NOW();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_seen_question_trigger ON game_rounds;
+
+CREATE TRIGGER record_seen_question_trigger
+  AFTER INSERT OR UPDATE OF question_id ON game_rounds
+  FOR EACH ROW
+  WHEN (NEW.question_id IS NOT NULL)
+  EXECUTE FUNCTION record_seen_question();
+
+-- ============================================================================
+-- RPC: Pick Question
+-- ============================================================================
+-- Same contract as add_question_selection.sql; unseen questions are preferred
+-- and an exhausted game repeats its oldest question instead of returning NULL
+-- (NULL now means the pool has no questions at all).
+
+CREATE OR REPLACE FUNCTION pick_question(
+  p_game_id UUID,
+  p_round_number INTEGER,
+  p_category TEXT DEFAULT NULL,
+  p_language VARCHAR DEFAULT 'ar'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_game RECORD;
+  v_categories TEXT[];
+  v_difficulties TEXT[];
+  v_device_ids TEXT[];
+  v_question_id UUID;
+BEGIN
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id;
+
+  IF v_game IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- A picked category replaces the host's category list for the round
+  v_categories := CASE
+    WHEN p_category IS NOT NULL THEN ARRAY[p_category]
+    ELSE NULLIF(v_game.question_categories, '{}'::TEXT[])
+  END;
+
+  v_difficulties := CASE
+    WHEN v_game.difficulty_ramp THEN ARRAY[ramp_difficulty(p_round_number, v_game.round_count)]
+    ELSE NULLIF(v_game.question_difficulties, '{}'::TEXT[])
+  END;
+
+  SELECT COALESCE(array_agg(device_id), '{}') INTO v_device_ids
+  FROM players
+  WHERE game_id = p_game_id
+    AND device_id IS NOT NULL
+    AND connection_status = 'connected';
+
+  -- Pass 1 applies every filter, pass 2 drops difficulty, pass 3 drops category.
+  -- Within a pass, questions nobody here has seen come first, then the ones seen longest ago.
+  FOR v_pass IN 1..3 LOOP
+    SELECT q.id INTO v_question_id
+    FROM game_question_pool(p_game_id, p_language) q
+    LEFT JOIN LATERAL (
+      SELECT MAX(sq.seen_at) AS seen_at
+      FROM seen_questions sq
+      WHERE sq.question_id = q.id
+        AND (sq.auth_user_id = v_game.auth_host_id OR sq.device_id = ANY(v_device_ids))
+    ) seen ON TRUE
+    WHERE (v_categories IS NULL OR v_pass = 3 OR q.category = ANY(v_categories))
+      AND (v_difficulties IS NULL OR v_pass >= 2 OR q.difficulty = ANY(v_difficulties))
+    ORDER BY seen.seen_at NULLS FIRST, random()
+    LIMIT 1;
+
+    EXIT WHEN v_question_id IS NOT NULL;
+  END LOOP;
+
+  -- Every question in the pool was already played this game: repeat the one played the
+  -- fewest times and longest ago, avoiding this round's and the last round's question
+  IF v_question_id IS NULL THEN
+    SELECT gr.question_id INTO v_question_id
+    FROM game_rounds gr
+    WHERE gr.game_id = p_game_id
+      AND gr.question_id IS NOT NULL
+    GROUP BY gr.question_id
+    ORDER BY
+      bool_or(gr.round_number >= p_round_number - 1),
+      COUNT(*),
+      MAX(gr.round_number)
+    LIMIT 1;
+  END IF;
+
+  RETURN v_question_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION pick_question IS 'Draws a question for a round following the game''s category and difficulty settings, preferring questions the host and players have not seen (NULL when the pool is empty).';
+
+-- ============================================================================
+-- RPC: Reset Seen Questions
+-- ============================================================================
+-- Device rows aren't tied to an account (any client can claim any device id),
+-- so only the caller's own account history is cleared.
+
+CREATE OR REPLACE FUNCTION reset_seen_questions()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM seen_questions
+  WHERE auth_user_id = auth.uid();
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  RAISE NOTICE '🔄 Cleared % seen questions', v_deleted;
+
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION reset_seen_questions IS 'Forgets the questions served to the caller''s account, so they can be drawn first again.';
+
+GRANT EXECUTE ON FUNCTION reset_seen_questions TO authenticated;
@@ -0,0 +1,260 @@
+-- Migration: Game language
+-- Purpose: Questions already carry a language and pick_question takes one, but
+-- every game was played with the 'ar' default. Games now store the language
+-- chosen at creation; the question pool falls back to it whenever no language
+-- is passed, so new rounds, category options, category picks and rematches all
+-- draw questions in the game's language. Clients also use it as the default UI
+-- language for players who have not picked one.
+
+-- ============================================================================
+-- GAME SETTINGS
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS language VARCHAR(2) NOT NULL DEFAULT 'ar'
+    CHECK (language IN ('ar', 'en'));
+
+COMMENT ON COLUMN games.language IS 'Language of the global-pool questions (packs keep their own) and default UI language';
+
+-- ============================================================================
+-- QUESTION POOL
+-- ============================================================================
+-- Same contract as add_question_selection.sql; a NULL language means the game's.
+
+CREATE OR REPLACE FUNCTION game_question_pool(p_game_id UUID, p_language VARCHAR DEFAULT NULL)
+RETURNS SETOF questions AS $$
+  SELECT q.*
+  FROM questions q
+  JOIN games g ON g.id = p_game_id
+  WHERE (
+      (COALESCE(array_length(g.question_pack_ids, 1), 0) > 0 AND q.pack_id = ANY(g.question_pack_ids))
+      OR (COALESCE(array_length(g.question_pack_ids, 1), 0) = 0 AND q.pack_id IS NULL AND q.language = COALESCE(p_language, g.language))
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM game_rounds gr
+      WHERE gr.game_id = p_game_id
+        AND (gr.question_id = q.id OR q.id = ANY(gr.skipped_question_ids))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION game_question_pool IS 'Unused questions a game can still draw from (in the game''s language unless one is given)';
+
+-- Returns pack questions with their answers, so only the definer functions may call it
+REVOKE EXECUTE ON FUNCTION game_question_pool FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- RPC: Pick Question
+-- ============================================================================
+-- Same contract as add_seen_questions.sql; the language now defaults to the
+-- game's instead of 'ar' (choose_category relies on the default).
+
+CREATE OR REPLACE FUNCTION pick_question(
+  p_game_id UUID,
+  p_round_number INTEGER,
+  p_category TEXT DEFAULT NULL,
+  p_language VARCHAR DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_game RECORD;
+  v_categories TEXT[];
+  v_difficulties TEXT[];
+  v_device_ids TEXT[];
+  v_question_id UUID;
+BEGIN
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id;
+
+  IF v_game IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- A picked category replaces the host's category list for the round
+  v_categories := CASE
+    WHEN p_category IS NOT NULL THEN ARRAY[p_category]
+    ELSE NULLIF(v_game.question_categories, '{}'::TEXT[])
+  END;
+
+  v_difficulties := CASE
+    WHEN v_game.difficulty_ramp THEN ARRAY[ramp_difficulty(p_round_number, v_game.round_count)]
+    ELSE NULLIF(v_game.question_difficulties, '{}'::TEXT[])
+  END;
+
+  SELECT COALESCE(array_agg(device_id), '{}') INTO v_device_ids
+  FROM players
+  WHERE game_id = p_game_id
+    AND device_id IS NOT NULL
+    AND connection_status = 'connected';
+
+  -- Pass 1 applies every filter, pass 2 drops difficulty, pass 3 drops category.
+  -- Within a pass, questions nobody here has seen come first, then the ones seen longest ago.
+  FOR v_pass IN 1..3 LOOP
+    SELECT q.id INTO v_question_id
+    FROM game_question_pool(p_game_id, p_language) q
+    LEFT JOIN LATERAL (
+      SELECT MAX(sq.seen_at) AS seen_at
+      FROM seen_questions sq
+      WHERE sq.question_id = q.id
+        AND (sq.auth_user_id = v_game.auth_host_id OR sq.device_id = ANY(v_device_ids))
+    ) seen ON TRUE
+    WHERE (v_categories IS NULL OR v_pass = 3 OR q.category = ANY(v_categories))
+      AND (v_difficulties IS NULL OR v_pass >= 2 OR q.difficulty = ANY(v_difficulties))
+    ORDER BY seen.seen_at NULLS FIRST, random()
+    LIMIT 1;
+
+    EXIT WHEN v_question_id IS NOT NULL;
+  END LOOP;
+
+  -- Every question in the pool was already played this game: repeat the one played the
+  -- fewest times and longest ago, avoiding this round's and the last round's question
+  IF v_question_id IS NULL THEN
+    SELECT gr.question_id INTO v_question_id
+    FROM game_rounds gr
+    WHERE gr.game_id = p_game_id
+      AND gr.question_id IS NOT NULL
+    GROUP BY gr.question_id
+    ORDER BY
+      bool_or(gr.round_number >= p_round_number - 1),
+      COUNT(*),
+      MAX(gr.round_number)
+    LIMIT 1;
+  END IF;
+
+  RETURN v_question_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION pick_question IS 'Draws a question for a round following the game''s language, category and difficulty settings, preferring questions the host and players have not seen (NULL when the pool is empty).';
+
+-- ============================================================================
+-- RPC: Create Rematch
+-- ============================================================================
+-- Same contract as add_question_selection.sql; the rematch keeps the language.
+
+CREATE OR REPLACE FUNCTION create_rematch(p_game_id UUID, p_code VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+  v_auth_user_id UUID;
+  v_game RECORD;
+  v_new_game_id UUID;
+  v_host_id UUID;
+  v_captain_id UUID;
+BEGIN
+  v_auth_user_id := auth.uid();
+
+  IF v_auth_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Lock the finished game so concurrent calls serialize
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id
+  FOR UPDATE;
+
+  IF v_game IS NULL OR v_game.auth_host_id IS DISTINCT FROM v_auth_user_id THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.status <> 'finished' THEN
+    RAISE EXCEPTION 'Game is not finished';
+  END IF;
+
+  IF v_game.rematch_game_id IS NOT NULL THEN
+    RETURN v_game.rematch_game_id;
+  END IF;
+
+  IF NOT is_host_subscription_active(v_auth_user_id) THEN
+    RAISE EXCEPTION 'Host subscription required';
+  END IF;
+
+  INSERT INTO games (
+    code,
+    status,
+    round_count,
+    max_players,
+    question_pack_ids,
+    scoring_rules,
+    multiplier_rounds,
+    team_count,
+    content_filter,
+    answer_timer,
+    voting_timer,
+    question_categories,
+    question_difficulties,
+    difficulty_ramp,
+    category_picking,
+    language,
+    auth_host_id
+  ) VALUES (
+    p_code,
+    'waiting',
+    v_game.round_count,
+    v_game.max_players,
+    v_game.question_pack_ids,
+    v_game.scoring_rules,
+    v_game.multiplier_rounds,
+    v_game.team_count,
+    v_game.content_filter,
+    v_game.answer_timer,
+    v_game.voting_timer,
+    v_game.question_categories,
+    v_game.question_difficulties,
+    v_game.difficulty_ramp,
+    v_game.category_picking,
+    v_game.language,
+    v_auth_user_id
+  )
+  RETURNING id INTO v_new_game_id;
+
+  -- Carry over everyone still connected with a fresh score
+  INSERT INTO players (
+    game_id,
+    user_name,
+    avatar_color,
+    is_host,
+    role,
+    team,
+    previous_player_id
+  )
+  SELECT
+    v_new_game_id,
+    p.user_name,
+    p.avatar_color,
+    p.is_host,
+    p.role,
+    p.team,
+    p.id
+  FROM players p
+  WHERE p.game_id = p_game_id
+    AND p.connection_status = 'connected'
+  ORDER BY p.joined_at;
+
+  SELECT id INTO v_host_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND previous_player_id = v_game.host_id;
+
+  SELECT id INTO v_captain_id
+  FROM players
+  WHERE game_id = v_new_game_id
+    AND role = 'player'
+    AND previous_player_id = v_game.phase_captain_id;
+
+  UPDATE games
+  SET host_id = v_host_id,
+      phase_captain_id = COALESCE(v_captain_id, v_host_id)
+  WHERE id = v_new_game_id;
+
+  -- Broadcasts the rematch to every client still on the results screen
+  UPDATE games
+  SET rematch_game_id = v_new_game_id,
+      updated_at = NOW()
+  WHERE id = p_game_id;
+
+  RETURN v_new_game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_rematch IS 'Creates a waiting game with the same settings and connected players as a finished game owned by the caller.';
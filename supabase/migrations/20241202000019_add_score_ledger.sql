@@ -0,0 +1,395 @@
+-- Migration: Score ledger
+-- Purpose: calculate_and_update_scores is the only scorer. It now records every
+-- point it hands out in score_ledger (one row per player and reason, the
+-- ScoreResult shape) and is idempotent per round, so a retried or concurrent
+-- call can never add a round's points twice. Clients display the ledger instead
+-- of recomputing scores; calculateRoundScores in utils/scoring.ts mirrors this
+-- function, checked by the parity tests, which run both on the same rounds. The
+-- audience bonuses are read from the game's scoring rules like the others.
+
+-- ============================================================================
+-- SCORE LEDGER TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS score_ledger (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  round_id UUID NOT NULL REFERENCES game_rounds(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  points_earned INTEGER NOT NULL,
+  reason VARCHAR(30) NOT NULL CHECK (reason IN (
+    'correct_answer',
+    'fooled_players',
+    'perfect_fake',
+    'round_winner',
+    'audience_like',
+    'audience_favorite'
+  )),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(round_id, player_id, reason)
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_ledger_game_id ON score_ledger(game_id);
+CREATE INDEX IF NOT EXISTS idx_score_ledger_round_id ON score_ledger(round_id);
+
+COMMENT ON TABLE score_ledger IS 'Points handed out per round, player and reason (written only by calculate_and_update_scores)';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+-- Read-only for clients; calculate_and_update_scores writes as SECURITY DEFINER.
+
+ALTER TABLE score_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Score ledger is viewable by everyone"
+ON score_ledger
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- ============================================================================
+-- AUDIENCE BONUS RULES
+-- ============================================================================
+-- per_like and audience_favorite_bonus are optional (older games use the
+-- GAME_CONFIG.POINTS values) and bounded like the other points.
+
+ALTER TABLE games
+  ADD CONSTRAINT valid_audience_scoring_rules CHECK (
+    COALESCE((scoring_rules->>'per_like')::INTEGER, 0) BETWEEN 0 AND 5000
+    AND COALESCE((scoring_rules->>'audience_favorite_bonus')::INTEGER, 0) BETWEEN 0 AND 5000
+  );
+
+-- ============================================================================
+-- FUNCTION: calculate_and_update_scores
+-- ============================================================================
+-- Same contract as add_team_mode.sql; the rows go to score_ledger instead of a
+-- temp table, and a round that is already in the ledger is returned as is.
+
+CREATE OR REPLACE FUNCTION calculate_and_update_scores(
+  p_round_id UUID,
+  p_game_id UUID
+)
+RETURNS TABLE(player_id UUID, points_earned INTEGER, reason TEXT) AS $$
+#variable_conflict use_column
+DECLARE
+  v_answer RECORD;
+  v_group RECORD;
+  v_vote RECORD;
+  v_player RECORD;
+  v_points INTEGER;
+  v_max_points INTEGER := 0;
+  v_rules JSONB;
+  v_multiplier INTEGER := 1;
+  v_max_audience INTEGER := 0;
+  v_truth_texts TEXT[];
+  v_status VARCHAR;
+BEGIN
+  -- Lock the round to prevent concurrent scoring
+  SELECT gr.status INTO v_status FROM game_rounds gr WHERE gr.id = p_round_id FOR UPDATE;
+
+  -- Scoring during voting would lock in partial scores (later votes would earn nothing)
+  IF v_status IS DISTINCT FROM 'completed' THEN
+    RAISE EXCEPTION 'Only completed rounds can be scored';
+  END IF;
+
+  -- Already scored: never add the points twice
+  IF EXISTS (SELECT 1 FROM score_ledger sl WHERE sl.round_id = p_round_id) THEN
+    RAISE NOTICE '⚠️ Round % already scored', p_round_id;
+    RETURN QUERY
+    SELECT sl.player_id, sl.points_earned, sl.reason::TEXT
+    FROM score_ledger sl
+    WHERE sl.round_id = p_round_id;
+    RETURN;
+  END IF;
+
+  -- Load the game's scoring rules, this round's multiplier and the normalized
+  -- truth (correct and accepted answers)
+  SELECT
+    g.scoring_rules,
+    gr.multiplier,
+    ARRAY(
+      SELECT normalize_answer_text(accepted)
+      FROM unnest(array_prepend(q.correct_answer, q.accepted_answers)) AS accepted
+    )
+  INTO v_rules, v_multiplier, v_truth_texts
+  FROM games g
+  JOIN game_rounds gr ON gr.game_id = g.id
+  JOIN questions q ON q.id = gr.question_id
+  WHERE g.id = p_game_id
+    AND gr.id = p_round_id;
+
+  -- Correct answer: give points to voters who chose it. A fake that is really
+  -- the truth (accepted answers edited after it got past
+  -- reject_fake_matching_truth) counts as correct too, as in calculateRoundScores.
+  FOR v_answer IN
+    SELECT pa.id
+    FROM player_answers pa
+    WHERE pa.round_id = p_round_id
+      AND (pa.is_correct = true OR normalize_answer_text(pa.answer_text) = ANY (v_truth_texts))
+  LOOP
+    INSERT INTO score_ledger (game_id, round_id, player_id, points_earned, reason)
+    SELECT p_game_id, p_round_id, v.voter_id, (v_rules->>'correct_answer')::INTEGER, 'correct_answer'
+    FROM votes v
+    WHERE v.answer_id = v_answer.id;
+  END LOOP;
+
+  -- Fake answers grouped by normalized text (duplicates share one card)
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      ARRAY_REMOVE(ARRAY_AGG(v.voter_id), NULL) AS voter_ids,
+      COUNT(v.id) AS vote_count
+    FROM player_answers pa
+    LEFT JOIN votes v ON v.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+      AND NOT normalize_answer_text(pa.answer_text) = ANY (v_truth_texts)
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.vote_count = 0 THEN
+      -- Perfect fake bonus (no one voted for it)
+      v_points := (v_rules->>'perfect_fake_bonus')::INTEGER;
+
+      IF v_points > 0 THEN
+        INSERT INTO score_ledger (game_id, round_id, player_id, points_earned, reason)
+        SELECT p_game_id, p_round_id, author_id, v_points, 'perfect_fake'
+        FROM unnest(v_group.author_ids) AS author_id;
+      END IF;
+    ELSE
+      -- Points per fooled player, split between duplicate authors.
+      -- Team mode: votes from an author's own teammates don't count.
+      INSERT INTO score_ledger (game_id, round_id, player_id, points_earned, reason)
+      SELECT p_game_id, p_round_id, fooled.author_id, fooled.pts, 'fooled_players'
+      FROM (
+        SELECT
+          a.author_id,
+          ROUND(
+            (COUNT(*) * (v_rules->>'per_fooled_player')::INTEGER)::NUMERIC
+            / array_length(v_group.author_ids, 1)
+          )::INTEGER AS pts
+        FROM unnest(v_group.author_ids) AS a(author_id)
+        JOIN players ap ON ap.id = a.author_id
+        CROSS JOIN unnest(v_group.voter_ids) AS vt(voter_id)
+        JOIN players vp ON vp.id = vt.voter_id
+        WHERE ap.team IS NULL OR vp.team IS DISTINCT FROM ap.team
+        GROUP BY a.author_id
+      ) fooled
+      WHERE fooled.pts > 0;
+    END IF;
+  END LOOP;
+
+  -- Round winner bonus for the highest single award (ties possible)
+  SELECT COALESCE(MAX(sl.points_earned), 0) INTO v_max_points
+  FROM score_ledger sl
+  WHERE sl.round_id = p_round_id;
+
+  IF v_max_points > 0 THEN
+    INSERT INTO score_ledger (game_id, round_id, player_id, points_earned, reason)
+    SELECT DISTINCT p_game_id, p_round_id, sl.player_id, (v_rules->>'round_winner_bonus')::INTEGER, 'round_winner'
+    FROM score_ledger sl
+    WHERE sl.round_id = p_round_id
+      AND sl.points_earned = v_max_points;
+  END IF;
+
+  -- Double (or triple) points rounds
+  IF v_multiplier <> 1 THEN
+    UPDATE score_ledger sl
+    SET points_earned = sl.points_earned * v_multiplier
+    WHERE sl.round_id = p_round_id;
+    RAISE NOTICE '✖️ Round multiplier x% applied', v_multiplier;
+  END IF;
+
+  -- Audience likes: small bonus per like, split between duplicate authors.
+  -- Added after the multiplier and round winner. Games created before the rule
+  -- was stored use GAME_CONFIG.POINTS.PER_LIKE.
+  FOR v_group IN
+    SELECT
+      ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+      COUNT(al.id) AS like_count
+    FROM player_answers pa
+    LEFT JOIN answer_likes al ON al.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  LOOP
+    IF v_group.like_count > 0 THEN
+      INSERT INTO score_ledger (game_id, round_id, player_id, points_earned, reason)
+      SELECT
+        p_game_id,
+        p_round_id,
+        author_id,
+        ROUND((v_group.like_count * COALESCE((v_rules->>'per_like')::INTEGER, 100))::NUMERIC / array_length(v_group.author_ids, 1)),
+        'audience_like'
+      FROM unnest(v_group.author_ids) AS author_id;
+    END IF;
+  END LOOP;
+
+  -- Audience favorite: the fake(s) most picked by the audience share a bonus,
+  -- split between duplicate authors (GAME_CONFIG.POINTS.AUDIENCE_FAVORITE_BONUS
+  -- for games created before the rule was stored)
+  SELECT COALESCE(MAX(grp.audience_count), 0) INTO v_max_audience
+  FROM (
+    SELECT COUNT(av.id) AS audience_count
+    FROM player_answers pa
+    LEFT JOIN audience_votes av ON av.answer_id = pa.id
+    WHERE pa.round_id = p_round_id
+      AND pa.is_correct = false
+      AND pa.player_id IS NOT NULL
+    GROUP BY normalize_answer_text(pa.answer_text)
+  ) grp;
+
+  IF v_max_audience > 0 THEN
+    FOR v_group IN
+      SELECT
+        ARRAY_AGG(DISTINCT pa.player_id) AS author_ids,
+        COUNT(av.id) AS audience_count
+      FROM player_answers pa
+      LEFT JOIN audience_votes av ON av.answer_id = pa.id
+      WHERE pa.round_id = p_round_id
+        AND pa.is_correct = false
+        AND pa.player_id IS NOT NULL
+      GROUP BY normalize_answer_text(pa.answer_text)
+    LOOP
+      IF v_group.audience_count = v_max_audience THEN
+        INSERT INTO score_ledger (game_id, round_id, player_id, points_earned, reason)
+        SELECT
+          p_game_id,
+          p_round_id,
+          author_id,
+          ROUND(COALESCE((v_rules->>'audience_favorite_bonus')::INTEGER, 500)::NUMERIC / array_length(v_group.author_ids, 1)),
+          'audience_favorite'
+        FROM unnest(v_group.author_ids) AS author_id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Add each player's round total to their score
+  FOR v_player IN
+    SELECT sl.player_id AS p_id, SUM(sl.points_earned) AS total_points
+    FROM score_ledger sl
+    WHERE sl.round_id = p_round_id
+    GROUP BY sl.player_id
+  LOOP
+    UPDATE players p
+    SET score = p.score + v_player.total_points
+    WHERE p.id = v_player.p_id;
+  END LOOP;
+
+  -- Update vote points_earned for display
+  FOR v_vote IN
+    SELECT v.id AS vote_id, COALESCE(SUM(sl.points_earned), 0) AS pts
+    FROM votes v
+    LEFT JOIN score_ledger sl ON sl.round_id = v.round_id AND sl.player_id = v.voter_id
+    WHERE v.round_id = p_round_id
+    GROUP BY v.id
+  LOOP
+    UPDATE votes v
+    SET points_earned = v_vote.pts
+    WHERE v.id = v_vote.vote_id;
+  END LOOP;
+
+  -- Return round scores for display
+  RETURN QUERY
+  SELECT sl.player_id, sl.points_earned, sl.reason::TEXT
+  FROM score_ledger sl
+  WHERE sl.round_id = p_round_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called only by advance_round_if_ready once the round is completed
+REVOKE EXECUTE ON FUNCTION calculate_and_update_scores FROM PUBLIC, anon, authenticated;
+
+-- Its callers run from client inserts (the answer and vote triggers) and from
+-- force_advance_round, so they need the owner's rights to reach it
+ALTER FUNCTION advance_round_if_ready(UUID) SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION force_advance_round(UUID) SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION calculate_and_update_scores IS
+  'Scores a completed round once: writes its score_ledger rows, adds them to player scores and returns them.';
+
+-- ============================================================================
+-- HELPER: game_replay_json
+-- ============================================================================
+-- Same contract as add_game_recap.sql; each round also carries its ledger rows
+-- as 'scores' (an empty array for rounds scored before the ledger existed).
+
+CREATE OR REPLACE FUNCTION game_replay_json(p_game_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_game RECORD;
+BEGIN
+  SELECT * INTO v_game
+  FROM games
+  WHERE id = p_game_id;
+
+  RETURN json_build_object(
+    'game', json_build_object(
+      'id', v_game.id,
+      'code', v_game.code,
+      'created_at', v_game.created_at,
+      'round_count', v_game.round_count,
+      'team_count', v_game.team_count,
+      'scoring_rules', v_game.scoring_rules
+    ),
+    'players', (
+      SELECT COALESCE(json_agg(p ORDER BY p.score DESC), '[]'::json)
+      FROM players p
+      WHERE p.game_id = p_game_id
+    ),
+    'rounds', (
+      SELECT COALESCE(json_agg(
+        json_build_object(
+          'id', gr.id,
+          'round_number', gr.round_number,
+          'multiplier', gr.multiplier,
+          'question', json_build_object(
+            'question_text', q.question_text,
+            'correct_answer', q.correct_answer,
+            'accepted_answers', q.accepted_answers
+          ),
+          'answers', (
+            SELECT COALESCE(json_agg(pa), '[]'::json)
+            FROM player_answers pa
+            WHERE pa.round_id = gr.id
+          ),
+          'votes', (
+            SELECT COALESCE(json_agg(v), '[]'::json)
+            FROM votes v
+            WHERE v.round_id = gr.id
+          ),
+          'likes', (
+            SELECT COALESCE(json_agg(al), '[]'::json)
+            FROM answer_likes al
+            WHERE al.round_id = gr.id
+          ),
+          'audience_votes', (
+            SELECT COALESCE(json_agg(av), '[]'::json)
+            FROM audience_votes av
+            WHERE av.round_id = gr.id
+          ),
+          'scores', (
+            SELECT COALESCE(json_agg(json_build_object(
+              'player_id', sl.player_id,
+              'points_earned', sl.points_earned,
+              'reason', sl.reason
+            )), '[]'::json)
+            FROM score_ledger sl
+            WHERE sl.round_id = gr.id
+          )
+        )
+        ORDER BY gr.round_number
+      ), '[]'::json)
+      FROM game_rounds gr
+      JOIN questions q ON q.id = gr.question_id
+      WHERE gr.game_id = p_game_id
+        AND gr.status = 'completed'
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION game_replay_json FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION game_replay_json IS 'Builds the replay JSON (game, players, completed rounds with their score ledger) used by get_game_replay and get_game_recap.';
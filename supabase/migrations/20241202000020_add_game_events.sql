@@ -0,0 +1,251 @@
+-- Migration: Game event log
+-- Purpose: An append-only, per-game log of state changes with gapless sequence
+-- numbers. Every write the gameplay RPCs and triggers make to games, players,
+-- game_rounds, player_answers and votes appends an event in the same
+-- transaction, so the log is exactly the order the server committed them in.
+-- Clients replay it to rebuild the game deterministically, notice a missed
+-- realtime message by a gap in seq and fetch only that range
+-- (GameEventService / utils/gameEventLog.ts) instead of polling full snapshots.
+
+-- ============================================================================
+-- GAME EVENTS TABLE
+-- ============================================================================
+-- Payloads are the written row (rounds also carry their question), so applying
+-- an event is an upsert and replaying the log from seq 1 rebuilds the game.
+
+CREATE TABLE IF NOT EXISTS game_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  type VARCHAR(30) NOT NULL CHECK (type IN (
+    'game_updated',
+    'player_joined',
+    'player_updated',
+    'player_left',
+    'round_started',
+    'round_updated',
+    'answer_submitted',
+    'answer_removed',
+    'vote_submitted'
+  )),
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(game_id, seq)
+);
+
+COMMENT ON TABLE game_events IS 'Append-only game log, seq is gapless per game (written only by the log_game_event triggers)';
+
+-- Last seq handed out per game. The upsert's row lock is held until commit, so
+-- a game's events commit in seq order and a reader never sees seq n+1 before n.
+CREATE TABLE IF NOT EXISTS game_event_seqs (
+  game_id UUID PRIMARY KEY REFERENCES games(id) ON DELETE CASCADE,
+  last_seq INTEGER NOT NULL
+);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+-- Read-only for clients, like the tables the events come from.
+
+ALTER TABLE game_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_event_seqs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Game events are viewable by everyone"
+ON game_events
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- ============================================================================
+-- FUNCTION: append_game_event
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION append_game_event(
+  p_game_id UUID,
+  p_type TEXT,
+  p_payload JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_seq INTEGER;
+BEGIN
+  -- Cascading deletes of a game remove its rows after the game itself
+  IF NOT EXISTS (SELECT 1 FROM games WHERE id = p_game_id) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO game_event_seqs (game_id, last_seq)
+  VALUES (p_game_id, 1)
+  ON CONFLICT (game_id) DO UPDATE SET last_seq = game_event_seqs.last_seq + 1
+  RETURNING last_seq INTO v_seq;
+
+  INSERT INTO game_events (game_id, seq, type, payload)
+  VALUES (p_game_id, v_seq, p_type, p_payload);
+
+  RETURN v_seq;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the log triggers append; a client-written event would rewrite the game for everyone replaying it
+REVOKE EXECUTE ON FUNCTION append_game_event FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- TRIGGERS: log_game_event
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION log_game_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'games' THEN
+    PERFORM append_game_event(NEW.id, 'game_updated', to_jsonb(NEW));
+
+  ELSIF TG_TABLE_NAME = 'players' THEN
+    IF TG_OP = 'DELETE' THEN
+      PERFORM append_game_event(OLD.game_id, 'player_left', jsonb_build_object('id', OLD.id));
+    ELSE
+      PERFORM append_game_event(
+        NEW.game_id,
+        CASE TG_OP WHEN 'INSERT' THEN 'player_joined' ELSE 'player_updated' END,
+        to_jsonb(NEW)
+      );
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'game_rounds' THEN
+    PERFORM append_game_event(
+      NEW.game_id,
+      CASE TG_OP WHEN 'INSERT' THEN 'round_started' ELSE 'round_updated' END,
+      to_jsonb(NEW) || jsonb_build_object(
+        'question', (SELECT to_jsonb(q) FROM questions q WHERE q.id = NEW.question_id)
+      )
+    );
+
+  ELSIF TG_TABLE_NAME = 'player_answers' THEN
+    IF TG_OP = 'DELETE' THEN
+      -- skip_question clearing the fakes, or a cascade from a deleted player
+      PERFORM append_game_event(
+        (SELECT game_id FROM game_rounds WHERE id = OLD.round_id),
+        'answer_removed',
+        jsonb_build_object('id', OLD.id)
+      );
+    ELSE
+      PERFORM append_game_event(
+        (SELECT game_id FROM game_rounds WHERE id = NEW.round_id),
+        'answer_submitted',
+        to_jsonb(NEW)
+      );
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'votes' THEN
+    PERFORM append_game_event(
+      (SELECT game_id FROM game_rounds WHERE id = NEW.round_id),
+      'vote_submitted',
+      to_jsonb(NEW)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION log_game_event FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS log_game_insert ON games;
+CREATE TRIGGER log_game_insert
+  AFTER INSERT ON games
+  FOR EACH ROW EXECUTE FUNCTION log_game_event();
+
+-- updated_at alone (update_games_updated_at) is not a change worth an event
+DROP TRIGGER IF EXISTS log_game_update ON games;
+CREATE TRIGGER log_game_update
+  AFTER UPDATE ON games
+  FOR EACH ROW
+  WHEN ((to_jsonb(OLD) - 'updated_at') IS DISTINCT FROM (to_jsonb(NEW) - 'updated_at'))
+  EXECUTE FUNCTION log_game_event();
+
+DROP TRIGGER IF EXISTS log_player_insert_delete ON players;
+CREATE TRIGGER log_player_insert_delete
+  AFTER INSERT OR DELETE ON players
+  FOR EACH ROW EXECUTE FUNCTION log_game_event();
+
+-- Heartbeats (update_player_heartbeat) would flood the log
+DROP TRIGGER IF EXISTS log_player_update ON players;
+CREATE TRIGGER log_player_update
+  AFTER UPDATE ON players
+  FOR EACH ROW
+  WHEN ((to_jsonb(OLD) - 'last_heartbeat') IS DISTINCT FROM (to_jsonb(NEW) - 'last_heartbeat'))
+  EXECUTE FUNCTION log_game_event();
+
+DROP TRIGGER IF EXISTS log_round_change ON game_rounds;
+CREATE TRIGGER log_round_change
+  AFTER INSERT OR UPDATE ON game_rounds
+  FOR EACH ROW EXECUTE FUNCTION log_game_event();
+
+DROP TRIGGER IF EXISTS log_answer_insert ON player_answers;
+CREATE TRIGGER log_answer_insert
+  AFTER INSERT ON player_answers
+  FOR EACH ROW EXECUTE FUNCTION log_game_event();
+
+DROP TRIGGER IF EXISTS log_answer_delete ON player_answers;
+CREATE TRIGGER log_answer_delete
+  AFTER DELETE ON player_answers
+  FOR EACH ROW EXECUTE FUNCTION log_game_event();
+
+DROP TRIGGER IF EXISTS log_vote_insert ON votes;
+CREATE TRIGGER log_vote_insert
+  AFTER INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION log_game_event();
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+-- Games still running when this ships get a log that starts with their current
+-- state (game, players, rounds, answers, votes), so clients can replay them too.
+
+WITH running AS (
+  SELECT id FROM games WHERE status <> 'finished'
+),
+current_rows AS (
+  SELECT g.id AS game_id, 1 AS kind, g.created_at AS at, 'game_updated' AS type, to_jsonb(g) AS payload
+  FROM games g JOIN running USING (id)
+  UNION ALL
+  SELECT p.game_id, 2, p.joined_at, 'player_joined', to_jsonb(p)
+  FROM players p JOIN running r ON r.id = p.game_id
+  UNION ALL
+  SELECT gr.game_id, 3, gr.created_at, 'round_started',
+    to_jsonb(gr) || jsonb_build_object('question', (SELECT to_jsonb(q) FROM questions q WHERE q.id = gr.question_id))
+  FROM game_rounds gr JOIN running r ON r.id = gr.game_id
+  UNION ALL
+  SELECT gr.game_id, 4, pa.submitted_at, 'answer_submitted', to_jsonb(pa)
+  FROM player_answers pa JOIN game_rounds gr ON gr.id = pa.round_id JOIN running r ON r.id = gr.game_id
+  UNION ALL
+  SELECT gr.game_id, 5, v.created_at, 'vote_submitted', to_jsonb(v)
+  FROM votes v JOIN game_rounds gr ON gr.id = v.round_id JOIN running r ON r.id = gr.game_id
+),
+numbered AS (
+  SELECT game_id, type, payload,
+    ROW_NUMBER() OVER (PARTITION BY game_id ORDER BY kind, at) AS seq
+  FROM current_rows
+)
+INSERT INTO game_events (game_id, seq, type, payload)
+SELECT game_id, seq, type, payload FROM numbered
+ON CONFLICT (game_id, seq) DO NOTHING;
+
+INSERT INTO game_event_seqs (game_id, last_seq)
+SELECT game_id, MAX(seq) FROM game_events GROUP BY game_id
+ON CONFLICT (game_id) DO UPDATE SET last_seq = EXCLUDED.last_seq;
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+-- Clients follow the log through postgres_changes INSERTs on game_events.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime' AND NOT puballtables)
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'game_events'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE game_events;
+  END IF;
+END $$;